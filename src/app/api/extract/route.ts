@@ -77,11 +77,20 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
+    // PDFs are rendered to page images on the client before extraction
+    // (strategies only accept images)
+    if (file.type === 'application/pdf') {
+      return NextResponse.json(
+        { error: 'PDF files must be rendered to page images before extraction' },
+        { status: 400 }
+      );
+    }
+
     // Validate file type
-    const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/heic', 'application/pdf'];
+    const validTypes = ['image/jpeg', 'image/jpg', 'image/png', 'image/heic'];
     if (!validTypes.includes(file.type)) {
       return NextResponse.json(
-        { error: 'Invalid file type. Supported: JPG, PNG, HEIC, PDF' },
+        { error: 'Invalid file type. Supported: JPG, PNG, HEIC' },
         { status: 400 }
       );
     }
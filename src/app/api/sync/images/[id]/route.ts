@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authorizeSyncRequest,
+  payloadTooLarge,
+  readImage,
+  readImageBody,
+  saveImage,
+  SYNC_CORS_HEADERS,
+} from '@/lib/sync/server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: SYNC_CORS_HEADERS });
+}
+
+/**
+ * GET /api/sync/images/<id>
+ * Download a receipt image stored on the sync server
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = authorizeSyncRequest(request);
+  if (denied) return denied;
+
+  try {
+    const image = await readImage(params.id);
+    if (!image) {
+      return NextResponse.json(
+        { error: 'Image not found' },
+        { status: 404, headers: SYNC_CORS_HEADERS }
+      );
+    }
+    return new NextResponse(new Uint8Array(image.data), {
+      headers: {
+        ...SYNC_CORS_HEADERS,
+        'Content-Type': image.type,
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error: any) {
+    console.error('[Sync API] Error reading image:', error);
+    return NextResponse.json(
+      { error: 'Failed to read image', details: error.message },
+      { status: 500, headers: SYNC_CORS_HEADERS }
+    );
+  }
+}
+
+/**
+ * PUT /api/sync/images/<id>
+ * Upload a receipt image (request body is the image itself)
+ */
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  const denied = authorizeSyncRequest(request);
+  if (denied) return denied;
+
+  try {
+    const data = await readImageBody(request);
+    if (!data) return payloadTooLarge();
+
+    const type = request.headers.get('content-type') || 'application/octet-stream';
+    await saveImage(params.id, data, type);
+    return NextResponse.json({ success: true }, { headers: SYNC_CORS_HEADERS });
+  } catch (error: any) {
+    console.error('[Sync API] Error storing image:', error);
+    return NextResponse.json(
+      { error: 'Failed to store image', details: error.message },
+      { status: 500, headers: SYNC_CORS_HEADERS }
+    );
+  }
+}
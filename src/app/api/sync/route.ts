@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  appendChanges,
+  authorizeSyncRequest,
+  payloadTooLarge,
+  readChanges,
+  readPushBody,
+  SYNC_CORS_HEADERS,
+} from '@/lib/sync/server';
+import type { SyncPullResponse, SyncPushRequest, SyncPushResponse } from '@/types/sync';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: SYNC_CORS_HEADERS });
+}
+
+/**
+ * GET /api/sync?since=<seq>&device=<deviceId>
+ * Changes pushed by other devices after the given sequence number
+ */
+export async function GET(request: NextRequest) {
+  const denied = authorizeSyncRequest(request);
+  if (denied) return denied;
+
+  const since = Number(request.nextUrl.searchParams.get('since') ?? '0');
+  const deviceId = request.nextUrl.searchParams.get('device') ?? '';
+  if (!Number.isInteger(since) || since < 0 || !deviceId) {
+    return NextResponse.json(
+      { error: 'since and device are required' },
+      { status: 400, headers: SYNC_CORS_HEADERS }
+    );
+  }
+
+  try {
+    const result: SyncPullResponse = await readChanges(since, deviceId);
+    return NextResponse.json(result, { headers: SYNC_CORS_HEADERS });
+  } catch (error: any) {
+    console.error('[Sync API] Error reading changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to read changes', details: error.message },
+      { status: 500, headers: SYNC_CORS_HEADERS }
+    );
+  }
+}
+
+/**
+ * POST /api/sync
+ * Append a device's changes to the log
+ */
+export async function POST(request: NextRequest) {
+  const denied = authorizeSyncRequest(request);
+  if (denied) return denied;
+
+  try {
+    const text = await readPushBody(request);
+    if (text === null) return payloadTooLarge();
+
+    const body = JSON.parse(text) as SyncPushRequest;
+    if (!body.deviceId || !Array.isArray(body.changes)) {
+      return NextResponse.json(
+        { error: 'deviceId and changes are required' },
+        { status: 400, headers: SYNC_CORS_HEADERS }
+      );
+    }
+
+    const result: SyncPushResponse = { seq: await appendChanges(body.deviceId, body.changes) };
+    return NextResponse.json(result, { headers: SYNC_CORS_HEADERS });
+  } catch (error: any) {
+    console.error('[Sync API] Error storing changes:', error);
+    return NextResponse.json(
+      { error: 'Failed to store changes', details: error.message },
+      { status: 500, headers: SYNC_CORS_HEADERS }
+    );
+  }
+}
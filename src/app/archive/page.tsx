@@ -0,0 +1,337 @@
+'use client';
+
+import { LanguageSwitcher } from '@/components/shared/LanguageSwitcher';
+import {
+  getReceiptHistory,
+  searchArchive,
+  verifyArchivedReceipt,
+  type ArchiveSearch,
+} from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatChangeValue, getFieldLabelKey } from '@/lib/revisions/labels';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { ArchiveIntegrity, ReceiptHistoryEntry } from '@/types/archive';
+import type { Receipt } from '@/types/receipt';
+import { Archive, ChevronDown, ChevronRight, Search, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Fragment, useEffect, useState } from 'react';
+
+interface SearchForm {
+  dateFrom: string;
+  dateTo: string;
+  amountMin: string;
+  amountMax: string;
+  counterparty: string;
+}
+
+const EMPTY_FORM: SearchForm = {
+  dateFrom: '',
+  dateTo: '',
+  amountMin: '',
+  amountMax: '',
+  counterparty: '',
+};
+
+function toSearch(form: SearchForm): ArchiveSearch {
+  return {
+    dateFrom: form.dateFrom ? new Date(`${form.dateFrom}T00:00:00`) : undefined,
+    dateTo: form.dateTo ? new Date(`${form.dateTo}T00:00:00`) : undefined,
+    amountMin: form.amountMin ? Number(form.amountMin) : undefined,
+    amountMax: form.amountMax ? Number(form.amountMax) : undefined,
+    counterparty: form.counterparty.trim() || undefined,
+  };
+}
+
+export default function ArchivePage() {
+  const router = useRouter();
+  const { t, language } = useI18n();
+  const [form, setForm] = useState<SearchForm>(EMPTY_FORM);
+  const [search, setSearch] = useState<ArchiveSearch>({});
+  const [results, setResults] = useState<Receipt[]>([]);
+  const [integrity, setIntegrity] = useState<Record<string, ArchiveIntegrity>>({});
+  const [isSearching, setIsSearching] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [history, setHistory] = useState<ReceiptHistoryEntry[]>([]);
+
+  // Run the search, then check each result against its seal
+  useEffect(() => {
+    let mounted = true;
+
+    const run = async () => {
+      setIsSearching(true);
+      const receipts = await searchArchive(search);
+      if (!mounted) return;
+      setResults(receipts);
+      setIntegrity({});
+      setIsSearching(false);
+
+      for (const receipt of receipts) {
+        const status = await verifyArchivedReceipt(receipt);
+        if (!mounted) return;
+        setIntegrity((prev) => ({ ...prev, [receipt.id]: status }));
+      }
+    };
+
+    run();
+    return () => {
+      mounted = false;
+    };
+  }, [search]);
+
+  const update = (field: keyof SearchForm, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleToggleHistory = async (receiptId: string) => {
+    if (expandedId === receiptId) {
+      setExpandedId(null);
+      return;
+    }
+    setHistory(await getReceiptHistory(receiptId));
+    setExpandedId(receiptId);
+  };
+
+  const fieldLabel = (field: string) => {
+    const key = getFieldLabelKey(`extractedData.${field}`);
+    return key ? t(key) : field;
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 sm:pb-24">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-2 min-w-0">
+              <div className="w-8 h-8 sm:w-10 sm:h-10 border-2 border-primary-600 rounded-lg flex items-center justify-center flex-shrink-0">
+                <span className="text-primary-600 font-bold text-lg sm:text-xl">税</span>
+              </div>
+              <h1 className="text-base sm:text-xl font-bold text-gray-900 truncate">
+                {t('app_name')}
+              </h1>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <LanguageSwitcher />
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="px-3 sm:px-4 py-2 text-sm sm:text-base text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                {t('dashboard')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-1 flex items-center gap-2">
+            <Archive className="w-5 h-5 text-primary-600" />
+            <span>{t('archive_search_title')}</span>
+          </h2>
+          <p className="text-sm text-gray-600">{t('archive_search_description')}</p>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            setSearch(toSearch(form));
+          }}
+          className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6 space-y-3"
+        >
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('field_date')}
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={form.dateFrom}
+                  onChange={(e) => update('dateFrom', e.target.value)}
+                  className={inputClass}
+                />
+                <span className="text-gray-400">~</span>
+                <input
+                  type="date"
+                  value={form.dateTo}
+                  onChange={(e) => update('dateTo', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('field_total_amount')}
+              </label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  value={form.amountMin}
+                  onChange={(e) => update('amountMin', e.target.value)}
+                  className={inputClass}
+                />
+                <span className="text-gray-400">~</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.amountMax}
+                  onChange={(e) => update('amountMax', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">
+                {t('archive_counterparty')}
+              </label>
+              <input
+                type="text"
+                value={form.counterparty}
+                onChange={(e) => update('counterparty', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => {
+                setForm(EMPTY_FORM);
+                setSearch({});
+              }}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+            >
+              {t('archive_search_clear')}
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 flex items-center gap-2 text-sm"
+            >
+              <Search className="w-4 h-4" />
+              <span>{t('archive_search_button')}</span>
+            </button>
+          </div>
+        </form>
+
+        <section className="bg-white rounded-xl border border-gray-200 overflow-x-auto">
+          {isSearching ? (
+            <p className="p-6 text-sm text-gray-500">{t('loading')}</p>
+          ) : results.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">{t('archive_search_empty')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600 text-xs">
+                <tr>
+                  <th className="w-8" />
+                  <th className="px-3 py-2 text-left font-medium">{t('field_date')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('archive_counterparty')}</th>
+                  <th className="px-3 py-2 text-right font-medium">{t('field_total_amount')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('archive_archived_at')}</th>
+                  <th className="px-3 py-2 text-left font-medium">{t('archive_integrity')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {results.map((receipt) => {
+                  const status = integrity[receipt.id];
+                  const isExpanded = expandedId === receipt.id;
+                  return (
+                    <Fragment key={receipt.id}>
+                      <tr
+                        onClick={() => handleToggleHistory(receipt.id)}
+                        className="hover:bg-gray-50 cursor-pointer"
+                      >
+                        <td className="pl-3 text-gray-400">
+                          {isExpanded ? (
+                            <ChevronDown className="w-4 h-4" />
+                          ) : (
+                            <ChevronRight className="w-4 h-4" />
+                          )}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {formatDate(receipt.extractedData.transactionDate, language)}
+                        </td>
+                        <td className="px-3 py-2">
+                          {receipt.extractedData.issuerName}
+                          {receipt.extractedData.voucher && (
+                            <span
+                              className="ml-1.5 text-[10px] px-1 rounded bg-rose-100 text-rose-700"
+                              title={t('voucher_badge_title')}
+                            >
+                              {t('voucher_badge')}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right whitespace-nowrap">
+                          {formatCurrency(receipt.extractedData.totalAmount)}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                          {receipt.archive &&
+                            new Date(receipt.archive.archivedAt).toLocaleString(
+                              language === 'ja' ? 'ja-JP' : 'en-US'
+                            )}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          {!status ? (
+                            <span className="text-gray-400">…</span>
+                          ) : status === 'ok' ? (
+                            <span className="flex items-center gap-1 text-green-700">
+                              <ShieldCheck className="w-4 h-4" />
+                              {t('archive_integrity_ok')}
+                            </span>
+                          ) : (
+                            <span className="flex items-center gap-1 text-red-600">
+                              <ShieldAlert className="w-4 h-4" />
+                              {t(`archive_integrity_${status}` as TranslationKey)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr>
+                          <td colSpan={6} className="bg-gray-50 px-6 py-3">
+                            <h3 className="text-xs font-semibold text-gray-700 mb-2">
+                              {t('archive_history_title')}
+                            </h3>
+                            <ol className="space-y-2">
+                              {history.map((entry) => (
+                                <li key={entry.id} className="text-xs">
+                                  <div className="text-gray-600">
+                                    {new Date(entry.changedAt).toLocaleString(
+                                      language === 'ja' ? 'ja-JP' : 'en-US'
+                                    )}{' '}
+                                    · {t(`archive_history_${entry.action}` as TranslationKey)}
+                                  </div>
+                                  {entry.action === 'update' && (
+                                    <ul className="mt-1 ml-3 space-y-0.5">
+                                      {entry.changedFields.map((field) => (
+                                        <li key={field} className="text-gray-800 break-all">
+                                          <span className="font-medium">
+                                            {fieldLabel(field)}
+                                          </span>
+                                          : {formatChangeValue(entry.before?.[field], language)} →{' '}
+                                          {formatChangeValue(entry.after[field], language)}
+                                        </li>
+                                      ))}
+                                    </ul>
+                                  )}
+                                </li>
+                              ))}
+                            </ol>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,21 +1,64 @@
 'use client';
 
+import { AllocationEditor } from '@/components/dashboard/AllocationEditor';
+import { ApportionmentModal } from '@/components/dashboard/ApportionmentModal';
+import { BlueReturnModal } from '@/components/dashboard/BlueReturnModal';
+import { BusinessRatioField } from '@/components/dashboard/BusinessRatioField';
+import { CarryOverModal } from '@/components/dashboard/CarryOverModal';
+import { ConsumptionTaxModal } from '@/components/dashboard/ConsumptionTaxModal';
+import { CurrencyEditor } from '@/components/dashboard/CurrencyEditor';
+import { DuplicateBanner } from '@/components/dashboard/DuplicateBanner';
+import { FiscalYearBar } from '@/components/dashboard/FiscalYearBar';
+import { FixedAssetEditor } from '@/components/dashboard/FixedAssetEditor';
+import { Form309Modal } from '@/components/dashboard/Form309Modal';
+import { InputTaxCreditStatus } from '@/components/dashboard/InputTaxCreditStatus';
+import { LineItemsEditor } from '@/components/dashboard/LineItemsEditor';
+import { RecurringMissing } from '@/components/dashboard/RecurringMissing';
+import { RecurringModal } from '@/components/dashboard/RecurringModal';
+import { RegistryModal } from '@/components/dashboard/RegistryModal';
+import { RevisionHistory } from '@/components/dashboard/RevisionHistory';
+import { StatementModal } from '@/components/dashboard/StatementModal';
+import { TNumberStatus } from '@/components/dashboard/TNumberStatus';
+import { TrashModal } from '@/components/dashboard/TrashModal';
+import { VoucherEditor } from '@/components/dashboard/VoucherEditor';
+import { VoucherModal } from '@/components/dashboard/VoucherModal';
+import { WhiteReturnModal } from '@/components/dashboard/WhiteReturnModal';
+import { WithholdingEditor } from '@/components/dashboard/WithholdingEditor';
+import { WithholdingModal } from '@/components/dashboard/WithholdingModal';
+import { WithholdingReminders } from '@/components/dashboard/WithholdingReminders';
 import { LanguageSwitcher } from '@/components/shared/LanguageSwitcher';
+import { getBusinessRatio } from '@/lib/apportionment/business-ratio';
+import { needsExchangeRate } from '@/lib/currency/exchange';
 import {
+  bulkDeleteReceipts,
   bulkUpdateReceipts,
+  closeFiscalYear,
   deleteReceipt,
+  getFiscalYears,
+  getLastBulkOperation,
+  getReceipt,
   getReceiptCounts,
   getReceipts,
+  keepDuplicateReceipt,
+  learnVendorProfile,
+  mergeDuplicateReceipt,
+  purgeExpiredTrash,
+  reopenFiscalYear,
+  scanForDuplicates,
+  undoLastBulkOperation,
   updateReceipt,
+  type BulkDeleteResult,
 } from '@/lib/db/operations';
+import { getDepreciationSchedule } from '@/lib/depreciation/schedule';
 import { exportToExcel } from '@/lib/export/excel';
 import { exportToCSV, exportSummaryToCSV } from '@/lib/export/csv';
 import { exportToLedgerExcel } from '@/lib/export/ledger';
-import { downloadForm309CSV } from '@/lib/export/form309';
+import { getDocumentDirection } from '@/lib/export/ledger-mapping';
 import { useI18n } from '@/lib/i18n/context';
 import type { TranslationKey } from '@/lib/i18n/translations';
 import { getImageUrl } from '@/lib/storage/images';
-import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import { DOCUMENT_DIRECTIONS, EXPENSE_CATEGORIES, PAYMENT_METHODS } from '@/lib/utils/constants';
+import { getFiscalYear } from '@/lib/utils/fiscal-year';
 import {
   formatCurrency,
   formatDate,
@@ -23,31 +66,49 @@ import {
   formatTNumber,
   parseTNumber,
 } from '@/lib/utils/format';
+import { hasUnresolvedDuplicate } from '@/lib/validation/duplicates';
 import {
   requiresDepreciationConsideration,
   validateReceiptData,
+  validateTNumberCheckDigit,
   type ValidationWarning,
 } from '@/lib/validation/receipt';
-import type { ExpenseCategory, Receipt } from '@/types/receipt';
+import type { FiscalYearSummary } from '@/types/fiscal-year';
+import type { DocumentDirection, ExpenseCategory, PaymentMethod, Receipt } from '@/types/receipt';
+import type { BulkOperation } from '@/types/revision';
 import {
   AlertCircle,
+  Archive,
   ArrowLeft,
+  BookOpen,
   CheckCircle2,
   ChevronDown,
+  ChevronLeft,
+  ChevronRight,
   ChevronUp,
   ClipboardCheck,
+  Copy,
+  Database,
   Download,
   FileDown,
   FileSpreadsheet,
   FileText,
+  HandCoins,
   HelpCircle,
+  Landmark,
+  Lock,
   Maximize2,
   Minimize2,
+  NotebookPen,
+  Percent,
+  Repeat,
   RotateCcw,
   RotateCw,
   Search,
+  Settings,
   Sparkles,
   Trash2,
+  Undo2,
   Upload,
   X,
 } from 'lucide-react';
@@ -61,7 +122,9 @@ export default function DashboardPage() {
   const [receipts, setReceipts] = useState<Receipt[]>([]);
   const [selectedReceipt, setSelectedReceipt] = useState<Receipt | null>(null);
   const [selectedImageUrl, setSelectedImageUrl] = useState<string | null>(null);
-  const [filter, setFilter] = useState<'all' | 'needsReview' | 'done'>('all');
+  // Current page for multi-page PDF documents (0-based)
+  const [pageIndex, setPageIndex] = useState(0);
+  const [filter, setFilter] = useState<'all' | 'needsReview' | 'done' | 'unreconciled'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [editedData, setEditedData] = useState<Receipt['extractedData'] | null>(
     null
@@ -75,17 +138,37 @@ export default function DashboardPage() {
   });
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [isSelectMode, setIsSelectMode] = useState(false);
+  const [showRegistryModal, setShowRegistryModal] = useState(false);
+  const [showStatementModal, setShowStatementModal] = useState(false);
+  const [showTrashModal, setShowTrashModal] = useState(false);
+  const [showConsumptionTaxModal, setShowConsumptionTaxModal] = useState(false);
+  const [showBlueReturnModal, setShowBlueReturnModal] = useState(false);
+  const [showWhiteReturnModal, setShowWhiteReturnModal] = useState(false);
+  const [lastBulkOperation, setLastBulkOperation] = useState<BulkOperation | null>(null);
+  // Incremented when the T-number registry changes so verification re-runs
+  const [registryVersion, setRegistryVersion] = useState(0);
+  // 家事按分 rules
+  const [showApportionmentModal, setShowApportionmentModal] = useState(false);
+  const [apportionmentVersion, setApportionmentVersion] = useState(0);
+  // Fiscal-year workspace (calendar year of the transaction date)
+  const [fiscalYears, setFiscalYears] = useState<FiscalYearSummary[]>([]);
+  const [selectedYear, setSelectedYear] = useState(() => new Date().getFullYear());
+  const [showCarryOverModal, setShowCarryOverModal] = useState(false);
   const [showExportBlockedModal, setShowExportBlockedModal] = useState(false);
   const [showExportPrompt, setShowExportPrompt] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [showForm309Modal, setShowForm309Modal] = useState(false);
-  const [submitterInfo, setSubmitterInfo] = useState({
-    name: '',
-    address: '',
-    phone: '',
-    referenceNumber: '',
-  });
+  // 源泉所得税 納付書 of a year (null when closed)
+  const [withholdingYear, setWithholdingYear] = useState<number | null>(null);
+  // Incremented when the modal closes so reminders pick up paid slips
+  const [withholdingVersion, setWithholdingVersion] = useState(0);
+  // Recurring expenses of a year (null when closed)
+  const [recurringYear, setRecurringYear] = useState<number | null>(null);
+  // Incremented when the modal closes so the missing list picks up template changes
+  const [recurringVersion, setRecurringVersion] = useState(0);
+  // 出金伝票 entry for payments without a receipt
+  const [showVoucherModal, setShowVoucherModal] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement>(null);
   const listContainerRef = useRef<HTMLDivElement>(null);
   const receiptRefs = useRef<Map<string, HTMLDivElement>>(new Map());
@@ -190,10 +273,10 @@ export default function DashboardPage() {
         fieldName as keyof typeof receipt.confidence.fields
       ];
 
-    // T-Number needs attention if missing OR has invalid format (regardless of confidence)
+    // T-Number needs attention if missing OR has invalid format/check digit (regardless of confidence)
     if (fieldName === 'tNumber') {
       const tNumber = receipt.extractedData.tNumber;
-      if (!tNumber || !/^T\d{13}$/.test(tNumber)) {
+      if (!tNumber || !validateTNumberCheckDigit(tNumber)) {
         return 'attention';
       }
     }
@@ -272,6 +355,9 @@ export default function DashboardPage() {
       if (!/^T\d{13}$/.test(tNumber)) {
         return t('review_reason_tnumber');
       }
+      if (!validateTNumberCheckDigit(tNumber)) {
+        return t('tnumber_status_invalid_check_digit');
+      }
     }
 
     const needsAttention = (() => {
@@ -306,16 +392,27 @@ export default function DashboardPage() {
   const workflowStep = getWorkflowStep();
   const canExport = counts.total > 0 && counts.needsReview === 0;
 
-  // Load submitter info from localStorage on mount
+  // Restore the last selected fiscal year, or open the latest year with receipts
   useEffect(() => {
-    const stored = localStorage.getItem('form309_submitter');
-    if (stored) {
-      try {
-        setSubmitterInfo(JSON.parse(stored));
-      } catch (e) {
-        console.error('Failed to load submitter info:', e);
-      }
+    const storedYear = Number(localStorage.getItem('fiscal_year'));
+    if (storedYear) {
+      setSelectedYear(storedYear);
+      return;
     }
+
+    getFiscalYears().then((years) => {
+      const latest = years.find((y) => y.receiptCount > 0);
+      if (latest) {
+        setSelectedYear(latest.year);
+      }
+    });
+  }, []);
+
+  // Purge receipts that have been in the trash past the retention period
+  useEffect(() => {
+    purgeExpiredTrash().catch((error) => {
+      console.error('Failed to purge trash:', error);
+    });
   }, []);
 
   // Load receipts
@@ -340,39 +437,107 @@ export default function DashboardPage() {
     return () => {
       mounted = false;
     };
-  }, [filter, searchQuery]);
+  }, [filter, searchQuery, selectedYear]);
 
   const loadReceipts = async () => {
     const filterMap = {
       all: 'すべて' as const,
       needsReview: '要確認' as const,
       done: '完了' as const,
+      unreconciled: '明細未照合' as const,
     };
     const allReceipts = await getReceipts({
       status: filterMap[filter],
+      fiscalYear: selectedYear,
       searchQuery: searchQuery || undefined,
     });
     setReceipts(allReceipts);
   };
 
   const loadCounts = async () => {
-    const c = await getReceiptCounts();
+    const [c, years, bulkOperation] = await Promise.all([
+      getReceiptCounts(selectedYear),
+      getFiscalYears(),
+      getLastBulkOperation(),
+    ]);
     setCounts(c);
+    setFiscalYears(years);
+    setLastBulkOperation(bulkOperation);
+  };
+
+  const handleSelectYear = (year: number) => {
+    setSelectedYear(year);
+    setSelectedReceipt(null);
+    setSelectedIds(new Set());
+    localStorage.setItem('fiscal_year', String(year));
+  };
+
+  const handleCloseYear = async () => {
+    if (counts.needsReview > 0) {
+      alert(
+        t('fiscal_year_close_blocked', {
+          year: selectedYear,
+          count: counts.needsReview,
+        })
+      );
+      return;
+    }
+    if (!confirm(t('fiscal_year_close_confirm', { year: selectedYear }))) return;
+
+    await closeFiscalYear(selectedYear);
+    await loadCounts();
+  };
+
+  const handleReopenYear = async () => {
+    if (!confirm(t('fiscal_year_reopen_confirm', { year: selectedYear }))) return;
+
+    await reopenFiscalYear(selectedYear);
+    await loadCounts();
   };
 
-  // Load selected receipt image
+  // Receipts in a closed year are read-only
+  const isSelectedReceiptLocked =
+    !!selectedReceipt &&
+    (fiscalYears.find((y) => y.year === getFiscalYear(selectedReceipt))
+      ?.isClosed ??
+      false);
+
+  // Bulk actions are blocked while the selection includes a closed year
+  const isSelectionLocked = receipts.some(
+    (r) =>
+      selectedIds.has(r.id) &&
+      (fiscalYears.find((y) => y.year === getFiscalYear(r))?.isClosed ?? false)
+  );
+
+  // Changes to a closed year are refused by the database; show why
+  const alertError = (error: unknown) => {
+    alert(error instanceof Error ? error.message : String(error));
+  };
+
+  // Load selected receipt data
   useEffect(() => {
     if (selectedReceipt) {
-      getImageUrl(selectedReceipt.imageId).then((url) => {
-        setSelectedImageUrl(url);
-      });
       setEditedData(selectedReceipt.extractedData);
     } else {
-      setSelectedImageUrl(null);
       setEditedData(null);
     }
+    setPageIndex(0);
   }, [selectedReceipt]);
 
+  // Load selected receipt image (or the current page of a multi-page PDF)
+  useEffect(() => {
+    if (selectedReceipt) {
+      const pageImageId = selectedReceipt.pageImageIds?.[pageIndex];
+      getImageUrl(pageImageId ?? selectedReceipt.imageId).then((url) => {
+        setSelectedImageUrl(url);
+      });
+    } else {
+      setSelectedImageUrl(null);
+    }
+  }, [selectedReceipt, pageIndex]);
+
+  const pageCount = selectedReceipt?.pageImageIds?.length ?? 0;
+
   // Keyboard navigation - use refs to avoid re-subscribing on every change
   const receiptsRef = useRef(receipts);
   const selectedReceiptRef = useRef(selectedReceipt);
@@ -435,11 +600,25 @@ export default function DashboardPage() {
   const handleSave = async () => {
     if (!selectedReceipt || !editedData) return;
 
-    await updateReceipt(selectedReceipt.id, {
-      extractedData: editedData,
-      isManuallyReviewed: true,
-      needsReview: false,
-    });
+    // A 出金伝票 has to say why there is no receipt
+    if (editedData.voucher && !editedData.voucher.reason.trim()) {
+      alert(t('warning_voucher_reason_missing'));
+      return;
+    }
+
+    try {
+      await updateReceipt(selectedReceipt.id, {
+        extractedData: editedData,
+        isManuallyReviewed: true,
+        needsReview: false,
+      });
+    } catch (error) {
+      alertError(error);
+      return;
+    }
+
+    // Remember vendor corrections for the next receipt from the same shop
+    await learnVendorProfile(selectedReceipt.extractedData, editedData);
 
     await loadReceipts();
     await loadCounts();
@@ -462,23 +641,109 @@ export default function DashboardPage() {
   const handleDelete = async () => {
     if (!selectedReceipt) return;
 
+    if (selectedReceipt.archive) {
+      alert(t('archive_delete_blocked'));
+      return;
+    }
+
+    if (confirm(t('msg_confirm_delete'))) {
+      try {
+        await deleteReceipt(selectedReceipt.id);
+      } catch (error) {
+        alertError(error);
+        return;
+      }
+      setSelectedReceipt(null);
+      await loadReceipts();
+      await loadCounts();
+    }
+  };
+
+  const handleMergeDuplicate = async () => {
+    if (!selectedReceipt) return;
+
+    if (selectedReceipt.archive) {
+      alert(t('archive_delete_blocked'));
+      return;
+    }
+
+    let originalId: string | null;
+    try {
+      originalId = await mergeDuplicateReceipt(selectedReceipt.id);
+    } catch (error) {
+      alertError(error);
+      return;
+    }
+    setSelectedReceipt(originalId ? ((await getReceipt(originalId)) ?? null) : null);
+    await loadReceipts();
+    await loadCounts();
+  };
+
+  const handleDiscardDuplicate = async () => {
+    if (!selectedReceipt) return;
+
+    if (selectedReceipt.archive) {
+      alert(t('archive_delete_blocked'));
+      return;
+    }
+
     if (confirm(t('msg_confirm_delete'))) {
-      await deleteReceipt(selectedReceipt.id);
+      try {
+        await deleteReceipt(selectedReceipt.id);
+      } catch (error) {
+        alertError(error);
+        return;
+      }
       setSelectedReceipt(null);
       await loadReceipts();
       await loadCounts();
     }
   };
 
+  const handleKeepDuplicate = async () => {
+    if (!selectedReceipt) return;
+
+    try {
+      await keepDuplicateReceipt(selectedReceipt.id);
+    } catch (error) {
+      alertError(error);
+      return;
+    }
+    setSelectedReceipt((await getReceipt(selectedReceipt.id)) ?? null);
+    await loadReceipts();
+  };
+
+  const handleApportionmentApplied = async () => {
+    setApportionmentVersion((v) => v + 1);
+    await loadReceipts();
+    await loadCounts();
+    // Show the updated ratio on the open receipt
+    if (selectedReceipt) {
+      setSelectedReceipt((await getReceipt(selectedReceipt.id)) ?? null);
+    }
+  };
+
+  const handleScanDuplicates = async () => {
+    const count = await scanForDuplicates();
+    await loadReceipts();
+    await loadCounts();
+    alert(t('duplicate_scan_result', { count }));
+  };
+
   const handleBulkApprove = async () => {
-    if (selectedIds.size === 0) return;
+    if (selectedIds.size === 0 || isSelectionLocked) return;
 
     const updates = Array.from(selectedIds).map((id) => ({
       id,
       changes: { isManuallyReviewed: true, needsReview: false },
     }));
 
-    await bulkUpdateReceipts(updates);
+    try {
+      await bulkUpdateReceipts(updates);
+    } catch (error) {
+      alertError(error);
+      return;
+    }
     setSelectedIds(new Set());
     setIsSelectMode(false);
     await loadReceipts();
@@ -486,16 +751,27 @@ export default function DashboardPage() {
   };
 
   const handleBulkDelete = async () => {
-    if (selectedIds.size === 0) return;
+    if (selectedIds.size === 0 || isSelectionLocked) return;
 
     const confirmMessage = t('bulk_delete_confirm', {
       count: selectedIds.size,
     });
     if (!confirm(confirmMessage)) return;
 
-    const idsToDelete = Array.from(selectedIds);
-    for (const id of idsToDelete) {
-      await deleteReceipt(id);
+    // Archived receipts are kept; the rest go to the trash
+    let result: BulkDeleteResult;
+    try {
+      result = await bulkDeleteReceipts(Array.from(selectedIds));
+    } catch (error) {
+      alertError(error);
+      return;
+    }
+    const skipped = [
+      result.archived > 0 && t('archive_bulk_delete_skipped', { count: result.archived }),
+      result.failed > 0 && t('bulk_delete_failed', { count: result.failed }),
+    ].filter(Boolean);
+    if (skipped.length > 0) {
+      alert(skipped.join('\n'));
     }
 
     if (selectedReceipt && selectedIds.has(selectedReceipt.id)) {
@@ -507,9 +783,69 @@ export default function DashboardPage() {
     await loadCounts();
   };
 
-  const handleExport = async (format: 'excel' | 'csv' | 'csv-summary' | 'ledger' | 'form309' = 'excel') => {
+  const handleUndoBulk = async () => {
+    if (!lastBulkOperation) return;
+
+    try {
+      await undoLastBulkOperation();
+    } catch (error) {
+      alertError(error);
+    }
+    if (selectedReceipt) {
+      setSelectedReceipt((await getReceipt(selectedReceipt.id)) ?? null);
+    }
+    await loadReceipts();
+    await loadCounts();
+  };
+
+  const handleTrashRestored = async () => {
+    await loadReceipts();
+    await loadCounts();
+  };
+
+  const handleExport = async (
+    format:
+      | 'excel'
+      | 'csv'
+      | 'csv-summary'
+      | 'ledger'
+      | 'white-return'
+      | 'blue-return'
+      | 'form309'
+      | 'withholding'
+      | 'consumption-tax' = 'excel'
+  ) => {
     if (!canExport || isExporting) return;
 
+    // Receipts still in a foreign currency are left out of the yen amounts
+    if (format !== 'form309' && format !== 'withholding') {
+      const unconverted = (await getReceipts({ fiscalYear: selectedYear })).filter((r) =>
+        needsExchangeRate(r.extractedData)
+      ).length;
+      if (unconverted > 0 && !confirm(t('export_unconverted_confirm', { count: unconverted }))) return;
+    }
+
+    // 収支内訳書 needs inventory - show modal
+    if (format === 'white-return') {
+      setShowWhiteReturnModal(true);
+      setShowExportMenu(false);
+      return;
+    }
+
+    // 青色申告決算書 needs inventory and the special deduction - show modal
+    if (format === 'blue-return') {
+      setShowBlueReturnModal(true);
+      setShowExportMenu(false);
+      return;
+    }
+
+    // Consumption tax worksheet is reviewed in a modal before downloading
+    if (format === 'consumption-tax') {
+      setShowConsumptionTaxModal(true);
+      setShowExportMenu(false);
+      return;
+    }
+
     // Form 309 requires submitter info - show modal
     if (format === 'form309') {
       setShowForm309Modal(true);
@@ -517,24 +853,33 @@ export default function DashboardPage() {
       return;
     }
 
+    // 源泉所得税 納付書 are reviewed and marked paid in a modal
+    if (format === 'withholding') {
+      setWithholdingYear(selectedYear);
+      setShowExportMenu(false);
+      return;
+    }
+
     try {
       setIsExporting(true);
       setShowExportMenu(false);
-      const allReceipts = await getReceipts();
+      const allReceipts = await getReceipts({ fiscalYear: selectedYear });
+      // Assets bought in earlier years are still depreciated this year
+      const getYearDepreciation = async () => getDepreciationSchedule(await getReceipts(), selectedYear);
 
       switch (format) {
         case 'csv':
           await exportToCSV(allReceipts, language);
           break;
         case 'csv-summary':
-          await exportSummaryToCSV(allReceipts, language);
+          await exportSummaryToCSV(allReceipts, language, await getYearDepreciation());
           break;
         case 'ledger':
-          await exportToLedgerExcel(allReceipts, language);
+          await exportToLedgerExcel(allReceipts, language, await getYearDepreciation());
           break;
         case 'excel':
         default:
-          await exportToExcel(allReceipts, language);
+          await exportToExcel(allReceipts, language, await getYearDepreciation());
           break;
       }
     } catch (error) {
@@ -545,46 +890,6 @@ export default function DashboardPage() {
     }
   };
 
-  const handleForm309Export = async () => {
-    if (!submitterInfo.name || !submitterInfo.address) {
-      alert(language === 'ja'
-        ? '提出者名と住所は必須項目です'
-        : 'Submitter name and address are required');
-      return;
-    }
-
-    try {
-      setIsExporting(true);
-      setShowForm309Modal(false);
-
-      // Save submitter info to localStorage for next time
-      localStorage.setItem('form309_submitter', JSON.stringify(submitterInfo));
-
-      const allReceipts = await getReceipts();
-      const currentYear = new Date().getFullYear();
-      const reiwaYear = currentYear - 2018; // 2019 = Reiwa 1
-      const taxYear = reiwaYear.toString().padStart(2, '0');
-
-      await downloadForm309CSV(
-        allReceipts,
-        {
-          documentType: '309',
-          referenceNumber1: submitterInfo.referenceNumber,
-          submitterAddress: submitterInfo.address,
-          submitterName: submitterInfo.name,
-          submitterPhone: submitterInfo.phone,
-          taxYear,
-        },
-        taxYear
-      );
-    } catch (error) {
-      console.error('Form 309 export failed:', error);
-      alert(t('export_error') || 'Export failed. Please try again.');
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   const toggleSelectReceipt = (id: string) => {
     setSelectedIds((prev) => {
       const newSet = new Set(prev);
@@ -607,7 +912,9 @@ export default function DashboardPage() {
 
   const getStatusColor = (receipt: Receipt) => {
     if (receipt.needsReview) return 'bg-red-500';
-    if (receipt.processingStatus === 'completed') return 'bg-green-500';
+    if (receipt.processingStatus === 'completed' || receipt.processingStatus === 'manual') {
+      return 'bg-green-500';
+    }
     return 'bg-yellow-500';
   };
 
@@ -655,6 +962,62 @@ export default function DashboardPage() {
               </h1>
             </div>
             <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                onClick={() => setShowRegistryModal(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('registry_button')}
+              >
+                <Database className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowStatementModal(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('statement_button')}
+              >
+                <Landmark className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowApportionmentModal(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('apportionment_button')}
+              >
+                <Percent className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setRecurringYear(selectedYear)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('recurring_button')}
+              >
+                <Repeat className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowVoucherModal(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('voucher_button')}
+              >
+                <NotebookPen className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowTrashModal(true)}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('trash_title')}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => router.push('/archive')}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('archive_search_title')}
+              >
+                <Archive className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => router.push('/settings')}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('settings')}
+              >
+                <Settings className="w-5 h-5" />
+              </button>
               <LanguageSwitcher />
               <div className="relative" ref={exportMenuRef}>
                 <button
@@ -761,6 +1124,44 @@ export default function DashboardPage() {
                         </div>
                       </div>
                     </button>
+                    <button
+                      onClick={() => handleExport('white-return')}
+                      className="w-full px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <div className="flex items-center gap-3">
+                        <BookOpen className="w-4 h-4 text-gray-600 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{t('export_white_return')}</div>
+                          <div className="text-xs text-gray-500">{t('export_white_return_description')}</div>
+                        </div>
+                        <div className="relative group flex-shrink-0">
+                          <HelpCircle className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" />
+                          <div className="absolute right-0 bottom-full mb-2 w-80 p-3 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none z-50">
+                            <div className="mb-2">{t('export_white_return_tooltip')}</div>
+                            <div className="pt-2 border-t border-gray-700 text-gray-300">{t('export_white_return_tooltip_casual')}</div>
+                          </div>
+                        </div>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleExport('blue-return')}
+                      className="w-full px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <div className="flex items-center gap-3">
+                        <BookOpen className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{t('export_blue_return')}</div>
+                          <div className="text-xs text-gray-500">{t('export_blue_return_description')}</div>
+                        </div>
+                        <div className="relative group flex-shrink-0">
+                          <HelpCircle className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" />
+                          <div className="absolute right-0 bottom-full mb-2 w-80 p-3 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none z-50">
+                            <div className="mb-2">{t('export_blue_return_tooltip')}</div>
+                            <div className="pt-2 border-t border-gray-700 text-gray-300">{t('export_blue_return_tooltip_casual')}</div>
+                          </div>
+                        </div>
+                      </div>
+                    </button>
                     <button
                       onClick={() => handleExport('form309')}
                       className="w-full px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-100"
@@ -780,6 +1181,44 @@ export default function DashboardPage() {
                         </div>
                       </div>
                     </button>
+                    <button
+                      onClick={() => handleExport('withholding')}
+                      className="w-full px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <div className="flex items-center gap-3">
+                        <HandCoins className="w-4 h-4 text-amber-600 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{t('export_withholding')}</div>
+                          <div className="text-xs text-gray-500">{t('export_withholding_description')}</div>
+                        </div>
+                        <div className="relative group flex-shrink-0">
+                          <HelpCircle className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" />
+                          <div className="absolute right-0 bottom-full mb-2 w-80 p-3 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none z-50">
+                            <div className="mb-2">{t('export_withholding_tooltip')}</div>
+                            <div className="pt-2 border-t border-gray-700 text-gray-300">{t('export_withholding_tooltip_casual')}</div>
+                          </div>
+                        </div>
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleExport('consumption-tax')}
+                      className="w-full px-4 py-2.5 text-left text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <div className="flex items-center gap-3">
+                        <Percent className="w-4 h-4 text-emerald-600 flex-shrink-0" />
+                        <div className="flex-1 min-w-0">
+                          <div className="font-medium">{t('export_consumption_tax')}</div>
+                          <div className="text-xs text-gray-500">{t('export_consumption_tax_description')}</div>
+                        </div>
+                        <div className="relative group flex-shrink-0">
+                          <HelpCircle className="w-4 h-4 text-gray-400 hover:text-gray-600 cursor-help" />
+                          <div className="absolute right-0 bottom-full mb-2 w-80 p-3 bg-gray-900 text-white text-xs rounded shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 pointer-events-none z-50">
+                            <div className="mb-2">{t('export_consumption_tax_tooltip')}</div>
+                            <div className="pt-2 border-t border-gray-700 text-gray-300">{t('export_consumption_tax_tooltip_casual')}</div>
+                          </div>
+                        </div>
+                      </div>
+                    </button>
                   </div>
                 )}
               </div>
@@ -883,6 +1322,64 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      {/* Depreciation Carry-over Modal */}
+      {showCarryOverModal && (
+        <CarryOverModal
+          year={selectedYear}
+          onClose={() => setShowCarryOverModal(false)}
+        />
+      )}
+
+      {/* T-Number Registry Modal */}
+      {showRegistryModal && (
+        <RegistryModal
+          onClose={() => setShowRegistryModal(false)}
+          onChange={() => setRegistryVersion((v) => v + 1)}
+        />
+      )}
+
+      {/* Bank / Card Statement Modal */}
+      {showStatementModal && (
+        <StatementModal
+          onClose={() => setShowStatementModal(false)}
+          onChange={() => {
+            if (filter === 'unreconciled') loadReceipts();
+          }}
+        />
+      )}
+
+      {/* Consumption Tax Modal */}
+      {showConsumptionTaxModal && (
+        <ConsumptionTaxModal
+          year={selectedYear}
+          onClose={() => setShowConsumptionTaxModal(false)}
+        />
+      )}
+
+      {/* Blue Return Modal */}
+      {showBlueReturnModal && (
+        <BlueReturnModal year={selectedYear} onClose={() => setShowBlueReturnModal(false)} />
+      )}
+
+      {/* White Return Modal */}
+      {showWhiteReturnModal && (
+        <WhiteReturnModal year={selectedYear} onClose={() => setShowWhiteReturnModal(false)} />
+      )}
+
+      {/* Trash Modal */}
+      {showTrashModal && (
+        <TrashModal onClose={() => setShowTrashModal(false)} onRestore={handleTrashRestored} />
+      )}
+
+      {/* 家事按分 Rules Modal */}
+      {showApportionmentModal && (
+        <ApportionmentModal
+          onClose={() => setShowApportionmentModal(false)}
+          onChange={() => setApportionmentVersion((v) => v + 1)}
+          onApply={handleApportionmentApplied}
+        />
+      )}
+
       {/* Export Blocked Modal */}
       {showExportBlockedModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -977,103 +1474,44 @@ export default function DashboardPage() {
         </div>
       )}
 
-      {/* Form 309 Submitter Info Modal */}
+      {/* Form 309 Modal */}
       {showForm309Modal && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-xl max-w-lg w-full p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-lg font-bold text-gray-900">
-                {t('submitter_settings')}
-              </h3>
-              <button
-                onClick={() => setShowForm309Modal(false)}
-                className="p-1 hover:bg-gray-100 rounded"
-              >
-                <X className="w-5 h-5 text-gray-500" />
-              </button>
-            </div>
-
-            <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-4">
-              <div className="flex items-start gap-2">
-                <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
-                <p className="text-sm text-amber-800">
-                  {t('form309_warning')}
-                </p>
-              </div>
-            </div>
-
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t('submitter_name')} <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  value={submitterInfo.name}
-                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, name: e.target.value })}
-                  placeholder={language === 'ja' ? '株式会社サンプル' : 'Sample Company Inc.'}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t('submitter_address')} <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  value={submitterInfo.address}
-                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, address: e.target.value })}
-                  placeholder={language === 'ja' ? '東京都千代田区...' : 'Tokyo, Chiyoda-ku...'}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
+        <Form309Modal year={selectedYear} onClose={() => setShowForm309Modal(false)} />
+      )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t('submitter_phone')}
-                </label>
-                <input
-                  type="text"
-                  value={submitterInfo.phone}
-                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, phone: e.target.value })}
-                  placeholder="03-1234-5678"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
+      {/* Withholding Tax Modal */}
+      {withholdingYear !== null && (
+        <WithholdingModal
+          year={withholdingYear}
+          onClose={() => {
+            setWithholdingYear(null);
+            setWithholdingVersion((v) => v + 1);
+          }}
+        />
+      )}
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t('submitter_reference_number')}
-                </label>
-                <input
-                  type="text"
-                  value={submitterInfo.referenceNumber}
-                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, referenceNumber: e.target.value })}
-                  placeholder="0123456789"
-                  maxLength={10}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
-            </div>
+      {/* Recurring Expense Modal */}
+      {recurringYear !== null && (
+        <RecurringModal
+          year={recurringYear}
+          onClose={() => {
+            setRecurringYear(null);
+            setRecurringVersion((v) => v + 1);
+          }}
+        />
+      )}
 
-            <div className="flex gap-3 mt-6">
-              <button
-                onClick={() => setShowForm309Modal(false)}
-                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
-              >
-                {t('cancel')}
-              </button>
-              <button
-                onClick={handleForm309Export}
-                disabled={!submitterInfo.name || !submitterInfo.address}
-                className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
-              >
-                {t('export')}
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Payment Voucher (出金伝票) Modal */}
+      {showVoucherModal && (
+        <VoucherModal
+          onClose={() => setShowVoucherModal(false)}
+          onCreated={async (receipt) => {
+            setShowVoucherModal(false);
+            await loadReceipts();
+            await loadCounts();
+            setSelectedReceipt(receipt);
+          }}
+        />
       )}
 
       {/* Fullscreen Image Modal */}
@@ -1204,8 +1642,38 @@ export default function DashboardPage() {
             )}
           </div>
 
-          {/* Fullscreen toolbar - rotation only */}
+          {/* Fullscreen toolbar - page navigation and rotation */}
           <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 flex items-center gap-2 bg-black/60 backdrop-blur-sm rounded-full px-4 py-2">
+            {pageCount > 1 && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setPageIndex((i) => Math.max(0, i - 1));
+                  }}
+                  disabled={pageIndex === 0}
+                  className="p-2 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-40"
+                  title={t('image_prev_page')}
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span className="text-white text-sm min-w-[3rem] text-center">
+                  {pageIndex + 1} / {pageCount}
+                </span>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setPageIndex((i) => Math.min(pageCount - 1, i + 1));
+                  }}
+                  disabled={pageIndex >= pageCount - 1}
+                  className="p-2 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-40"
+                  title={t('image_next_page')}
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+                <div className="w-px h-5 bg-white/30" />
+              </>
+            )}
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -1258,6 +1726,30 @@ export default function DashboardPage() {
             selectedReceipt ? 'hidden lg:block' : 'block'
           }`}
         >
+          {/* Fiscal year selector */}
+          <FiscalYearBar
+            years={fiscalYears}
+            selectedYear={selectedYear}
+            onSelectYear={handleSelectYear}
+            onCloseYear={handleCloseYear}
+            onReopenYear={handleReopenYear}
+            onShowCarryOver={() => setShowCarryOverModal(true)}
+          />
+
+          {/* 源泉所得税 due dates */}
+          <WithholdingReminders
+            receipts={receipts}
+            version={withholdingVersion}
+            onOpen={setWithholdingYear}
+          />
+
+          {/* Recurring expenses without a receipt */}
+          <RecurringMissing
+            receipts={receipts}
+            version={recurringVersion}
+            onOpen={setRecurringYear}
+          />
+
           {/* Search bar */}
           <div className="px-3 py-2 border-b border-gray-200">
             <div className="relative">
@@ -1309,6 +1801,18 @@ export default function DashboardPage() {
                 <span className="w-1.5 h-1.5 rounded-full bg-green-500"></span>
                 <span>{t('filter_done')}</span>
               </button>
+              <button
+                onClick={() => setFilter('unreconciled')}
+                className={`flex-1 px-2 py-1.5 rounded text-xs font-medium transition-colors flex items-center justify-center gap-1 ${
+                  filter === 'unreconciled'
+                    ? 'bg-amber-100 text-amber-700'
+                    : 'text-gray-600 hover:bg-gray-100'
+                }`}
+                title={t('statement_title')}
+              >
+                <Landmark className="w-3 h-3" />
+                <span>{t('filter_unreconciled')}</span>
+              </button>
             </div>
 
             {/* Bulk actions bar */}
@@ -1342,18 +1846,54 @@ export default function DashboardPage() {
                   )}
                 </div>
 
+                {!isSelectMode && (
+                  <div className="flex items-center gap-1">
+                    {lastBulkOperation && (
+                      <button
+                        onClick={handleUndoBulk}
+                        className="text-xs px-2.5 py-1 text-gray-500 hover:bg-gray-100 rounded flex items-center gap-1.5 transition-colors"
+                        title={t('undo_bulk_title')}
+                      >
+                        <Undo2 className="w-3 h-3" />
+                        <span>
+                          {t(
+                            lastBulkOperation.kind === 'delete'
+                              ? 'undo_bulk_delete'
+                              : 'undo_bulk_update',
+                            { count: lastBulkOperation.count }
+                          )}
+                        </span>
+                      </button>
+                    )}
+
+                    {receipts.length > 0 && (
+                      <button
+                        onClick={handleScanDuplicates}
+                        className="text-xs px-2.5 py-1 text-gray-500 hover:bg-gray-100 rounded flex items-center gap-1.5 transition-colors"
+                      >
+                        <Copy className="w-3 h-3" />
+                        <span>{t('duplicate_scan')}</span>
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {isSelectMode && selectedIds.size > 0 && (
                   <div className="flex items-center gap-1.5">
                     <button
                       onClick={handleBulkDelete}
-                      className="text-xs px-2.5 py-1 bg-red-600 text-white rounded hover:bg-red-700 flex items-center gap-1.5 transition-colors"
+                      disabled={isSelectionLocked}
+                      title={isSelectionLocked ? t('bulk_locked_hint') : undefined}
+                      className="text-xs px-2.5 py-1 bg-red-600 text-white rounded hover:bg-red-700 flex items-center gap-1.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Trash2 className="w-3 h-3" />
                       <span>{t('bulk_delete', { count: selectedIds.size })}</span>
                     </button>
                     <button
                       onClick={handleBulkApprove}
-                      className="text-xs px-2.5 py-1 bg-green-600 text-white rounded hover:bg-green-700 flex items-center gap-1.5 transition-colors"
+                      disabled={isSelectionLocked}
+                      title={isSelectionLocked ? t('bulk_locked_hint') : undefined}
+                      className="text-xs px-2.5 py-1 bg-green-600 text-white rounded hover:bg-green-700 flex items-center gap-1.5 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <CheckCircle2 className="w-3 h-3" />
                       <span>
@@ -1408,10 +1948,44 @@ export default function DashboardPage() {
                   ></div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
-                      <span className="text-xs font-medium text-gray-900">
+                      <span className="text-xs font-medium text-gray-900 flex items-center gap-1">
                         {formatDate(receipt.extractedData.transactionDate)}
+                        {hasUnresolvedDuplicate(receipt) && (
+                          <span
+                            className="text-[10px] px-1 rounded bg-amber-100 text-amber-700 flex items-center gap-0.5"
+                            title={t('duplicate_possible')}
+                          >
+                            <Copy className="w-2.5 h-2.5" />
+                            {t('duplicate_badge')}
+                          </span>
+                        )}
+                        {receipt.extractedData.voucher && (
+                          <span
+                            className="text-[10px] px-1 rounded bg-rose-100 text-rose-700 flex items-center gap-0.5"
+                            title={t('voucher_badge_title')}
+                          >
+                            <NotebookPen className="w-2.5 h-2.5" />
+                            {t('voucher_badge')}
+                          </span>
+                        )}
                       </span>
                       <span className="text-xs font-semibold text-gray-900">
+                        {getBusinessRatio(receipt.extractedData) < 100 && (
+                          <span
+                            className="text-[10px] font-normal text-gray-500 mr-1"
+                            title={t('field_business_ratio')}
+                          >
+                            {getBusinessRatio(receipt.extractedData)}%
+                          </span>
+                        )}
+                        {receipt.extractedData.currency && (
+                          <span
+                            className="text-[10px] font-normal text-gray-500 mr-1"
+                            title={t('field_currency')}
+                          >
+                            {receipt.extractedData.currency}
+                          </span>
+                        )}
                         {formatCurrency(receipt.extractedData.totalAmount)}
                       </span>
                     </div>
@@ -1419,9 +1993,17 @@ export default function DashboardPage() {
                       <p className="text-xs text-gray-600 truncate flex-1 mr-2">
                         {receipt.extractedData.issuerName}
                       </p>
-                      <span className="text-xs text-gray-400 flex-shrink-0">
-                        {receipt.extractedData.suggestedCategory}
-                      </span>
+                      {getDocumentDirection(receipt.extractedData) === 'expense' ? (
+                        <span className="text-xs text-gray-400 flex-shrink-0">
+                          {receipt.extractedData.suggestedCategory}
+                        </span>
+                      ) : (
+                        <span className="text-xs text-emerald-600 font-medium flex-shrink-0">
+                          {t(
+                            `direction_${getDocumentDirection(receipt.extractedData)}` as TranslationKey
+                          )}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1569,6 +2151,34 @@ export default function DashboardPage() {
                     </button>
                     <div className="lg:hidden w-px h-3 bg-white/30" />
 
+                    {/* Page navigation - multi-page PDFs only */}
+                    {pageCount > 1 && (
+                      <>
+                        <button
+                          onClick={() => setPageIndex((i) => Math.max(0, i - 1))}
+                          disabled={pageIndex === 0}
+                          className="p-1 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-40"
+                          title={t('image_prev_page')}
+                        >
+                          <ChevronLeft className="w-3.5 h-3.5" />
+                        </button>
+                        <span className="text-white text-xs min-w-[2.5rem] text-center">
+                          {pageIndex + 1} / {pageCount}
+                        </span>
+                        <button
+                          onClick={() =>
+                            setPageIndex((i) => Math.min(pageCount - 1, i + 1))
+                          }
+                          disabled={pageIndex >= pageCount - 1}
+                          className="p-1 hover:bg-white/20 rounded-full text-white transition-colors disabled:opacity-40"
+                          title={t('image_next_page')}
+                        >
+                          <ChevronRight className="w-3.5 h-3.5" />
+                        </button>
+                        <div className="w-px h-3 bg-white/30" />
+                      </>
+                    )}
+
                     {/* Rotation buttons */}
                     <button
                       onClick={() => setImageRotation((r) => r - 90)}
@@ -1612,7 +2222,34 @@ export default function DashboardPage() {
                 </div>
 
                 {/* Right: Editable form - takes 2/5 of space */}
-                <div className="lg:col-span-2 space-y-3 pb-24 lg:pb-0">
+                <fieldset
+                  disabled={isSelectedReceiptLocked}
+                  className="lg:col-span-2 space-y-3 pb-24 lg:pb-0 min-w-0"
+                >
+                  {/* Closed Year Banner */}
+                  {isSelectedReceiptLocked && (
+                    <div className="bg-gray-100 border border-gray-300 text-gray-700 px-3 py-2 rounded-lg flex items-center gap-2">
+                      <Lock className="w-4 h-4 flex-shrink-0" />
+                      <span className="text-sm font-medium">
+                        {t('fiscal_year_locked_message', {
+                          year: getFiscalYear(selectedReceipt),
+                        })}
+                      </span>
+                    </div>
+                  )}
+                  {/* Archived Banner */}
+                  {selectedReceipt.archive && (
+                    <div className="bg-primary-50 border border-primary-200 text-primary-800 px-3 py-2 rounded-lg flex items-center gap-2">
+                      <Archive className="w-4 h-4 flex-shrink-0" />
+                      <span className="text-sm">
+                        {t('archive_receipt_banner', {
+                          date: new Date(selectedReceipt.archive.archivedAt).toLocaleString(
+                            language === 'ja' ? 'ja-JP' : 'en-US'
+                          ),
+                        })}
+                      </span>
+                    </div>
+                  )}
                   {/* Needs Review Banner */}
                   {selectedReceipt.needsReview &&
                     (() => {
@@ -1658,6 +2295,17 @@ export default function DashboardPage() {
                       );
                     })()}
 
+                  {/* Possible Duplicate Banner */}
+                  {hasUnresolvedDuplicate(selectedReceipt) && (
+                    <DuplicateBanner
+                      receipt={selectedReceipt}
+                      onMerge={handleMergeDuplicate}
+                      onDiscard={handleDiscardDuplicate}
+                      onKeep={handleKeepDuplicate}
+                      onViewOriginal={setSelectedReceipt}
+                    />
+                  )}
+
                   {/* AI Analysis Badge */}
                   <div className="bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
                     <div className="flex items-center justify-between">
@@ -1785,6 +2433,10 @@ export default function DashboardPage() {
                         'tNumber'
                       )}`}
                     />
+                    <TNumberStatus
+                      data={editedData}
+                      registryVersion={registryVersion}
+                    />
                   </div>
 
                   {/* Total Amount - Full width */}
@@ -1815,67 +2467,130 @@ export default function DashboardPage() {
                         )}`}
                       />
                     </div>
+                    <CurrencyEditor data={editedData} onChange={setEditedData} />
                   </div>
 
-                  {/* Expense Category - Full width */}
+                  {/* Document direction - expense / income / purchase */}
                   <div>
-                    <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1">
-                      <FieldConfidenceIndicator
-                        receipt={selectedReceipt}
-                        fieldName="category"
-                      />
-                      <span>{t('field_category')}</span>
-                      {getFieldReviewReason(selectedReceipt, 'category') && (
-                        <span className="text-xs text-amber-600 font-normal ml-1">
-                          {getFieldReviewReason(selectedReceipt, 'category')}
-                        </span>
-                      )}
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('field_direction')}
                     </label>
+                    <div className="grid grid-cols-3 gap-1.5">
+                      {DOCUMENT_DIRECTIONS.map((dir) => (
+                        <button
+                          key={dir.value}
+                          type="button"
+                          onClick={() =>
+                            setEditedData({
+                              ...editedData,
+                              direction: dir.value as DocumentDirection,
+                            })
+                          }
+                          className={`px-2 py-1.5 text-sm rounded-lg border font-medium ${
+                            getDocumentDirection(editedData) === dir.value
+                              ? 'bg-primary-600 border-primary-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          {t(`direction_${dir.value}` as TranslationKey)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
 
-                    {/* Depreciation threshold warning */}
-                    {requiresDepreciationConsideration(editedData) && (
-                      <div className="bg-purple-50 border border-purple-200 rounded-lg px-3 py-2 mb-2">
-                        <div className="flex items-start gap-2">
-                          <AlertCircle className="w-4 h-4 text-purple-600 mt-0.5 flex-shrink-0" />
-                          <div className="flex-1">
-                            <span className="text-sm font-medium text-purple-900">
-                              {t(
-                                'warning_depreciation_threshold_title' as TranslationKey
-                              )}
-                            </span>
-                            <p className="text-xs text-purple-700 mt-0.5">
-                              {t(
-                                'warning_depreciation_required' as TranslationKey
-                              )}
-                            </p>
+                  {/* Expense Category - Full width (expenses only) */}
+                  {getDocumentDirection(editedData) === 'expense' && (
+                    <div>
+                      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1">
+                        <FieldConfidenceIndicator
+                          receipt={selectedReceipt}
+                          fieldName="category"
+                        />
+                        <span>{t('field_category')}</span>
+                        {getFieldReviewReason(selectedReceipt, 'category') && (
+                          <span className="text-xs text-amber-600 font-normal ml-1">
+                            {getFieldReviewReason(selectedReceipt, 'category')}
+                          </span>
+                        )}
+                      </label>
+
+                      {/* Depreciation threshold warning */}
+                      {requiresDepreciationConsideration(editedData) && (
+                        <div className="bg-purple-50 border border-purple-200 rounded-lg px-3 py-2 mb-2">
+                          <div className="flex items-start gap-2">
+                            <AlertCircle className="w-4 h-4 text-purple-600 mt-0.5 flex-shrink-0" />
+                            <div className="flex-1">
+                              <span className="text-sm font-medium text-purple-900">
+                                {t(
+                                  'warning_depreciation_threshold_title' as TranslationKey
+                                )}
+                              </span>
+                              <p className="text-xs text-purple-700 mt-0.5">
+                                {t(
+                                  'warning_depreciation_required' as TranslationKey
+                                )}
+                              </p>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    )}
+                      )}
+
+                      <select
+                        value={editedData.suggestedCategory}
+                        onChange={(e) =>
+                          setEditedData({
+                            ...editedData,
+                            suggestedCategory: e.target.value as ExpenseCategory,
+                          })
+                        }
+                        className={`w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 ${getFieldInputClassName(
+                          selectedReceipt,
+                          'category'
+                        )}`}
+                      >
+                        {EXPENSE_CATEGORIES.map((cat) => (
+                          <option key={cat.value} value={cat.value}>
+                            {language === 'en'
+                              ? t(`category_${cat.value}` as TranslationKey)
+                              : cat.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
 
+                  {/* Payment method */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('field_payment_method')}
+                    </label>
                     <select
-                      value={editedData.suggestedCategory}
+                      value={editedData.paymentMethod ?? 'unknown'}
                       onChange={(e) =>
                         setEditedData({
                           ...editedData,
-                          suggestedCategory: e.target.value as ExpenseCategory,
+                          paymentMethod: e.target.value as PaymentMethod,
                         })
                       }
-                      className={`w-full px-3 py-2 text-sm border rounded-lg focus:outline-none focus:ring-2 ${getFieldInputClassName(
-                        selectedReceipt,
-                        'category'
-                      )}`}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                     >
-                      {EXPENSE_CATEGORIES.map((cat) => (
-                        <option key={cat.value} value={cat.value}>
-                          {language === 'en'
-                            ? t(`category_${cat.value}` as TranslationKey)
-                            : cat.label}
+                      {PAYMENT_METHODS.map((method) => (
+                        <option key={method.value} value={method.value}>
+                          {t(`payment_method_${method.value}` as TranslationKey)}
                         </option>
                       ))}
                     </select>
                   </div>
 
+                  {/* 家事按分 business share (expenses only) */}
+                  {getDocumentDirection(editedData) === 'expense' && (
+                    <BusinessRatioField
+                      data={editedData}
+                      onChange={setEditedData}
+                      rulesVersion={apportionmentVersion}
+                    />
+                  )}
+
                   {/* Tax Rate display */}
                   <div className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
                     <div className="text-xs font-medium text-gray-600 mb-1.5">
@@ -1891,12 +2606,37 @@ export default function DashboardPage() {
                         </span>
                       ))}
                     </div>
+                    <InputTaxCreditStatus data={editedData} registryVersion={registryVersion} />
                   </div>
 
+                  {/* Line items */}
+                  <LineItemsEditor data={editedData} onChange={setEditedData} />
+
+                  {/* Category split (expenses only) */}
+                  {getDocumentDirection(editedData) === 'expense' && (
+                    <AllocationEditor data={editedData} onChange={setEditedData} />
+                  )}
+
+                  {/* Fixed asset register (expenses of ¥100,000 or more) */}
+                  <FixedAssetEditor data={editedData} onChange={setEditedData} />
+
+                  {/* 源泉徴収 on fees paid to individuals */}
+                  <WithholdingEditor data={editedData} onChange={setEditedData} />
+
+                  {/* 出金伝票 entered without a receipt */}
+                  <VoucherEditor data={editedData} onChange={setEditedData} />
+
+                  {/* Revision history */}
+                  <RevisionHistory
+                    receiptId={selectedReceipt.id}
+                    updatedAt={selectedReceipt.updatedAt}
+                  />
+
                   {/* Action buttons - Desktop only */}
                   <div className="hidden lg:flex gap-2 pt-2">
                     <button
                       onClick={handleDelete}
+                      disabled={!!selectedReceipt.archive}
                       className="px-4 py-2.5 text-sm border-2 border-red-300 text-red-600 rounded-lg hover:bg-red-50 flex items-center justify-center gap-2 font-medium"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -1910,7 +2650,7 @@ export default function DashboardPage() {
                       <span>{t('action_approve')}</span>
                     </button>
                   </div>
-                </div>
+                </fieldset>
               </div>
 
               {/* Mobile: Sticky footer action bar */}
@@ -1919,14 +2659,16 @@ export default function DashboardPage() {
                   <div className="flex gap-3">
                     <button
                       onClick={handleDelete}
-                      className="px-6 py-3 min-h-[48px] border-2 border-red-300 text-red-600 rounded-lg hover:bg-red-50 flex items-center justify-center gap-2 font-medium"
+                      disabled={isSelectedReceiptLocked || !!selectedReceipt.archive}
+                      className="px-6 py-3 min-h-[48px] border-2 border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 flex items-center justify-center gap-2 font-medium"
                     >
                       <Trash2 className="w-5 h-5" />
                       <span className="hidden sm:inline">{t('delete')}</span>
                     </button>
                     <button
                       onClick={handleSave}
-                      className="flex-1 px-6 py-3 min-h-[48px] bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center justify-center gap-2 font-medium"
+                      disabled={isSelectedReceiptLocked}
+                      className="flex-1 px-6 py-3 min-h-[48px] bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center justify-center gap-2 font-medium"
                     >
                       <CheckCircle2 className="w-5 h-5" />
                       <span>{t('action_approve')}</span>
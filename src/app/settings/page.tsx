@@ -0,0 +1,92 @@
+'use client';
+
+import { ApportionmentModal } from '@/components/dashboard/ApportionmentModal';
+import { ArchiveModeSettings } from '@/components/settings/ArchiveModeSettings';
+import { BackupSettings } from '@/components/settings/BackupSettings';
+import { CategoryKeywordList } from '@/components/settings/CategoryKeywordList';
+import { ExchangeRateSettings } from '@/components/settings/ExchangeRateSettings';
+import { PayeeList } from '@/components/settings/PayeeList';
+import { SyncSettings } from '@/components/settings/SyncSettings';
+import { VendorProfileList } from '@/components/settings/VendorProfileList';
+import { LanguageSwitcher } from '@/components/shared/LanguageSwitcher';
+import { useI18n } from '@/lib/i18n/context';
+import { Percent } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useState } from 'react';
+
+export default function SettingsPage() {
+  const router = useRouter();
+  const { t } = useI18n();
+  const [showApportionmentModal, setShowApportionmentModal] = useState(false);
+
+  return (
+    <div className="min-h-screen bg-gray-50 pb-20 sm:pb-24">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-3 sm:px-6 lg:px-8 py-3 sm:py-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center space-x-2 min-w-0">
+              <div className="w-8 h-8 sm:w-10 sm:h-10 border-2 border-primary-600 rounded-lg flex items-center justify-center flex-shrink-0">
+                <span className="text-primary-600 font-bold text-lg sm:text-xl">税</span>
+              </div>
+              <h1 className="text-base sm:text-xl font-bold text-gray-900 truncate">
+                {t('app_name')}
+              </h1>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <LanguageSwitcher />
+              <button
+                onClick={() => router.push('/dashboard')}
+                className="px-3 sm:px-4 py-2 text-sm sm:text-base text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                {t('dashboard')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-4 space-y-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 mb-1">{t('settings')}</h2>
+          <p className="text-sm text-gray-600">{t('settings_subtitle')}</p>
+        </div>
+
+        <VendorProfileList />
+
+        <CategoryKeywordList />
+
+        <PayeeList />
+
+        <ExchangeRateSettings />
+
+        <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+          <div className="flex items-center gap-2 mb-1">
+            <Percent className="w-5 h-5 text-primary-600" />
+            <h2 className="text-lg font-bold text-gray-900">{t('apportionment_title')}</h2>
+          </div>
+          <p className="text-sm text-gray-600 mb-4">{t('apportionment_description')}</p>
+          <button
+            onClick={() => setShowApportionmentModal(true)}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+          >
+            {t('settings_manage_rules')}
+          </button>
+        </section>
+
+        <ArchiveModeSettings />
+
+        <BackupSettings />
+
+        <SyncSettings />
+      </main>
+
+      {showApportionmentModal && (
+        <ApportionmentModal
+          onClose={() => setShowApportionmentModal(false)}
+          onChange={() => {}}
+          onApply={() => {}}
+        />
+      )}
+    </div>
+  );
+}
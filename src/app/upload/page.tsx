@@ -9,15 +9,25 @@ import { LanguageSwitcher } from '@/components/shared/LanguageSwitcher';
 import {
   addReceipt,
   addToUploadQueue,
+  applyExchangeRate,
+  applyVendorPreferences,
+  categorizeReceipt,
   deleteUploadQueueItem,
+  findDuplicateOf,
+  getSuggestedBusinessRatio,
   getUploadQueue,
   updateUploadQueueItem,
+  verifyTNumber,
 } from '@/lib/db/operations';
 import { db } from '@/lib/db/schema';
 import { useI18n } from '@/lib/i18n/context';
-import { getImageBlob, storeImage, isHeicFile, updateStoredImage, base64ToBlob } from '@/lib/storage/images';
-import { UPLOAD_CONSTRAINTS, PROCESSING_SETTINGS } from '@/lib/utils/constants';
+import { getImageBlob, storeImage, storeImageBlob, isHeicFile, updateStoredImage, base64ToBlob } from '@/lib/storage/images';
+import { canStitchPages, isPdfFile, renderPdfPages, stitchPageImages } from '@/lib/storage/pdf';
+import { computeImageHash } from '@/lib/storage/image-hash';
+import { PDF_SETTINGS, UPLOAD_CONSTRAINTS, PROCESSING_SETTINGS } from '@/lib/utils/constants';
 import { formatFileSize } from '@/lib/utils/format';
+import { hasRegistrationProblem } from '@/lib/validation/registry';
+import { hasCategoryMismatch } from '@/lib/ai/categorizer';
 import { retryApiCall } from '@/lib/utils/retry';
 import { processConcurrently } from '@/lib/utils/concurrency';
 import type { Receipt, UploadQueueItem } from '@/types/receipt';
@@ -30,11 +40,13 @@ import {
   ChevronRight,
   ClipboardCheck,
   CloudUpload,
+  Copy,
   FileImage,
   FolderOpen,
   Info,
   Loader2,
   RefreshCcw,
+  Settings,
   X,
   ZoomIn,
   ZoomOut,
@@ -58,11 +70,95 @@ interface FileWithStatus {
   fileName: string;
   fileSize: number;
   mimeType: string;
+  pageImageIds?: string[]; // Rendered PDF pages (whole-document mode)
+  sourcePage?: number; // PDF page number (one-receipt-per-page mode)
+  isPossibleDuplicate?: boolean; // Extraction matched an existing receipt
+}
+
+// How a multi-page PDF becomes receipts
+type PdfImportMode = 'per-page' | 'whole';
+
+interface PendingPdf {
+  file: File;
+  pages: Blob[]; // Rendered page images
 }
 
 // Check if we're in development mode (client-side check)
 const isDevelopment = process.env.NODE_ENV === 'development';
 
+/**
+ * Create an upload queue item for an already-stored page image
+ */
+async function createQueuedPage(
+  fields: Pick<UploadQueueItem, 'fileName' | 'fileSize' | 'imageId' | 'pageImageIds' | 'sourcePage'>,
+  thumbnailBlob: Blob
+): Promise<FileWithStatus> {
+  const queueId = uuidv4();
+
+  await addToUploadQueue({
+    id: queueId,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    mimeType: 'image/jpeg',
+    status: 'pending',
+    progress: 0,
+    ...fields,
+  });
+
+  return {
+    id: queueId,
+    file: null, // Rendered pages are read back from IndexedDB when processing
+    status: 'pending',
+    progress: 0,
+    queueId,
+    mimeType: 'image/jpeg',
+    thumbnailUrl: URL.createObjectURL(thumbnailBlob),
+    ...fields,
+  };
+}
+
+/**
+ * Store rendered PDF pages and queue them for extraction
+ * - 'per-page': every page becomes its own receipt
+ * - 'whole': one receipt; pages are kept for the dashboard viewer and a
+ *   stitched image of all pages is sent for extraction
+ */
+async function queuePdfPages(
+  file: File,
+  pages: Blob[],
+  mode: PdfImportMode
+): Promise<FileWithStatus[]> {
+  if (mode === 'whole' && pages.length > 1) {
+    const pageImageIds = await Promise.all(
+      pages.map((page) => storeImageBlob(page, uuidv4()))
+    );
+    const imageId = await storeImageBlob(await stitchPageImages(pages), uuidv4());
+
+    return [
+      await createQueuedPage(
+        { fileName: file.name, fileSize: file.size, imageId, pageImageIds },
+        pages[0]
+      ),
+    ];
+  }
+
+  const isMultiPage = pages.length > 1;
+  return Promise.all(
+    pages.map(async (page, index) => {
+      const imageId = await storeImageBlob(page, uuidv4());
+      return createQueuedPage(
+        {
+          fileName: isMultiPage ? `${file.name} (${index + 1}/${pages.length})` : file.name,
+          fileSize: page.size,
+          imageId,
+          sourcePage: isMultiPage ? index + 1 : undefined,
+        },
+        page
+      );
+    })
+  );
+}
+
 export default function UploadPage() {
   const router = useRouter();
   const { t, language } = useI18n();
@@ -71,6 +167,10 @@ export default function UploadPage() {
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [previewFile, setPreviewFile] = useState<FileWithStatus | null>(null);
   const [previewZoom, setPreviewZoom] = useState(1);
+  const [pendingPdfs, setPendingPdfs] = useState<PendingPdf[]>([]);
+  const [pendingPdfThumbnails, setPendingPdfThumbnails] = useState<string[]>([]);
+  const [isRenderingPdf, setIsRenderingPdf] = useState(false);
+  const [pdfErrors, setPdfErrors] = useState<string[]>([]);
   const [thumbnailsRef, setThumbnailsRef] = useState<HTMLDivElement | null>(
     null
   );
@@ -128,6 +228,8 @@ export default function UploadPage() {
               fileName: item.fileName,
               fileSize: item.fileSize,
               mimeType: item.mimeType,
+              pageImageIds: item.pageImageIds,
+              sourcePage: item.sourcePage,
             };
           })
         );
@@ -172,7 +274,11 @@ export default function UploadPage() {
     };
   }, [files.length]);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (droppedFiles: File[]) => {
+    // PDFs are rendered to page images separately (below)
+    const pdfFiles = droppedFiles.filter((file) => isPdfFile(file));
+    const acceptedFiles = droppedFiles.filter((file) => !isPdfFile(file));
+
     // Process files and store them in IndexedDB
     const newFiles: FileWithStatus[] = await Promise.all(
       acceptedFiles.map(async (file) => {
@@ -305,8 +411,64 @@ export default function UploadPage() {
         }
       }
     });
+
+    // Render PDFs; multi-page documents wait for the user to pick an import mode
+    if (pdfFiles.length > 0) {
+      setIsRenderingPdf(true);
+      for (const pdf of pdfFiles) {
+        try {
+          const pages = await renderPdfPages(pdf);
+          if (pages.length > 1) {
+            setPendingPdfs((prev) => [...prev, { file: pdf, pages }]);
+          } else {
+            const queued = await queuePdfPages(pdf, pages, 'per-page');
+            setFiles((prev) => [...prev, ...queued]);
+          }
+        } catch (error) {
+          console.error('[PDF] Rendering failed:', pdf.name, error);
+          setPdfErrors((prev) => [...prev, pdf.name]);
+        }
+      }
+      setIsRenderingPdf(false);
+    }
   }, []);
 
+  // Preview thumbnails for the PDF currently awaiting an import mode
+  const currentPendingPdf = pendingPdfs[0];
+
+  useEffect(() => {
+    if (!currentPendingPdf) {
+      setPendingPdfThumbnails([]);
+      return;
+    }
+
+    const urls = currentPendingPdf.pages
+      .slice(0, 6)
+      .map((page) => URL.createObjectURL(page));
+    setPendingPdfThumbnails(urls);
+
+    return () => {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, [currentPendingPdf]);
+
+  const choosePdfImportMode = async (mode: PdfImportMode | null) => {
+    const [current, ...rest] = pendingPdfs;
+    if (!current) return;
+    setPendingPdfs(rest);
+
+    // null = cancelled, the PDF is dropped
+    if (!mode) return;
+
+    try {
+      const queued = await queuePdfPages(current.file, current.pages, mode);
+      setFiles((prev) => [...prev, ...queued]);
+    } catch (error) {
+      console.error('[PDF] Failed to queue pages:', current.file.name, error);
+      setPdfErrors((prev) => [...prev, current.file.name]);
+    }
+  };
+
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
@@ -455,16 +617,59 @@ export default function UploadPage() {
         fileName: fileWithStatus.fileName,
         fileSize: fileWithStatus.fileSize,
         mimeType: displayMimeType,
-        extractedData: result.data.extractedData,
+        // Uploaded documents start as expenses; direction is changed in the dashboard
+        extractedData: { direction: 'expense', ...result.data.extractedData },
         processingStatus: 'completed',
         confidence: result.data.confidence,
         isManuallyReviewed: false,
         needsReview: result.data.needsReview,
         notes: result.data.validation.warnings?.join(', '),
+        // Multi-page PDF metadata
+        ...(fileWithStatus.pageImageIds && { pageImageIds: fileWithStatus.pageImageIds }),
+        ...(fileWithStatus.sourcePage && { sourcePage: fileWithStatus.sourcePage }),
         // Save dev metadata (only in development)
         ...(result.data._dev && { _dev: result.data._dev }),
       };
 
+      // Foreign-currency amounts are converted at the TTM of the transaction date
+      receipt.extractedData = await applyExchangeRate(receipt.extractedData);
+
+      // Remembered corrections for this vendor (name, category, payment, 家事按分)
+      receipt.extractedData = await applyVendorPreferences(receipt.extractedData);
+
+      // Local keyword check of the category (also fills one in for PaddleOCR results)
+      receipt.extractedData = await categorizeReceipt(receipt.extractedData);
+      if (hasCategoryMismatch(receipt.extractedData)) {
+        receipt.needsReview = true;
+      }
+
+      // Duplicate check: perceptual hash of the stored image + extracted fields
+      try {
+        const storedBlob = (await getImageBlob(imageId)) ?? displayBlob;
+        receipt.imageHash = await computeImageHash(storedBlob);
+      } catch (error) {
+        console.warn('[Duplicates] Could not hash image:', error);
+      }
+
+      const duplicate = await findDuplicateOf(receipt);
+      if (duplicate) {
+        receipt.duplicate = duplicate;
+        receipt.needsReview = true;
+      }
+
+      // T-number registry check (only meaningful once NTA data is imported)
+      if (hasRegistrationProblem(await verifyTNumber(receipt.extractedData))) {
+        receipt.needsReview = true;
+      }
+
+      // 家事按分 rules set the business share for rent, utilities, phone bills etc.
+      // (a share remembered for the vendor takes precedence)
+      const businessRatio = await getSuggestedBusinessRatio(receipt.extractedData);
+      if (businessRatio !== undefined && receipt.extractedData.businessRatio === undefined) {
+        receipt.extractedData.businessRatio = businessRatio;
+        receipt.extractedData.businessRatioSource = 'rule';
+      }
+
       await addReceipt(receipt);
 
       // Update to completed
@@ -476,6 +681,7 @@ export default function UploadPage() {
                 status: 'completed' as const,
                 progress: 100,
                 receiptId: receipt.id,
+                isPossibleDuplicate: !!duplicate,
               }
             : f
         )
@@ -644,6 +850,7 @@ export default function UploadPage() {
   ).length;
   const completedCount = files.filter((f) => f.status === 'completed').length;
   const failedCount = files.filter((f) => f.status === 'failed').length;
+  const duplicateCount = files.filter((f) => f.isPossibleDuplicate).length;
   const totalSize = files.reduce((acc, f) => acc + f.fileSize, 0);
   const progressPercent =
     files.length > 0 ? Math.round((completedCount / files.length) * 100) : 0;
@@ -736,6 +943,13 @@ export default function UploadPage() {
               </h1>
             </div>
             <div className="flex items-center gap-2 flex-shrink-0">
+              <button
+                onClick={() => router.push('/settings')}
+                className="p-2 hover:bg-gray-100 rounded-lg text-gray-600"
+                title={t('settings')}
+              >
+                <Settings className="w-5 h-5" />
+              </button>
               <LanguageSwitcher />
               <button
                 onClick={() => router.push('/dashboard')}
@@ -849,6 +1063,29 @@ export default function UploadPage() {
           </div>
         </div>
 
+        {/* PDF rendering status */}
+        {isRenderingPdf && (
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+            <Loader2 className="w-4 h-4 text-primary-600 animate-spin" />
+            <span>{t('upload_pdf_rendering')}</span>
+          </div>
+        )}
+        {pdfErrors.length > 0 && (
+          <div className="flex items-start justify-between gap-2 bg-red-50 border border-red-200 rounded-lg px-3 py-2 mb-4">
+            <div className="text-sm text-red-700 space-y-0.5">
+              {pdfErrors.map((name, idx) => (
+                <p key={idx}>{t('upload_pdf_render_failed', { name })}</p>
+              ))}
+            </div>
+            <button
+              onClick={() => setPdfErrors([])}
+              className="p-1 text-red-500 hover:text-red-700"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
         {/* Thumbnail Grid */}
         {files.length > 0 && (
           <div
@@ -910,6 +1147,15 @@ export default function UploadPage() {
                       <CheckCircle2 className="w-6 h-6 text-green-600" />
                     </div>
                   )}
+                  {fileWithStatus.isPossibleDuplicate && (
+                    <div
+                      className="absolute top-0.5 left-0.5 flex items-center gap-0.5 bg-amber-500 text-white text-[9px] font-medium px-1 py-0.5 rounded"
+                      title={t('duplicate_possible')}
+                    >
+                      <Copy className="w-2.5 h-2.5" />
+                      <span>{t('duplicate_badge')}</span>
+                    </div>
+                  )}
                   {fileWithStatus.status === 'failed' && (
                     <button
                       onClick={(e) => {
@@ -1019,6 +1265,14 @@ export default function UploadPage() {
                     </span>
                   </div>
                 )}
+                {duplicateCount > 0 && (
+                  <div className="flex items-center gap-2 text-amber-600">
+                    <Copy className="w-4 h-4" />
+                    <span className="font-medium">
+                      {t('duplicate_count', { count: duplicateCount })}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Action buttons */}
@@ -1104,6 +1358,73 @@ export default function UploadPage() {
         </div>
       )}
 
+      {/* PDF Import Mode Modal */}
+      {currentPendingPdf && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl max-w-lg w-full p-6">
+            <h3 className="text-lg font-bold text-gray-900 mb-2">
+              {t('upload_pdf_mode_title')}
+            </h3>
+            <p className="text-gray-600 mb-4">
+              {t('upload_pdf_mode_message', {
+                name: currentPendingPdf.file.name,
+                count: currentPendingPdf.pages.length,
+              })}
+            </p>
+
+            {/* Page thumbnails */}
+            <div className="grid grid-cols-6 gap-1.5 mb-5">
+              {pendingPdfThumbnails.map((url, idx) => (
+                <div
+                  key={url}
+                  className="relative aspect-[3/4] bg-gray-100 rounded border border-gray-200 overflow-hidden"
+                >
+                  <img src={url} alt={`${idx + 1}`} className="w-full h-full object-cover" />
+                  <span className="absolute bottom-0 right-0 bg-black/60 text-white text-[10px] px-1 rounded-tl">
+                    {idx + 1}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2 mb-4">
+              <button
+                onClick={() => choosePdfImportMode('per-page')}
+                className="w-full text-left px-4 py-3 border border-gray-300 rounded-lg hover:border-primary-400 hover:bg-primary-50"
+              >
+                <span className="block font-medium text-gray-900">
+                  {t('upload_pdf_per_page')}
+                </span>
+                <span className="block text-xs text-gray-500 mt-0.5">
+                  {t('upload_pdf_per_page_hint')}
+                </span>
+              </button>
+              <button
+                onClick={() => choosePdfImportMode('whole')}
+                disabled={!canStitchPages(currentPendingPdf.pages.length)}
+                className="w-full text-left px-4 py-3 border border-gray-300 rounded-lg hover:border-primary-400 hover:bg-primary-50 disabled:opacity-50 disabled:hover:border-gray-300 disabled:hover:bg-white"
+              >
+                <span className="block font-medium text-gray-900">
+                  {t('upload_pdf_whole')}
+                </span>
+                <span className="block text-xs text-gray-500 mt-0.5">
+                  {canStitchPages(currentPendingPdf.pages.length)
+                    ? t('upload_pdf_whole_hint')
+                    : t('upload_pdf_whole_too_many', { max: PDF_SETTINGS.MAX_STITCHED_PAGES })}
+                </span>
+              </button>
+            </div>
+
+            <button
+              onClick={() => choosePdfImportMode(null)}
+              className="w-full px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              {t('cancel')}
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Image Preview Modal */}
       {previewFile && (
         <div
@@ -0,0 +1,161 @@
+'use client';
+
+import { Plus, Split, X } from 'lucide-react';
+import { buildAllocationsFromItems, getAllocationTotal } from '@/lib/export/allocations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import { formatCurrency } from '@/lib/utils/format';
+import type { ExpenseCategory, ExtractedData, ReceiptAllocation } from '@/types/receipt';
+
+interface AllocationEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/**
+ * Split one receipt across several expense categories and tax rates
+ * Each allocation becomes its own row in the ledger, CSV and Excel exports.
+ */
+export function AllocationEditor({ data, onChange }: AllocationEditorProps) {
+  const { t, language } = useI18n();
+  const allocations = data.allocations ?? [];
+  const defaultTaxRate = data.taxBreakdown[0]?.taxRate ?? 10;
+
+  const setAllocations = (next: ReceiptAllocation[]) => {
+    onChange({ ...data, allocations: next.length > 0 ? next : undefined });
+  };
+
+  const updateAllocation = (index: number, changes: Partial<ReceiptAllocation>) => {
+    setAllocations(allocations.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const remaining = data.totalAmount - getAllocationTotal(allocations);
+
+  const addAllocation = () => {
+    if (allocations.length === 0) {
+      // Start from the whole receipt so the user only carves out the other share
+      setAllocations([
+        { category: data.suggestedCategory, taxRate: defaultTaxRate, amount: data.totalAmount },
+        { category: data.suggestedCategory, taxRate: defaultTaxRate, amount: 0 },
+      ]);
+      return;
+    }
+
+    setAllocations([
+      ...allocations,
+      {
+        category: data.suggestedCategory,
+        taxRate: allocations[allocations.length - 1].taxRate,
+        amount: Math.max(remaining, 0),
+      },
+    ]);
+  };
+
+  const itemAllocations = buildAllocationsFromItems(data);
+
+  return (
+    <div className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+          <Split className="w-3.5 h-3.5" />
+          <span>{t('allocation_title')}</span>
+        </div>
+        {allocations.length > 0 && remaining !== 0 && (
+          <span className="text-xs font-medium text-amber-700">
+            {remaining > 0
+              ? t('allocation_remaining', { amount: formatCurrency(remaining) })
+              : t('allocation_over', { amount: formatCurrency(-remaining) })}
+          </span>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-1.5">{t('allocation_description')}</p>
+
+      {allocations.length > 0 && (
+        <div className="space-y-1.5 mb-1.5">
+          {allocations.map((allocation, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-1.5 text-xs">
+              <select
+                value={allocation.category}
+                onChange={(e) =>
+                  updateAllocation(index, { category: e.target.value as ExpenseCategory })
+                }
+                className="flex-1 min-w-[7rem] px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+              >
+                {EXPENSE_CATEGORIES.map((cat) => (
+                  <option key={cat.value} value={cat.value}>
+                    {language === 'en' ? t(`category_${cat.value}` as TranslationKey) : cat.label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={allocation.taxRate}
+                onChange={(e) => updateAllocation(index, { taxRate: Number(e.target.value) })}
+                className="w-16 px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+              >
+                <option value={10}>10%</option>
+                <option value={8}>8%</option>
+              </select>
+              <input
+                type="number"
+                value={allocation.amount}
+                onChange={(e) =>
+                  updateAllocation(index, { amount: parseInt(e.target.value) || 0 })
+                }
+                className="w-24 px-1.5 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-1 focus:ring-primary-500"
+              />
+              <input
+                type="text"
+                value={allocation.description ?? ''}
+                onChange={(e) =>
+                  updateAllocation(index, { description: e.target.value || undefined })
+                }
+                placeholder={t('allocation_description_placeholder')}
+                className="flex-1 min-w-[8rem] px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+              />
+              <button
+                type="button"
+                onClick={() => setAllocations(allocations.filter((_, i) => i !== index))}
+                className="p-0.5 text-gray-400 hover:text-red-600"
+                title={t('delete')}
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1">
+        <button
+          type="button"
+          onClick={addAllocation}
+          className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1 font-medium"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          <span>{t('allocation_add')}</span>
+        </button>
+        {itemAllocations.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setAllocations(itemAllocations)}
+            className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1 font-medium"
+          >
+            <Split className="w-3.5 h-3.5" />
+            <span>{t('allocation_from_items')}</span>
+          </button>
+        )}
+        {allocations.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setAllocations([])}
+            className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1 font-medium"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t('allocation_clear')}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
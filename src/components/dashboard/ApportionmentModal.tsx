@@ -0,0 +1,226 @@
+'use client';
+
+import { Percent, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  applyApportionmentRules,
+  deleteApportionmentRule,
+  getApportionmentRules,
+  saveApportionmentRule,
+} from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import type { ApportionmentRule } from '@/types/apportionment';
+import type { ExpenseCategory } from '@/types/receipt';
+
+interface ApportionmentModalProps {
+  onClose: () => void;
+  /** Called after the rules change */
+  onChange: () => void;
+  /** Called after the rules were applied to existing receipts */
+  onApply: () => void;
+}
+
+/**
+ * Manage 家事按分 rules (business share by vendor or category)
+ */
+export function ApportionmentModal({ onClose, onChange, onApply }: ApportionmentModalProps) {
+  const { t, language } = useI18n();
+  const [rules, setRules] = useState<ApportionmentRule[]>([]);
+  const [kind, setKind] = useState<ApportionmentRule['kind']>('category');
+  const [category, setCategory] = useState<ExpenseCategory>('地代家賃');
+  const [vendorName, setVendorName] = useState('');
+  const [ratio, setRatio] = useState(50);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadRules = async () => {
+    setRules(await getApportionmentRules());
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    language === 'en' ? t(`category_${value}` as TranslationKey) : value;
+
+  const canAdd = kind === 'category' || vendorName.trim().length > 0;
+
+  const handleAdd = async () => {
+    if (!canAdd) return;
+
+    // One rule per vendor/category - replace an existing one
+    const existing = rules.find((rule) =>
+      kind === 'vendor'
+        ? rule.kind === 'vendor' && rule.vendorName === vendorName.trim()
+        : rule.kind === 'category' && rule.category === category
+    );
+
+    await saveApportionmentRule({
+      id: existing?.id ?? uuidv4(),
+      kind,
+      ...(kind === 'vendor' ? { vendorName: vendorName.trim() } : { category }),
+      businessRatio: Math.min(100, Math.max(0, Math.round(ratio))),
+      createdAt: existing?.createdAt ?? new Date(),
+    });
+    setVendorName('');
+    setMessage(null);
+    await loadRules();
+    onChange();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteApportionmentRule(id);
+    await loadRules();
+    onChange();
+  };
+
+  const handleApply = async () => {
+    if (!confirm(t('apportionment_apply_confirm'))) return;
+
+    setIsApplying(true);
+    try {
+      const { updated, kept } = await applyApportionmentRules();
+      setMessage(
+        kept > 0
+          ? t('apportionment_apply_done_kept', { count: updated, kept })
+          : t('apportionment_apply_done', { count: updated })
+      );
+      onApply();
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Percent className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('apportionment_title')}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">{t('apportionment_description')}</p>
+
+        <div className="flex-1 overflow-y-auto mb-4">
+          {rules.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('apportionment_empty')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {rules.map((rule) => (
+                <li key={rule.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-gray-100 text-gray-600 flex-shrink-0">
+                    {t(`apportionment_kind_${rule.kind}` as TranslationKey)}
+                  </span>
+                  <span className="flex-1 truncate text-gray-900">
+                    {rule.kind === 'vendor'
+                      ? rule.vendorName
+                      : rule.category && categoryLabel(rule.category)}
+                  </span>
+                  <span className="font-semibold text-gray-900">{rule.businessRatio}%</span>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title={t('delete')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="border-t border-gray-200 pt-4 space-y-2">
+          <div className="flex gap-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ApportionmentRule['kind'])}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="category">{t('apportionment_kind_category')}</option>
+              <option value="vendor">{t('apportionment_kind_vendor')}</option>
+            </select>
+            {kind === 'category' ? (
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as ExpenseCategory)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {EXPENSE_CATEGORIES.map((cat) => (
+                  <option key={cat.value} value={cat.value}>
+                    {categoryLabel(cat.value)}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={vendorName}
+                onChange={(e) => setVendorName(e.target.value)}
+                placeholder={t('apportionment_vendor_placeholder')}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            )}
+            <div className="relative w-20 flex-shrink-0">
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={ratio}
+                onChange={(e) => setRatio(parseInt(e.target.value) || 0)}
+                className="w-full pl-2 pr-6 py-1.5 text-sm border border-gray-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-gray-500">
+                %
+              </span>
+            </div>
+          </div>
+
+          {message && <p className="text-sm text-green-700">{message}</p>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={handleAdd}
+              disabled={!canAdd}
+              className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center justify-center gap-2 text-sm"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{t('apportionment_add')}</span>
+            </button>
+            {rules.length > 0 && (
+              <button
+                onClick={handleApply}
+                disabled={isApplying}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2 text-sm"
+              >
+                <RefreshCw className={`w-4 h-4 ${isApplying ? 'animate-spin' : ''}`} />
+                <span>{t('apportionment_apply')}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+'use client';
+
+import { FileSpreadsheet, Printer, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  getFinancialStatementSettings,
+  getReceipts,
+  saveFinancialStatementSettings,
+} from '@/lib/db/operations';
+import {
+  buildProfitLossStatement,
+  exportProfitLossExcel,
+  formatItemNumber,
+  printProfitLossStatement,
+} from '@/lib/export/blue-return';
+import { getDepreciationSchedule } from '@/lib/depreciation/schedule';
+import { useI18n } from '@/lib/i18n/context';
+import { formatCurrency } from '@/lib/utils/format';
+import type {
+  BlueReturnSpecialDeduction,
+  FinancialStatementSettings,
+} from '@/types/financial-statement';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+import type { Receipt } from '@/types/receipt';
+
+interface BlueReturnModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+const SPECIAL_DEDUCTIONS: BlueReturnSpecialDeduction[] = [650000, 550000, 100000];
+
+/**
+ * 青色申告決算書 page 1 (損益計算書): inventory and special deduction input,
+ * preview, Excel export and print
+ */
+export function BlueReturnModal({ year, onClose }: BlueReturnModalProps) {
+  const { t } = useI18n();
+  const [receipts, setReceipts] = useState<Receipt[] | null>(null);
+  const [depreciation, setDepreciation] = useState<DepreciationScheduleRow[]>([]);
+  const [settings, setSettings] = useState<FinancialStatementSettings | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([
+      getReceipts({ fiscalYear: year }),
+      getReceipts(),
+      getFinancialStatementSettings(),
+    ]).then(([yearReceipts, allReceipts, statementSettings]) => {
+      if (!mounted) return;
+      setReceipts(yearReceipts);
+      setDepreciation(getDepreciationSchedule(allReceipts, year));
+      setSettings(statementSettings);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [year]);
+
+  const inventory = settings?.inventory[year] ?? { opening: 0, closing: 0 };
+
+  const statement = useMemo(
+    () =>
+      receipts && settings
+        ? buildProfitLossStatement(
+            year,
+            receipts,
+            settings.inventory[year] ?? { opening: 0, closing: 0 },
+            settings.specialDeduction,
+            depreciation
+          )
+        : null,
+    [receipts, settings, depreciation, year]
+  );
+
+  const updateInventory = (field: 'opening' | 'closing', value: string) => {
+    if (!settings) return;
+    const amount = Math.max(0, Math.floor(Number(value) || 0));
+    setSettings({
+      ...settings,
+      inventory: { ...settings.inventory, [year]: { ...inventory, [field]: amount } },
+    });
+  };
+
+  const handleOutput = async (output: 'excel' | 'print') => {
+    if (!statement || !settings) return;
+    setIsExporting(true);
+    try {
+      await saveFinancialStatementSettings(settings);
+      if (output === 'excel') {
+        await exportProfitLossExcel(statement);
+      } else {
+        printProfitLossStatement(statement);
+      }
+    } catch (error) {
+      console.error('Blue return export failed:', error);
+      alert(error instanceof Error ? error.message : t('export_error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  const previewLines = statement
+    ? [
+        { number: 1, label: t('blue_return_sales'), amount: statement.sales },
+        { number: 6, label: t('financials_cost_of_sales'), amount: statement.costOfSales },
+        { number: 7, label: t('financials_gross_profit'), amount: statement.grossProfit },
+        ...statement.expenses
+          .filter((line) => line.amount !== 0)
+          .map((line) => ({ number: line.number, label: line.label, amount: line.amount })),
+        { number: 32, label: t('financials_total_expenses'), amount: statement.totalExpenses },
+        { number: 33, label: t('blue_return_net_income'), amount: statement.netIncome },
+        { number: 44, label: t('blue_return_special_deduction'), amount: statement.specialDeduction },
+        { number: 45, label: t('financials_income'), amount: statement.income },
+      ]
+    : [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('blue_return_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('blue_return_description')}</p>
+
+        {!statement || !settings ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t('loading')}</p>
+        ) : (
+          <div className="overflow-y-auto space-y-4 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-gray-700 mb-1">{t('financials_opening_inventory')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={inventory.opening}
+                  onChange={(e) => updateInventory('opening', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">{t('financials_closing_inventory')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={inventory.closing}
+                  onChange={(e) => updateInventory('closing', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">{t('blue_return_special_deduction')}</label>
+                <select
+                  value={settings.specialDeduction}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      specialDeduction: Number(e.target.value) as BlueReturnSpecialDeduction,
+                    })
+                  }
+                  className={inputClass}
+                >
+                  {SPECIAL_DEDUCTIONS.map((amount) => (
+                    <option key={amount} value={amount}>
+                      {t('blue_return_deduction_option', {
+                        amount: amount / 10000,
+                        yen: amount.toLocaleString(),
+                      })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <table className="w-full">
+              <tbody className="divide-y divide-gray-100">
+                {previewLines.map((line) => (
+                  <tr
+                    key={line.number}
+                    className={[7, 33, 45].includes(line.number) ? 'font-medium' : ''}
+                  >
+                    <td className="py-1.5 w-8 text-gray-500">{formatItemNumber(line.number)}</td>
+                    <td className="py-1.5 text-gray-800">{line.label}</td>
+                    <td className="py-1.5 text-right">{formatCurrency(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">{t('blue_return_note')}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          <button
+            onClick={() => handleOutput('print')}
+            disabled={!statement || isExporting}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <Printer className="w-4 h-4" />
+            <span>{t('blue_return_print')}</span>
+          </button>
+          <button
+            onClick={() => handleOutput('excel')}
+            disabled={!statement || isExporting}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>{isExporting ? t('exporting') : t('financials_export_excel')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { Percent } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getBusinessRatio, getDeductibleAmount } from '@/lib/apportionment/business-ratio';
+import { getSuggestedBusinessRatio } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { formatCurrency } from '@/lib/utils/format';
+import type { BusinessRatioSource, ExtractedData } from '@/types/receipt';
+
+interface BusinessRatioFieldProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+  /** Bump to re-read the rules after they change */
+  rulesVersion?: number;
+}
+
+/**
+ * 家事按分 business share, with gross and deductible amounts side by side
+ */
+export function BusinessRatioField({ data, onChange, rulesVersion }: BusinessRatioFieldProps) {
+  const { t } = useI18n();
+  const [suggestedRatio, setSuggestedRatio] = useState<number | undefined>(undefined);
+
+  const { issuerName, suggestedCategory, direction } = data;
+
+  useEffect(() => {
+    let mounted = true;
+
+    getSuggestedBusinessRatio({ issuerName, suggestedCategory, direction }).then((ratio) => {
+      if (mounted) setSuggestedRatio(ratio);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [issuerName, suggestedCategory, direction, rulesVersion]);
+
+  const ratio = getBusinessRatio(data);
+  const deductible = getDeductibleAmount(data.totalAmount, ratio);
+
+  const setRatio = (value: number | undefined, source: BusinessRatioSource = 'manual') => {
+    onChange({
+      ...data,
+      businessRatio:
+        value === undefined || value >= 100 ? undefined : Math.max(0, Math.round(value)),
+      businessRatioSource: source,
+    });
+  };
+
+  return (
+    <div>
+      <label className="flex items-center gap-1.5 text-sm font-medium text-gray-700 mb-1">
+        <Percent className="w-3.5 h-3.5 text-gray-500" />
+        <span>{t('field_business_ratio')}</span>
+      </label>
+      <div className="flex items-center gap-2">
+        <div className="relative w-24 flex-shrink-0">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={ratio}
+            onChange={(e) => setRatio(e.target.value === '' ? undefined : parseInt(e.target.value))}
+            className="w-full pl-3 pr-7 py-2 text-sm border border-gray-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-gray-500">%</span>
+        </div>
+        <div className="text-xs text-gray-600 leading-tight">
+          <div>{t('business_ratio_gross', { amount: formatCurrency(data.totalAmount) })}</div>
+          <div className={ratio < 100 ? 'font-semibold text-gray-900' : ''}>
+            {t('business_ratio_deductible', { amount: formatCurrency(deductible) })}
+          </div>
+        </div>
+      </div>
+      {suggestedRatio !== undefined && suggestedRatio !== ratio && (
+        <button
+          type="button"
+          onClick={() => setRatio(suggestedRatio, 'rule')}
+          className="mt-1 text-xs text-primary-600 hover:text-primary-700 font-medium"
+        >
+          {t('business_ratio_apply_rule', { ratio: suggestedRatio })}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { FileSpreadsheet, Layers, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getReceipts } from '@/lib/db/operations';
+import { getDepreciationCarryOver, type CarryOverAsset } from '@/lib/depreciation/carry-over';
+import { getDepreciationSchedule } from '@/lib/depreciation/schedule';
+import { exportDepreciationSchedule } from '@/lib/export/depreciation';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+
+interface CarryOverModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+/**
+ * Depreciable assets whose write-off spans into the selected fiscal year:
+ * the fixed asset register first, then large expenses not registered yet
+ */
+export function CarryOverModal({ year, onClose }: CarryOverModalProps) {
+  const { t, language } = useI18n();
+  const [assets, setAssets] = useState<CarryOverAsset[] | null>(null);
+  const [registered, setRegistered] = useState<DepreciationScheduleRow[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+
+    getReceipts().then((receipts) => {
+      if (!mounted) return;
+      setRegistered(getDepreciationSchedule(receipts, year));
+      setAssets(getDepreciationCarryOver(receipts, year));
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [year]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await exportDepreciationSchedule(year, registered);
+    } catch (error) {
+      console.error('Depreciation export failed:', error);
+      alert(t('export_error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Layers className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">
+              {t('carry_over_title', { year })}
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">{t('carry_over_description', { year })}</p>
+
+        <div className="overflow-y-auto space-y-4">
+          {assets && assets.length === 0 && registered.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">{t('carry_over_empty')}</p>
+          )}
+
+          {registered.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">{t('fixed_asset_register_title')}</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="text-left font-medium py-2 pr-2">{t('fixed_asset_service_date')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('fixed_asset_name')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('field_total_amount')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('carry_over_method')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('fixed_asset_deductible')}</th>
+                    <th className="text-right font-medium py-2">{t('carry_over_remaining')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {registered.map((row) => (
+                    <tr key={row.receipt.id}>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {formatDate(row.asset.serviceDate, language)}
+                        {Number(row.asset.serviceDate.slice(0, 4)) < year && (
+                          <span className="ml-1 text-[10px] px-1 rounded bg-primary-50 text-primary-700">
+                            {t('carry_over_from_prior')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <p className="truncate max-w-[12rem]">{row.asset.name}</p>
+                      </td>
+                      <td className="py-2 pr-2 text-right whitespace-nowrap">
+                        {formatCurrency(row.cost)}
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {t(`fixed_asset_method_${row.asset.method}` as TranslationKey)}
+                        {(row.asset.method === 'straightLine' ||
+                          row.asset.method === 'decliningBalance') &&
+                          ` ${t('fixed_asset_life_years', { years: row.asset.usefulLife })}`}
+                      </td>
+                      <td className="py-2 pr-2 text-right whitespace-nowrap">
+                        {formatCurrency(row.deductible)}
+                        {row.businessRatio < 100 && (
+                          <span className="block text-[10px] text-gray-500">
+                            {formatCurrency(row.depreciation)} × {row.businessRatio}%
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 text-right whitespace-nowrap">
+                        {formatCurrency(row.closingBookValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {assets && assets.length > 0 && (
+            <div>
+              {registered.length > 0 && (
+                <h4 className="text-sm font-semibold text-gray-800 mb-1">{t('fixed_asset_unregistered_title')}</h4>
+              )}
+              <p className="text-xs text-gray-500 mb-1">{t('fixed_asset_unregistered_hint')}</p>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="text-left font-medium py-2 pr-2">{t('carry_over_acquired')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('field_issuer_name')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('field_total_amount')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('carry_over_method')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('carry_over_year_amount')}</th>
+                    <th className="text-right font-medium py-2">{t('carry_over_remaining')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {assets.map((asset, index) => (
+                    <tr key={`${asset.receipt.id}-${index}`}>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {formatDate(asset.receipt.extractedData.transactionDate, language)}
+                        {asset.acquisitionYear < year && (
+                          <span className="ml-1 text-[10px] px-1 rounded bg-primary-50 text-primary-700">
+                            {t('carry_over_from_prior')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-2">
+                        <p className="truncate max-w-[12rem]">
+                          {asset.receipt.extractedData.issuerName}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate max-w-[12rem]">
+                          {asset.receipt.extractedData.description}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-2 text-right whitespace-nowrap">
+                        {formatCurrency(asset.receipt.extractedData.totalAmount)}
+                      </td>
+                      <td className="py-2 pr-2 whitespace-nowrap">
+                        {asset.method === 'lumpsum'
+                          ? t('carry_over_method_lumpsum', { index: asset.yearIndex })
+                          : t('carry_over_method_standard', { index: asset.yearIndex })}
+                      </td>
+                      {asset.method === 'lumpsum' ? (
+                        <>
+                          <td className="py-2 pr-2 text-right whitespace-nowrap">
+                            {formatCurrency(asset.yearAmount ?? 0)}
+                          </td>
+                          <td className="py-2 text-right whitespace-nowrap">
+                            {formatCurrency(asset.remainingAmount ?? 0)}
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={2} className="py-2 text-right text-xs text-gray-500">
+                          {t('carry_over_standard_note')}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end mt-4 pt-4 border-t border-gray-200">
+          <button
+            onClick={handleExport}
+            disabled={registered.length === 0 || isExporting}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>{isExporting ? t('exporting') : t('fixed_asset_export')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+'use client';
+
+import { Download, Receipt as ReceiptIcon, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { buildConsumptionTaxWorksheet } from '@/lib/consumption-tax/worksheet';
+import {
+  getConsumptionTaxSettings,
+  getReceipts,
+  saveConsumptionTaxSettings,
+  verifyReceiptTNumbers,
+} from '@/lib/db/operations';
+import { exportConsumptionTaxWorksheet } from '@/lib/export/consumption-tax';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { CONSUMPTION_TAX } from '@/lib/utils/constants';
+import { formatCurrency } from '@/lib/utils/format';
+import type { SimplifiedBusinessType } from '@/types/consumption-tax';
+import type { Receipt } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+
+interface ConsumptionTaxModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+const BUSINESS_TYPES: SimplifiedBusinessType[] = [1, 2, 3, 4, 5, 6];
+
+/**
+ * 消費税申告 worksheet for a year: totals, invoice credit split and the tax
+ * due under each calculation method
+ */
+export function ConsumptionTaxModal({ year, onClose }: ConsumptionTaxModalProps) {
+  const { t, language } = useI18n();
+  const [data, setData] = useState<{
+    receipts: Receipt[];
+    verifications: Map<string, TNumberVerification>;
+  } | null>(null);
+  const [businessType, setBusinessType] = useState<SimplifiedBusinessType>(5);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      const [receipts, settings] = await Promise.all([
+        getReceipts({ fiscalYear: year }),
+        getConsumptionTaxSettings(),
+      ]);
+      const verifications = await verifyReceiptTNumbers(receipts);
+      if (!mounted) return;
+      setData({ receipts, verifications });
+      setBusinessType(settings.businessType);
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [year]);
+
+  const worksheet = useMemo(
+    () =>
+      data && buildConsumptionTaxWorksheet(year, data.receipts, data.verifications, businessType),
+    [data, year, businessType]
+  );
+
+  const handleBusinessTypeChange = async (value: SimplifiedBusinessType) => {
+    setBusinessType(value);
+    await saveConsumptionTaxSettings({ businessType: value });
+  };
+
+  const handleExport = async () => {
+    if (!worksheet) return;
+    setIsExporting(true);
+    try {
+      await exportConsumptionTaxWorksheet(worksheet, language);
+    } catch (error) {
+      console.error('Consumption tax export failed:', error);
+      alert(t('export_error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const groupLabel = (qualified: boolean, creditRate: number) =>
+    qualified
+      ? t('ctax_qualified')
+      : creditRate === 0
+        ? t('ctax_not_deductible')
+        : t('ctax_transitional', { rate: creditRate });
+
+  const bestTotal = worksheet
+    ? Math.min(...worksheet.results.filter((r) => r.eligible).map((r) => r.totalTax))
+    : 0;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <ReceiptIcon className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('ctax_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('ctax_description')}</p>
+
+        {!worksheet ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t('loading')}</p>
+        ) : (
+          <div className="overflow-y-auto space-y-5 text-sm">
+            {/* Sales */}
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-1">{t('ctax_sales')}</h4>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-100">
+                  {worksheet.sales.map((sales) => (
+                    <tr key={sales.taxRate}>
+                      <td className="py-1.5 text-gray-700">
+                        {t('ctax_rate_total', { rate: sales.taxRate, count: sales.count })}
+                      </td>
+                      <td className="py-1.5 text-right">{formatCurrency(sales.total)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-medium">
+                    <td className="py-1.5 text-gray-900">{t('ctax_sales_tax')}</td>
+                    <td className="py-1.5 text-right">{formatCurrency(worksheet.salesTax)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+
+            {/* Purchases */}
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-1">{t('ctax_purchases')}</h4>
+              <table className="w-full">
+                <tbody className="divide-y divide-gray-100">
+                  {worksheet.purchases.flatMap((group) =>
+                    group.byRate.map((rate) => (
+                      <tr key={`${group.qualified}-${group.creditRate}-${rate.taxRate}`}>
+                        <td className="py-1.5 text-gray-700">
+                          <span className={group.qualified ? '' : 'text-amber-700'}>
+                            {groupLabel(group.qualified, group.creditRate)}
+                          </span>{' '}
+                          · {t('ctax_rate_total', { rate: rate.taxRate, count: rate.count })}
+                        </td>
+                        <td className="py-1.5 text-right">{formatCurrency(rate.total)}</td>
+                      </tr>
+                    ))
+                  )}
+                  <tr className="font-medium">
+                    <td className="py-1.5 text-gray-900">{t('ctax_deductible_tax')}</td>
+                    <td className="py-1.5 text-right">
+                      {formatCurrency(worksheet.purchases.reduce((sum, g) => sum + g.deductibleTax, 0))}
+                    </td>
+                  </tr>
+                </tbody>
+              </table>
+              {worksheet.excludedCount > 0 && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('ctax_excluded', { count: worksheet.excludedCount })}
+                </p>
+              )}
+            </div>
+
+            {/* Method comparison */}
+            <div>
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+                <h4 className="font-semibold text-gray-900">{t('ctax_comparison')}</h4>
+                <label className="flex items-center gap-2 text-gray-600">
+                  <span>{t('ctax_business_type')}</span>
+                  <select
+                    value={businessType}
+                    onChange={(e) =>
+                      handleBusinessTypeChange(Number(e.target.value) as SimplifiedBusinessType)
+                    }
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    {BUSINESS_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {t(`ctax_business_type_${type}` as TranslationKey)} (
+                        {CONSUMPTION_TAX.DEEMED_PURCHASE_RATES[type]}%)
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <table className="w-full">
+                <thead className="text-xs text-gray-500 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left py-2 font-medium">{t('ctax_method')}</th>
+                    <th className="text-right py-2 font-medium">{t('ctax_deduction')}</th>
+                    <th className="text-right py-2 font-medium">{t('ctax_national_tax')}</th>
+                    <th className="text-right py-2 font-medium">{t('ctax_local_tax')}</th>
+                    <th className="text-right py-2 font-medium">{t('ctax_total_tax')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {worksheet.results.map((result) => (
+                    <tr
+                      key={result.method}
+                      className={
+                        !result.eligible
+                          ? 'text-gray-400'
+                          : result.totalTax === bestTotal
+                            ? 'bg-green-50 font-medium'
+                            : ''
+                      }
+                    >
+                      <td className="py-1.5">
+                        {t(`ctax_method_${result.method}` as TranslationKey)}
+                        {!result.eligible && ` ${t('ctax_not_eligible')}`}
+                      </td>
+                      <td className="py-1.5 text-right">{formatCurrency(result.deductibleTax)}</td>
+                      <td className="py-1.5 text-right">{formatCurrency(result.nationalTax)}</td>
+                      <td className="py-1.5 text-right">{formatCurrency(result.localTax)}</td>
+                      <td className="py-1.5 text-right">{formatCurrency(result.totalTax)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">{t('ctax_method_note')}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+          >
+            {t('close')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!worksheet || isExporting}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <Download className="w-4 h-4" />
+            <span>{isExporting ? t('exporting') : t('ctax_export_excel')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
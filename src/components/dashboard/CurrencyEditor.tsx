@@ -0,0 +1,164 @@
+'use client';
+
+import { Globe } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { clearForeignCurrency, convertToYen, normalizeCurrency } from '@/lib/currency/exchange';
+import { findExchangeRate } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { CURRENCIES } from '@/lib/utils/constants';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import type { ExchangeRate } from '@/types/currency';
+import type { ExtractedData } from '@/types/receipt';
+
+interface CurrencyEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/**
+ * Currency of the document, its original total and the rate it was converted
+ * to yen at (TTM from the rate table, or entered by hand)
+ */
+export function CurrencyEditor({ data, onChange }: CurrencyEditorProps) {
+  const { t, language } = useI18n();
+  const currency = normalizeCurrency(data.currency);
+  const date = formatDateForInput(data.transactionDate);
+  // undefined = not looked up yet, null = no rate in the table
+  const [tableRate, setTableRate] = useState<ExchangeRate | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!currency || !date) return;
+    let mounted = true;
+    setTableRate(undefined);
+    findExchangeRate(currency, date).then((rate) => {
+      if (mounted) setTableRate(rate ?? null);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [currency, date]);
+
+  const handleCurrencyChange = (value: string) => {
+    if (!normalizeCurrency(value)) {
+      onChange(clearForeignCurrency(data));
+      return;
+    }
+    // The old rate was for another currency
+    const rest = clearForeignCurrency(data);
+    onChange({ ...rest, currency: value, originalAmount: data.originalAmount });
+  };
+
+  const applyRate = (rate: number, source: 'ttm' | 'manual', rateDate: string) => {
+    if (data.originalAmount === undefined || !(rate > 0)) {
+      onChange({ ...data, exchangeRate: undefined });
+      return;
+    }
+    onChange(convertToYen(data, { rate, date: rateDate, source }));
+  };
+
+  const handleAmountChange = (value: string) => {
+    const amount = value === '' ? undefined : Number(value);
+    if (amount === undefined || !Number.isFinite(amount)) {
+      onChange({ ...data, originalAmount: undefined });
+      return;
+    }
+    const next = { ...data, originalAmount: amount };
+    onChange(data.exchangeRate ? convertToYen(next, data.exchangeRate) : next);
+  };
+
+  const usesTableRate =
+    !!tableRate &&
+    data.exchangeRate?.source === 'ttm' &&
+    data.exchangeRate.rate === tableRate.rate &&
+    data.exchangeRate.date === tableRate.date;
+
+  const inputClass =
+    'px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className={currency ? 'mt-2 bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200' : 'mt-1.5'}>
+      <div className="flex items-center gap-1.5 text-xs text-gray-600">
+        <Globe className="w-3.5 h-3.5" />
+        <label htmlFor="receipt-currency">{t('field_currency')}</label>
+        <select
+          id="receipt-currency"
+          value={currency ?? 'JPY'}
+          onChange={(e) => handleCurrencyChange(e.target.value)}
+          className={inputClass}
+        >
+          <option value="JPY">JPY {language === 'ja' ? '日本円' : 'Japanese yen'}</option>
+          {CURRENCIES.map((c) => (
+            <option key={c.value} value={c.value}>
+              {c.value} {language === 'ja' ? c.label : c.description}
+            </option>
+          ))}
+          {currency && !CURRENCIES.some((c) => c.value === currency) && (
+            <option value={currency}>{currency}</option>
+          )}
+        </select>
+      </div>
+
+      {currency && (
+        <div className="mt-1.5 space-y-1.5 text-xs">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <label className="flex items-center gap-1 text-gray-600">
+              <span>{t('field_original_amount')}</span>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={data.originalAmount ?? ''}
+                onChange={(e) => handleAmountChange(e.target.value)}
+                className={`w-28 text-right ${inputClass}`}
+              />
+              <span>{currency}</span>
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              <span>{t('field_exchange_rate')}</span>
+              <input
+                type="number"
+                min={0}
+                step="0.0001"
+                value={data.exchangeRate?.rate ?? ''}
+                onChange={(e) => applyRate(Number(e.target.value), 'manual', date)}
+                className={`w-24 text-right ${inputClass}`}
+              />
+              <span>{t('currency_per_unit', { currency })}</span>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-x-3 gap-y-0.5 text-gray-600">
+            {data.exchangeRate ? (
+              <span>
+                {data.exchangeRate.source === 'ttm'
+                  ? t('currency_rate_ttm', { date: data.exchangeRate.date })
+                  : t('currency_rate_manual')}
+                {data.originalAmount !== undefined && (
+                  <>
+                    {' '}
+                    {formatCurrency(data.originalAmount, currency)} →{' '}
+                    <span className="font-medium text-gray-800">{formatCurrency(data.totalAmount)}</span>
+                  </>
+                )}
+              </span>
+            ) : (
+              <span className="text-amber-700 font-medium">{t('currency_not_converted')}</span>
+            )}
+            {tableRate && !usesTableRate && (
+              <button
+                type="button"
+                onClick={() => applyRate(tableRate.rate, 'ttm', tableRate.date)}
+                className="text-primary-600 hover:text-primary-700 font-medium"
+              >
+                {t('currency_use_ttm', { rate: tableRate.rate, date: tableRate.date })}
+              </button>
+            )}
+            {tableRate === null && (
+              <span className="text-gray-500">{t('currency_no_ttm', { currency, date })}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { Copy, Eye, GitMerge, ShieldCheck, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getReceipt } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { Receipt } from '@/types/receipt';
+
+interface DuplicateBannerProps {
+  receipt: Receipt;
+  onMerge: () => void;
+  onDiscard: () => void;
+  onKeep: () => void;
+  onViewOriginal: (original: Receipt) => void;
+}
+
+/**
+ * Shown in the detail panel when a receipt looks like a duplicate of an
+ * earlier one. Offers merge / discard / keep actions.
+ */
+export function DuplicateBanner({
+  receipt,
+  onMerge,
+  onDiscard,
+  onKeep,
+  onViewOriginal,
+}: DuplicateBannerProps) {
+  const { t } = useI18n();
+  const [original, setOriginal] = useState<Receipt | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  const duplicate = receipt.duplicate;
+
+  useEffect(() => {
+    let mounted = true;
+    setIsLoaded(false);
+
+    if (duplicate) {
+      getReceipt(duplicate.receiptId).then((r) => {
+        if (mounted) {
+          setOriginal(r ?? null);
+          setIsLoaded(true);
+        }
+      });
+    }
+
+    return () => {
+      mounted = false;
+    };
+  }, [duplicate]);
+
+  if (duplicate?.status !== 'unresolved' || !isLoaded) return null;
+
+  const reasons = duplicate.reasons
+    .map((reason) => t(`duplicate_reason_${reason}` as TranslationKey))
+    .join(', ');
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-lg px-3 py-2">
+      <div className="flex items-center gap-2">
+        <Copy className="w-4 h-4 text-amber-600 flex-shrink-0" />
+        <span className="text-sm font-medium text-amber-900">
+          {t('duplicate_banner_title')}
+        </span>
+      </div>
+
+      <p className="text-xs text-amber-800 mt-1">
+        {original
+          ? t('duplicate_banner_message', {
+              date: formatDate(original.extractedData.transactionDate),
+              issuer: original.extractedData.issuerName,
+              amount: formatCurrency(original.extractedData.totalAmount),
+            })
+          : t('duplicate_original_missing')}
+      </p>
+      <p className="text-xs text-amber-700 mt-0.5">
+        {t('duplicate_matched_on', { reasons })}
+      </p>
+
+      <div className="flex flex-wrap gap-1.5 mt-2">
+        {original && (
+          <>
+            <button
+              onClick={() => onViewOriginal(original)}
+              className="text-xs px-2 py-1 bg-white border border-amber-300 text-amber-800 rounded hover:bg-amber-100 flex items-center gap-1"
+            >
+              <Eye className="w-3 h-3" />
+              <span>{t('duplicate_action_view_original')}</span>
+            </button>
+            <button
+              onClick={onMerge}
+              className="text-xs px-2 py-1 bg-amber-600 text-white rounded hover:bg-amber-700 flex items-center gap-1"
+            >
+              <GitMerge className="w-3 h-3" />
+              <span>{t('duplicate_action_merge')}</span>
+            </button>
+          </>
+        )}
+        <button
+          onClick={onDiscard}
+          className="text-xs px-2 py-1 bg-white border border-red-300 text-red-600 rounded hover:bg-red-50 flex items-center gap-1"
+        >
+          <Trash2 className="w-3 h-3" />
+          <span>{t('duplicate_action_discard')}</span>
+        </button>
+        <button
+          onClick={onKeep}
+          className="text-xs px-2 py-1 bg-white border border-gray-300 text-gray-700 rounded hover:bg-gray-50 flex items-center gap-1"
+        >
+          <ShieldCheck className="w-3 h-3" />
+          <span>{t('duplicate_action_keep')}</span>
+        </button>
+      </div>
+    </div>
+  );
+}
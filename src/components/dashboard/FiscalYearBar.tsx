@@ -0,0 +1,77 @@
+'use client';
+
+import { Layers, Lock, LockOpen } from 'lucide-react';
+import { useI18n } from '@/lib/i18n/context';
+import type { FiscalYearSummary } from '@/types/fiscal-year';
+
+interface FiscalYearBarProps {
+  years: FiscalYearSummary[];
+  selectedYear: number;
+  onSelectYear: (year: number) => void;
+  onCloseYear: () => void;
+  onReopenYear: () => void;
+  onShowCarryOver: () => void;
+}
+
+/**
+ * Fiscal-year selector with close/reopen and carry-over actions
+ */
+export function FiscalYearBar({
+  years,
+  selectedYear,
+  onSelectYear,
+  onCloseYear,
+  onReopenYear,
+  onShowCarryOver,
+}: FiscalYearBarProps) {
+  const { t } = useI18n();
+  const current = years.find((y) => y.year === selectedYear);
+  const isClosed = current?.isClosed ?? false;
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-200 flex items-center gap-1.5">
+      <label className="text-xs text-gray-500 flex-shrink-0" htmlFor="fiscal-year">
+        {t('fiscal_year_label')}
+      </label>
+      <select
+        id="fiscal-year"
+        value={selectedYear}
+        onChange={(e) => onSelectYear(Number(e.target.value))}
+        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+      >
+        {years.map((y) => (
+          <option key={y.year} value={y.year}>
+            {t('fiscal_year_option', { year: y.year, count: y.receiptCount })}
+            {y.isClosed ? ` - ${t('fiscal_year_closed')}` : ''}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={onShowCarryOver}
+        className="p-1.5 text-gray-500 hover:bg-gray-100 rounded"
+        title={t('fiscal_year_carry_over')}
+      >
+        <Layers className="w-4 h-4" />
+      </button>
+      {isClosed ? (
+        <button
+          onClick={onReopenYear}
+          className="text-xs px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 flex items-center gap-1 flex-shrink-0"
+          title={t('fiscal_year_reopen')}
+        >
+          <Lock className="w-3 h-3" />
+          <span>{t('fiscal_year_closed')}</span>
+        </button>
+      ) : (
+        <button
+          onClick={onCloseYear}
+          className="text-xs px-2 py-1 text-gray-500 rounded hover:bg-gray-100 flex items-center gap-1 flex-shrink-0"
+          title={t('fiscal_year_close')}
+        >
+          <LockOpen className="w-3 h-3" />
+          <span>{t('fiscal_year_close')}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { Building2, X } from 'lucide-react';
+import {
+  canRegisterFixedAsset,
+  getAssetSchedule,
+  getAvailableMethods,
+} from '@/lib/depreciation/schedule';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EQUIPMENT_THRESHOLD, USEFUL_LIFE_TABLE } from '@/lib/utils/constants';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import { getDepreciationNote } from '@/lib/validation/receipt';
+import type { DepreciationMethod, FixedAssetInfo } from '@/types/fixed-asset';
+import type { ExtractedData } from '@/types/receipt';
+
+interface FixedAssetEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/** Years of the schedule shown under the form */
+const PREVIEW_YEARS = 5;
+
+/**
+ * Register an expense as a fixed asset (固定資産台帳) and pick how it is depreciated
+ * Registered receipts leave the expense columns; their depreciation is booked
+ * as 減価償却費 each year instead.
+ */
+export function FixedAssetEditor({ data, onChange }: FixedAssetEditorProps) {
+  const { t, language } = useI18n();
+  const asset = data.fixedAsset;
+
+  if (!canRegisterFixedAsset(data) || (!asset && data.totalAmount < EQUIPMENT_THRESHOLD)) {
+    return null;
+  }
+
+  const setAsset = (next: FixedAssetInfo | undefined) => {
+    if (next) {
+      // Keep the method valid when the cost, date or useful life changes
+      const methods = getAvailableMethods(data.totalAmount, next.serviceDate, next.usefulLife);
+      if (!methods.includes(next.method)) next = { ...next, method: 'straightLine' };
+    }
+    onChange({ ...data, fixedAsset: next });
+  };
+
+  const register = () => {
+    const serviceDate = formatDateForInput(data.transactionDate);
+    const note = getDepreciationNote(data.totalAmount, new Date(data.transactionDate));
+    const method: DepreciationMethod =
+      note?.method === 'immediate' ? 'smallAmount' : note?.method === 'lumpsum' ? 'lumpSum' : 'straightLine';
+
+    setAsset({
+      name: data.description || data.issuerName,
+      serviceDate,
+      usefulLife: 4,
+      method,
+    });
+  };
+
+  const inputClass =
+    'px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+          <Building2 className="w-3.5 h-3.5" />
+          <span>{t('fixed_asset_title')}</span>
+        </div>
+        {asset && (
+          <button
+            type="button"
+            onClick={() => setAsset(undefined)}
+            className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1 font-medium"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t('fixed_asset_unregister')}</span>
+          </button>
+        )}
+      </div>
+
+      {!asset ? (
+        <>
+          <p className="text-xs text-gray-500 mb-1.5">{t('fixed_asset_description')}</p>
+          <button
+            type="button"
+            onClick={register}
+            className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1 font-medium"
+          >
+            <Building2 className="w-3.5 h-3.5" />
+            <span>{t('fixed_asset_register')}</span>
+          </button>
+        </>
+      ) : (
+        <div className="space-y-1.5 text-xs">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <input
+              type="text"
+              value={asset.name}
+              onChange={(e) => setAsset({ ...asset, name: e.target.value })}
+              placeholder={t('fixed_asset_name')}
+              className={`flex-1 min-w-[8rem] ${inputClass}`}
+            />
+            <label className="flex items-center gap-1 text-gray-600">
+              <span>{t('fixed_asset_service_date')}</span>
+              <input
+                type="date"
+                value={asset.serviceDate}
+                onChange={(e) => e.target.value && setAsset({ ...asset, serviceDate: e.target.value })}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <select
+              value={asset.usefulLifeItem ?? ''}
+              onChange={(e) => {
+                const item = USEFUL_LIFE_TABLE.find((entry) => entry.key === e.target.value);
+                setAsset({
+                  ...asset,
+                  usefulLifeItem: item?.key,
+                  usefulLife: item?.years ?? asset.usefulLife,
+                });
+              }}
+              className={`flex-1 min-w-[10rem] ${inputClass}`}
+            >
+              <option value="">{t('fixed_asset_life_custom')}</option>
+              {USEFUL_LIFE_TABLE.map((entry) => (
+                <option key={entry.key} value={entry.key}>
+                  {language === 'en' ? t(`fixed_asset_life_${entry.key}` as TranslationKey) : entry.label}
+                  {` (${entry.years})`}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1 text-gray-600">
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={asset.usefulLife}
+                onChange={(e) =>
+                  setAsset({
+                    ...asset,
+                    usefulLifeItem: undefined,
+                    usefulLife: Math.min(50, Math.max(1, parseInt(e.target.value) || 1)),
+                  })
+                }
+                className={`w-14 text-right ${inputClass}`}
+              />
+              <span>{t('fixed_asset_years')}</span>
+            </label>
+            <select
+              value={asset.method}
+              onChange={(e) => setAsset({ ...asset, method: e.target.value as DepreciationMethod })}
+              className={inputClass}
+            >
+              {getAvailableMethods(data.totalAmount, asset.serviceDate, asset.usefulLife).map((method) => (
+                <option key={method} value={method}>
+                  {t(`fixed_asset_method_${method}` as TranslationKey)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-gray-600">
+            {getAssetSchedule(data)
+              .slice(0, PREVIEW_YEARS)
+              .map((entry) => (
+                <span key={entry.year}>
+                  {entry.year}: <span className="font-medium text-gray-800">{formatCurrency(entry.deductible)}</span>
+                </span>
+              ))}
+          </div>
+          <p className="text-gray-500">{t('fixed_asset_note')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
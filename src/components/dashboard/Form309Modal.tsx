@@ -0,0 +1,335 @@
+'use client';
+
+import { AlertCircle, FileText, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { getPayees, getReceipts, savePayee } from '@/lib/db/operations';
+import { buildForm309Preview, downloadForm309CSV, formatTaxYear } from '@/lib/export/form309';
+import { downloadForm309XML } from '@/lib/export/form309-xml';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { WITHHOLDING_CATEGORIES, WITHHOLDING_SETTINGS } from '@/lib/utils/constants';
+import { formatCurrency } from '@/lib/utils/format';
+import { getVendorNames } from '@/lib/vendors/profile';
+import type { Form309PreviewEntry, Form309PreviewStatus, Payee, WithholdingCategory } from '@/types/payee';
+import type { Receipt } from '@/types/receipt';
+
+interface Form309ModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+interface SubmitterInfo {
+  name: string;
+  address: string;
+  phone: string;
+  referenceNumber: string;
+}
+
+/** Submitter details are kept between sessions */
+const SUBMITTER_STORAGE_KEY = 'form309_submitter';
+
+const STATUS_CLASSES: Record<Form309PreviewStatus, string> = {
+  reported: 'bg-green-100 text-green-800',
+  belowThreshold: 'bg-gray-100 text-gray-600',
+  notSubject: 'bg-gray-100 text-gray-600',
+  corporation: 'bg-gray-100 text-gray-600',
+  unregistered: 'bg-amber-100 text-amber-800',
+};
+
+/**
+ * 309 支払調書: submitter details, a preview of which payees are reported and
+ * why, and CSV / XML export
+ */
+export function Form309Modal({ year, onClose }: Form309ModalProps) {
+  const { t, language } = useI18n();
+  const [receipts, setReceipts] = useState<Receipt[] | null>(null);
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [submitterInfo, setSubmitterInfo] = useState<SubmitterInfo>({
+    name: '',
+    address: '',
+    phone: '',
+    referenceNumber: '',
+  });
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([getReceipts({ fiscalYear: year }), getPayees()]).then(
+      ([yearReceipts, payeeMaster]) => {
+        if (!mounted) return;
+        setReceipts(yearReceipts);
+        setPayees(payeeMaster);
+      }
+    );
+    return () => {
+      mounted = false;
+    };
+  }, [year]);
+
+  // Load submitter info from localStorage on mount
+  useEffect(() => {
+    const stored = localStorage.getItem(SUBMITTER_STORAGE_KEY);
+    if (stored) {
+      try {
+        setSubmitterInfo(JSON.parse(stored));
+      } catch (e) {
+        console.error('Failed to load submitter info:', e);
+      }
+    }
+  }, []);
+
+  const preview = useMemo(
+    () => (receipts ? buildForm309Preview(receipts, payees) : null),
+    [receipts, payees]
+  );
+  const reported = preview?.filter((entry) => entry.status === 'reported') ?? [];
+
+  const categoryLabel = (value: WithholdingCategory) =>
+    language === 'en'
+      ? t(`payee_category_${value}` as TranslationKey)
+      : WITHHOLDING_CATEGORIES.find((category) => category.value === value)?.label ?? value;
+
+  /**
+   * Register an unregistered vendor, or change a payee's 区分
+   */
+  const setCategory = async (entry: Form309PreviewEntry, category: WithholdingCategory) => {
+    const payee: Payee = entry.payee
+      ? { ...entry.payee, category }
+      : {
+          id: uuidv4(),
+          name: entry.name,
+          names: getVendorNames(entry.name),
+          tNumber: entry.tNumber,
+          payeeType: 'individual',
+          category,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+    await savePayee(payee);
+    setPayees(await getPayees());
+  };
+
+  const handleExport = async (format: 'csv' | 'xtx') => {
+    if (!receipts) return;
+    if (!submitterInfo.name || !submitterInfo.address) {
+      alert(t('form309_submitter_required'));
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // Save submitter info to localStorage for next time
+      localStorage.setItem(SUBMITTER_STORAGE_KEY, JSON.stringify(submitterInfo));
+
+      const taxYear = formatTaxYear(year);
+      const download = format === 'xtx' ? downloadForm309XML : downloadForm309CSV;
+      await download(
+        receipts,
+        payees,
+        {
+          documentType: '309',
+          referenceNumber1: submitterInfo.referenceNumber,
+          submitterAddress: submitterInfo.address,
+          submitterName: submitterInfo.name,
+          submitterPhone: submitterInfo.phone,
+          taxYear,
+        },
+        taxYear
+      );
+    } catch (error) {
+      console.error('Form 309 export failed:', error);
+      // Validation errors name the item to fix
+      const detail = error instanceof Error ? `\n${error.message}` : '';
+      alert(t('export_error') + detail);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+  const threshold = formatCurrency(WITHHOLDING_SETTINGS.REPORTING_THRESHOLD);
+  const canExport = !!preview && !!submitterInfo.name && !!submitterInfo.address && !isExporting;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-orange-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('form309_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('form309_description', { threshold })}</p>
+
+        <div className="overflow-y-auto space-y-4 text-sm">
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">{t('submitter_settings')}</h4>
+            <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mb-3">
+              <div className="flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+                <p className="text-amber-800">{t('form309_warning')}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-gray-700 mb-1">
+                  {t('submitter_name')} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={submitterInfo.name}
+                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, name: e.target.value })}
+                  placeholder={language === 'ja' ? '株式会社サンプル' : 'Sample Company Inc.'}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">
+                  {t('submitter_address')} <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={submitterInfo.address}
+                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, address: e.target.value })}
+                  placeholder={language === 'ja' ? '東京都千代田区...' : 'Tokyo, Chiyoda-ku...'}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">{t('submitter_phone')}</label>
+                <input
+                  type="text"
+                  value={submitterInfo.phone}
+                  onChange={(e) => setSubmitterInfo({ ...submitterInfo, phone: e.target.value })}
+                  placeholder="03-1234-5678"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">{t('submitter_reference_number')}</label>
+                <input
+                  type="text"
+                  value={submitterInfo.referenceNumber}
+                  onChange={(e) =>
+                    setSubmitterInfo({ ...submitterInfo, referenceNumber: e.target.value })
+                  }
+                  placeholder="0123456789"
+                  maxLength={10}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">{t('form309_preview_title')}</h4>
+            {!preview ? (
+              <p className="text-gray-500 text-center py-4">{t('loading')}</p>
+            ) : preview.length === 0 ? (
+              <p className="text-gray-500">{t('form309_preview_empty')}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-xs text-gray-500 border-b border-gray-200">
+                      <th className="text-left font-medium py-2 pr-2">{t('payee_name')}</th>
+                      <th className="text-left font-medium py-2 pr-2 w-48">{t('payee_category')}</th>
+                      <th className="text-right font-medium py-2 pr-2">{t('form309_payment_amount')}</th>
+                      <th className="text-right font-medium py-2 pr-2">{t('form309_withholding')}</th>
+                      <th className="text-left font-medium py-2">{t('form309_status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {preview.map((entry) => (
+                      <tr key={entry.key}>
+                        <td className="py-1.5 pr-2 text-gray-800">
+                          <div>{entry.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {t('form309_receipt_count', { count: entry.receiptCount })}
+                          </div>
+                        </td>
+                        <td className="py-1.5 pr-2">
+                          <select
+                            value={entry.payee?.category ?? ''}
+                            onChange={(e) =>
+                              e.target.value &&
+                              setCategory(entry, e.target.value as WithholdingCategory)
+                            }
+                            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                          >
+                            {!entry.payee && <option value="">{t('form309_register_as')}</option>}
+                            {WITHHOLDING_CATEGORIES.map((category) => (
+                              <option key={category.value} value={category.value}>
+                                {categoryLabel(category.value)}
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-1.5 pr-2 text-right">{formatCurrency(entry.paymentAmount)}</td>
+                        <td className="py-1.5 pr-2 text-right">
+                          {entry.payee ? formatCurrency(entry.withholdingTax) : '—'}
+                        </td>
+                        <td className="py-1.5">
+                          <span
+                            className={`inline-block px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[entry.status]}`}
+                          >
+                            {t(`form309_status_${entry.status}` as TranslationKey)}
+                          </span>
+                          <div className="text-xs text-gray-500 mt-0.5">
+                            {t(`form309_reason_${entry.status}` as TranslationKey, { threshold })}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          <span className="mr-auto text-xs text-gray-500">
+            {t('form309_reported_summary', {
+              count: reported.length,
+              amount: formatCurrency(reported.reduce((sum, entry) => sum + entry.paymentAmount, 0)),
+              withholding: formatCurrency(
+                reported.reduce((sum, entry) => sum + entry.withholdingTax, 0)
+              ),
+            })}
+          </span>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={!canExport}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+          >
+            {t('form309_export_csv')}
+          </button>
+          <button
+            onClick={() => handleExport('xtx')}
+            disabled={!canExport}
+            title={t('form309_export_xtx_hint')}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+          >
+            {isExporting ? t('exporting') : t('form309_export_xtx')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getBusinessRatio } from '@/lib/apportionment/business-ratio';
+import { getInputTaxCredit } from '@/lib/consumption-tax/input-tax';
+import { verifyTNumber } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { ExtractedData } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+
+interface InputTaxCreditStatusProps {
+  data: ExtractedData;
+  /** Bump to re-check after the registry changes */
+  registryVersion?: number;
+}
+
+/**
+ * Deductible input tax (仕入税額控除) of the receipt, shown under its tax amounts
+ */
+export function InputTaxCreditStatus({ data, registryVersion }: InputTaxCreditStatusProps) {
+  const { t } = useI18n();
+  const [verification, setVerification] = useState<TNumberVerification | null>(null);
+
+  const { tNumber, issuerName, transactionDate } = data;
+
+  useEffect(() => {
+    let mounted = true;
+
+    verifyTNumber({ tNumber, issuerName, transactionDate }).then((result) => {
+      if (mounted) setVerification(result);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [tNumber, issuerName, transactionDate, registryVersion]);
+
+  if (!verification) return null;
+  const credit = getInputTaxCredit(data, verification, getBusinessRatio(data));
+  if (!credit || credit.inputTax === 0) return null;
+
+  const label = credit.qualified
+    ? t('input_tax_credit_qualified')
+    : credit.creditRate === 100
+      ? t('input_tax_credit_before_invoice')
+      : credit.creditRate === 0
+        ? t('input_tax_credit_none')
+        : t('input_tax_credit_transitional', { rate: credit.creditRate });
+
+  return (
+    <div
+      className={`mt-2 pt-2 border-t border-gray-200 text-xs ${
+        credit.creditRate < 100 ? 'text-amber-700' : 'text-gray-600'
+      }`}
+    >
+      <span className="font-medium">{label}</span>
+      <span className="ml-1">
+        {t('input_tax_credit_amount', {
+          deductible: credit.deductibleTax.toLocaleString(),
+          tax: credit.inputTax.toLocaleString(),
+        })}
+      </span>
+    </div>
+  );
+}
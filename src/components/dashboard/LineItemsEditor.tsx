@@ -0,0 +1,183 @@
+'use client';
+
+import { ListOrdered, Plus, X } from 'lucide-react';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import { formatCurrency } from '@/lib/utils/format';
+import type { ExpenseCategory, ExtractedData, ReceiptItem } from '@/types/receipt';
+
+interface LineItemsEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/**
+ * Editable table of a receipt's line items (明細)
+ */
+export function LineItemsEditor({ data, onChange }: LineItemsEditorProps) {
+  const { t, language } = useI18n();
+  const items = data.items ?? [];
+
+  const setItems = (next: ReceiptItem[]) => {
+    onChange({ ...data, items: next.length > 0 ? next : undefined });
+  };
+
+  const updateItem = (index: number, changes: Partial<ReceiptItem>) => {
+    setItems(
+      items.map((item, i) => {
+        if (i !== index) return item;
+        const updated = { ...item, ...changes };
+        // Keep the amount in step with quantity × unit price
+        if ('quantity' in changes || 'unitPrice' in changes) {
+          updated.amount = Math.round(updated.quantity * updated.unitPrice);
+        }
+        return updated;
+      })
+    );
+  };
+
+  const addItem = () => {
+    setItems([
+      ...items,
+      {
+        name: '',
+        quantity: 1,
+        unitPrice: 0,
+        taxRate: data.taxBreakdown[0]?.taxRate ?? 10,
+        amount: 0,
+      },
+    ]);
+  };
+
+  const itemsTotal = items.reduce((sum, item) => sum + item.amount, 0);
+
+  return (
+    <div className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
+      <div className="flex items-center justify-between mb-1.5">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+          <ListOrdered className="w-3.5 h-3.5" />
+          <span>{t('items_title')}</span>
+        </div>
+        {items.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {t('items_total', { amount: formatCurrency(itemsTotal) })}
+          </span>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-1.5">{t('items_empty')}</p>
+      ) : (
+        <div className="overflow-x-auto -mx-1 mb-1.5">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500">
+                <th className="text-left font-medium px-1 py-1">{t('item_name')}</th>
+                <th className="text-right font-medium px-1 py-1 w-12">{t('item_quantity')}</th>
+                <th className="text-right font-medium px-1 py-1 w-20">{t('item_unit_price')}</th>
+                <th className="text-left font-medium px-1 py-1 w-16">{t('item_tax_rate')}</th>
+                <th className="text-right font-medium px-1 py-1 w-20">{t('item_amount')}</th>
+                <th className="text-left font-medium px-1 py-1 w-28">{t('item_category')}</th>
+                <th className="w-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={index}>
+                  <td className="px-1 py-0.5">
+                    <input
+                      type="text"
+                      value={item.name}
+                      onChange={(e) => updateItem(index, { name: e.target.value })}
+                      className="w-full min-w-[6rem] px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-1 py-0.5">
+                    <input
+                      type="number"
+                      value={item.quantity}
+                      onChange={(e) =>
+                        updateItem(index, { quantity: parseFloat(e.target.value) || 0 })
+                      }
+                      className="w-full px-1.5 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-1 py-0.5">
+                    <input
+                      type="number"
+                      value={item.unitPrice}
+                      onChange={(e) =>
+                        updateItem(index, { unitPrice: parseInt(e.target.value) || 0 })
+                      }
+                      className="w-full px-1.5 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-1 py-0.5">
+                    <select
+                      value={item.taxRate}
+                      onChange={(e) => updateItem(index, { taxRate: Number(e.target.value) })}
+                      className="w-full px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    >
+                      <option value={10}>10%</option>
+                      <option value={8}>8%</option>
+                    </select>
+                  </td>
+                  <td className="px-1 py-0.5">
+                    <input
+                      type="number"
+                      value={item.amount}
+                      onChange={(e) =>
+                        updateItem(index, { amount: parseInt(e.target.value) || 0 })
+                      }
+                      className="w-full px-1.5 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                  </td>
+                  <td className="px-1 py-0.5">
+                    <select
+                      value={item.category ?? ''}
+                      onChange={(e) =>
+                        updateItem(index, {
+                          category: (e.target.value || undefined) as ExpenseCategory | undefined,
+                        })
+                      }
+                      className="w-full px-1 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    >
+                      <option value="">{t('item_category_default')}</option>
+                      {EXPENSE_CATEGORIES.map((cat) => (
+                        <option key={cat.value} value={cat.value}>
+                          {language === 'en'
+                            ? t(`category_${cat.value}` as TranslationKey)
+                            : cat.label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-1 py-0.5 text-center">
+                    <button
+                      type="button"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      className="p-0.5 text-gray-400 hover:text-red-600"
+                      title={t('delete')}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={addItem}
+        className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1 font-medium"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        <span>{t('items_add')}</span>
+      </button>
+    </div>
+  );
+}
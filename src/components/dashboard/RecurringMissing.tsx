@@ -0,0 +1,68 @@
+'use client';
+
+import { Repeat } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getRecurringTemplates, refreshRecurringEntries } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { isMissingEntry } from '@/lib/recurring/series';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import type { Receipt } from '@/types/receipt';
+import type { RecurringEntry, RecurringTemplate } from '@/types/recurring';
+
+interface RecurringMissingProps {
+  receipts: Receipt[]; // Re-matches when the receipt list changes
+  version: number; // Incremented when templates are edited
+  onOpen: (year: number) => void;
+}
+
+/**
+ * Months of recurring expenses whose receipt has not turned up, oldest first
+ */
+export function RecurringMissing({ receipts, version, onOpen }: RecurringMissingProps) {
+  const { t } = useI18n();
+  const [missing, setMissing] = useState<{ entry: RecurringEntry; template: RecurringTemplate }[]>(
+    []
+  );
+
+  useEffect(() => {
+    let mounted = true;
+    const today = formatDateForInput(new Date());
+    Promise.all([refreshRecurringEntries(today), getRecurringTemplates()]).then(
+      ([entries, templates]) => {
+        if (!mounted) return;
+        const byId = new Map(templates.map((template) => [template.id, template]));
+        setMissing(
+          entries
+            .filter((entry) => isMissingEntry(entry, today) && byId.has(entry.templateId))
+            .map((entry) => ({ entry, template: byId.get(entry.templateId)! }))
+        );
+      }
+    );
+    return () => {
+      mounted = false;
+    };
+  }, [receipts, version]);
+
+  if (missing.length === 0) return null;
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-200 space-y-1">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+        <Repeat className="w-3.5 h-3.5" />
+        <span>{t('recurring_missing_title', { count: missing.length })}</span>
+      </div>
+      {missing.map(({ entry, template }) => (
+        <button
+          key={entry.id}
+          onClick={() => onOpen(Number(entry.period.slice(0, 4)))}
+          className="w-full flex items-center justify-between gap-2 px-2 py-1 text-xs rounded hover:bg-gray-100"
+        >
+          <span className="text-red-600 font-medium flex-shrink-0">{entry.period}</span>
+          <span className="text-gray-800 truncate">
+            {template.name} {formatCurrency(template.amount)}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
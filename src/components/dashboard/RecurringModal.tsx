@@ -0,0 +1,408 @@
+'use client';
+
+import { Check, Minus, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  deleteRecurringTemplate,
+  getReceipts,
+  getRecurringTemplates,
+  refreshRecurringEntries,
+  saveRecurringTemplate,
+  setRecurringEntrySkipped,
+} from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { detectRecurringSeries, isMissingEntry, toPeriod } from '@/lib/recurring/series';
+import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import { getVendorNames } from '@/lib/vendors/profile';
+import type { ExpenseCategory, Receipt } from '@/types/receipt';
+import type { RecurringEntry, RecurringSuggestion, RecurringTemplate } from '@/types/recurring';
+
+interface RecurringModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+const MONTHS = Array.from({ length: 12 }, (_, i) => i + 1);
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Templates, all receipts (for suggestions) and the entries brought up to date
+ */
+async function loadRecurring() {
+  const [allTemplates, allReceipts] = await Promise.all([getRecurringTemplates(), getReceipts()]);
+  const allEntries = await refreshRecurringEntries(formatDateForInput(new Date()));
+  return { allTemplates, allReceipts, allEntries };
+}
+
+/**
+ * Recurring expenses: templates with their months of a year, series found in
+ * the receipts, and a form to add one by hand
+ */
+export function RecurringModal({ year, onClose }: RecurringModalProps) {
+  const { t, language } = useI18n();
+  const [templates, setTemplates] = useState<RecurringTemplate[] | null>(null);
+  const [entries, setEntries] = useState<RecurringEntry[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newAmount, setNewAmount] = useState('');
+  const [newDay, setNewDay] = useState('1');
+  const [newCategory, setNewCategory] = useState<ExpenseCategory>('通信費');
+  const [newStartMonth, setNewStartMonth] = useState(() => toPeriod(new Date()));
+
+  const reload = async () => {
+    const { allTemplates, allReceipts, allEntries } = await loadRecurring();
+    setTemplates(allTemplates);
+    setReceipts(allReceipts);
+    setEntries(allEntries);
+  };
+
+  useEffect(() => {
+    let mounted = true;
+    loadRecurring().then(({ allTemplates, allReceipts, allEntries }) => {
+      if (!mounted) return;
+      setTemplates(allTemplates);
+      setReceipts(allReceipts);
+      setEntries(allEntries);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const suggestions = useMemo(
+    () => (templates ? detectRecurringSeries(receipts, templates) : []),
+    [receipts, templates]
+  );
+
+  const entryMap = useMemo(() => new Map(entries.map((entry) => [entry.id, entry])), [entries]);
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    language === 'en' ? t(`category_${value}` as TranslationKey) : value;
+
+  const updateTemplate = async (template: RecurringTemplate, changes: Partial<RecurringTemplate>) => {
+    const updated = { ...template, ...changes };
+    // Keep the edited name matchable
+    updated.names = getVendorNames(...template.names, updated.name);
+    await saveRecurringTemplate(updated);
+    await reload();
+  };
+
+  const handleDelete = async (template: RecurringTemplate) => {
+    if (!confirm(t('recurring_delete_confirm', { name: template.name }))) return;
+    await deleteRecurringTemplate(template.id);
+    await reload();
+  };
+
+  const handleRegister = async (suggestion: RecurringSuggestion) => {
+    await saveRecurringTemplate({
+      id: uuidv4(),
+      name: suggestion.name,
+      names: suggestion.names,
+      tNumber: suggestion.tNumber,
+      category: suggestion.category,
+      amount: suggestion.amount,
+      dayOfMonth: suggestion.dayOfMonth,
+      startMonth: suggestion.months[0],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    await reload();
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    const amount = Number(newAmount);
+    if (!name || !(amount > 0) || !newStartMonth) return;
+
+    await saveRecurringTemplate({
+      id: uuidv4(),
+      name,
+      names: getVendorNames(name),
+      category: newCategory,
+      amount: Math.round(amount),
+      dayOfMonth: Math.min(Math.max(Math.round(Number(newDay)) || 1, 1), 31),
+      startMonth: newStartMonth,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    setNewName('');
+    setNewAmount('');
+    await reload();
+  };
+
+  const handleToggleSkip = async (entry: RecurringEntry) => {
+    await setRecurringEntrySkipped(entry.id, entry.status !== 'skipped');
+    await reload();
+  };
+
+  const today = formatDateForInput(new Date());
+
+  const renderMonth = (template: RecurringTemplate, month: number) => {
+    const entry = entryMap.get(`${template.id}:${year}-${String(month).padStart(2, '0')}`);
+    if (!entry) return <span className="text-gray-300">·</span>;
+
+    if (entry.status === 'matched') {
+      const receipt = receipts.find((r) => r.id === entry.receiptId);
+      return (
+        <span
+          className="inline-flex text-green-600"
+          title={
+            receipt
+              ? `${formatDateForInput(receipt.extractedData.transactionDate)} ${formatCurrency(receipt.extractedData.totalAmount)}`
+              : undefined
+          }
+        >
+          <Check className="w-4 h-4" />
+        </span>
+      );
+    }
+    if (entry.status === 'skipped') {
+      return (
+        <button
+          onClick={() => handleToggleSkip(entry)}
+          className="inline-flex text-gray-400 hover:text-gray-600"
+          title={t('recurring_unskip')}
+        >
+          <Minus className="w-4 h-4" />
+        </button>
+      );
+    }
+    const missing = isMissingEntry(entry, today);
+    return (
+      <button
+        onClick={() => handleToggleSkip(entry)}
+        className={`inline-flex w-4 h-4 items-center justify-center rounded-full text-[10px] font-bold ${
+          missing ? 'bg-red-100 text-red-600 hover:bg-red-200' : 'text-gray-400 hover:bg-gray-100'
+        }`}
+        title={`${t(missing ? 'recurring_status_missing' : 'recurring_status_expected', {
+          date: entry.expectedDate,
+        })} - ${t('recurring_skip')}`}
+      >
+        {missing ? '!' : '○'}
+      </button>
+    );
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-5xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('recurring_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('recurring_description')}</p>
+
+        {!templates ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t('loading')}</p>
+        ) : (
+          <div className="overflow-y-auto space-y-6 text-sm">
+            {templates.length === 0 ? (
+              <p className="text-gray-500">{t('recurring_empty')}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="text-xs text-gray-500 border-b border-gray-200">
+                      <th className="text-left font-medium py-2 pr-2">{t('recurring_name')}</th>
+                      <th className="text-left font-medium py-2 pr-2 w-24">{t('recurring_amount')}</th>
+                      <th className="text-left font-medium py-2 pr-2 w-16">{t('recurring_day')}</th>
+                      <th className="text-left font-medium py-2 pr-2 w-32">{t('recurring_end_month')}</th>
+                      {MONTHS.map((month) => (
+                        <th key={month} className="text-center font-medium py-2 w-6">
+                          {month}
+                        </th>
+                      ))}
+                      <th className="w-8" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {templates.map((template) => (
+                      <tr key={template.id}>
+                        <td className="py-1.5 pr-2">
+                          <input
+                            type="text"
+                            defaultValue={template.name}
+                            onBlur={(e) => {
+                              const name = e.target.value.trim();
+                              if (name && name !== template.name) updateTemplate(template, { name });
+                            }}
+                            className={`${inputClassName} min-w-[9rem]`}
+                          />
+                          <div className="text-xs text-gray-500 mt-0.5">
+                            {categoryLabel(template.category)} ・{' '}
+                            {t('recurring_since', { month: template.startMonth })}
+                          </div>
+                        </td>
+                        <td className="py-1.5 pr-2 align-top">
+                          <input
+                            type="number"
+                            min={1}
+                            defaultValue={template.amount}
+                            onBlur={(e) => {
+                              const amount = Math.round(Number(e.target.value));
+                              if (amount > 0 && amount !== template.amount) updateTemplate(template, { amount });
+                            }}
+                            className={`${inputClassName} text-right`}
+                          />
+                        </td>
+                        <td className="py-1.5 pr-2 align-top">
+                          <input
+                            type="number"
+                            min={1}
+                            max={31}
+                            defaultValue={template.dayOfMonth}
+                            onBlur={(e) => {
+                              const dayOfMonth = Math.round(Number(e.target.value));
+                              if (dayOfMonth >= 1 && dayOfMonth <= 31 && dayOfMonth !== template.dayOfMonth) {
+                                updateTemplate(template, { dayOfMonth });
+                              }
+                            }}
+                            className={`${inputClassName} text-right`}
+                          />
+                        </td>
+                        <td className="py-1.5 pr-2 align-top">
+                          <input
+                            type="month"
+                            defaultValue={template.endMonth ?? ''}
+                            min={template.startMonth}
+                            onBlur={(e) => {
+                              const endMonth = e.target.value || undefined;
+                              if (endMonth !== template.endMonth) updateTemplate(template, { endMonth });
+                            }}
+                            className={inputClassName}
+                          />
+                        </td>
+                        {MONTHS.map((month) => (
+                          <td key={month} className="py-1.5 text-center align-top pt-2.5">
+                            {renderMonth(template, month)}
+                          </td>
+                        ))}
+                        <td className="py-1.5 text-center align-top">
+                          <button
+                            onClick={() => handleDelete(template)}
+                            className="p-1 text-gray-400 hover:text-red-600"
+                            title={t('delete')}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-2">{t('recurring_legend')}</p>
+              </div>
+            )}
+
+            {suggestions.length > 0 && (
+              <div>
+                <h4 className="font-medium text-gray-800 mb-1">{t('recurring_suggestions')}</h4>
+                <p className="text-xs text-gray-500 mb-2">{t('recurring_suggestions_description')}</p>
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                  {suggestions.map((suggestion) => (
+                    <li key={suggestion.key} className="flex items-center gap-3 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-gray-800 truncate">{suggestion.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {t('recurring_suggestion_detail', {
+                            count: suggestion.months.length,
+                            from: suggestion.months[0],
+                            to: suggestion.months[suggestion.months.length - 1],
+                            day: suggestion.dayOfMonth,
+                          })}
+                        </div>
+                      </div>
+                      <span className="font-medium">{formatCurrency(suggestion.amount)}</span>
+                      <button
+                        onClick={() => handleRegister(suggestion)}
+                        className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-1 text-xs"
+                      >
+                        <Plus className="w-3.5 h-3.5" />
+                        <span>{t('recurring_register')}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mt-4 pt-4 border-t border-gray-200">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder={t('recurring_name')}
+            className="flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="number"
+            min={1}
+            value={newAmount}
+            onChange={(e) => setNewAmount(e.target.value)}
+            placeholder={t('recurring_amount')}
+            className="w-28 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <span>{t('recurring_day')}</span>
+            <input
+              type="number"
+              min={1}
+              max={31}
+              value={newDay}
+              onChange={(e) => setNewDay(e.target.value)}
+              className="w-16 px-2 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </label>
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as ExpenseCategory)}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {EXPENSE_CATEGORIES.map((cat) => (
+              <option key={cat.value} value={cat.value}>
+                {categoryLabel(cat.value)}
+              </option>
+            ))}
+          </select>
+          <input
+            type="month"
+            value={newStartMonth}
+            onChange={(e) => setNewStartMonth(e.target.value)}
+            title={t('recurring_start_month')}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim() || !(Number(newAmount) > 0) || !newStartMonth}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            <span>{t('recurring_add')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { Database, Trash2, Upload, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { clearRegistry, getRegistryStatus } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { importNtaRegistryFile } from '@/lib/registry/nta-import';
+import { formatDate, formatNumber } from '@/lib/utils/format';
+import type { RegistryImport } from '@/types/registry';
+
+interface RegistryModalProps {
+  onClose: () => void;
+  /** Called after the registry contents change */
+  onChange: () => void;
+}
+
+/**
+ * Import/clear the offline 適格請求書発行事業者 registry
+ */
+export function RegistryModal({ onClose, onChange }: RegistryModalProps) {
+  const { t, language } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [count, setCount] = useState(0);
+  const [lastImport, setLastImport] = useState<RegistryImport | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const loadStatus = async () => {
+    const status = await getRegistryStatus();
+    setCount(status.count);
+    setLastImport(status.imports[0] ?? null);
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setMessage(null);
+    let imported = 0;
+    let deleted = 0;
+
+    try {
+      // Prefecture downloads come as several files - import them in turn
+      const fileList = Array.from(files);
+      for (let index = 0; index < fileList.length; index++) {
+        const file = fileList[index];
+        const summary = await importNtaRegistryFile(file, (fileProgress) =>
+          setProgress((index + fileProgress) / fileList.length)
+        );
+        imported += summary.recordCount;
+        deleted += summary.deletedCount;
+      }
+      setMessage({
+        type: 'success',
+        text: t('registry_import_done', {
+          count: formatNumber(imported),
+          deleted: formatNumber(deleted),
+        }),
+      });
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: t('registry_import_failed', {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      setProgress(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      await loadStatus();
+      onChange();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t('registry_clear_confirm'))) return;
+
+    await clearRegistry();
+    setMessage(null);
+    await loadStatus();
+    onChange();
+  };
+
+  const isImporting = progress !== null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={() => !isImporting && onClose()}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Database className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('registry_title')}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isImporting}
+            className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">{t('registry_description')}</p>
+
+        <div className="bg-gray-50 rounded-lg px-3 py-2 mb-4 text-sm">
+          <p className="font-medium text-gray-900">
+            {count > 0
+              ? t('registry_count', { count: formatNumber(count) })
+              : t('registry_empty')}
+          </p>
+          {lastImport && (
+            <p className="text-xs text-gray-500 mt-0.5">
+              {t('registry_last_import', {
+                date: formatDate(lastImport.importedAt, language),
+                file: lastImport.fileName,
+              })}
+            </p>
+          )}
+        </div>
+
+        {isImporting && (
+          <div className="mb-4">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-primary-600 h-2 rounded-full transition-all"
+                style={{ width: `${Math.round(progress * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-600 mt-1">
+              {t('registry_importing', { percent: Math.round(progress * 100) })}
+            </p>
+          </div>
+        )}
+
+        {message && (
+          <p
+            className={`text-sm mb-4 ${
+              message.type === 'success' ? 'text-green-700' : 'text-red-600'
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xml,text/csv,application/xml,text/xml"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex-1 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center justify-center gap-2 text-sm"
+          >
+            <Upload className="w-4 h-4" />
+            <span>{t('registry_import')}</span>
+          </button>
+          {count > 0 && (
+            <button
+              onClick={handleClear}
+              disabled={isImporting}
+              className="px-4 py-2 border border-red-300 text-red-600 rounded-lg hover:bg-red-50 disabled:opacity-50 flex items-center gap-2 text-sm"
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>{t('registry_clear')}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { History } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getReceiptRevisions } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatChangeValue, getFieldLabelKey } from '@/lib/revisions/labels';
+import type { ReceiptRevision } from '@/types/revision';
+
+interface RevisionHistoryProps {
+  receiptId: string;
+  updatedAt: Date; // Reloads when the receipt is saved
+}
+
+/**
+ * Collapsible list of a receipt's revisions, newest first
+ */
+export function RevisionHistory({ receiptId, updatedAt }: RevisionHistoryProps) {
+  const { t, language } = useI18n();
+  const [revisions, setRevisions] = useState<ReceiptRevision[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    getReceiptRevisions(receiptId).then((result) => {
+      if (mounted) setRevisions(result);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [receiptId, updatedAt]);
+
+  const fieldLabel = (field: string) => {
+    const key = getFieldLabelKey(field);
+    return key ? t(key) : field;
+  };
+
+  return (
+    <details className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
+      <summary className="flex items-center gap-1.5 text-xs font-medium text-gray-600 cursor-pointer">
+        <History className="w-3.5 h-3.5" />
+        <span>{t('revision_title')}</span>
+        <span className="text-gray-400">({revisions.length})</span>
+      </summary>
+
+      {revisions.length === 0 ? (
+        <p className="text-xs text-gray-500 mt-2">{t('revision_empty')}</p>
+      ) : (
+        <ol className="mt-2 space-y-2">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="text-xs">
+              <div className="text-gray-600">
+                <span className="font-medium text-gray-800">v{revision.version}</span>{' '}
+                {t(`revision_action_${revision.action}` as TranslationKey)} ·{' '}
+                {new Date(revision.changedAt).toLocaleString(
+                  language === 'ja' ? 'ja-JP' : 'en-US'
+                )}{' '}
+                · {t(`revision_actor_${revision.changedBy}` as TranslationKey)}
+                {revision.batchId && <> · {t('revision_bulk')}</>}
+              </div>
+              {revision.changes.length > 0 && (
+                <ul className="mt-0.5 ml-3 space-y-0.5">
+                  {revision.changes.map((change) => (
+                    <li key={change.field} className="text-gray-800 break-all">
+                      <span className="font-medium">{fieldLabel(change.field)}</span>:{' '}
+                      {formatChangeValue(change.before, language)} →{' '}
+                      {formatChangeValue(change.after, language)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
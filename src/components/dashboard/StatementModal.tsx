@@ -0,0 +1,558 @@
+'use client';
+
+import { EyeOff, Landmark, Link2, RefreshCw, Trash2, Unlink, Upload, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import {
+  autoMatchStatementTransactions,
+  deleteStatementImport,
+  getReceipts,
+  getStatementImports,
+  getStatementTransactions,
+  linkStatementTransaction,
+  setStatementTransactionIgnored,
+} from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import {
+  CUSTOM_FORMAT_ID,
+  STATEMENT_FORMATS,
+  importStatementFile,
+  previewStatementFile,
+} from '@/lib/statements/csv-import';
+import { getStatementAmount } from '@/lib/statements/matching';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { Receipt } from '@/types/receipt';
+import type { StatementFormat, StatementImport, StatementTransaction } from '@/types/statement';
+
+interface StatementModalProps {
+  onClose: () => void;
+  /** Called after imports or matches change */
+  onChange: () => void;
+}
+
+type StatementTab = 'unmatched' | 'matched' | 'ignored';
+
+const CUSTOM_FORMAT_STORAGE_KEY = 'statement_custom_format';
+
+const DEFAULT_CUSTOM_FORMAT: StatementFormat = {
+  id: CUSTOM_FORMAT_ID,
+  name: '',
+  kind: 'card',
+  encoding: 'shift_jis',
+  skipRows: 1,
+  columns: { date: 0, description: 1, amount: 2 },
+};
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Import bank / card statements and reconcile their lines with receipts
+ */
+export function StatementModal({ onClose, onChange }: StatementModalProps) {
+  const { t, language } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [tab, setTab] = useState<StatementTab>('unmatched');
+  const [transactions, setTransactions] = useState<StatementTransaction[]>([]);
+  const [imports, setImports] = useState<StatementImport[]>([]);
+  const [receipts, setReceipts] = useState<Receipt[]>([]);
+  const [linkedIds, setLinkedIds] = useState<Set<string>>(new Set());
+  const [formatId, setFormatId] = useState(STATEMENT_FORMATS[0].id);
+  const [customFormat, setCustomFormat] = useState<StatementFormat>(DEFAULT_CUSTOM_FORMAT);
+  const [account, setAccount] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<string[][]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const isCustom = formatId === CUSTOM_FORMAT_ID;
+  const format = isCustom
+    ? customFormat
+    : STATEMENT_FORMATS.find((f) => f.id === formatId) ?? STATEMENT_FORMATS[0];
+
+  // Bumped to reload after anything changes
+  const [version, setVersion] = useState(0);
+  const reload = () => setVersion((v) => v + 1);
+
+  useEffect(() => {
+    let mounted = true;
+
+    Promise.all([
+      getStatementTransactions(tab),
+      getStatementTransactions('matched'),
+      getStatementImports(),
+      getReceipts(),
+    ]).then(([lines, matched, history, allReceipts]) => {
+      if (!mounted) return;
+      setTransactions(lines);
+      setLinkedIds(new Set(matched.map((tx) => tx.receiptId!)));
+      setImports(history);
+      setReceipts(allReceipts);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [tab, version]);
+
+  // Restore the last custom mapping
+  useEffect(() => {
+    const saved = localStorage.getItem(CUSTOM_FORMAT_STORAGE_KEY);
+    if (saved) {
+      try {
+        setCustomFormat({ ...DEFAULT_CUSTOM_FORMAT, ...JSON.parse(saved), id: CUSTOM_FORMAT_ID });
+      } catch {
+        localStorage.removeItem(CUSTOM_FORMAT_STORAGE_KEY);
+      }
+    }
+  }, []);
+
+  // Show the first rows so columns can be picked for a custom mapping
+  useEffect(() => {
+    if (!file || !isCustom) {
+      setPreview([]);
+      return;
+    }
+    previewStatementFile(file, customFormat.encoding).then(setPreview);
+  }, [file, isCustom, customFormat.encoding]);
+
+  const receiptsById = new Map(receipts.map((r) => [r.id, r]));
+
+  const updateCustomFormat = (changes: Partial<StatementFormat>) => {
+    setCustomFormat((prev) => ({ ...prev, ...changes }));
+  };
+
+  const updateCustomColumn = (column: keyof StatementFormat['columns'], value: string) => {
+    const index = parseInt(value);
+    setCustomFormat((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [column]: isNaN(index) || index < 1 ? undefined : index - 1 },
+    }));
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      if (isCustom) {
+        localStorage.setItem(CUSTOM_FORMAT_STORAGE_KEY, JSON.stringify(customFormat));
+      }
+      const summary = await importStatementFile(
+        file,
+        format,
+        account.trim() || (isCustom ? file.name : format.name)
+      );
+      const matched = await autoMatchStatementTransactions();
+      setMessage({
+        type: 'success',
+        text: t('statement_import_done', {
+          count: summary.transactionCount,
+          skipped: summary.skippedCount,
+          matched,
+        }),
+      });
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: t('statement_import_failed', {
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      });
+    } finally {
+      setIsBusy(false);
+      reload();
+      onChange();
+    }
+  };
+
+  const handleRematch = async () => {
+    setIsBusy(true);
+    try {
+      const matched = await autoMatchStatementTransactions();
+      setMessage({ type: 'success', text: t('statement_match_done', { matched }) });
+    } finally {
+      setIsBusy(false);
+      reload();
+      onChange();
+    }
+  };
+
+  const handleLink = async (id: string, receiptId: string | null) => {
+    await linkStatementTransaction(id, receiptId);
+    reload();
+    onChange();
+  };
+
+  const handleIgnore = async (id: string, ignored: boolean) => {
+    await setStatementTransactionIgnored(id, ignored);
+    reload();
+    onChange();
+  };
+
+  const handleDeleteImport = async (entry: StatementImport) => {
+    if (!confirm(t('statement_delete_confirm', { file: entry.fileName }))) return;
+    await deleteStatementImport(entry.id);
+    reload();
+    onChange();
+  };
+
+  // Receipts a line could be linked to: same amount, not linked elsewhere, closest date first
+  const getCandidates = (transaction: StatementTransaction) =>
+    receipts
+      .filter((r) => getStatementAmount(r) === transaction.amount && !linkedIds.has(r.id))
+      .sort(
+        (a, b) =>
+          Math.abs(new Date(a.extractedData.transactionDate).getTime() - transaction.date.getTime()) -
+          Math.abs(new Date(b.extractedData.transactionDate).getTime() - transaction.date.getTime())
+      );
+
+  const columnInput = (column: keyof StatementFormat['columns'], label: string) => (
+    <label className="text-xs text-gray-600">
+      {label}
+      <input
+        type="number"
+        min={1}
+        value={customFormat.columns[column] !== undefined ? customFormat.columns[column]! + 1 : ''}
+        onChange={(e) => updateCustomColumn(column, e.target.value)}
+        className={inputClassName}
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={() => !isBusy && onClose()}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('statement_title')}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={isBusy}
+            className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">{t('statement_description')}</p>
+
+          {/* Import */}
+          <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <select
+                value={formatId}
+                onChange={(e) => setFormatId(e.target.value)}
+                className={inputClassName}
+              >
+                {STATEMENT_FORMATS.map((f) => (
+                  <option key={f.id} value={f.id}>
+                    {f.name}
+                  </option>
+                ))}
+                <option value={CUSTOM_FORMAT_ID}>{t('statement_format_custom')}</option>
+              </select>
+              <input
+                type="text"
+                value={account}
+                onChange={(e) => setAccount(e.target.value)}
+                placeholder={t('statement_account_placeholder')}
+                className={inputClassName}
+              />
+            </div>
+
+            {isCustom && (
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="text-xs text-gray-600">
+                    {t('statement_kind')}
+                    <select
+                      value={customFormat.kind}
+                      onChange={(e) =>
+                        updateCustomFormat({ kind: e.target.value as StatementFormat['kind'] })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="card">{t('statement_kind_card')}</option>
+                      <option value="bank">{t('statement_kind_bank')}</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    {t('statement_encoding')}
+                    <select
+                      value={customFormat.encoding}
+                      onChange={(e) =>
+                        updateCustomFormat({
+                          encoding: e.target.value as StatementFormat['encoding'],
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="shift_jis">Shift-JIS</option>
+                      <option value="utf-8">UTF-8</option>
+                    </select>
+                  </label>
+                  <label className="text-xs text-gray-600">
+                    {t('statement_skip_rows')}
+                    <input
+                      type="number"
+                      min={0}
+                      value={customFormat.skipRows}
+                      onChange={(e) =>
+                        updateCustomFormat({ skipRows: Math.max(0, parseInt(e.target.value) || 0) })
+                      }
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                <div className="grid grid-cols-5 gap-2">
+                  {columnInput('date', t('statement_column_date'))}
+                  {columnInput('description', t('statement_column_description'))}
+                  {columnInput('amount', t('statement_column_amount'))}
+                  {columnInput('withdrawal', t('statement_column_withdrawal'))}
+                  {columnInput('deposit', t('statement_column_deposit'))}
+                </div>
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={!!customFormat.paymentsNegative}
+                    onChange={(e) => updateCustomFormat({ paymentsNegative: e.target.checked })}
+                  />
+                  {t('statement_payments_negative')}
+                </label>
+                <p className="text-xs text-gray-500">{t('statement_custom_hint')}</p>
+
+                {preview.length > 0 && (
+                  <div className="overflow-x-auto border border-gray-200 rounded">
+                    <table className="text-xs">
+                      <thead>
+                        <tr className="bg-gray-50 text-gray-500">
+                          {preview[0].map((_, index) => (
+                            <th key={index} className="px-2 py-1 font-medium">
+                              {index + 1}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.map((row, rowIndex) => (
+                          <tr
+                            key={rowIndex}
+                            className={rowIndex < customFormat.skipRows ? 'text-gray-400' : ''}
+                          >
+                            {row.map((cell, index) => (
+                              <td key={index} className="px-2 py-1 whitespace-nowrap">
+                                {cell}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="flex-1 min-w-0 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm truncate"
+              >
+                {file ? file.name : t('statement_choose_file')}
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={!file || isBusy}
+                className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{t('statement_import')}</span>
+              </button>
+            </div>
+
+            {message && (
+              <p
+                className={`text-sm ${
+                  message.type === 'success' ? 'text-green-700' : 'text-red-600'
+                }`}
+              >
+                {message.text}
+              </p>
+            )}
+          </div>
+
+          {/* Statement lines */}
+          <div>
+            <div className="flex items-center gap-1 mb-2">
+              {(['unmatched', 'matched', 'ignored'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setTab(value)}
+                  className={`px-3 py-1.5 rounded text-xs font-medium transition-colors ${
+                    tab === value
+                      ? 'bg-primary-100 text-primary-700'
+                      : 'text-gray-600 hover:bg-gray-100'
+                  }`}
+                >
+                  {t(`statement_tab_${value}` as TranslationKey)}
+                </button>
+              ))}
+              <button
+                onClick={handleRematch}
+                disabled={isBusy || imports.length === 0}
+                className="ml-auto px-3 py-1.5 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1"
+              >
+                <RefreshCw className={`w-3.5 h-3.5 ${isBusy ? 'animate-spin' : ''}`} />
+                <span>{t('statement_rematch')}</span>
+              </button>
+            </div>
+
+            {transactions.length === 0 ? (
+              <p className="text-sm text-gray-500">{t(`statement_empty_${tab}` as TranslationKey)}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {transactions.map((tx) => {
+                  const receipt = tx.receiptId ? receiptsById.get(tx.receiptId) : undefined;
+                  const candidates = tab === 'unmatched' ? getCandidates(tx) : [];
+
+                  return (
+                    <li key={tx.id} className="px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-500 w-24 flex-shrink-0">
+                          {formatDate(tx.date, language)}
+                        </span>
+                        <span className="flex-1 min-w-0 truncate text-gray-900" title={tx.account}>
+                          {tx.description || '—'}
+                        </span>
+                        <span
+                          className={`font-semibold flex-shrink-0 ${
+                            tx.amount < 0 ? 'text-green-700' : 'text-gray-900'
+                          }`}
+                        >
+                          {tx.amount < 0 && '+'}
+                          {formatCurrency(Math.abs(tx.amount))}
+                        </span>
+                      </div>
+
+                      <div className="flex items-center gap-2 mt-1 text-xs">
+                        <span className="text-gray-400 truncate">{tx.account}</span>
+                        <div className="ml-auto flex items-center gap-1 flex-shrink-0">
+                          {tab === 'unmatched' && (
+                            <>
+                              {candidates.length > 0 && (
+                                <select
+                                  value=""
+                                  onChange={(e) => e.target.value && handleLink(tx.id, e.target.value)}
+                                  className="px-1.5 py-0.5 text-xs border border-gray-300 rounded max-w-[14rem]"
+                                >
+                                  <option value="">{t('statement_link_receipt')}</option>
+                                  {candidates.map((r) => (
+                                    <option key={r.id} value={r.id}>
+                                      {formatDate(r.extractedData.transactionDate, language)}{' '}
+                                      {r.extractedData.issuerName}
+                                    </option>
+                                  ))}
+                                </select>
+                              )}
+                              <button
+                                onClick={() => handleIgnore(tx.id, true)}
+                                className="p-1 text-gray-400 hover:text-gray-700"
+                                title={t('statement_ignore')}
+                              >
+                                <EyeOff className="w-3.5 h-3.5" />
+                              </button>
+                            </>
+                          )}
+                          {tab === 'matched' && (
+                            <>
+                              <Link2 className="w-3.5 h-3.5 text-green-600" />
+                              <span className="text-gray-700 truncate max-w-[12rem]">
+                                {receipt?.extractedData.issuerName ?? '—'}
+                              </span>
+                              <span className="text-gray-400">
+                                {t(`statement_status_${tx.status}` as TranslationKey)}
+                              </span>
+                              <button
+                                onClick={() => handleLink(tx.id, null)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title={t('statement_unlink')}
+                              >
+                                <Unlink className="w-3.5 h-3.5" />
+                              </button>
+                            </>
+                          )}
+                          {tab === 'ignored' && (
+                            <button
+                              onClick={() => handleIgnore(tx.id, false)}
+                              className="px-2 py-0.5 text-primary-600 hover:text-primary-700 font-medium"
+                            >
+                              {t('statement_restore')}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          {/* Import history */}
+          {imports.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-1">{t('statement_history')}</h4>
+              <ul className="text-xs text-gray-600 space-y-1">
+                {imports.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-2">
+                    <span className="w-24 flex-shrink-0">
+                      {formatDate(entry.importedAt, language)}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate">
+                      {entry.account} - {entry.fileName}
+                    </span>
+                    <span className="flex-shrink-0">
+                      {t('statement_history_count', { count: entry.transactionCount })}
+                    </span>
+                    <button
+                      onClick={() => handleDeleteImport(entry)}
+                      disabled={isBusy}
+                      className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                      title={t('delete')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { AlertCircle, BadgeCheck, HelpCircle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { verifyTNumber } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatDate } from '@/lib/utils/format';
+import { hasRegistrationProblem } from '@/lib/validation/registry';
+import type { ExtractedData } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+
+interface TNumberStatusProps {
+  data: Pick<ExtractedData, 'tNumber' | 'issuerName' | 'transactionDate'>;
+  /** Bump to re-check after the registry changes */
+  registryVersion?: number;
+}
+
+/**
+ * Registry verification result shown under the T-number field
+ */
+export function TNumberStatus({ data, registryVersion }: TNumberStatusProps) {
+  const { t, language } = useI18n();
+  const [verification, setVerification] = useState<TNumberVerification | null>(null);
+
+  const { tNumber, issuerName, transactionDate } = data;
+
+  useEffect(() => {
+    let mounted = true;
+
+    verifyTNumber({ tNumber, issuerName, transactionDate }).then((result) => {
+      if (mounted) setVerification(result);
+    });
+
+    return () => {
+      mounted = false;
+    };
+  }, [tNumber, issuerName, transactionDate, registryVersion]);
+
+  // Missing T-numbers are already reported by the field's review reason
+  if (!verification || verification.status === 'missing') return null;
+
+  const { status, registrant, nameMatches } = verification;
+  const isProblem = hasRegistrationProblem(verification);
+
+  const message = (() => {
+    switch (status) {
+      case 'registered':
+        return nameMatches
+          ? t('tnumber_status_registered')
+          : t('tnumber_status_name_mismatch');
+      case 'not_yet_registered':
+        return t('tnumber_status_not_yet_registered', {
+          date: formatDate(registrant?.registrationDate, language),
+        });
+      case 'cancelled':
+        return t('tnumber_status_cancelled', {
+          date: formatDate(registrant?.cancellationDate, language),
+        });
+      case 'expired':
+        return t('tnumber_status_expired', {
+          date: formatDate(registrant?.expirationDate, language),
+        });
+      default:
+        return t(`tnumber_status_${status}` as TranslationKey);
+    }
+  })();
+
+  const Icon = status === 'unverified' ? HelpCircle : isProblem ? AlertCircle : BadgeCheck;
+  const color =
+    status === 'unverified' ? 'text-gray-500' : isProblem ? 'text-amber-700' : 'text-green-700';
+
+  return (
+    <div className={`mt-1 text-xs ${color}`}>
+      <div className="flex items-center gap-1">
+        <Icon className="w-3.5 h-3.5 flex-shrink-0" />
+        <span>{message}</span>
+      </div>
+      {registrant && (
+        <p className="pl-5 text-gray-500 truncate">
+          {t('tnumber_registered_name', {
+            name: registrant.tradeName
+              ? `${registrant.name}（${registrant.tradeName}）`
+              : registrant.name,
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import { RotateCcw, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import {
+  emptyTrash,
+  getTrash,
+  getTrashSettings,
+  purgeTrashedReceipt,
+  restoreReceipt,
+  setTrashRetentionDays,
+} from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { TRASH_SETTINGS } from '@/lib/utils/constants';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import type { TrashedReceipt } from '@/types/revision';
+
+interface TrashModalProps {
+  onClose: () => void;
+  onRestore: () => void; // Called after receipts are put back
+}
+
+/**
+ * Deleted receipts waiting to be purged, with restore and retention setting
+ */
+export function TrashModal({ onClose, onRestore }: TrashModalProps) {
+  const { t, language } = useI18n();
+  const [entries, setEntries] = useState<TrashedReceipt[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState<number>(
+    TRASH_SETTINGS.DEFAULT_RETENTION_DAYS
+  );
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([getTrash(), getTrashSettings()]).then(([trash, settings]) => {
+      if (!mounted) return;
+      setEntries(trash);
+      setRetentionDays(settings.retentionDays);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [version]);
+
+  const handleRestore = async (receiptId: string) => {
+    try {
+      await restoreReceipt(receiptId);
+      setVersion((v) => v + 1);
+      onRestore();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handlePurge = async (receiptId: string) => {
+    if (!confirm(t('trash_purge_confirm'))) return;
+    await purgeTrashedReceipt(receiptId);
+    setVersion((v) => v + 1);
+  };
+
+  const handleEmpty = async () => {
+    if (!confirm(t('trash_empty_confirm'))) return;
+    await emptyTrash();
+    setVersion((v) => v + 1);
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    setRetentionDays(days);
+    await setTrashRetentionDays(days);
+  };
+
+  // Date an entry will be purged
+  const purgeDate = (entry: TrashedReceipt) =>
+    new Date(new Date(entry.deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('trash_title')}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <span>{t('trash_retention')}</span>
+            <select
+              value={retentionDays}
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {TRASH_SETTINGS.RETENTION_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {t('trash_retention_days', { days })}
+                </option>
+              ))}
+            </select>
+          </label>
+          {entries && entries.length > 0 && (
+            <button
+              onClick={handleEmpty}
+              className="px-3 py-1.5 text-sm border border-red-300 text-red-600 rounded-lg hover:bg-red-50"
+            >
+              {t('trash_empty')}
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-y-auto">
+          {entries && entries.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-8">{t('trash_no_items')}</p>
+          )}
+          {entries && entries.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="text-xs text-gray-500 border-b border-gray-200">
+                <tr>
+                  <th className="text-left py-2 font-medium">{t('field_date')}</th>
+                  <th className="text-left py-2 font-medium">{t('field_issuer_name')}</th>
+                  <th className="text-right py-2 font-medium">{t('field_total_amount')}</th>
+                  <th className="text-left py-2 pl-3 font-medium">{t('trash_purged_on')}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map((entry) => (
+                  <tr key={entry.receiptId}>
+                    <td className="py-2 whitespace-nowrap">
+                      {formatDate(entry.receipt.extractedData.transactionDate, language)}
+                    </td>
+                    <td className="py-2">{entry.receipt.extractedData.issuerName}</td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {formatCurrency(entry.receipt.extractedData.totalAmount)}
+                    </td>
+                    <td className="py-2 pl-3 whitespace-nowrap text-gray-500">
+                      {formatDate(purgeDate(entry), language)}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      <button
+                        onClick={() => handleRestore(entry.receiptId)}
+                        className="p-1 text-gray-500 hover:text-primary-600"
+                        title={t('trash_restore')}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge(entry.receiptId)}
+                        className="p-1 text-gray-500 hover:text-red-600"
+                        title={t('trash_purge')}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { NotebookPen } from 'lucide-react';
+import { useI18n } from '@/lib/i18n/context';
+import type { ExtractedData } from '@/types/receipt';
+
+interface VoucherEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/**
+ * Marks a 出金伝票 and lets its reason be corrected (it can't be left empty)
+ */
+export function VoucherEditor({ data, onChange }: VoucherEditorProps) {
+  const { t } = useI18n();
+  const voucher = data.voucher;
+  if (!voucher) return null;
+
+  const isMissing = !voucher.reason.trim();
+
+  return (
+    <div className="bg-rose-50 rounded-lg px-3 py-2.5 border border-rose-200">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-rose-700">
+          <NotebookPen className="w-3.5 h-3.5" />
+          <span>{t('voucher_badge_title')}</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {t('voucher_prepared_on', { date: voucher.preparedOn })}
+        </span>
+      </div>
+      <label className="block text-xs text-gray-600">
+        <span>
+          {t('voucher_reason')} <span className="text-red-600">*</span>
+        </span>
+        <input
+          type="text"
+          value={voucher.reason}
+          onChange={(e) => onChange({ ...data, voucher: { ...voucher, reason: e.target.value } })}
+          placeholder={t('voucher_reason_placeholder')}
+          className={`mt-1 w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-1 focus:ring-primary-500 ${
+            isMissing ? 'border-red-400' : 'border-gray-300'
+          }`}
+        />
+      </label>
+    </div>
+  );
+}
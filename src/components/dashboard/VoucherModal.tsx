@@ -0,0 +1,206 @@
+'use client';
+
+import { NotebookPen, X } from 'lucide-react';
+import { useState } from 'react';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES, PAYMENT_METHODS, TAX_RATES } from '@/lib/utils/constants';
+import { formatDateForInput } from '@/lib/utils/format';
+import { createVoucherReceipt } from '@/lib/vouchers/create';
+import type { ExpenseCategory, PaymentMethod, Receipt } from '@/types/receipt';
+import type { VoucherInput } from '@/types/voucher';
+
+interface VoucherModalProps {
+  onClose: () => void;
+  onCreated: (receipt: Receipt) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Enter a payment without a receipt on a 出金伝票
+ */
+export function VoucherModal({ onClose, onCreated }: VoucherModalProps) {
+  const { t, language } = useI18n();
+  const [input, setInput] = useState<VoucherInput>(() => ({
+    date: formatDateForInput(new Date()),
+    payee: '',
+    description: '',
+    amount: 0,
+    taxRate: TAX_RATES.STANDARD,
+    category: '旅費交通費',
+    paymentMethod: 'cash',
+    reason: '',
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (changes: Partial<VoucherInput>) => setInput((prev) => ({ ...prev, ...changes }));
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    language === 'en' ? t(`category_${value}` as TranslationKey) : value;
+
+  const canSave = !!input.date && !!input.payee.trim() && input.amount > 0 && !!input.reason.trim();
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      onCreated(await createVoucherReceipt(input));
+    } catch (err) {
+      setError(t('voucher_save_failed', { error: err instanceof Error ? err.message : String(err) }));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-lg w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <NotebookPen className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('voucher_title')}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('voucher_description')}</p>
+
+        <div className="overflow-y-auto space-y-3 text-sm">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-gray-700 mb-1">{t('field_date')}</span>
+              <input
+                type="date"
+                value={input.date}
+                onChange={(e) => update({ date: e.target.value })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-gray-700 mb-1">{t('field_payment_method')}</span>
+              <select
+                value={input.paymentMethod}
+                onChange={(e) => update({ paymentMethod: e.target.value as PaymentMethod })}
+                className={inputClassName}
+              >
+                {PAYMENT_METHODS.map((method) => (
+                  <option key={method.value} value={method.value}>
+                    {language === 'ja' ? method.label : method.description}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="block text-gray-700 mb-1">{t('voucher_payee')}</span>
+            <input
+              type="text"
+              value={input.payee}
+              onChange={(e) => update({ payee: e.target.value })}
+              placeholder={t('voucher_payee_placeholder')}
+              className={inputClassName}
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-gray-700 mb-1">{t('voucher_memo')}</span>
+            <input
+              type="text"
+              value={input.description}
+              onChange={(e) => update({ description: e.target.value })}
+              placeholder={t('voucher_memo_placeholder')}
+              className={inputClassName}
+            />
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-gray-700 mb-1">{t('voucher_amount')}</span>
+              <input
+                type="number"
+                min={1}
+                value={input.amount || ''}
+                onChange={(e) => update({ amount: Math.round(Number(e.target.value)) || 0 })}
+                className={`${inputClassName} text-right`}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-gray-700 mb-1">{t('voucher_tax_rate')}</span>
+              <select
+                value={input.taxRate}
+                onChange={(e) => update({ taxRate: Number(e.target.value) })}
+                className={inputClassName}
+              >
+                <option value={TAX_RATES.STANDARD}>10%</option>
+                <option value={TAX_RATES.REDUCED}>8%</option>
+                <option value={0}>{t('voucher_tax_none')}</option>
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="block text-gray-700 mb-1">{t('field_category')}</span>
+            <select
+              value={input.category}
+              onChange={(e) => update({ category: e.target.value as ExpenseCategory })}
+              className={inputClassName}
+            >
+              {EXPENSE_CATEGORIES.map((cat) => (
+                <option key={cat.value} value={cat.value}>
+                  {categoryLabel(cat.value)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-gray-700 mb-1">
+              {t('voucher_reason')} <span className="text-red-600">*</span>
+            </span>
+            <input
+              type="text"
+              value={input.reason}
+              onChange={(e) => update({ reason: e.target.value })}
+              placeholder={t('voucher_reason_placeholder')}
+              className={inputClassName}
+            />
+          </label>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          <span className="mr-auto text-xs text-gray-500">{t('voucher_note')}</span>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 rounded-lg hover:bg-gray-100 text-sm"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!canSave || isSaving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+          >
+            {isSaving ? t('voucher_saving') : t('voucher_save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { AlertTriangle, FileSpreadsheet, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import {
+  getFinancialStatementSettings,
+  getReceipts,
+  saveFinancialStatementSettings,
+} from '@/lib/db/operations';
+import { buildIncomeExpenseStatement, exportIncomeExpenseExcel } from '@/lib/export/white-return';
+import { getDepreciationSchedule } from '@/lib/depreciation/schedule';
+import { useI18n } from '@/lib/i18n/context';
+import { formatCurrency } from '@/lib/utils/format';
+import type { FinancialStatementSettings } from '@/types/financial-statement';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+import type { Receipt } from '@/types/receipt';
+
+interface WhiteReturnModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+/**
+ * 収支内訳書 page 1: inventory input, preview with category checks and Excel export
+ */
+export function WhiteReturnModal({ year, onClose }: WhiteReturnModalProps) {
+  const { t } = useI18n();
+  const [receipts, setReceipts] = useState<Receipt[] | null>(null);
+  const [depreciation, setDepreciation] = useState<DepreciationScheduleRow[]>([]);
+  const [settings, setSettings] = useState<FinancialStatementSettings | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([
+      getReceipts({ fiscalYear: year }),
+      getReceipts(),
+      getFinancialStatementSettings(),
+    ]).then(([yearReceipts, allReceipts, statementSettings]) => {
+      if (!mounted) return;
+      setReceipts(yearReceipts);
+      setDepreciation(getDepreciationSchedule(allReceipts, year));
+      setSettings(statementSettings);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [year]);
+
+  const inventory = settings?.inventory[year] ?? { opening: 0, closing: 0 };
+
+  const statement = useMemo(
+    () =>
+      receipts && settings
+        ? buildIncomeExpenseStatement(
+            year,
+            receipts,
+            settings.inventory[year] ?? { opening: 0, closing: 0 },
+            depreciation
+          )
+        : null,
+    [receipts, settings, depreciation, year]
+  );
+
+  const updateInventory = (field: 'opening' | 'closing', value: string) => {
+    if (!settings) return;
+    const amount = Math.max(0, Math.floor(Number(value) || 0));
+    setSettings({
+      ...settings,
+      inventory: { ...settings.inventory, [year]: { ...inventory, [field]: amount } },
+    });
+  };
+
+  const handleExport = async () => {
+    if (!statement || !settings) return;
+    setIsExporting(true);
+    try {
+      await saveFinancialStatementSettings(settings);
+      await exportIncomeExpenseExcel(statement);
+    } catch (error) {
+      console.error('White return export failed:', error);
+      alert(t('export_error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  const previewLines = statement
+    ? [
+        { mark: '④', label: t('white_return_total_income'), amount: statement.totalIncome },
+        { mark: '⑨', label: t('financials_cost_of_sales'), amount: statement.costOfSales },
+        { mark: '⑩', label: t('financials_gross_profit'), amount: statement.grossProfit },
+        ...[...statement.expenses, ...statement.otherExpenses]
+          .filter((line) => line.amount !== 0)
+          .map((line) => ({ mark: line.mark, label: line.label, amount: line.amount })),
+        { mark: '⑱', label: t('financials_total_expenses'), amount: statement.totalExpenses },
+        { mark: '㉑', label: t('financials_income'), amount: statement.income },
+      ]
+    : [];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('white_return_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('white_return_description')}</p>
+
+        {!statement ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t('loading')}</p>
+        ) : (
+          <div className="overflow-y-auto space-y-4 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-gray-700 mb-1">{t('financials_opening_inventory')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={inventory.opening}
+                  onChange={(e) => updateInventory('opening', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-gray-700 mb-1">{t('financials_closing_inventory')}</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={inventory.closing}
+                  onChange={(e) => updateInventory('closing', e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            {statement.issues.length > 0 && (
+              <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-1">
+                <div className="flex items-center gap-2 font-medium text-amber-800">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>{t('white_return_issues_title')}</span>
+                </div>
+                <ul className="text-xs text-amber-700 space-y-0.5">
+                  {statement.issues.map((issue) => (
+                    <li key={issue.category}>
+                      {issue.type === 'merged'
+                        ? t('white_return_issue_merged', {
+                            category: issue.category,
+                            mergedInto: issue.mergedInto ?? '',
+                            count: issue.count,
+                            amount: formatCurrency(issue.amount),
+                          })
+                        : t('white_return_issue_excluded', {
+                            category: issue.category,
+                            count: issue.count,
+                            amount: formatCurrency(issue.amount),
+                          })}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <table className="w-full">
+              <tbody className="divide-y divide-gray-100">
+                {previewLines.map((line) => (
+                  <tr
+                    key={line.mark}
+                    className={['⑩', '⑱', '㉑'].includes(line.mark) ? 'font-medium' : ''}
+                  >
+                    <td className="py-1.5 w-8 text-gray-500">{line.mark}</td>
+                    <td className="py-1.5 text-gray-800">{line.label}</td>
+                    <td className="py-1.5 text-right">{formatCurrency(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">
+              {t('white_return_note', { count: statement.miscBreakdown.length })}
+            </p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          <button
+            onClick={handleExport}
+            disabled={!statement || isExporting}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>{isExporting ? t('exporting') : t('financials_export_excel')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { Landmark, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getPayees, getWithholdingSettings } from '@/lib/db/operations';
+import { calculateWithholdingByCategory, findPayee } from '@/lib/export/form309';
+import { getDocumentDirection } from '@/lib/export/ledger-mapping';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { WITHHOLDING_CATEGORIES, WITHHOLDING_SETTINGS } from '@/lib/utils/constants';
+import { formatCurrency } from '@/lib/utils/format';
+import {
+  getDefaultWithholding,
+  getNetPayment,
+  getRemittancePeriod,
+} from '@/lib/withholding/remittance';
+import type { Payee } from '@/types/payee';
+import type { ExtractedData } from '@/types/receipt';
+import type { WithholdingInfo, WithholdingSchedule } from '@/types/withholding';
+
+interface WithholdingEditorProps {
+  data: ExtractedData;
+  onChange: (data: ExtractedData) => void;
+}
+
+/**
+ * Record the 源泉徴収 withheld from a fee and show the net amount paid and
+ * when the withheld tax is due
+ * Offered for payees in the payee master and outsourcing expenses.
+ */
+export function WithholdingEditor({ data, onChange }: WithholdingEditorProps) {
+  const { t, language } = useI18n();
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [schedule, setSchedule] = useState<WithholdingSchedule>('monthly');
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([getPayees(), getWithholdingSettings()]).then(([payeeMaster, settings]) => {
+      if (!mounted) return;
+      setPayees(payeeMaster);
+      setSchedule(settings.schedule);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const withholding = data.withholding;
+  const payee = findPayee(data, payees);
+  const isCandidate =
+    (payee && payee.category !== 'notSubject' && payee.payeeType === 'individual') ||
+    WITHHOLDING_SETTINGS.CANDIDATE_CATEGORIES.includes(data.suggestedCategory);
+
+  if (getDocumentDirection(data) !== 'expense' || (!withholding && !isCandidate)) {
+    return null;
+  }
+
+  const setWithholding = (next: WithholdingInfo | undefined) => {
+    onChange({ ...data, withholding: next });
+  };
+
+  const categoryLabel = (value: string) =>
+    language === 'en'
+      ? t(`payee_category_${value}` as TranslationKey)
+      : WITHHOLDING_CATEGORIES.find((category) => category.value === value)?.label ?? value;
+
+  const inputClass =
+    'px-1.5 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+  return (
+    <div className="bg-gray-50 rounded-lg px-3 py-2.5 border border-gray-200">
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+          <Landmark className="w-3.5 h-3.5" />
+          <span>{t('withholding_title')}</span>
+        </div>
+        {withholding && (
+          <button
+            type="button"
+            onClick={() => setWithholding(undefined)}
+            className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1 font-medium"
+          >
+            <X className="w-3.5 h-3.5" />
+            <span>{t('withholding_remove')}</span>
+          </button>
+        )}
+      </div>
+
+      {!withholding ? (
+        <>
+          <p className="text-xs text-gray-500 mb-1.5">{t('withholding_description')}</p>
+          <button
+            type="button"
+            onClick={() => setWithholding(getDefaultWithholding(data, payee))}
+            className="text-xs text-primary-600 hover:text-primary-700 flex items-center gap-1 font-medium"
+          >
+            <Landmark className="w-3.5 h-3.5" />
+            <span>
+              {t('withholding_record', {
+                amount: formatCurrency(getDefaultWithholding(data, payee).amount),
+              })}
+            </span>
+          </button>
+        </>
+      ) : (
+        <div className="space-y-1.5 text-xs">
+          <div className="flex flex-wrap items-center gap-1.5">
+            <select
+              value={withholding.category}
+              onChange={(e) => {
+                const category = e.target.value as WithholdingInfo['category'];
+                setWithholding({
+                  ...withholding,
+                  category,
+                  amount: calculateWithholdingByCategory(data.totalAmount, category),
+                });
+              }}
+              className={`flex-1 min-w-[10rem] ${inputClass}`}
+            >
+              {WITHHOLDING_CATEGORIES.filter((category) => category.value !== 'notSubject').map(
+                (category) => (
+                  <option key={category.value} value={category.value}>
+                    {categoryLabel(category.value)}
+                  </option>
+                )
+              )}
+            </select>
+            <label className="flex items-center gap-1 text-gray-600">
+              <span>{t('withholding_amount')}</span>
+              <input
+                type="number"
+                min={0}
+                max={data.totalAmount}
+                value={withholding.amount}
+                onChange={(e) =>
+                  setWithholding({
+                    ...withholding,
+                    amount: Math.min(data.totalAmount, Math.max(0, Math.floor(Number(e.target.value) || 0))),
+                  })
+                }
+                className={`w-24 text-right ${inputClass}`}
+              />
+            </label>
+            <label className="flex items-center gap-1 text-gray-600">
+              <span>{t('withholding_payment_date')}</span>
+              <input
+                type="date"
+                value={withholding.paymentDate}
+                onChange={(e) =>
+                  e.target.value && setWithholding({ ...withholding, paymentDate: e.target.value })
+                }
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-gray-600">
+            <span>
+              {t('withholding_net_payment')}:{' '}
+              <span className="font-medium text-gray-800">{formatCurrency(getNetPayment(data))}</span>
+            </span>
+            <span>
+              {t('withholding_due_date')}:{' '}
+              <span className="font-medium text-gray-800">
+                {getRemittancePeriod(withholding, schedule).dueDate}
+              </span>
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { FileSpreadsheet, Landmark, X } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { getReceipts, getWithholdingSettings, saveWithholdingSettings } from '@/lib/db/operations';
+import { exportRemittanceSummary } from '@/lib/export/withholding';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import { getReminderStatus, getRemittanceSlips } from '@/lib/withholding/remittance';
+import type { Receipt } from '@/types/receipt';
+import type { WithholdingSchedule, WithholdingSettings } from '@/types/withholding';
+
+interface WithholdingModalProps {
+  year: number;
+  onClose: () => void;
+}
+
+/**
+ * 源泉所得税の納付書 of a year: amounts per month or half-year, due dates,
+ * paid status and Excel export
+ */
+export function WithholdingModal({ year, onClose }: WithholdingModalProps) {
+  const { t } = useI18n();
+  const [receipts, setReceipts] = useState<Receipt[] | null>(null);
+  const [settings, setSettings] = useState<WithholdingSettings | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    // All years: December's tax is paid in January, and 納期の特例 periods span months
+    Promise.all([getReceipts(), getWithholdingSettings()]).then(([allReceipts, withholdingSettings]) => {
+      if (!mounted) return;
+      setReceipts(allReceipts);
+      setSettings(withholdingSettings);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const slips = useMemo(
+    () =>
+      receipts && settings
+        ? getRemittanceSlips(receipts, settings).filter((slip) => slip.year === year)
+        : null,
+    [receipts, settings, year]
+  );
+
+  const updateSettings = async (next: WithholdingSettings) => {
+    setSettings(next);
+    await saveWithholdingSettings(next);
+  };
+
+  const togglePaid = (key: string, paid: boolean) => {
+    if (!settings) return;
+    const nextPaid = { ...settings.paid };
+    if (paid) {
+      nextPaid[key] = formatDateForInput(new Date());
+    } else {
+      delete nextPaid[key];
+    }
+    updateSettings({ ...settings, paid: nextPaid });
+  };
+
+  const handleExport = async () => {
+    if (!slips) return;
+    setIsExporting(true);
+    try {
+      await exportRemittanceSummary(year, slips);
+    } catch (error) {
+      console.error('Withholding summary export failed:', error);
+      alert(t('export_error'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const today = formatDateForInput(new Date());
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full p-6 max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Landmark className="w-5 h-5 text-primary-600" />
+            <h3 className="text-lg font-bold text-gray-900">{t('withholding_summary_title', { year })}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600"
+            title={t('close')}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">{t('withholding_summary_description')}</p>
+
+        {!slips || !settings ? (
+          <p className="text-sm text-gray-500 text-center py-8">{t('loading')}</p>
+        ) : (
+          <div className="overflow-y-auto space-y-4 text-sm">
+            <div>
+              <label className="block text-gray-700 mb-1">{t('withholding_schedule')}</label>
+              <select
+                value={settings.schedule}
+                onChange={(e) =>
+                  updateSettings({ ...settings, schedule: e.target.value as WithholdingSchedule })
+                }
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="monthly">{t('withholding_schedule_monthly')}</option>
+                <option value="semiAnnual">{t('withholding_schedule_semiAnnual')}</option>
+              </select>
+              {settings.schedule === 'semiAnnual' && (
+                <p className="text-xs text-gray-500 mt-1">{t('withholding_schedule_note')}</p>
+              )}
+            </div>
+
+            {slips.length === 0 ? (
+              <p className="text-gray-500">{t('withholding_summary_empty')}</p>
+            ) : (
+              <table className="w-full">
+                <thead>
+                  <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="text-left font-medium py-2 pr-2">{t('withholding_period')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('withholding_form')}</th>
+                    <th className="text-left font-medium py-2 pr-2">{t('withholding_due_date')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('withholding_payee_count')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('withholding_gross')}</th>
+                    <th className="text-right font-medium py-2 pr-2">{t('withholding_tax')}</th>
+                    <th className="text-left font-medium py-2">{t('withholding_paid')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {slips.map((slip) => {
+                    const overdue = !slip.paidOn && getReminderStatus(slip, today) === 'overdue';
+                    return (
+                      <tr key={slip.key}>
+                        <td className="py-1.5 pr-2 text-gray-800">
+                          {slip.startMonth === slip.endMonth
+                            ? t('withholding_period_month', { month: slip.startMonth })
+                            : t('withholding_period_range', { start: slip.startMonth, end: slip.endMonth })}
+                        </td>
+                        <td className="py-1.5 pr-2 text-gray-600">
+                          {t(`withholding_form_${slip.form}` as TranslationKey)}
+                        </td>
+                        <td className={`py-1.5 pr-2 ${overdue ? 'text-red-600 font-medium' : 'text-gray-800'}`}>
+                          {slip.dueDate}
+                        </td>
+                        <td className="py-1.5 pr-2 text-right">{slip.payeeCount}</td>
+                        <td className="py-1.5 pr-2 text-right">{formatCurrency(slip.grossAmount)}</td>
+                        <td className="py-1.5 pr-2 text-right font-medium">{formatCurrency(slip.taxAmount)}</td>
+                        <td className="py-1.5">
+                          <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                            <input
+                              type="checkbox"
+                              checked={!!slip.paidOn}
+                              onChange={(e) => togglePaid(slip.key, e.target.checked)}
+                              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                            <span>{slip.paidOn ?? ''}</span>
+                          </label>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center justify-end gap-2 mt-4 pt-4 border-t border-gray-200">
+          {slips && slips.length > 0 && (
+            <span className="mr-auto text-xs text-gray-500">
+              {t('withholding_summary_total', {
+                amount: formatCurrency(slips.reduce((sum, slip) => sum + slip.taxAmount, 0)),
+              })}
+            </span>
+          )}
+          <button
+            onClick={handleExport}
+            disabled={!slips || slips.length === 0 || isExporting}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            <span>{isExporting ? t('exporting') : t('financials_export_excel')}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
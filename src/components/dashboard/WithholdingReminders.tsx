@@ -0,0 +1,77 @@
+'use client';
+
+import { CalendarClock } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getReceipts, getWithholdingSettings } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { formatCurrency, formatDateForInput } from '@/lib/utils/format';
+import { getReminderStatus, getRemittanceSlips } from '@/lib/withholding/remittance';
+import type { Receipt } from '@/types/receipt';
+import type { RemittanceSlip } from '@/types/withholding';
+
+interface WithholdingRemindersProps {
+  receipts: Receipt[]; // Reloads when the receipt list changes
+  version: number; // Incremented when slips are marked paid
+  onOpen: (year: number) => void;
+}
+
+const STATUS_CLASSES = {
+  overdue: 'text-red-600',
+  dueSoon: 'text-amber-600',
+  upcoming: 'text-gray-600',
+} as const;
+
+/**
+ * Unpaid 源泉所得税 納付書 ordered by due date
+ */
+export function WithholdingReminders({ receipts, version, onOpen }: WithholdingRemindersProps) {
+  const { t } = useI18n();
+  const [slips, setSlips] = useState<RemittanceSlip[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    Promise.all([getReceipts(), getWithholdingSettings()]).then(([allReceipts, settings]) => {
+      if (!mounted) return;
+      setSlips(
+        getRemittanceSlips(allReceipts, settings).filter((slip) => !slip.paidOn && slip.taxAmount > 0)
+      );
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [receipts, version]);
+
+  if (slips.length === 0) return null;
+
+  const today = formatDateForInput(new Date());
+
+  return (
+    <div className="px-3 py-2 border-b border-gray-200 space-y-1">
+      <div className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+        <CalendarClock className="w-3.5 h-3.5" />
+        <span>{t('withholding_reminders_title')}</span>
+      </div>
+      {slips.map((slip) => {
+        const status = getReminderStatus(slip, today);
+        return (
+          <button
+            key={slip.key}
+            onClick={() => onOpen(slip.year)}
+            className="w-full flex items-center justify-between gap-2 px-2 py-1 text-xs rounded hover:bg-gray-100"
+          >
+            <span className={`${STATUS_CLASSES[status]} ${status === 'upcoming' ? '' : 'font-medium'}`}>
+              {t(`withholding_reminder_${status}` as TranslationKey, { date: slip.dueDate })}
+            </span>
+            <span className="text-gray-800 truncate">
+              {slip.startMonth === slip.endMonth
+                ? t('withholding_period_month', { month: slip.startMonth })
+                : t('withholding_period_range', { start: slip.startMonth, end: slip.endMonth })}{' '}
+              {formatCurrency(slip.taxAmount)}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { Archive } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getArchiveSettings, setArchiveMode } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { ArchiveSettings } from '@/types/archive';
+
+/**
+ * 電子帳簿保存法 archive mode switch
+ */
+export function ArchiveModeSettings() {
+  const { t, language } = useI18n();
+  const [settings, setSettings] = useState<ArchiveSettings | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    getArchiveSettings().then((value) => {
+      if (mounted) setSettings(value);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleToggle = async () => {
+    if (!settings) return;
+
+    const enabled = !settings.enabled;
+    if (enabled && !confirm(t('archive_enable_confirm'))) return;
+
+    await setArchiveMode(enabled);
+    setSettings(await getArchiveSettings());
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Archive className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('archive_mode_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('archive_mode_description')}</p>
+
+      <label className="flex items-center gap-3 text-sm text-gray-800">
+        <input
+          type="checkbox"
+          checked={settings?.enabled ?? false}
+          disabled={!settings}
+          onChange={handleToggle}
+          className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>{t('archive_mode_enable')}</span>
+      </label>
+      {settings?.enabled && settings.enabledAt && (
+        <p className="text-xs text-gray-500 mt-2 ml-7">
+          {t('archive_mode_enabled_since', {
+            date: new Date(settings.enabledAt).toLocaleDateString(
+              language === 'ja' ? 'ja-JP' : 'en-US'
+            ),
+          })}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,206 @@
+'use client';
+
+import { DatabaseBackup, Download, Upload } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { downloadBackup, readBackupFile, restoreBackup } from '@/lib/backup/backup';
+import { useI18n } from '@/lib/i18n/context';
+import type { BackupFile, BackupRestoreMode, BackupRestoreResult } from '@/types/backup';
+
+/**
+ * Export the whole database to a backup file and restore it
+ */
+export function BackupSettings() {
+  const { t, language } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [mode, setMode] = useState<BackupRestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [result, setResult] = useState<BackupRestoreResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const locale = language === 'ja' ? 'ja-JP' : 'en-US';
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await downloadBackup(exportPassphrase || undefined);
+      setExportPassphrase('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setResult(null);
+    setError(null);
+    try {
+      setBackup(await readBackupFile(file));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !confirm(t('backup_replace_confirm'))) return;
+
+    setIsRestoring(true);
+    setError(null);
+    try {
+      setResult(await restoreBackup(backup, mode, importPassphrase || undefined));
+      setBackup(null);
+      setImportPassphrase('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const inputClass =
+    'flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <DatabaseBackup className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('backup_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('backup_description')}</p>
+
+      {/* Export */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="password"
+          value={exportPassphrase}
+          onChange={(e) => setExportPassphrase(e.target.value)}
+          placeholder={t('backup_passphrase_optional')}
+          autoComplete="new-password"
+          className={inputClass}
+        />
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          <Download className="w-4 h-4" />
+          <span>{isExporting ? t('backup_exporting') : t('backup_export')}</span>
+        </button>
+      </div>
+
+      {/* Import */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 flex items-center gap-2 text-sm"
+      >
+        <Upload className="w-4 h-4" />
+        <span>{t('backup_import')}</span>
+      </button>
+
+      {backup && (
+        <div className="mt-4 bg-gray-50 rounded-lg border border-gray-200 p-3 space-y-3 text-sm">
+          <p className="text-gray-700">
+            {t('backup_file_summary', {
+              date: new Date(backup.createdAt).toLocaleString(locale),
+              count: backup.counts.receipts ?? 0,
+            })}
+          </p>
+
+          {backup.encryption && (
+            <input
+              type="password"
+              value={importPassphrase}
+              onChange={(e) => setImportPassphrase(e.target.value)}
+              placeholder={t('backup_passphrase')}
+              autoComplete="current-password"
+              className={`${inputClass} w-full`}
+            />
+          )}
+
+          <div className="space-y-1">
+            {(['merge', 'replace'] as const).map((value) => (
+              <label key={value} className="flex items-start gap-2 text-gray-800">
+                <input
+                  type="radio"
+                  name="backup-mode"
+                  checked={mode === value}
+                  onChange={() => setMode(value)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium">{t(`backup_mode_${value}`)}</span>
+                  <span className="block text-xs text-gray-500">
+                    {t(`backup_mode_${value}_description`)}
+                  </span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setBackup(null)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 text-sm"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={isRestoring || (!!backup.encryption && !importPassphrase)}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+            >
+              {isRestoring ? t('backup_restoring') : t('backup_restore')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="mt-4 text-sm">
+          <p className="text-green-700">
+            {t('backup_restore_result', { added: result.added, unchanged: result.unchanged })}
+          </p>
+          {result.conflicts.length > 0 && (
+            <div className="mt-2">
+              <p className="text-amber-700 mb-1">
+                {t('backup_conflicts', { count: result.conflicts.length })}
+              </p>
+              <ul className="text-xs text-gray-700 space-y-0.5 max-h-48 overflow-y-auto">
+                {result.conflicts.map((conflict) => (
+                  <li key={conflict.receiptId} className="break-all">
+                    <span className="font-mono text-gray-500">{conflict.receiptId}</span>{' '}
+                    {conflict.issuerName} ·{' '}
+                    {t('backup_conflict_dates', {
+                      local: new Date(conflict.localUpdatedAt).toLocaleString(locale),
+                      backup: new Date(conflict.backupUpdatedAt).toLocaleString(locale),
+                    })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
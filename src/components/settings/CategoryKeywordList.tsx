@@ -0,0 +1,129 @@
+'use client';
+
+import { Plus, Tags, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { deleteCategoryKeyword, getCategoryKeywords, saveCategoryKeyword } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES } from '@/lib/utils/constants';
+import type { CategoryKeyword } from '@/types/category-keyword';
+import type { ExpenseCategory } from '@/types/receipt';
+
+/**
+ * User keywords for the local categorizer, grouped by category
+ */
+export function CategoryKeywordList() {
+  const { t, language } = useI18n();
+  const [keywords, setKeywords] = useState<CategoryKeyword[]>([]);
+  const [keyword, setKeyword] = useState('');
+  const [category, setCategory] = useState<ExpenseCategory>('消耗品費');
+
+  const loadKeywords = async () => {
+    setKeywords(await getCategoryKeywords());
+  };
+
+  useEffect(() => {
+    loadKeywords();
+  }, []);
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    language === 'en' ? t(`category_${value}` as TranslationKey) : value;
+
+  const handleAdd = async () => {
+    const value = keyword.trim();
+    if (!value) return;
+
+    // One entry per keyword - adding it again moves it to the new category
+    const existing = keywords.find((k) => k.keyword === value);
+    await saveCategoryKeyword({
+      id: existing?.id ?? uuidv4(),
+      keyword: value,
+      category,
+      createdAt: existing?.createdAt ?? new Date(),
+    });
+    setKeyword('');
+    await loadKeywords();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteCategoryKeyword(id);
+    await loadKeywords();
+  };
+
+  const grouped = EXPENSE_CATEGORIES.map((cat) => ({
+    category: cat.value,
+    keywords: keywords.filter((k) => k.category === cat.value),
+  })).filter((group) => group.keywords.length > 0);
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Tags className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('keywords_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('keywords_description')}</p>
+
+      {grouped.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">{t('keywords_empty')}</p>
+      ) : (
+        <dl className="space-y-2 mb-4">
+          {grouped.map((group) => (
+            <div key={group.category} className="flex flex-wrap items-center gap-1.5 text-sm">
+              <dt className="w-32 flex-shrink-0 text-gray-700 font-medium">
+                {categoryLabel(group.category)}
+              </dt>
+              {group.keywords.map((k) => (
+                <dd
+                  key={k.id}
+                  className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-gray-100 text-gray-800 rounded"
+                >
+                  <span>{k.keyword}</span>
+                  <button
+                    onClick={() => handleDelete(k.id)}
+                    className="p-0.5 text-gray-400 hover:text-red-600"
+                    title={t('delete')}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </dd>
+              ))}
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder={t('keywords_placeholder')}
+          className="flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value as ExpenseCategory)}
+          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {EXPENSE_CATEGORIES.map((cat) => (
+            <option key={cat.value} value={cat.value}>
+              {categoryLabel(cat.value)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!keyword.trim()}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('keywords_add')}</span>
+        </button>
+      </div>
+    </section>
+  );
+}
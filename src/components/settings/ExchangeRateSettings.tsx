@@ -0,0 +1,124 @@
+'use client';
+
+import { Globe, Trash2, Upload } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { importExchangeRateFile } from '@/lib/currency/rate-import';
+import { clearExchangeRates, getExchangeRateSummaries } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { formatNumber } from '@/lib/utils/format';
+import type { ExchangeRateSummary } from '@/types/currency';
+
+/**
+ * Import the TTM table used to convert foreign-currency receipts to yen
+ */
+export function ExchangeRateSettings() {
+  const { t } = useI18n();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [summaries, setSummaries] = useState<ExchangeRateSummary[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+
+  const loadSummaries = async () => {
+    setSummaries(await getExchangeRateSummaries());
+  };
+
+  useEffect(() => {
+    loadSummaries();
+  }, []);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setMessage(null);
+    try {
+      const count = await importExchangeRateFile(file);
+      setMessage({ type: 'success', text: t('exchange_rates_imported', { count: formatNumber(count) }) });
+    } catch (err) {
+      setMessage({
+        type: 'error',
+        text: t('exchange_rates_import_failed', {
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      });
+    } finally {
+      setIsImporting(false);
+      await loadSummaries();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(t('exchange_rates_clear_confirm'))) return;
+
+    await clearExchangeRates();
+    setMessage(null);
+    await loadSummaries();
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Globe className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('exchange_rates_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('exchange_rates_description')}</p>
+
+      {summaries.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">{t('exchange_rates_empty')}</p>
+      ) : (
+        <ul className="text-sm space-y-1 mb-4">
+          {summaries.map((summary) => (
+            <li key={summary.currency} className="flex flex-wrap gap-x-2 text-gray-800">
+              <span className="w-12 font-medium">{summary.currency}</span>
+              <span className="text-gray-600">
+                {t('exchange_rates_range', {
+                  count: formatNumber(summary.count),
+                  from: summary.firstDate,
+                  to: summary.lastDate,
+                })}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{isImporting ? t('exchange_rates_importing') : t('exchange_rates_import')}</span>
+        </button>
+        {summaries.length > 0 && (
+          <button
+            onClick={handleClear}
+            disabled={isImporting}
+            className="px-4 py-2 text-gray-500 rounded-lg hover:bg-gray-100 disabled:opacity-50 flex items-center gap-2 text-sm"
+          >
+            <Trash2 className="w-4 h-4" />
+            <span>{t('exchange_rates_clear')}</span>
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>
+          {message.text}
+        </p>
+      )}
+    </section>
+  );
+}
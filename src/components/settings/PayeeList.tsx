@@ -0,0 +1,242 @@
+'use client';
+
+import { Plus, Trash2, UserCheck } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { deletePayee, getPayees, savePayee } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { WITHHOLDING_CATEGORIES } from '@/lib/utils/constants';
+import { formatTNumber, parseTNumber } from '@/lib/utils/format';
+import { getVendorNames } from '@/lib/vendors/profile';
+import type { Payee, PayeeType, WithholdingCategory } from '@/types/payee';
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Payee master for the 309 支払調書 - view, edit, add and remove
+ */
+export function PayeeList() {
+  const { t, language } = useI18n();
+  const [payees, setPayees] = useState<Payee[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState<WithholdingCategory>('manuscript');
+
+  const loadPayees = async () => {
+    setPayees(await getPayees());
+  };
+
+  useEffect(() => {
+    loadPayees();
+  }, []);
+
+  const categoryLabel = (value: WithholdingCategory) =>
+    language === 'en'
+      ? t(`payee_category_${value}` as TranslationKey)
+      : WITHHOLDING_CATEGORIES.find((category) => category.value === value)?.label ?? value;
+
+  const updatePayee = async (payee: Payee, changes: Partial<Payee>) => {
+    const updated = { ...payee, ...changes };
+    // Keep the edited name matchable
+    updated.names = getVendorNames(...payee.names, updated.name);
+    setPayees((prev) => prev?.map((p) => (p.id === payee.id ? updated : p)) ?? null);
+    await savePayee(updated);
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    if (!confirm(t('payee_delete_confirm', { name: payee.name }))) return;
+    await deletePayee(payee.id);
+    await loadPayees();
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    await savePayee({
+      id: uuidv4(),
+      name,
+      names: getVendorNames(name),
+      payeeType: 'individual',
+      category: newCategory,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    setNewName('');
+    await loadPayees();
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <UserCheck className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('payee_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('payee_description')}</p>
+
+      {payees && payees.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">{t('payee_empty')}</p>
+      )}
+
+      {payees && payees.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-2 pr-2">{t('payee_name')}</th>
+                <th className="text-left font-medium py-2 pr-2">{t('payee_address')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-28">{t('payee_type')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-36">{t('payee_number')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-40">{t('field_tnumber')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-48">{t('payee_category')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-28">{t('payee_detail')}</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {payees.map((payee) => (
+                <tr key={payee.id}>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={payee.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== payee.name) updatePayee(payee, { name });
+                      }}
+                      className={`${inputClassName} min-w-[10rem]`}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={payee.address ?? ''}
+                      onBlur={(e) => {
+                        const address = e.target.value.trim() || undefined;
+                        if (address !== payee.address) updatePayee(payee, { address });
+                      }}
+                      placeholder={t('payee_address_placeholder')}
+                      className={`${inputClassName} min-w-[12rem]`}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <select
+                      value={payee.payeeType}
+                      onChange={(e) =>
+                        updatePayee(payee, { payeeType: e.target.value as PayeeType })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="individual">{t('payee_type_individual')}</option>
+                      <option value="corporation">{t('payee_type_corporation')}</option>
+                    </select>
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    {payee.payeeType === 'corporation' ? (
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        maxLength={13}
+                        defaultValue={payee.corporateNumber ?? ''}
+                        onBlur={(e) => {
+                          const corporateNumber = e.target.value.replace(/\D/g, '') || undefined;
+                          if (corporateNumber !== payee.corporateNumber) {
+                            updatePayee(payee, { corporateNumber });
+                          }
+                        }}
+                        placeholder="1234567890123"
+                        className={inputClassName}
+                      />
+                    ) : (
+                      <span className="text-xs text-gray-400" title={t('payee_my_number_note')}>
+                        {t('payee_my_number_placeholder')}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={payee.tNumber ? formatTNumber(payee.tNumber) : ''}
+                      onBlur={(e) => {
+                        const tNumber = parseTNumber(e.target.value) || undefined;
+                        if (tNumber !== payee.tNumber) updatePayee(payee, { tNumber });
+                      }}
+                      placeholder="T 1234567890123"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <select
+                      value={payee.category}
+                      onChange={(e) =>
+                        updatePayee(payee, { category: e.target.value as WithholdingCategory })
+                      }
+                      className={inputClassName}
+                    >
+                      {WITHHOLDING_CATEGORIES.map((category) => (
+                        <option key={category.value} value={category.value}>
+                          {categoryLabel(category.value)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={payee.detail ?? ''}
+                      onBlur={(e) => {
+                        const detail = e.target.value.trim() || undefined;
+                        if (detail !== payee.detail) updatePayee(payee, { detail });
+                      }}
+                      placeholder={t('payee_detail_placeholder')}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1.5 text-center">
+                    <button
+                      onClick={() => handleDelete(payee)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title={t('delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t('payee_name')}
+          className="flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <select
+          value={newCategory}
+          onChange={(e) => setNewCategory(e.target.value as WithholdingCategory)}
+          className="w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        >
+          {WITHHOLDING_CATEGORIES.map((category) => (
+            <option key={category.value} value={category.value}>
+              {categoryLabel(category.value)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('payee_add')}</span>
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { RefreshCw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { getSyncSettings, saveSyncSettings } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import { syncNow } from '@/lib/sync/client';
+import type { SyncResult, SyncSettings as SyncSettingsValue } from '@/types/sync';
+
+/**
+ * Multi-device sync through a self-hosted sync server
+ */
+export function SyncSettings() {
+  const { t, language } = useI18n();
+  const [settings, setSettings] = useState<SyncSettingsValue | null>(null);
+  const [serverUrl, setServerUrl] = useState('');
+  const [token, setToken] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    getSyncSettings().then((value) => {
+      if (!mounted) return;
+      setSettings(value);
+      setServerUrl(value.serverUrl);
+      setToken(value.token);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  const handleToggle = async () => {
+    if (!settings) return;
+    await saveSyncSettings({ enabled: !settings.enabled });
+    setSettings(await getSyncSettings());
+  };
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    setResult(null);
+    setError(null);
+    try {
+      await saveSyncSettings({ serverUrl: serverUrl.trim(), token: token.trim() });
+      setResult(await syncNow());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSettings(await getSyncSettings());
+      setIsSyncing(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <RefreshCw className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('sync_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('sync_description')}</p>
+
+      <label className="flex items-center gap-3 text-sm text-gray-800">
+        <input
+          type="checkbox"
+          checked={settings?.enabled ?? false}
+          disabled={!settings}
+          onChange={handleToggle}
+          className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        <span>{t('sync_enable')}</span>
+      </label>
+
+      {settings?.enabled && (
+        <div className="mt-4 space-y-3 text-sm">
+          <div>
+            <label className="block text-gray-700 mb-1">{t('sync_server_url')}</label>
+            <input
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder={t('sync_server_url_placeholder')}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">{t('sync_server_url_hint')}</p>
+          </div>
+          <div>
+            <label className="block text-gray-700 mb-1">{t('sync_token')}</label>
+            <input
+              type="password"
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={handleSync}
+              disabled={isSyncing || !token.trim()}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+              <span>{isSyncing ? t('sync_syncing') : t('sync_now')}</span>
+            </button>
+            <span className="text-xs text-gray-500">
+              {settings.lastSyncedAt
+                ? t('sync_last_synced', {
+                    date: new Date(settings.lastSyncedAt).toLocaleString(
+                      language === 'ja' ? 'ja-JP' : 'en-US'
+                    ),
+                  })
+                : t('sync_never_synced')}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <p className="mt-3 text-sm text-green-700">
+          {t('sync_result', {
+            pushed: result.pushed,
+            pulled: result.pulled,
+            conflicts: result.conflicts,
+            skipped: result.skipped,
+          })}
+        </p>
+      )}
+    </section>
+  );
+}
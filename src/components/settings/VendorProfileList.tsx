@@ -0,0 +1,221 @@
+'use client';
+
+import { Plus, Store, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { deleteVendorProfile, getVendorProfiles, saveVendorProfile } from '@/lib/db/operations';
+import { useI18n } from '@/lib/i18n/context';
+import type { TranslationKey } from '@/lib/i18n/translations';
+import { EXPENSE_CATEGORIES, PAYMENT_METHODS } from '@/lib/utils/constants';
+import { formatTNumber, parseTNumber } from '@/lib/utils/format';
+import { getVendorNames } from '@/lib/vendors/profile';
+import type { ExpenseCategory, PaymentMethod } from '@/types/receipt';
+import type { VendorProfile } from '@/types/vendor';
+
+const inputClassName =
+  'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Remembered vendor corrections - view, edit, add and remove
+ */
+export function VendorProfileList() {
+  const { t, language } = useI18n();
+  const [profiles, setProfiles] = useState<VendorProfile[] | null>(null);
+  const [newName, setNewName] = useState('');
+  const [newTNumber, setNewTNumber] = useState('');
+
+  const loadProfiles = async () => {
+    setProfiles(await getVendorProfiles());
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const categoryLabel = (value: ExpenseCategory) =>
+    language === 'en' ? t(`category_${value}` as TranslationKey) : value;
+
+  const updateProfile = async (profile: VendorProfile, changes: Partial<VendorProfile>) => {
+    const updated = { ...profile, ...changes };
+    // Keep the edited name matchable
+    updated.names = getVendorNames(...profile.names, updated.canonicalName);
+    setProfiles((prev) => prev?.map((p) => (p.id === profile.id ? updated : p)) ?? null);
+    await saveVendorProfile(updated);
+  };
+
+  const handleDelete = async (profile: VendorProfile) => {
+    if (!confirm(t('vendor_delete_confirm', { name: profile.canonicalName }))) return;
+    await deleteVendorProfile(profile.id);
+    await loadProfiles();
+  };
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const tNumber = parseTNumber(newTNumber);
+    await saveVendorProfile({
+      id: uuidv4(),
+      tNumber: tNumber || undefined,
+      names: getVendorNames(name),
+      canonicalName: name,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    setNewName('');
+    setNewTNumber('');
+    await loadProfiles();
+  };
+
+  return (
+    <section className="bg-white rounded-xl border border-gray-200 p-4 sm:p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <Store className="w-5 h-5 text-primary-600" />
+        <h2 className="text-lg font-bold text-gray-900">{t('vendor_profiles_title')}</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{t('vendor_profiles_description')}</p>
+
+      {profiles && profiles.length === 0 && (
+        <p className="text-sm text-gray-500 mb-4">{t('vendor_profiles_empty')}</p>
+      )}
+
+      {profiles && profiles.length > 0 && (
+        <div className="overflow-x-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-2 pr-2">{t('vendor_name')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-40">{t('field_tnumber')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-36">{t('field_category')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-36">{t('field_payment_method')}</th>
+                <th className="text-left font-medium py-2 pr-2 w-20">{t('vendor_business_ratio')}</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {profiles.map((profile) => (
+                <tr key={profile.id}>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={profile.canonicalName}
+                      onBlur={(e) => {
+                        const canonicalName = e.target.value.trim();
+                        if (canonicalName && canonicalName !== profile.canonicalName) {
+                          updateProfile(profile, { canonicalName });
+                        }
+                      }}
+                      className={`${inputClassName} min-w-[10rem]`}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="text"
+                      defaultValue={profile.tNumber ? formatTNumber(profile.tNumber) : ''}
+                      onBlur={(e) => {
+                        const tNumber = parseTNumber(e.target.value) || undefined;
+                        if (tNumber !== profile.tNumber) updateProfile(profile, { tNumber });
+                      }}
+                      placeholder="T 1234567890123"
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <select
+                      value={profile.category ?? ''}
+                      onChange={(e) =>
+                        updateProfile(profile, {
+                          category: (e.target.value || undefined) as ExpenseCategory | undefined,
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="">{t('vendor_not_set')}</option>
+                      {EXPENSE_CATEGORIES.map((cat) => (
+                        <option key={cat.value} value={cat.value}>
+                          {categoryLabel(cat.value)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <select
+                      value={profile.paymentMethod ?? ''}
+                      onChange={(e) =>
+                        updateProfile(profile, {
+                          paymentMethod: (e.target.value || undefined) as PaymentMethod | undefined,
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      <option value="">{t('vendor_not_set')}</option>
+                      {PAYMENT_METHODS.map((method) => (
+                        <option key={method.value} value={method.value}>
+                          {t(`payment_method_${method.value}` as TranslationKey)}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      defaultValue={profile.businessRatio ?? ''}
+                      onBlur={(e) => {
+                        const value = e.target.value === '' ? undefined : parseInt(e.target.value);
+                        const businessRatio =
+                          value === undefined || isNaN(value)
+                            ? undefined
+                            : Math.min(100, Math.max(0, value));
+                        if (businessRatio !== profile.businessRatio) {
+                          updateProfile(profile, { businessRatio });
+                        }
+                      }}
+                      placeholder="%"
+                      className={`${inputClassName} text-right`}
+                    />
+                  </td>
+                  <td className="py-1.5 text-center">
+                    <button
+                      onClick={() => handleDelete(profile)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title={t('delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={t('vendor_name')}
+          className="flex-1 min-w-[10rem] px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <input
+          type="text"
+          value={newTNumber}
+          onChange={(e) => setNewTNumber(e.target.value)}
+          placeholder={`${t('field_tnumber')} (T 1234567890123)`}
+          className="w-56 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!newName.trim()}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 flex items-center gap-2 text-sm"
+        >
+          <Plus className="w-4 h-4" />
+          <span>{t('vendor_add')}</span>
+        </button>
+      </div>
+    </section>
+  );
+}
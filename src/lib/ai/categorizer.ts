@@ -0,0 +1,184 @@
+// Local rule-based categorizer - checks the model's category against keywords
+// Runs entirely in the browser, so receipts read by PaddleOCR get a category too.
+
+import type { CategoryKeyword } from '@/types/category-keyword';
+import type { ExpenseCategory, ExtractedData } from '@/types/receipt';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { CATEGORY_KEYWORDS } from './prompts';
+
+/** Where a keyword was found, and how much that counts */
+const FIELD_WEIGHTS = {
+  issuerName: 3,
+  description: 2,
+  item: 1,
+} as const;
+
+/** User keywords count double so they win over the built-in table */
+const USER_KEYWORD_WEIGHT = 2;
+
+/** Below this a match is too weak to confirm or contradict anything */
+const MIN_SCORE = 2;
+
+/** Confidence given to a category filled in from keywords alone */
+const KEYWORD_ONLY_CONFIDENCE = 0.6;
+
+/** Confidence floor when the keywords agree with the model */
+const CONFIRMED_CONFIDENCE = 0.9;
+
+/** Categories the books treat as the same account */
+const EQUIVALENT_CATEGORIES: Partial<Record<ExpenseCategory, ExpenseCategory>> = {
+  交際費: '接待交際費',
+};
+
+export interface KeywordMatch {
+  category: ExpenseCategory;
+  score: number;
+  keywords: string[];
+}
+
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check whether a keyword occurs in a (normalized) text
+ * Latin keywords must stand alone so "AD" or "au" don't fire inside other
+ * words; Japanese keywords match anywhere.
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  if (/^[a-z0-9 .\-]+$/.test(keyword)) {
+    return new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword)}($|[^a-z0-9])`).test(text);
+  }
+  return text.includes(keyword);
+}
+
+function isSameCategory(a: ExpenseCategory, b: ExpenseCategory): boolean {
+  return (EQUIVALENT_CATEGORIES[a] ?? a) === (EQUIVALENT_CATEGORIES[b] ?? b);
+}
+
+/**
+ * Score every category by the keywords found in the issuer name, description
+ * and line items
+ *
+ * @returns Categories with at least one hit, best first
+ */
+export function scoreCategories(
+  data: Pick<ExtractedData, 'issuerName' | 'description' | 'items'>,
+  userKeywords: CategoryKeyword[] = []
+): KeywordMatch[] {
+  const fields: { text: string; weight: number }[] = [
+    { text: normalizeText(data.issuerName || ''), weight: FIELD_WEIGHTS.issuerName },
+    { text: normalizeText(data.description || ''), weight: FIELD_WEIGHTS.description },
+    ...(data.items ?? []).map((item) => ({
+      text: normalizeText(item.name),
+      weight: FIELD_WEIGHTS.item,
+    })),
+  ].filter((field) => field.text.length > 0);
+
+  const table: { category: ExpenseCategory; keyword: string; weight: number }[] = [];
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    for (const keyword of keywords ?? []) {
+      table.push({ category: category as ExpenseCategory, keyword, weight: 1 });
+    }
+  }
+  for (const entry of userKeywords) {
+    table.push({ category: entry.category, keyword: entry.keyword, weight: USER_KEYWORD_WEIGHT });
+  }
+
+  const matches = new Map<ExpenseCategory, KeywordMatch>();
+
+  for (const { category, keyword, weight } of table) {
+    const normalized = normalizeText(keyword.trim());
+    if (!normalized) continue;
+
+    // Each keyword counts once, in the most telling field it appears in
+    const field = fields.find((f) => containsKeyword(f.text, normalized));
+    if (!field) continue;
+
+    const match = matches.get(category) ?? { category, score: 0, keywords: [] };
+    match.score += field.weight * weight;
+    match.keywords.push(keyword);
+    matches.set(category, match);
+  }
+
+  return Array.from(matches.values()).sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Pick a category from keywords alone
+ *
+ * @returns The best match, or null if nothing scored high enough or the top
+ *   two categories are tied
+ */
+export function categorizeByKeywords(
+  data: Pick<ExtractedData, 'issuerName' | 'description' | 'items'>,
+  userKeywords: CategoryKeyword[] = []
+): KeywordMatch | null {
+  const [best, second] = scoreCategories(data, userKeywords);
+  if (!best || best.score < MIN_SCORE) return null;
+  if (second && second.score === best.score) return null;
+  return best;
+}
+
+/**
+ * Compare the model's category with the keyword result
+ * - no usable match: left as-is
+ * - model gave none (未分類): the keyword category is filled in
+ * - agreement: confidence is raised
+ * - disagreement: confidence is halved and keywordCategory records the
+ *   alternative, which validation reports as category_mismatch
+ *
+ * Only expenses are checked; income and purchases use fixed accounts.
+ */
+export function reconcileCategory(
+  data: ExtractedData,
+  userKeywords: CategoryKeyword[] = []
+): ExtractedData {
+  const rest: ExtractedData = { ...data };
+  delete rest.keywordCategory;
+  if (getDocumentDirection(data) !== 'expense') return rest;
+
+  // 減価償却費 is only ever set by hand
+  if (data.suggestedCategory === '減価償却費') return rest;
+
+  const match = categorizeByKeywords(data, userKeywords);
+  if (!match) return rest;
+
+  if (data.suggestedCategory === '未分類') {
+    return {
+      ...rest,
+      suggestedCategory: match.category,
+      categoryConfidence: KEYWORD_ONLY_CONFIDENCE,
+      keywordCategory: match.category,
+    };
+  }
+
+  if (isSameCategory(data.suggestedCategory, match.category)) {
+    return {
+      ...rest,
+      categoryConfidence: Math.max(data.categoryConfidence, CONFIRMED_CONFIDENCE),
+      keywordCategory: match.category,
+    };
+  }
+
+  return {
+    ...rest,
+    categoryConfidence: data.categoryConfidence / 2,
+    keywordCategory: match.category,
+  };
+}
+
+/**
+ * Whether the keyword categorizer disagrees with the receipt's category
+ */
+export function hasCategoryMismatch(data: ExtractedData): boolean {
+  return (
+    !!data.keywordCategory &&
+    data.suggestedCategory !== '減価償却費' &&
+    !isSameCategory(data.suggestedCategory, data.keywordCategory)
+  );
+}
@@ -3,6 +3,7 @@
 
 import type { GeminiExtractionResponse } from '@/types/receipt';
 import { RECEIPT_EXTRACTION_PROMPT } from './prompts';
+import { parseReceiptItems } from './items';
 
 /**
  * Extract receipt data using Gemini Vision API
@@ -92,6 +93,7 @@ function parseGeminiResponse(responseText: string): GeminiExtractionResponse {
     const extractedData = {
       ...parsed,
       transactionDate: new Date(parsed.transactionDate),
+      items: parseReceiptItems(parsed.items),
     };
 
     // Calculate overall confidence
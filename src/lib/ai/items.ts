@@ -0,0 +1,61 @@
+// Line-item normalization shared by the AI extraction strategies
+
+import type { ExpenseCategory, ReceiptItem } from '@/types/receipt';
+import { EXPENSE_CATEGORIES } from '../utils/constants';
+
+const VALID_CATEGORIES = new Set<string>(EXPENSE_CATEGORIES.map((c) => c.value));
+
+/**
+ * Coerce a number that may come back as a string ("1,280") or be missing
+ */
+function toNumber(value: unknown, fallback: number): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const parsed = Number(value.replace(/[,¥￥円\s]/g, ''));
+    if (Number.isFinite(parsed)) return parsed;
+  }
+  return fallback;
+}
+
+/**
+ * Normalize the `items` array returned by a model
+ * Drops rows without a name or amount, defaults quantity to 1 and tax rate
+ * to 10%, and discards categories outside the NTA list.
+ *
+ * @returns Items, or undefined if the model returned none
+ */
+export function parseReceiptItems(raw: unknown): ReceiptItem[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+
+  const items: ReceiptItem[] = [];
+
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const item = entry as Record<string, unknown>;
+
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    const quantity = toNumber(item.quantity, 1) || 1;
+    const unitPrice = toNumber(item.unitPrice, NaN);
+    const amount = Math.round(
+      toNumber(item.amount, Number.isFinite(unitPrice) ? unitPrice * quantity : NaN)
+    );
+    if (!name || !Number.isFinite(amount)) continue;
+
+    const taxRate = toNumber(item.taxRate, 10) === 8 ? 8 : 10;
+    const category =
+      typeof item.category === 'string' && VALID_CATEGORIES.has(item.category)
+        ? (item.category as ExpenseCategory)
+        : undefined;
+
+    items.push({
+      name,
+      quantity,
+      unitPrice: Number.isFinite(unitPrice) ? Math.round(unitPrice) : Math.round(amount / quantity),
+      taxRate,
+      amount,
+      ...(category && { category }),
+    });
+  }
+
+  return items.length > 0 ? items : undefined;
+}
@@ -1,5 +1,7 @@
 // AI prompts for receipt data extraction
 
+import type { ExpenseCategory } from '@/types/receipt';
+
 export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専門家です。この領収書（領収証）から情報を抽出してください。
 
 以下の情報をJSON形式で抽出してください：
@@ -29,6 +31,14 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
    見つからない場合のみnullに設定してください
 3. **取引年月日** (transactionDate): 取引日。ISO 8601形式 (yyyy-mm-dd)
 4. **取引内容** (description): 購入した商品やサービスの簡潔な説明
+   - 明細 (items): 印字されている品目ごとの配列。明細がない場合は空配列
+     - name: 品名
+     - quantity: 数量 (不明な場合は1)
+     - unitPrice: 単価
+     - taxRate: 税率 (8 または 10。「※」「軽」などの軽減税率マークがあれば8)
+     - amount: 金額（その行の金額。レシートの表示どおり税込または税抜）
+     - category: その品目の経費カテゴリ（下記6の科目から選択）
+   - 値引き・割引は金額をマイナスにした明細として含めてください
 5. **金額**:
    - 税抜金額 (subtotalExcludingTax): 消費税を除いた金額
    - 税率別消費税 (taxBreakdown): 各税率(8%または10%)ごとの配列
@@ -37,6 +47,11 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
      - taxAmount: 消費税額
      - total: 税込金額
    - 合計金額 (totalAmount): 最終的な税込合計金額
+   - 通貨 (currency): 金額の通貨。ISO 4217の3文字コード (JPY, USD, EUR など)
+     - 円建ての場合は "JPY"
+     - 外貨建て（海外のクラウドサービス、海外ホテルなど）の場合は、印字されている通貨のコードを返し、
+       すべての金額をその通貨のまま返してください（円に換算しないでください）
+     - "$" のみの表記は、請求元の国から判断してください（米国の事業者なら "USD"）
 6. **経費カテゴリ** (suggestedCategory): 国税庁公式経費科目から選択
 
    **使用頻度の高いカテゴリ**
@@ -75,7 +90,7 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
 - 必須フィールドが見つからないか不明な場合は、nullに設定し、信頼度を0にしてください
 - 金額計算を検証してください: 各税率の消費税額の合計 = 合計金額 - 税抜金額
 - 日付は必ずISO 8601形式 (yyyy-mm-dd) で返してください
-- すべての金額は整数（円）で返してください
+- 円建ての金額は整数（円）で返してください。外貨建ての金額は印字どおりの小数で返してください
 
 **T-Number抽出の重要性:**
 - T-Numberは税控除に必須です。見落とすと経費として認められません
@@ -92,6 +107,24 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
   "tNumber": "T1234567890123",
   "transactionDate": "2023-10-24",
   "description": "事務用品購入",
+  "items": [
+    {
+      "name": "コピー用紙 A4",
+      "quantity": 2,
+      "unitPrice": 3200,
+      "taxRate": 10,
+      "amount": 6400,
+      "category": "消耗品費"
+    },
+    {
+      "name": "トナーカートリッジ",
+      "quantity": 1,
+      "unitPrice": 6000,
+      "taxRate": 10,
+      "amount": 6000,
+      "category": "消耗品費"
+    }
+  ],
   "subtotalExcludingTax": 11273,
   "taxBreakdown": [
     {
@@ -102,6 +135,7 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
     }
   ],
   "totalAmount": 12400,
+  "currency": "JPY",
   "suggestedCategory": "消耗品費",
   "categoryConfidence": 0.85,
   "confidence": {
@@ -116,7 +150,8 @@ export const RECEIPT_EXTRACTION_PROMPT = `あなたは日本の税務書類専
 
 // Category keywords for improving auto-categorization
 // Based on NTA official expense categories (国税庁公式経費科目)
-export const CATEGORY_KEYWORDS = {
+// Used by the local categorizer (lib/ai/categorizer.ts) to check the model's category
+export const CATEGORY_KEYWORDS: Partial<Record<ExpenseCategory, string[]>> = {
   // High-frequency categories
   旅費交通費: [
     'タクシー', 'タクシ', '電車', 'JR', 'TAXI', '航空', 'エアライン', 'ANA', 'JAL',
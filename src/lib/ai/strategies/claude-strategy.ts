@@ -13,6 +13,7 @@
 // Quality: Highest for Japanese receipts
 
 import type { GeminiExtractionResponse, ExtractedData } from '@/types/receipt';
+import { parseReceiptItems } from '../items';
 import { RECEIPT_EXTRACTION_PROMPT } from '../prompts';
 
 // Model selection - can be overridden via CLAUDE_MODEL env var
@@ -122,6 +123,7 @@ function parseClaudeResponse(responseText: string): GeminiExtractionResponse {
       tNumber: parsed.tNumber || null,
       transactionDate: new Date(parsed.transactionDate),
       description: parsed.description || '',
+      items: parseReceiptItems(parsed.items),
       subtotalExcludingTax: parsed.subtotalExcludingTax || 0,
       taxBreakdown: parsed.taxBreakdown || [],
       totalAmount: parsed.totalAmount || 0,
@@ -1,6 +1,7 @@
 // Gemini-based extraction strategies
 
 import type { GeminiExtractionResponse } from '@/types/receipt';
+import { parseReceiptItems } from '../items';
 import { RECEIPT_EXTRACTION_PROMPT } from '../prompts';
 
 /**
@@ -233,6 +234,7 @@ function parseGeminiResponse(responseText: string, modelName: string = 'gemini')
     const extractedData = {
       ...parsed,
       transactionDate: new Date(parsed.transactionDate),
+      items: parseReceiptItems(parsed.items),
     };
 
     const overallConfidence = calculateOverallConfidence(parsed.confidence);
@@ -10,6 +10,7 @@
 // Quality: Good, near GPT-4o for document parsing
 
 import type { GeminiExtractionResponse, ExtractedData } from '@/types/receipt';
+import { parseReceiptItems } from '../items';
 import { RECEIPT_EXTRACTION_PROMPT } from '../prompts';
 
 // Supported hosting providers with their configurations
@@ -129,7 +130,7 @@ export async function extractWithQwenVL(
             ],
           },
         ],
-        max_tokens: 2048,
+        max_tokens: 4096, // Room for line items
         temperature: 0.1,
       }),
     });
@@ -174,6 +175,7 @@ function parseQwenResponse(responseText: string): GeminiExtractionResponse {
       tNumber: parsed.tNumber || null,
       transactionDate: new Date(parsed.transactionDate),
       description: parsed.description || '',
+      items: parseReceiptItems(parsed.items),
       subtotalExcludingTax: parsed.subtotalExcludingTax || 0,
       taxBreakdown: parsed.taxBreakdown || [],
       totalAmount: parsed.totalAmount || 0,
@@ -0,0 +1,82 @@
+import type { ApportionmentRule } from '@/types/apportionment';
+import type { ExtractedData, Receipt, TaxBreakdown } from '@/types/receipt';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { normalizeName } from '../utils/format';
+
+/**
+ * Business share (%) of a receipt
+ * Only expenses are apportioned; income and purchases are always 100%.
+ */
+export function getBusinessRatio(data: ExtractedData): number {
+  if (getDocumentDirection(data) !== 'expense') return 100;
+  const ratio = data.businessRatio ?? 100;
+  return Math.min(100, Math.max(0, ratio));
+}
+
+/**
+ * Deductible part of an amount (端数切捨て, so the deduction is never overstated)
+ */
+export function getDeductibleAmount(amount: number, ratio: number): number {
+  return Math.floor((amount * ratio) / 100);
+}
+
+/**
+ * Note appended to 摘要 so the books show how the amount was derived
+ */
+export function formatApportionmentNote(ratio: number, grossAmount: number): string {
+  return `家事按分 事業割合${ratio}%（支払総額${grossAmount.toLocaleString('ja-JP')}円）`;
+}
+
+/**
+ * Find the rule that applies to a receipt
+ * A vendor rule matches when either normalized name contains the other;
+ * vendor rules win over category rules.
+ */
+export function findApportionmentRule(
+  rules: ApportionmentRule[],
+  data: Pick<ExtractedData, 'issuerName' | 'suggestedCategory'>
+): ApportionmentRule | undefined {
+  const issuer = normalizeName(data.issuerName);
+
+  const vendorRule = rules.find((rule) => {
+    if (rule.kind !== 'vendor') return false;
+    const vendor = normalizeName(rule.vendorName);
+    return !!vendor && !!issuer && (issuer.includes(vendor) || vendor.includes(issuer));
+  });
+  if (vendorRule) return vendorRule;
+
+  return rules.find((rule) => rule.kind === 'category' && rule.category === data.suggestedCategory);
+}
+
+/**
+ * Scale a receipt's amounts down to the business share for export
+ * Receipts at 100% are returned as-is. The rounded-down total is kept and the
+ * tax-excluded amount is derived from it so the row stays self-consistent.
+ */
+export function applyBusinessRatio(receipts: Receipt[]): Receipt[] {
+  return receipts.map((receipt) => {
+    const data = receipt.extractedData;
+    const ratio = getBusinessRatio(data);
+    if (ratio === 100) return receipt;
+
+    const taxBreakdown: TaxBreakdown[] = data.taxBreakdown.map((tb) => {
+      const total = getDeductibleAmount(tb.total, ratio);
+      const taxAmount = getDeductibleAmount(tb.taxAmount, ratio);
+      return { taxRate: tb.taxRate, subtotal: total - taxAmount, taxAmount, total };
+    });
+    const totalAmount = getDeductibleAmount(data.totalAmount, ratio);
+    const totalTax = taxBreakdown.reduce((sum, tb) => sum + tb.taxAmount, 0);
+    const note = formatApportionmentNote(ratio, data.totalAmount);
+
+    return {
+      ...receipt,
+      extractedData: {
+        ...data,
+        description: data.description ? `${data.description} ${note}` : note,
+        subtotalExcludingTax: totalAmount - totalTax,
+        taxBreakdown,
+        totalAmount,
+      },
+    };
+  });
+}
@@ -0,0 +1,87 @@
+import type { ReceiptHistoryEntry } from '@/types/archive';
+import type { ExtractedData } from '@/types/receipt';
+
+/**
+ * Hex SHA-256 of a blob or string (Web Crypto)
+ */
+export async function sha256Hex(data: Blob | string): Promise<string> {
+  const buffer =
+    typeof data === 'string' ? new TextEncoder().encode(data) : await data.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Fields whose value differs between two versions of the extracted data
+ */
+export function getChangedFields(
+  before: ExtractedData | undefined,
+  after: ExtractedData
+): (keyof ExtractedData)[] {
+  const keys = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after),
+  ]) as Set<keyof ExtractedData>;
+
+  return Array.from(keys).filter(
+    (key) => JSON.stringify(before?.[key]) !== JSON.stringify(after[key])
+  );
+}
+
+/**
+ * Hash of a history entry, chained to the previous entry's hash
+ */
+export async function hashHistoryEntry(
+  entry: Omit<ReceiptHistoryEntry, 'id' | 'hash'>
+): Promise<string> {
+  return await sha256Hex(
+    JSON.stringify([
+      entry.prevHash,
+      entry.receiptId,
+      entry.action,
+      entry.changedAt.toISOString(),
+      entry.changedFields,
+      entry.before ?? null,
+      entry.after,
+    ])
+  );
+}
+
+/**
+ * Build the next history entry for a receipt
+ *
+ * @param previous - The receipt's latest entry, if any
+ */
+export async function createHistoryEntry(
+  receiptId: string,
+  action: ReceiptHistoryEntry['action'],
+  before: ExtractedData | undefined,
+  after: ExtractedData,
+  previous: ReceiptHistoryEntry | undefined
+): Promise<ReceiptHistoryEntry> {
+  const entry = {
+    receiptId,
+    action,
+    changedAt: new Date(),
+    changedFields: getChangedFields(before, after),
+    ...(before && { before }),
+    after,
+    prevHash: previous?.hash ?? '',
+  };
+  return { ...entry, hash: await hashHistoryEntry(entry) };
+}
+
+/**
+ * Check that a receipt's history entries (oldest first) form an unbroken chain
+ */
+export async function verifyHistoryChain(entries: ReceiptHistoryEntry[]): Promise<boolean> {
+  let prevHash = '';
+  for (const entry of entries) {
+    if (entry.prevHash !== prevHash) return false;
+    if ((await hashHistoryEntry(entry)) !== entry.hash) return false;
+    prevHash = entry.hash;
+  }
+  return true;
+}
@@ -0,0 +1,327 @@
+import { saveAs } from 'file-saver';
+import type { Table } from 'dexie';
+import { db } from '../db/schema';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  type BackupConflict,
+  type BackupEncryption,
+  type BackupFile,
+  type BackupRestoreMode,
+  type BackupRestoreResult,
+} from '@/types/backup';
+import type { Receipt } from '@/types/receipt';
+import { base64ToBytes, bytesToBase64, decodeValue, encodeValue } from '../utils/serialize';
+
+/**
+ * Tables included in a backup
+ * The T-number registry is left out (it is public data and can be
+ * re-downloaded), and so is the transient upload queue.
+ */
+const BACKUP_TABLES = [
+  'receipts',
+  'images',
+  'batches',
+  'fiscalYears',
+  'apportionmentRules',
+  'vendorProfiles',
+  'categoryKeywords',
+  'payees',
+  'exchangeRates',
+  'recurringTemplates',
+  'recurringEntries',
+  'statementTransactions',
+  'statementImports',
+  'receiptHistory',
+  'receiptRevisions',
+  'trash',
+  'settings',
+] as const;
+
+type BackupTable = (typeof BACKUP_TABLES)[number];
+
+/** Tables whose rows belong to one receipt (auto-increment keys, merged with it) */
+const RECEIPT_SCOPED_TABLES: BackupTable[] = ['receiptHistory', 'receiptRevisions'];
+
+/** Settings that only make sense on the device they were made on */
+const LOCAL_SETTINGS = new Set(['lastBulkOperation']);
+
+const PBKDF2_ITERATIONS = 310000;
+
+/**
+ * Encryption (WebCrypto)
+ */
+
+async function deriveKey(passphrase: string, salt: BufferSource, iterations: number) {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptText(text: string, passphrase: string): Promise<BackupEncryption> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(text)
+  );
+
+  return {
+    algorithm: 'AES-GCM',
+    kdf: 'PBKDF2-SHA-256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    ciphertext: bytesToBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function decryptText(encryption: BackupEncryption, passphrase: string): Promise<string> {
+  const key = await deriveKey(passphrase, base64ToBytes(encryption.salt), encryption.iterations);
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(encryption.iv) },
+      key,
+      base64ToBytes(encryption.ciphertext)
+    );
+    return new TextDecoder().decode(plain);
+  } catch {
+    // AES-GCM fails its integrity check on a wrong key or altered data
+    throw new Error('Wrong passphrase, or the backup file is damaged');
+  }
+}
+
+/**
+ * Backup
+ */
+
+/**
+ * Build a backup of the whole database
+ *
+ * @param passphrase - Encrypts the table data when given
+ */
+export async function createBackup(passphrase?: string): Promise<BackupFile> {
+  const tables: Record<string, unknown[]> = {};
+  const counts: Record<string, number> = {};
+
+  for (const name of BACKUP_TABLES) {
+    let rows: unknown[] = await db.table(name).toArray();
+    if (name === 'settings') {
+      rows = (rows as { key: string }[]).filter((row) => !LOCAL_SETTINGS.has(row.key));
+    }
+    tables[name] = (await encodeValue(rows)) as unknown[];
+    counts[name] = rows.length;
+  }
+
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: db.verno,
+    createdAt: new Date().toISOString(),
+    counts,
+  };
+
+  if (passphrase) {
+    backup.encryption = await encryptText(JSON.stringify(tables), passphrase);
+  } else {
+    backup.tables = tables;
+  }
+  return backup;
+}
+
+/**
+ * Build a backup and download it as a JSON file
+ */
+export async function downloadBackup(passphrase?: string): Promise<void> {
+  const backup = await createBackup(passphrase);
+  const blob = new Blob([JSON.stringify(backup)], { type: 'application/json' });
+
+  const today = new Date().toISOString().split('T')[0];
+  saveAs(blob, `バックアップ_${today}.json`);
+}
+
+/**
+ * Restore
+ */
+
+/**
+ * Read a backup file and check that this version of the app can restore it
+ * The table data is not decrypted yet.
+ */
+export async function readBackupFile(file: File): Promise<BackupFile> {
+  let backup: BackupFile;
+  try {
+    backup = JSON.parse(await file.text());
+  } catch {
+    throw new Error('Not a backup file (invalid JSON)');
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new Error('Not a backup file of this app');
+  }
+  if (backup.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Unsupported backup format version ${backup.formatVersion}`);
+  }
+  if (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > db.verno) {
+    throw new Error(
+      `This backup was made with a newer version of the app (database v${backup.schemaVersion}, this app v${db.verno}). Update the app first.`
+    );
+  }
+  if (!backup.tables && !backup.encryption) {
+    throw new Error('The backup file contains no data');
+  }
+  return backup;
+}
+
+/**
+ * Decrypt (if needed) and decode the table data of a backup
+ * Tables added to the database after the backup was made come back empty.
+ */
+async function readBackupTables(
+  backup: BackupFile,
+  passphrase?: string
+): Promise<Record<BackupTable, unknown[]>> {
+  let raw = backup.tables;
+  if (backup.encryption) {
+    if (!passphrase) throw new Error('This backup is encrypted - enter its passphrase');
+    raw = JSON.parse(await decryptText(backup.encryption, passphrase));
+  }
+
+  const tables = {} as Record<BackupTable, unknown[]>;
+  for (const name of BACKUP_TABLES) {
+    const rows = raw?.[name] ?? [];
+    if (!Array.isArray(rows)) throw new Error(`Backup table "${name}" is malformed`);
+    tables[name] = decodeValue(rows) as unknown[];
+  }
+  return tables;
+}
+
+function getPrimaryKey(name: BackupTable, row: unknown): string | number {
+  const keyPath = db.table(name).schema.primKey.keyPath as string;
+  return (row as Record<string, string | number>)[keyPath];
+}
+
+/**
+ * Rows of the backup whose primary key isn't in the local table yet
+ */
+async function getMissingRows(name: BackupTable, rows: unknown[]): Promise<unknown[]> {
+  const existing = await db.table(name).bulkGet(rows.map((row) => getPrimaryKey(name, row)));
+  return rows.filter((_, i) => existing[i] === undefined);
+}
+
+/**
+ * Restore a backup
+ *
+ * Replace wipes the backed-up tables first and is refused while archived
+ * receipts (電子帳簿保存法) exist locally. Merge adds what is missing: a
+ * receipt that exists on both sides with different contents is a conflict
+ * and keeps its local version; history, revisions and trash entries come
+ * along only for receipts that are added.
+ *
+ * @param passphrase - Needed for encrypted backups
+ */
+export async function restoreBackup(
+  backup: BackupFile,
+  mode: BackupRestoreMode,
+  passphrase?: string
+): Promise<BackupRestoreResult> {
+  const tables = await readBackupTables(backup, passphrase);
+  const dexieTables = BACKUP_TABLES.map((name) => db.table(name) as Table);
+
+  if (mode === 'replace') {
+    const archived = await db.receipts.filter((r) => !!r.archive).count();
+    if (archived > 0) {
+      throw new Error(`${archived} archived receipts cannot be deleted - restore with merge instead.`);
+    }
+
+    await db.transaction('rw', dexieTables, async () => {
+      for (const name of BACKUP_TABLES) {
+        await db.table(name).clear();
+        await db.table(name).bulkAdd(tables[name]);
+      }
+    });
+
+    return { mode, added: tables.receipts.length, unchanged: 0, conflicts: [] };
+  }
+
+  const backupReceipts = tables.receipts as Receipt[];
+  const conflicts: BackupConflict[] = [];
+  const addedIds = new Set<string>();
+  let unchanged = 0;
+
+  await db.transaction('rw', dexieTables, async () => {
+    const local = await db.receipts.bulkGet(backupReceipts.map((r) => r.id));
+    const trashed = await db.trash.bulkGet(backupReceipts.map((r) => r.id));
+
+    backupReceipts.forEach((receipt, i) => {
+      const current = local[i];
+      if (!current && !trashed[i]) {
+        addedIds.add(receipt.id);
+      } else if (current && JSON.stringify(current) === JSON.stringify(receipt)) {
+        unchanged++;
+      } else {
+        conflicts.push({
+          receiptId: receipt.id,
+          issuerName: receipt.extractedData.issuerName,
+          localUpdatedAt: current ? current.updatedAt : trashed[i]!.deletedAt,
+          backupUpdatedAt: receipt.updatedAt,
+        });
+      }
+    });
+
+    await db.receipts.bulkAdd(backupReceipts.filter((r) => addedIds.has(r.id)));
+
+    for (const name of BACKUP_TABLES) {
+      if (name === 'receipts') continue;
+      let rows = tables[name];
+
+      if (RECEIPT_SCOPED_TABLES.includes(name)) {
+        // New auto-increment keys; order is kept, so history chains stay intact
+        rows = (rows as { receiptId: string; id?: number }[])
+          .filter((row) => addedIds.has(row.receiptId))
+          .map((row) => {
+            const copy = { ...row };
+            delete copy.id;
+            return copy;
+          });
+        await db.table(name).bulkAdd(rows);
+        continue;
+      }
+
+      if (name === 'trash') {
+        // Only receipts that aren't live here
+        const live = await db.receipts.bulkGet(
+          (rows as { receiptId: string }[]).map((row) => row.receiptId)
+        );
+        rows = rows.filter((_, i) => live[i] === undefined);
+      }
+
+      if (name === 'statementTransactions') {
+        // The same bank line imported on both sides has different IDs
+        const fingerprints = new Set(
+          (await db.statementTransactions.toArray()).map((tx) => tx.fingerprint)
+        );
+        rows = (rows as { fingerprint: string }[]).filter(
+          (row) => !fingerprints.has(row.fingerprint)
+        );
+      }
+
+      await db.table(name).bulkAdd(await getMissingRows(name, rows));
+    }
+  });
+
+  return { mode, added: addedIds.size, unchanged, conflicts };
+}
@@ -0,0 +1,70 @@
+import type { InputTaxCredit } from '@/types/consumption-tax';
+import type { ExtractedData } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+import { getDeductibleAmount } from '../apportionment/business-ratio';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { CONSUMPTION_TAX, INVOICE_TRANSITION } from '../utils/constants';
+import { formatDateForInput } from '../utils/format';
+
+/**
+ * Whether a purchase was made with a qualified invoice (適格請求書)
+ * A well-formed T-number counts when no registry has been imported, and a
+ * registered number whose name doesn't match is still a qualified invoice.
+ */
+export function isQualifiedInvoice(verification: TNumberVerification): boolean {
+  return verification.status === 'registered' || verification.status === 'unverified';
+}
+
+/**
+ * Share (%) of a purchase's input tax that may be deducted (仕入税額控除)
+ * Purchases without a qualified invoice get the transitional 80% / 50%
+ * (経過措置) depending on the transaction date; before the invoice system
+ * started every purchase was fully deductible.
+ */
+export function getInputTaxCreditRate(transactionDate: Date, qualified: boolean): number {
+  const date = formatDateForInput(transactionDate);
+  if (qualified || !date || date < INVOICE_TRANSITION.INVOICE_SYSTEM_START) return 100;
+
+  let creditRate = 100;
+  for (const period of INVOICE_TRANSITION.PERIODS) {
+    if (date >= period.from) creditRate = period.creditRate;
+  }
+  return creditRate;
+}
+
+/**
+ * National consumption tax contained in a tax-included amount, reduced to
+ * the credit rate (割戻し計算, 端数切捨て)
+ * e.g. 10%: total × 7.8/110 × creditRate%
+ */
+export function getNationalInputTax(total: number, taxRate: number, creditRate: number): number {
+  const nationalRateBp = CONSUMPTION_TAX.NATIONAL_RATE_BP[taxRate] ?? 0;
+  return Math.floor((total * nationalRateBp * creditRate) / ((100 + taxRate) * 100 * 100));
+}
+
+/**
+ * Deductible input tax of a receipt by its invoice status and transaction date
+ *
+ * @param businessRatio - 家事按分 share still to apply (export rows are already reduced)
+ * @returns The credit, or null for sales and expenses that are not taxable purchases
+ */
+export function getInputTaxCredit(
+  data: ExtractedData,
+  verification: TNumberVerification,
+  businessRatio = 100
+): InputTaxCredit | null {
+  const direction = getDocumentDirection(data);
+  if (direction === 'income') return null;
+  if (direction === 'expense' && CONSUMPTION_TAX.NON_TAXABLE_CATEGORIES.includes(data.suggestedCategory)) {
+    return null;
+  }
+
+  const qualified = isQualifiedInvoice(verification);
+  const creditRate = getInputTaxCreditRate(data.transactionDate, qualified);
+  const inputTax = getDeductibleAmount(
+    data.taxBreakdown.reduce((sum, tb) => sum + tb.taxAmount, 0),
+    businessRatio
+  );
+
+  return { qualified, creditRate, inputTax, deductibleTax: getDeductibleAmount(inputTax, creditRate) };
+}
@@ -0,0 +1,168 @@
+import type {
+  ConsumptionTaxCalculation,
+  ConsumptionTaxLine,
+  ConsumptionTaxMethod,
+  ConsumptionTaxWorksheet,
+  PurchaseCreditGroup,
+  SimplifiedBusinessType,
+  TaxRateTotal,
+} from '@/types/consumption-tax';
+import type { Receipt } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+import { getExportRows } from '../export/allocations';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { CONSUMPTION_TAX } from '../utils/constants';
+import { getInputTaxCreditRate, getNationalInputTax, isQualifiedInvoice } from './input-tax';
+
+/**
+ * Consumption tax worksheet (消費税申告)
+ *
+ * Works on the rows as booked (split receipts expanded, 家事按分 applied) and
+ * uses the 割戻し計算 for both sales and purchases.
+ */
+
+function addToRate(totals: TaxRateTotal[], taxRate: number, total: number): void {
+  let entry = totals.find((t) => t.taxRate === taxRate);
+  if (!entry) {
+    entry = { taxRate, total: 0, count: 0 };
+    totals.push(entry);
+    totals.sort((a, b) => b.taxRate - a.taxRate);
+  }
+  entry.total += total;
+  entry.count++;
+}
+
+/**
+ * Round the tax due down to 100 yen; refunds are not rounded
+ */
+function roundTaxDue(amount: number): number {
+  return amount >= 0 ? Math.floor(amount / 100) * 100 : amount;
+}
+
+function calculate(
+  method: ConsumptionTaxMethod,
+  salesTax: number,
+  deductibleTax: number,
+  eligible: boolean
+): ConsumptionTaxCalculation {
+  const nationalTax = roundTaxDue(salesTax - deductibleTax);
+  const { numerator, denominator } = CONSUMPTION_TAX.LOCAL_TAX_RATIO;
+  const localTax = roundTaxDue(Math.trunc((nationalTax * numerator) / denominator));
+
+  return {
+    method,
+    eligible,
+    salesTax,
+    deductibleTax,
+    nationalTax,
+    localTax,
+    totalTax: nationalTax + localTax,
+  };
+}
+
+/**
+ * Build the consumption tax worksheet for a year
+ *
+ * @param receipts - The year's receipts
+ * @param verifications - T-number checks by receipt ID (verifyReceiptTNumbers)
+ * @param businessType - Business type for 簡易課税
+ */
+export function buildConsumptionTaxWorksheet(
+  year: number,
+  receipts: Receipt[],
+  verifications: Map<string, TNumberVerification>,
+  businessType: SimplifiedBusinessType
+): ConsumptionTaxWorksheet {
+  const sales: TaxRateTotal[] = [];
+  const purchases: PurchaseCreditGroup[] = [];
+  const lines: ConsumptionTaxLine[] = [];
+  let excludedCount = 0;
+
+  for (const row of getExportRows(receipts)) {
+    const data = row.extractedData;
+    const direction = getDocumentDirection(data);
+    const breakdown = data.taxBreakdown.filter(
+      (tb) => CONSUMPTION_TAX.NATIONAL_RATE_BP[tb.taxRate] !== undefined && tb.total > 0
+    );
+
+    if (direction === 'income') {
+      breakdown.forEach((tb) => addToRate(sales, tb.taxRate, tb.total));
+      if (breakdown.length === 0) excludedCount++;
+      continue;
+    }
+
+    if (
+      breakdown.length === 0 ||
+      (direction === 'expense' && CONSUMPTION_TAX.NON_TAXABLE_CATEGORIES.includes(data.suggestedCategory))
+    ) {
+      excludedCount++;
+      continue;
+    }
+
+    const qualified = isQualifiedInvoice(verifications.get(row.id) ?? { status: 'missing' });
+    const creditRate = getInputTaxCreditRate(data.transactionDate, qualified);
+
+    let group = purchases.find((g) => g.qualified === qualified && g.creditRate === creditRate);
+    if (!group) {
+      group = { qualified, creditRate, byRate: [], deductibleTax: 0 };
+      purchases.push(group);
+    }
+
+    for (const tb of breakdown) {
+      addToRate(group.byRate, tb.taxRate, tb.total);
+      lines.push({
+        receiptId: row.id,
+        transactionDate: data.transactionDate,
+        issuerName: data.issuerName,
+        tNumber: data.tNumber,
+        taxRate: tb.taxRate,
+        total: tb.total,
+        qualified,
+        creditRate,
+        deductibleTax: getNationalInputTax(tb.total, tb.taxRate, creditRate),
+      });
+    }
+  }
+
+  // Input tax is worked out on each group's per-rate totals
+  for (const group of purchases) {
+    group.deductibleTax = group.byRate.reduce(
+      (sum, t) => sum + getNationalInputTax(t.total, t.taxRate, group.creditRate),
+      0
+    );
+  }
+  purchases.sort((a, b) => Number(b.qualified) - Number(a.qualified) || b.creditRate - a.creditRate);
+  lines.sort((a, b) => new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime());
+
+  // 課税標準額: tax-excluded sales per rate, rounded down to 1,000 yen
+  const taxableBase = sales.map((t) => ({
+    taxRate: t.taxRate,
+    base: Math.floor(Math.floor((t.total * 100) / (100 + t.taxRate)) / 1000) * 1000,
+  }));
+  const salesTax = taxableBase.reduce(
+    (sum, b) => sum + Math.floor((b.base * CONSUMPTION_TAX.NATIONAL_RATE_BP[b.taxRate]) / 10000),
+    0
+  );
+
+  const generalCredit = purchases.reduce((sum, g) => sum + g.deductibleTax, 0);
+  const twoTenthsCredit = Math.floor((salesTax * CONSUMPTION_TAX.TWO_TENTHS_CREDIT_RATE) / 100);
+  const simplifiedCredit = Math.floor(
+    (salesTax * CONSUMPTION_TAX.DEEMED_PURCHASE_RATES[businessType]) / 100
+  );
+
+  return {
+    year,
+    businessType,
+    sales,
+    taxableBase,
+    salesTax,
+    purchases,
+    lines,
+    excludedCount,
+    results: [
+      calculate('general', salesTax, generalCredit, true),
+      calculate('twoTenths', salesTax, twoTenthsCredit, year <= CONSUMPTION_TAX.TWO_TENTHS_LAST_YEAR),
+      calculate('simplified', salesTax, simplifiedCredit, true),
+    ],
+  };
+}
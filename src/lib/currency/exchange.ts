@@ -0,0 +1,165 @@
+import type { AppliedExchangeRate } from '@/types/currency';
+import type { ExtractedData } from '@/types/receipt';
+import { EXCHANGE_RATE_SETTINGS } from '../utils/constants';
+
+/**
+ * Converting foreign-currency receipts to yen
+ *
+ * Models return the amounts of a foreign-currency receipt as printed, in that
+ * currency. Once a rate is known every amount is converted to yen: the total
+ * is the printed total × rate (rounded to the yen), and the other amounts are
+ * scaled by the same factor, so converting again at a corrected rate works
+ * the same way as the first conversion.
+ */
+
+/** Currency symbols models sometimes return instead of a code */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  US$: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '￥': 'JPY',
+  円: 'JPY',
+};
+
+/**
+ * ISO 4217 code of a currency as returned by a model or typed by the user
+ *
+ * @returns The code, or undefined for yen and unreadable values
+ */
+export function normalizeCurrency(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  const code = (CURRENCY_SYMBOLS[trimmed] ?? trimmed).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(code) || code === EXCHANGE_RATE_SETTINGS.BASE_CURRENCY) return undefined;
+  return code;
+}
+
+/**
+ * Whether the receipt was issued in a currency other than yen
+ */
+export function isForeignCurrency(data: ExtractedData): boolean {
+  return !!normalizeCurrency(data.currency);
+}
+
+/**
+ * Whether a foreign-currency receipt still has its amounts in that currency
+ */
+export function needsExchangeRate(data: ExtractedData): boolean {
+  return isForeignCurrency(data) && !data.exchangeRate;
+}
+
+/**
+ * Whether two amounts are the same allowing for unrounded foreign amounts
+ */
+function isSameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01;
+}
+
+/**
+ * Scale amounts and give the rounding remainder to the last one, so they add
+ * up to `target` when they added up to the old total
+ */
+function scaleShares(amounts: number[], factor: number, oldTotal: number, target: number): number[] {
+  const scaled = amounts.map((amount) => Math.round(amount * factor));
+  const sum = amounts.reduce((total, amount) => total + amount, 0);
+  if (scaled.length > 0 && isSameAmount(sum, oldTotal)) {
+    scaled[scaled.length - 1] += target - scaled.reduce((total, amount) => total + amount, 0);
+  }
+  return scaled;
+}
+
+/**
+ * Convert a foreign-currency receipt's amounts to yen at the given rate
+ * Amounts that are still in the original currency and amounts converted at an
+ * earlier rate are handled alike.
+ */
+export function convertToYen(data: ExtractedData, exchangeRate: AppliedExchangeRate): ExtractedData {
+  const originalAmount = data.originalAmount ?? data.totalAmount;
+  const totalAmount = Math.round(originalAmount * exchangeRate.rate);
+  const factor = data.totalAmount !== 0 ? totalAmount / data.totalAmount : 0;
+  const scale = (amount: number) => Math.round(amount * factor);
+
+  const totals = scaleShares(
+    data.taxBreakdown.map((tb) => tb.total),
+    factor,
+    data.totalAmount,
+    totalAmount
+  );
+  const taxBreakdown = data.taxBreakdown.map((tb, i) => {
+    const taxAmount = scale(tb.taxAmount);
+    return { ...tb, subtotal: totals[i] - taxAmount, taxAmount, total: totals[i] };
+  });
+  const taxTotal = taxBreakdown.reduce((sum, tb) => sum + tb.taxAmount, 0);
+
+  const allocationAmounts = data.allocations
+    ? scaleShares(
+        data.allocations.map((a) => a.amount),
+        factor,
+        data.totalAmount,
+        totalAmount
+      )
+    : [];
+
+  return {
+    ...data,
+    originalAmount,
+    exchangeRate,
+    totalAmount,
+    subtotalExcludingTax: totalAmount - taxTotal,
+    taxBreakdown,
+    items: data.items?.map((item) => ({
+      ...item,
+      unitPrice: scale(item.unitPrice),
+      amount: scale(item.amount),
+    })),
+    allocations: data.allocations?.map((allocation, i) => ({
+      ...allocation,
+      amount: allocationAmounts[i],
+    })),
+    withholding: data.withholding && {
+      ...data.withholding,
+      amount: scale(data.withholding.amount),
+    },
+  };
+}
+
+/**
+ * Book a receipt in yen again: drops the currency and keeps the yen amounts
+ */
+export function clearForeignCurrency(data: ExtractedData): ExtractedData {
+  const rest = { ...data };
+  delete rest.currency;
+  delete rest.originalAmount;
+  delete rest.exchangeRate;
+  return rest;
+}
+
+/**
+ * Amount in a currency with its own number of decimals (e.g. "USD 1,234.50")
+ */
+export function formatForeignAmount(amount: number, currency: string): string {
+  const digits = new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions()
+    .maximumFractionDigits;
+  return `${currency} ${new Intl.NumberFormat('en-US', {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(amount)}`;
+}
+
+/**
+ * The conversion as noted in exports and 摘要
+ * e.g. "USD 12.34 × 151.20 (TTM 2025-03-03)", or "" for yen receipts
+ */
+export function describeConversion(data: ExtractedData): string {
+  const currency = normalizeCurrency(data.currency);
+  if (!currency) return '';
+
+  const amount = formatForeignAmount(data.originalAmount ?? data.totalAmount, currency);
+  if (!data.exchangeRate) return `${amount} (未換算)`;
+
+  const source = data.exchangeRate.source === 'ttm' ? 'TTM' : '手入力';
+  return `${amount} × ${data.exchangeRate.rate} (${source} ${data.exchangeRate.date})`;
+}
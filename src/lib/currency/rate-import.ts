@@ -0,0 +1,132 @@
+import type { ExchangeRate } from '@/types/currency';
+import { saveExchangeRates } from '../db/operations';
+import { parseCSVLine } from '../utils/csv';
+import { normalizeCurrency } from './exchange';
+
+/**
+ * Exchange rate (TTM) CSV importer
+ *
+ * Files need a header row and may use either layout:
+ * - one rate per line: `date,currency,rate` (e.g. 2025-03-03,USD,150.73)
+ * - one day per line: `date,USD,EUR,...` as in the banks' 公示相場 history
+ *
+ * Dates may be written 2025-03-03 or 2025/3/3. Rates are yen per unit; a
+ * column quoted per 100 units is marked in its header, e.g. "KRW(100)".
+ * Files may be UTF-8 or Shift-JIS.
+ */
+
+const DATE_HEADERS = ['date', '日付', '年月日'];
+const CURRENCY_HEADERS = ['currency', '通貨', '通貨コード'];
+const RATE_HEADERS = ['rate', 'ttm', 'レート', '仲値'];
+
+/**
+ * YYYY-MM-DD from "2025-03-03", "2025/3/3" or "2025.3.3"
+ */
+function parseRateDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (!match) return null;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+/**
+ * Positive rate, or null for blanks and "-" (no quote that day)
+ */
+function parseRateValue(value: string | undefined): number | null {
+  const text = value?.normalize('NFKC').replace(/[,\s]/g, '') ?? '';
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const rate = Number(text);
+  return rate > 0 ? rate : null;
+}
+
+interface CurrencyHeader {
+  currency: string;
+  unit: number; // Rates are quoted per this many units
+}
+
+/**
+ * Currency and quoting unit of a wide-layout column ("USD", "KRW(100)")
+ */
+function parseCurrencyHeader(header: string): CurrencyHeader | null {
+  const match = header.trim().match(/^([A-Za-z]{3})(?:\s*[(/（]\s*(\d+)\s*[)）]?)?/);
+  const currency = normalizeCurrency(match?.[1]);
+  if (!match || !currency) return null;
+  return { currency, unit: match[2] ? Number(match[2]) : 1 };
+}
+
+function toRate(currency: string, date: string, rate: number): ExchangeRate {
+  return { id: `${currency}:${date}`, currency, date, rate };
+}
+
+/**
+ * Parse a rate CSV into one rate per currency and day
+ */
+export function parseExchangeRateCSV(text: string): ExchangeRate[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length < 2) return [];
+
+  const header = parseCSVLine(lines[0]).map((cell) => cell.trim());
+  const lower = header.map((cell) => cell.toLowerCase());
+  const findColumn = (names: string[]) => lower.findIndex((cell) => names.includes(cell));
+
+  const dateColumn = Math.max(findColumn(DATE_HEADERS), 0);
+  const currencyColumn = findColumn(CURRENCY_HEADERS);
+  const rateColumn = findColumn(RATE_HEADERS);
+  const rates: ExchangeRate[] = [];
+
+  if (currencyColumn >= 0 && rateColumn >= 0) {
+    for (const line of lines.slice(1)) {
+      const cells = parseCSVLine(line);
+      const date = parseRateDate(cells[dateColumn] ?? '');
+      const currency = normalizeCurrency(cells[currencyColumn]);
+      const rate = parseRateValue(cells[rateColumn]);
+      if (date && currency && rate) rates.push(toRate(currency, date, rate));
+    }
+    return rates;
+  }
+
+  const columns = header
+    .map((cell, index) => ({ index, parsed: index === dateColumn ? null : parseCurrencyHeader(cell) }))
+    .filter(
+      (column): column is { index: number; parsed: CurrencyHeader } => column.parsed !== null
+    );
+
+  for (const line of lines.slice(1)) {
+    const cells = parseCSVLine(line);
+    const date = parseRateDate(cells[dateColumn] ?? '');
+    if (!date) continue;
+
+    for (const { index, parsed } of columns) {
+      const rate = parseRateValue(cells[index]);
+      if (rate) rates.push(toRate(parsed.currency, date, rate / parsed.unit));
+    }
+  }
+  return rates;
+}
+
+/**
+ * Decode a rate file as UTF-8, or as Shift-JIS when it isn't valid UTF-8
+ */
+async function readRateFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('shift_jis').decode(buffer);
+  }
+}
+
+/**
+ * Import a rate CSV into the rate table
+ * Rates already imported for the same currency and day are replaced.
+ *
+ * @returns Number of rates imported
+ */
+export async function importExchangeRateFile(file: File): Promise<number> {
+  const rates = parseExchangeRateCSV(await readRateFile(file));
+  if (rates.length === 0) {
+    throw new Error('No exchange rates found - expected a header row with dates and currency codes');
+  }
+
+  await saveExchangeRates(rates);
+  return rates.length;
+}
@@ -1,37 +1,236 @@
 import { db } from './schema';
-import type { Receipt, UploadBatch, ReceiptFilters, UploadQueueItem } from '@/types/receipt';
+import type {
+  DuplicateInfo,
+  ExtractedData,
+  Receipt,
+  UploadBatch,
+  ReceiptFilters,
+  UploadQueueItem,
+} from '@/types/receipt';
+import type { InvoiceRegistrant, RegistryImport, TNumberVerification } from '@/types/registry';
+import type { FiscalYearSummary } from '@/types/fiscal-year';
+import type { ApportionmentRule } from '@/types/apportionment';
+import type { VendorProfile } from '@/types/vendor';
+import type { Payee } from '@/types/payee';
+import type { ExchangeRate, ExchangeRateSummary } from '@/types/currency';
+import type { RecurringEntry, RecurringTemplate } from '@/types/recurring';
+import type { CategoryKeyword } from '@/types/category-keyword';
+import type {
+  ArchiveIntegrity,
+  ArchiveSettings,
+  ReceiptHistoryEntry,
+} from '@/types/archive';
+import type {
+  BulkOperation,
+  ReceiptRevision,
+  RevisionAction,
+  RevisionActor,
+  TrashSettings,
+  TrashedReceipt,
+} from '@/types/revision';
+import type { SyncChange, SyncSettings } from '@/types/sync';
+import type { ConsumptionTaxSettings } from '@/types/consumption-tax';
+import type { FinancialStatementSettings } from '@/types/financial-statement';
+import type { WithholdingSettings } from '@/types/withholding';
+import type {
+  StatementImport,
+  StatementMatchStatus,
+  StatementTransaction,
+} from '@/types/statement';
+import { getImageBlob } from '../storage/images';
+import { computeImageHash } from '../storage/image-hash';
+import { findDuplicate } from '../validation/duplicates';
+import { verifyRegistration } from '../validation/registry';
+import { getFiscalYear } from '../utils/fiscal-year';
+import { findApportionmentRule } from '../apportionment/business-ratio';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { applyVendorProfile, getVendorCorrections, getVendorNames } from '../vendors/profile';
+import { formatDateForInput, normalizeName } from '../utils/format';
+import { reconcileCategory } from '../ai/categorizer';
+import { expectsStatementLine, matchStatementTransactions } from '../statements/matching';
+import { createHistoryEntry, sha256Hex, verifyHistoryChain } from '../archive/integrity';
+import { diffReceipts, revertChanges } from '../revisions/diff';
+import { ALL_FIELDS, mergeReceipt } from '../sync/merge';
+import { clearForeignCurrency, convertToYen, normalizeCurrency } from '../currency/exchange';
+import { matchRecurringEntries } from '../recurring/series';
+import { EXCHANGE_RATE_SETTINGS, TRASH_SETTINGS } from '../utils/constants';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Whether a receipt is done processing (read from its image, or entered by hand)
+ */
+function isProcessed(receipt: Receipt): boolean {
+  return receipt.processingStatus === 'completed' || receipt.processingStatus === 'manual';
+}
+
+/**
+ * Throw if any of the given fiscal years has been closed
+ */
+async function assertFiscalYearsOpen(years: number[]): Promise<void> {
+  const records = await db.fiscalYears.bulkGet(Array.from(new Set(years)));
+  const closed = records.find((record) => record?.isClosed);
+  if (closed) {
+    throw new Error(`Fiscal year ${closed.year} is closed. Reopen it to make changes.`);
+  }
+}
+
+/**
+ * Throw if a receipt is sealed in the archive (電子帳簿保存法 - no hard deletes)
+ */
+function assertNotArchived(receipt: Receipt): void {
+  if (receipt.archive) {
+    throw new Error(
+      `Receipt "${receipt.extractedData.issuerName || receipt.fileName}" is archived and cannot be deleted.`
+    );
+  }
+}
+
+/**
+ * History entries for the receipts whose extracted data an update changes
+ * Only archived receipts keep a history. Built before writing because hashing
+ * is async and would end an open IndexedDB transaction.
+ */
+async function buildHistoryEntries(
+  updates: Array<{ receipt: Receipt; changes: Partial<Receipt> }>
+): Promise<ReceiptHistoryEntry[]> {
+  const entries: ReceiptHistoryEntry[] = [];
+
+  for (const { receipt, changes } of updates) {
+    if (!receipt.archive || !changes.extractedData) continue;
+
+    const latest = await db.receiptHistory.where('receiptId').equals(receipt.id).last();
+    const entry = await createHistoryEntry(
+      receipt.id,
+      'update',
+      receipt.extractedData,
+      changes.extractedData,
+      latest
+    );
+    if (entry.changedFields.length > 0) entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Fiscal years touched by an update: the receipt's current year and, if the
+ * transaction date changes, the year it moves to
+ */
+function getAffectedFiscalYears(receipt: Receipt, changes: Partial<Receipt>): number[] {
+  const years = [getFiscalYear(receipt)];
+  if (changes.extractedData) {
+    years.push(getFiscalYear({ ...receipt, ...changes } as Receipt));
+  }
+  return years;
+}
 
 /**
  * Add a new receipt to the database
+ *
+ * @param changedBy - Recorded on the revision ('sync' for receipts from another device)
+ */
+export async function addReceipt(
+  receipt: Receipt,
+  changedBy: RevisionActor = 'user'
+): Promise<string> {
+  await assertFiscalYearsOpen([getFiscalYear(receipt)]);
+
+  // Archive mode: seal the stored image and start the correction history
+  // (receipts synced from another device keep the seal they came with)
+  let stored = receipt;
+  let history: ReceiptHistoryEntry | undefined;
+  if (!receipt.archive && (await getArchiveSettings()).enabled) {
+    stored = await sealReceipt(receipt);
+    history = await createHistoryEntry(stored.id, 'create', undefined, stored.extractedData, undefined);
+  }
+
+  return await db.transaction(
+    'rw',
+    db.receipts,
+    db.receiptHistory,
+    db.receiptRevisions,
+    async () => {
+      if (history) await db.receiptHistory.add(history);
+      await addRevision(stored.id, 'create', [], changedBy);
+      return await db.receipts.add(stored);
+    }
+  );
+}
+
+/**
+ * Write updates to receipts, recording a revision for each receipt that changes
+ *
+ * @param batchId - Groups the revisions of one bulk operation
  */
-export async function addReceipt(receipt: Receipt): Promise<string> {
-  return await db.receipts.add(receipt);
+async function applyUpdates(
+  updates: Array<{ id: string; changes: Partial<Receipt> }>,
+  changedBy: RevisionActor,
+  batchId?: string
+): Promise<number> {
+  const current = await db.receipts.bulkGet(updates.map(({ id }) => id));
+  const history = await buildHistoryEntries(
+    updates.flatMap(({ changes }, i) => (current[i] ? [{ receipt: current[i]!, changes }] : []))
+  );
+
+  return await db.transaction(
+    'rw',
+    [db.receipts, db.fiscalYears, db.receiptHistory, db.receiptRevisions],
+    async () => {
+      const receipts = await db.receipts.bulkGet(updates.map(({ id }) => id));
+      await assertFiscalYearsOpen(
+        updates.flatMap(({ changes }, i) =>
+          receipts[i] ? getAffectedFiscalYears(receipts[i]!, changes) : []
+        )
+      );
+
+      await db.receiptHistory.bulkAdd(history);
+
+      let changed = 0;
+      for (let i = 0; i < updates.length; i++) {
+        const { id, changes } = updates[i];
+        const receipt = receipts[i];
+        if (!receipt) continue;
+
+        const fieldChanges = diffReceipts(receipt, { ...receipt, ...changes });
+        if (fieldChanges.length > 0) {
+          await addRevision(id, 'update', fieldChanges, changedBy, batchId);
+          changed++;
+        }
+        await db.receipts.update(id, {
+          ...changes,
+          updatedAt: changes.updatedAt ?? new Date(),
+        });
+      }
+      return changed;
+    }
+  );
 }
 
 /**
  * Update an existing receipt
+ *
+ * @param changedBy - Recorded on the revision ('system' for automatic changes)
  */
-export async function updateReceipt(id: string, updates: Partial<Receipt>): Promise<void> {
-  await db.receipts.update(id, {
-    ...updates,
-    updatedAt: new Date(),
-  });
+export async function updateReceipt(
+  id: string,
+  updates: Partial<Receipt>,
+  changedBy: RevisionActor = 'user'
+): Promise<void> {
+  await applyUpdates([{ id, changes: updates }], changedBy);
 }
 
 /**
  * Bulk update multiple receipts
+ * Recorded as one bulk operation that undoLastBulkOperation can reverse.
  */
 export async function bulkUpdateReceipts(
   updates: Array<{ id: string; changes: Partial<Receipt> }>
 ): Promise<void> {
-  await db.transaction('rw', db.receipts, async () => {
-    for (const { id, changes } of updates) {
-      await db.receipts.update(id, {
-        ...changes,
-        updatedAt: new Date(),
-      });
-    }
-  });
+  const batchId = uuidv4();
+  const count = await applyUpdates(updates, 'user', batchId);
+  if (count > 0) {
+    await setLastBulkOperation({ id: batchId, kind: 'update', count, createdAt: new Date() });
+  }
 }
 
 /**
@@ -52,7 +251,13 @@ export async function getReceipts(filters?: ReceiptFilters): Promise<Receipt[]>
     if (filters.status === '要確認') {
       query = query.filter(r => r.needsReview);
     } else if (filters.status === '完了') {
-      query = query.filter(r => !r.needsReview && r.processingStatus === 'completed');
+      query = query.filter(r => !r.needsReview && isProcessed(r));
+    }
+
+    // Filter to receipts no imported statement line accounts for
+    if (filters.status === '明細未照合') {
+      const unreconciled = await getUnreconciledReceiptIds();
+      query = query.filter(r => unreconciled.has(r.id));
     }
 
     // Filter by category
@@ -60,6 +265,11 @@ export async function getReceipts(filters?: ReceiptFilters): Promise<Receipt[]>
       query = query.filter(r => r.extractedData.suggestedCategory === filters.category);
     }
 
+    // Filter by fiscal year
+    if (filters.fiscalYear !== undefined) {
+      query = query.filter(r => getFiscalYear(r) === filters.fiscalYear);
+    }
+
     // Filter by date range
     if (filters.dateRange) {
       query = query.filter(r => {
@@ -100,50 +310,337 @@ export async function getReceipts(filters?: ReceiptFilters): Promise<Receipt[]>
 }
 
 /**
- * Delete a receipt and its associated image and upload queue item
+ * Move a receipt and its images to the trash and delete its upload queue item
+ *
+ * @param changedBy - Recorded on the revision ('sync' for deletes from another device)
  */
-export async function deleteReceipt(id: string): Promise<void> {
+export async function deleteReceipt(
+  id: string,
+  changedBy: RevisionActor = 'user'
+): Promise<void> {
   const receipt = await db.receipts.get(id);
   if (receipt) {
-    // Delete the image
-    await db.images.delete(receipt.imageId);
+    assertNotArchived(receipt);
+    await assertFiscalYearsOpen([getFiscalYear(receipt)]);
+    await trashReceipt(receipt, undefined, changedBy);
+  }
+}
+
+export interface BulkDeleteResult {
+  /** Receipts moved to the trash */
+  deleted: number;
+  /** Archived receipts, which are never deleted */
+  archived: number;
+  /** Receipts that no longer exist (e.g. deleted on another device) */
+  failed: number;
+}
+
+/**
+ * Move several receipts to the trash as one bulk operation
+ * Runs in a single transaction, so an error leaves every receipt in place.
+ * Archived receipts are skipped.
+ */
+export async function bulkDeleteReceipts(ids: string[]): Promise<BulkDeleteResult> {
+  const batchId = uuidv4();
+  const result: BulkDeleteResult = { deleted: 0, archived: 0, failed: 0 };
+
+  await db.transaction('rw', [...trashTables(), db.fiscalYears, db.settings], async () => {
+    const found = (await db.receipts.bulkGet(ids)).filter((r): r is Receipt => !!r);
+    const receipts = found.filter((r) => !r.archive);
+    result.archived = found.length - receipts.length;
+    result.failed = ids.length - found.length;
+    await assertFiscalYearsOpen(receipts.map(getFiscalYear));
+
+    for (const receipt of receipts) {
+      await moveToTrash(receipt, batchId, 'user');
+    }
+
+    if (receipts.length > 0) {
+      await setLastBulkOperation({
+        id: batchId,
+        kind: 'delete',
+        count: receipts.length,
+        createdAt: new Date(),
+      });
+    }
+    result.deleted = receipts.length;
+  });
+
+  return result;
+}
+
+/**
+ * Tables written when a receipt is moved to the trash
+ */
+function trashTables() {
+  return [
+    db.receipts,
+    db.images,
+    db.trash,
+    db.receiptRevisions,
+    db.statementTransactions,
+    db.uploadQueue,
+  ];
+}
+
+/**
+ * Move a receipt to the trash
+ * The receipt and its images are kept in the trash table; links that point
+ * at it (duplicate flags, statement matches) are released.
+ */
+async function trashReceipt(
+  receipt: Receipt,
+  batchId?: string,
+  changedBy: RevisionActor = 'user'
+): Promise<void> {
+  await db.transaction('rw', trashTables(), () => moveToTrash(receipt, batchId, changedBy));
+}
+
+/**
+ * Write side of trashReceipt; must run inside a transaction over trashTables()
+ */
+async function moveToTrash(
+  receipt: Receipt,
+  batchId: string | undefined,
+  changedBy: RevisionActor
+): Promise<void> {
+  const id = receipt.id;
+
+  // Keep the image (and rendered PDF pages, if any) with the receipt
+  const imageIds = [receipt.imageId, ...(receipt.pageImageIds ?? [])];
+  const images = (await db.images.bulkGet(imageIds)).filter(
+    (image): image is { id: string; blob: Blob } => !!image
+  );
+  await db.trash.put({ receiptId: id, receipt, images, deletedAt: new Date(), batchId });
+  await db.images.bulkDelete(imageIds);
+
+  await db.receipts.delete(id);
+  await addRevision(id, 'delete', [], changedBy, batchId);
+
+  // Receipts flagged as duplicates of this one are no longer duplicates
+  await db.receipts
+    .filter((r) => r.duplicate?.receiptId === id)
+    .modify((r) => {
+      delete r.duplicate;
+    });
+
+  // Statement lines matched to this receipt are open again
+  await db.statementTransactions
+    .where('receiptId')
+    .equals(id)
+    .modify((tx) => {
+      tx.status = 'unmatched';
+      delete tx.receiptId;
+    });
+
+  // Delete the associated upload queue item if it exists
+  await db.uploadQueue.where('receiptId').equals(id).delete();
+}
+
+/**
+ * Duplicate Detection Operations
+ */
+
+/**
+ * Find an existing receipt that the given (not yet saved) receipt duplicates
+ */
+export async function findDuplicateOf(receipt: Receipt): Promise<DuplicateInfo | null> {
+  const existing = await db.receipts.toArray();
+  return findDuplicate(receipt, existing);
+}
+
+/**
+ * Scan all receipts for duplicates
+ * Computes missing image hashes, then compares each receipt against the
+ * ones created before it. Receipts the user already resolved are left alone.
+ *
+ * @returns Number of receipts newly flagged as possible duplicates
+ */
+export async function scanForDuplicates(): Promise<number> {
+  const receipts = await db.receipts.orderBy('createdAt').toArray();
+  const closedYears = new Set(
+    (await db.fiscalYears.toArray()).filter((fy) => fy.isClosed).map((fy) => fy.year)
+  );
 
-    // Delete the receipt
-    await db.receipts.delete(id);
+  // Backfill perceptual hashes for receipts stored before hashing existed
+  for (const receipt of receipts) {
+    if (receipt.imageHash) continue;
+    const blob = await getImageBlob(receipt.imageId);
+    if (!blob) continue;
+    try {
+      receipt.imageHash = await computeImageHash(blob);
+      await db.receipts.update(receipt.id, { imageHash: receipt.imageHash });
+    } catch (error) {
+      console.warn('[Duplicates] Could not hash image for', receipt.id, error);
+    }
+  }
 
-    // Delete the associated upload queue item if it exists
-    const queueItems = await db.uploadQueue
-      .where('receiptId')
-      .equals(id)
-      .toArray();
+  let flagged = 0;
+  for (let i = 1; i < receipts.length; i++) {
+    const receipt = receipts[i];
+    if (receipt.duplicate || closedYears.has(getFiscalYear(receipt))) continue;
 
-    for (const item of queueItems) {
-      await db.uploadQueue.delete(item.id);
+    const match = findDuplicate(receipt, receipts.slice(0, i));
+    if (match) {
+      receipt.duplicate = match;
+      await updateReceipt(receipt.id, { duplicate: match, needsReview: true }, 'system');
+      flagged++;
     }
   }
+
+  return flagged;
+}
+
+/**
+ * Mark a flagged receipt as "not a duplicate"
+ */
+export async function keepDuplicateReceipt(id: string): Promise<void> {
+  const receipt = await db.receipts.get(id);
+  if (!receipt?.duplicate) return;
+
+  await updateReceipt(id, {
+    duplicate: { ...receipt.duplicate, status: 'kept' },
+  });
+}
+
+/**
+ * Whether a field has no value to keep (0 is a real amount)
+ */
+function isMissingValue(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Copy one field from another receipt's data if it is missing here
+ */
+function fillMissingField<K extends keyof ExtractedData>(
+  target: ExtractedData,
+  source: ExtractedData,
+  key: K
+): void {
+  if (isMissingValue(target[key]) && !isMissingValue(source[key])) {
+    target[key] = source[key];
+  }
+}
+
+/**
+ * Merge a duplicate into the receipt it duplicates, then delete it
+ * Fields missing on the original are filled in from the duplicate and
+ * notes are combined.
+ *
+ * @returns ID of the receipt that was kept
+ */
+export async function mergeDuplicateReceipt(id: string): Promise<string | null> {
+  const duplicate = await db.receipts.get(id);
+  if (!duplicate?.duplicate) return null;
+  assertNotArchived(duplicate);
+
+  const original = await db.receipts.get(duplicate.duplicate.receiptId);
+  if (!original) {
+    // Original is gone - nothing to merge into, keep this one
+    await updateReceipt(id, { duplicate: undefined });
+    return id;
+  }
+
+  const mergedData: ExtractedData = { ...original.extractedData };
+  for (const key of Object.keys(duplicate.extractedData) as (keyof ExtractedData)[]) {
+    fillMissingField(mergedData, duplicate.extractedData, key);
+  }
+
+  const notes = [original.notes, duplicate.notes]
+    .filter((note): note is string => !!note && note.trim().length > 0)
+    .filter((note, index, all) => all.indexOf(note) === index)
+    .join(', ');
+
+  await updateReceipt(original.id, {
+    extractedData: mergedData,
+    notes: notes || undefined,
+  });
+  await deleteReceipt(id);
+
+  return original.id;
 }
 
 /**
  * Get receipts count by status
+ * @param fiscalYear - Only count receipts in this year
  */
-export async function getReceiptCounts(): Promise<{
+export async function getReceiptCounts(fiscalYear?: number): Promise<{
   total: number;
   uploaded: number;
   processing: number;
   completed: number;
   needsReview: number;
 }> {
-  const all = await db.receipts.toArray();
+  const all = (await db.receipts.toArray()).filter(
+    r => fiscalYear === undefined || getFiscalYear(r) === fiscalYear
+  );
 
   return {
     total: all.length,
     uploaded: all.filter(r => r.processingStatus === 'pending').length,
     processing: all.filter(r => r.processingStatus === 'processing').length,
-    completed: all.filter(r => r.processingStatus === 'completed' && !r.needsReview).length,
+    completed: all.filter(r => isProcessed(r) && !r.needsReview).length,
     needsReview: all.filter(r => r.needsReview).length,
   };
 }
 
+/**
+ * Fiscal Year Operations
+ */
+
+/**
+ * List fiscal years that have receipts (plus the current year), newest first
+ */
+export async function getFiscalYears(): Promise<FiscalYearSummary[]> {
+  const [receipts, records] = await Promise.all([
+    db.receipts.toArray(),
+    db.fiscalYears.toArray(),
+  ]);
+
+  const counts = new Map<number, number>([[new Date().getFullYear(), 0]]);
+  for (const receipt of receipts) {
+    const year = getFiscalYear(receipt);
+    counts.set(year, (counts.get(year) ?? 0) + 1);
+  }
+  for (const record of records) {
+    if (!counts.has(record.year)) counts.set(record.year, 0);
+  }
+
+  return Array.from(counts.entries())
+    .map(([year, receiptCount]) => {
+      const record = records.find((r) => r.year === year);
+      return {
+        year,
+        receiptCount,
+        isClosed: record?.isClosed ?? false,
+        closedAt: record?.closedAt,
+      };
+    })
+    .sort((a, b) => b.year - a.year);
+}
+
+/**
+ * Check whether a fiscal year has been closed
+ */
+export async function isFiscalYearClosed(year: number): Promise<boolean> {
+  return (await db.fiscalYears.get(year))?.isClosed ?? false;
+}
+
+/**
+ * Close a fiscal year - receipts dated in that year become read-only
+ */
+export async function closeFiscalYear(year: number): Promise<void> {
+  await db.fiscalYears.put({ year, isClosed: true, closedAt: new Date() });
+}
+
+/**
+ * Reopen a closed fiscal year
+ */
+export async function reopenFiscalYear(year: number): Promise<void> {
+  await db.fiscalYears.put({ year, isClosed: false });
+}
+
 /**
  * Add an upload batch
  */
@@ -179,12 +676,45 @@ export async function getStorageInfo(): Promise<{
 
 /**
  * Clear all data (for testing or reset)
+ * Everything that refers to receipts goes with them; settings and masters
+ * (rules, vendors, payees, recurring templates, rate tables) are kept.
  */
 export async function clearAllData(): Promise<void> {
-  await db.receipts.clear();
-  await db.images.clear();
-  await db.batches.clear();
-  await db.uploadQueue.clear();
+  const archived = await db.receipts.filter((r) => !!r.archive).count();
+  if (archived > 0) {
+    throw new Error(`${archived} archived receipts cannot be deleted.`);
+  }
+
+  await db.transaction(
+    'rw',
+    [
+      db.receipts,
+      db.images,
+      db.batches,
+      db.uploadQueue,
+      db.statementTransactions,
+      db.statementImports,
+      db.receiptHistory,
+      db.receiptRevisions,
+      db.trash,
+      db.recurringEntries,
+      db.settings,
+    ],
+    async () => {
+      await db.receipts.clear();
+      await db.images.clear();
+      await db.batches.clear();
+      await db.uploadQueue.clear();
+      await db.statementTransactions.clear();
+      await db.statementImports.clear();
+      // Only archived receipts have a history, so it is empty here
+      await db.receiptHistory.clear();
+      await db.receiptRevisions.clear();
+      await db.trash.clear();
+      await db.recurringEntries.clear();
+      await db.settings.delete(LAST_BULK_OPERATION_KEY);
+    }
+  );
 }
 
 /**
@@ -253,3 +783,1185 @@ export async function clearCompletedUploadQueueItems(): Promise<void> {
 
   await db.uploadQueue.bulkDelete(items.map(item => item.id));
 }
+
+/**
+ * T-Number Registry Operations
+ */
+
+/**
+ * Add/replace registrants and remove deleted ones in a single transaction
+ */
+export async function applyRegistryChanges(
+  registrants: InvoiceRegistrant[],
+  deletedTNumbers: string[]
+): Promise<void> {
+  await db.transaction('rw', db.registrants, async () => {
+    if (registrants.length > 0) {
+      await db.registrants.bulkPut(registrants);
+    }
+    if (deletedTNumbers.length > 0) {
+      await db.registrants.bulkDelete(deletedTNumbers);
+    }
+  });
+}
+
+/**
+ * Record a completed bulk download import
+ */
+export async function addRegistryImport(entry: RegistryImport): Promise<string> {
+  return await db.registryImports.add(entry);
+}
+
+/**
+ * Get registry size and import history (newest first)
+ */
+export async function getRegistryStatus(): Promise<{
+  count: number;
+  imports: RegistryImport[];
+}> {
+  const [count, imports] = await Promise.all([
+    db.registrants.count(),
+    db.registryImports.orderBy('importedAt').reverse().toArray(),
+  ]);
+  return { count, imports };
+}
+
+/**
+ * Remove all registry data
+ */
+export async function clearRegistry(): Promise<void> {
+  await db.registrants.clear();
+  await db.registryImports.clear();
+}
+
+/**
+ * Verify a single receipt's T-number against the local registry
+ */
+export async function verifyTNumber(
+  data: Pick<ExtractedData, 'tNumber' | 'issuerName' | 'transactionDate'>
+): Promise<TNumberVerification> {
+  const [count, registrant] = await Promise.all([
+    db.registrants.count(),
+    data.tNumber ? db.registrants.get(data.tNumber) : Promise.resolve(undefined),
+  ]);
+  return verifyRegistration(data, registrant, count > 0);
+}
+
+/**
+ * Verify T-numbers for many receipts at once
+ * @returns Verification results keyed by receipt ID
+ */
+export async function verifyReceiptTNumbers(
+  receipts: Receipt[]
+): Promise<Map<string, TNumberVerification>> {
+  const hasRegistry = (await db.registrants.count()) > 0;
+  const tNumbers = Array.from(
+    new Set(receipts.map((r) => r.extractedData.tNumber).filter((t): t is string => !!t))
+  );
+  const found = await db.registrants.bulkGet(tNumbers);
+  const registrants = new Map(tNumbers.map((tNumber, i) => [tNumber, found[i]]));
+
+  return new Map(
+    receipts.map((receipt) => [
+      receipt.id,
+      verifyRegistration(
+        receipt.extractedData,
+        receipt.extractedData.tNumber ? registrants.get(receipt.extractedData.tNumber) : undefined,
+        hasRegistry
+      ),
+    ])
+  );
+}
+
+/**
+ * Apportionment (家事按分) Rule Operations
+ */
+
+/**
+ * Get all apportionment rules (vendor rules first)
+ */
+export async function getApportionmentRules(): Promise<ApportionmentRule[]> {
+  const rules = await db.apportionmentRules.toArray();
+  return rules.sort(
+    (a, b) =>
+      (a.kind === b.kind ? 0 : a.kind === 'vendor' ? -1 : 1) ||
+      a.createdAt.getTime() - b.createdAt.getTime()
+  );
+}
+
+/**
+ * Add or replace an apportionment rule
+ */
+export async function saveApportionmentRule(rule: ApportionmentRule): Promise<string> {
+  return await db.apportionmentRules.put(rule);
+}
+
+/**
+ * Delete an apportionment rule
+ */
+export async function deleteApportionmentRule(id: string): Promise<void> {
+  await db.apportionmentRules.delete(id);
+}
+
+/**
+ * Business ratio suggested by the rules for a receipt, if any rule applies
+ */
+export async function getSuggestedBusinessRatio(
+  data: Pick<ExtractedData, 'issuerName' | 'suggestedCategory' | 'direction'>
+): Promise<number | undefined> {
+  if (getDocumentDirection(data) !== 'expense') return undefined;
+  const rule = findApportionmentRule(await db.apportionmentRules.toArray(), data);
+  return rule?.businessRatio;
+}
+
+/**
+ * Set the business ratio from the rules on every matching expense in open
+ * fiscal years. Receipts in closed years are left untouched, and so are
+ * ratios not set by a rule (by hand, from the vendor, or on older records
+ * whose source is unknown).
+ *
+ * @returns Number of receipts updated, and of matching receipts kept as they were
+ */
+export async function applyApportionmentRules(): Promise<{ updated: number; kept: number }> {
+  const [rules, receipts, fiscalYears] = await Promise.all([
+    db.apportionmentRules.toArray(),
+    db.receipts.toArray(),
+    db.fiscalYears.toArray(),
+  ]);
+  const closedYears = new Set(fiscalYears.filter((fy) => fy.isClosed).map((fy) => fy.year));
+
+  let kept = 0;
+  const updates = receipts.flatMap((receipt) => {
+    const data = receipt.extractedData;
+    if (closedYears.has(getFiscalYear(receipt))) return [];
+    if (getDocumentDirection(data) !== 'expense') return [];
+
+    const rule = findApportionmentRule(rules, data);
+    if (!rule || rule.businessRatio === (data.businessRatio ?? 100)) return [];
+
+    const setByRule =
+      data.businessRatioSource === 'rule' ||
+      (data.businessRatioSource === undefined && data.businessRatio === undefined);
+    if (!setByRule) {
+      kept++;
+      return [];
+    }
+
+    return [
+      {
+        id: receipt.id,
+        changes: {
+          extractedData: {
+            ...data,
+            businessRatio: rule.businessRatio,
+            businessRatioSource: 'rule' as const,
+          },
+        },
+      },
+    ];
+  });
+
+  if (updates.length > 0) {
+    await bulkUpdateReceipts(updates);
+  }
+  return { updated: updates.length, kept };
+}
+
+/**
+ * Vendor Profile Operations
+ */
+
+/**
+ * Get all vendor profiles, by canonical name
+ */
+export async function getVendorProfiles(): Promise<VendorProfile[]> {
+  const profiles = await db.vendorProfiles.toArray();
+  return profiles.sort((a, b) => a.canonicalName.localeCompare(b.canonicalName, 'ja'));
+}
+
+/**
+ * Add or replace a vendor profile
+ */
+export async function saveVendorProfile(profile: VendorProfile): Promise<string> {
+  return await db.vendorProfiles.put({ ...profile, updatedAt: new Date() });
+}
+
+/**
+ * Delete a vendor profile
+ */
+export async function deleteVendorProfile(id: string): Promise<void> {
+  await db.vendorProfiles.delete(id);
+}
+
+/**
+ * Find the profile for a receipt's vendor - by T-number, then by name
+ */
+export async function findVendorProfile(
+  data: Pick<ExtractedData, 'tNumber' | 'issuerName'>
+): Promise<VendorProfile | undefined> {
+  if (data.tNumber) {
+    const byTNumber = await db.vendorProfiles.where('tNumber').equals(data.tNumber).first();
+    if (byTNumber) return byTNumber;
+  }
+
+  const name = normalizeName(data.issuerName);
+  if (!name) return undefined;
+  return await db.vendorProfiles.where('names').equals(name).first();
+}
+
+/**
+ * Apply the remembered vendor preferences (if any) to extracted data
+ */
+export async function applyVendorPreferences(data: ExtractedData): Promise<ExtractedData> {
+  const profile = await findVendorProfile(data);
+  return profile ? applyVendorProfile(data, profile) : data;
+}
+
+/**
+ * Remember what the user corrected on a receipt so the next receipt from the
+ * same vendor comes back right
+ *
+ * @param original - Data as stored before the edit
+ * @param edited - Data as saved by the user
+ */
+export async function learnVendorProfile(
+  original: ExtractedData,
+  edited: ExtractedData
+): Promise<void> {
+  const corrections = getVendorCorrections(original, edited);
+  if (!corrections) return;
+
+  const existing =
+    (await findVendorProfile(edited)) ?? (await findVendorProfile(original));
+  const now = new Date();
+
+  await db.vendorProfiles.put({
+    ...existing,
+    id: existing?.id ?? uuidv4(),
+    tNumber: existing?.tNumber ?? edited.tNumber ?? undefined,
+    names: getVendorNames(...(existing?.names ?? []), original.issuerName, edited.issuerName),
+    canonicalName: corrections.canonicalName ?? existing?.canonicalName ?? edited.issuerName,
+    ...corrections,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Payee Operations
+ */
+
+/**
+ * Get the payee master, by name
+ */
+export async function getPayees(): Promise<Payee[]> {
+  const payees = await db.payees.toArray();
+  return payees.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+}
+
+/**
+ * Add or replace a payee
+ */
+export async function savePayee(payee: Payee): Promise<string> {
+  return await db.payees.put({ ...payee, updatedAt: new Date() });
+}
+
+/**
+ * Delete a payee
+ */
+export async function deletePayee(id: string): Promise<void> {
+  await db.payees.delete(id);
+}
+
+/**
+ * Exchange Rate Operations
+ */
+
+/**
+ * Add or replace imported rates (one per currency and day)
+ */
+export async function saveExchangeRates(rates: ExchangeRate[]): Promise<void> {
+  await db.exchangeRates.bulkPut(rates);
+}
+
+/**
+ * Imported rates per currency, by currency code
+ */
+export async function getExchangeRateSummaries(): Promise<ExchangeRateSummary[]> {
+  const summaries = new Map<string, ExchangeRateSummary>();
+  await db.exchangeRates.orderBy('[currency+date]').each((rate) => {
+    const summary = summaries.get(rate.currency);
+    if (summary) {
+      summary.count++;
+      summary.lastDate = rate.date;
+    } else {
+      summaries.set(rate.currency, {
+        currency: rate.currency,
+        count: 1,
+        firstDate: rate.date,
+        lastDate: rate.date,
+      });
+    }
+  });
+  return Array.from(summaries.values());
+}
+
+/**
+ * Remove the imported rates
+ */
+export async function clearExchangeRates(): Promise<void> {
+  await db.exchangeRates.clear();
+}
+
+/**
+ * TTM for a transaction date: that day's rate, or the last one published
+ * within the lookback window (weekends and holidays have none)
+ *
+ * @param date - YYYY-MM-DD
+ */
+export async function findExchangeRate(
+  currency: string,
+  date: string
+): Promise<ExchangeRate | undefined> {
+  const from = new Date(`${date}T00:00:00`);
+  from.setDate(from.getDate() - EXCHANGE_RATE_SETTINGS.LOOKBACK_DAYS);
+
+  return await db.exchangeRates
+    .where('[currency+date]')
+    .between([currency, formatDateForInput(from)], [currency, date], true, true)
+    .last();
+}
+
+/**
+ * Convert a freshly extracted foreign-currency receipt to yen at the TTM of
+ * its transaction date
+ * Without a rate in the table the amounts stay in the original currency
+ * until one is entered on the receipt.
+ */
+export async function applyExchangeRate(data: ExtractedData): Promise<ExtractedData> {
+  const currency = normalizeCurrency(data.currency);
+  if (!currency) return data.currency ? clearForeignCurrency(data) : data;
+  if (data.exchangeRate) return data;
+
+  const pending = { ...data, currency, originalAmount: data.originalAmount ?? data.totalAmount };
+  const rate = await findExchangeRate(currency, formatDateForInput(data.transactionDate));
+  return rate
+    ? convertToYen(pending, { rate: rate.rate, date: rate.date, source: 'ttm' })
+    : pending;
+}
+
+/**
+ * Recurring Expense Operations
+ */
+
+/**
+ * Get the recurring expense templates, by name
+ */
+export async function getRecurringTemplates(): Promise<RecurringTemplate[]> {
+  const templates = await db.recurringTemplates.toArray();
+  return templates.sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+}
+
+/**
+ * Add or replace a recurring expense template
+ */
+export async function saveRecurringTemplate(template: RecurringTemplate): Promise<string> {
+  return await db.recurringTemplates.put({ ...template, updatedAt: new Date() });
+}
+
+/**
+ * Delete a template together with its monthly entries
+ */
+export async function deleteRecurringTemplate(id: string): Promise<void> {
+  await db.transaction('rw', db.recurringTemplates, db.recurringEntries, async () => {
+    await db.recurringEntries.where('templateId').equals(id).delete();
+    await db.recurringTemplates.delete(id);
+  });
+}
+
+/**
+ * Get the monthly entries of all templates, by period
+ */
+export async function getRecurringEntries(): Promise<RecurringEntry[]> {
+  return await db.recurringEntries.orderBy('period').toArray();
+}
+
+/**
+ * Mark a month as having no receipt (e.g. a free month), or expect it again
+ */
+export async function setRecurringEntrySkipped(id: string, skipped: boolean): Promise<void> {
+  const entry = await db.recurringEntries.get(id);
+  if (!entry || entry.status === 'matched') return;
+  await db.recurringEntries.update(id, { status: skipped ? 'skipped' : 'expected' });
+}
+
+/**
+ * Create the expected entries of every template up to the current month and
+ * match them against the receipts
+ * Entries no longer in a template's range (after its dates were changed)
+ * are removed.
+ *
+ * @param today - YYYY-MM-DD
+ * @returns All entries, by period
+ */
+export async function refreshRecurringEntries(today: string): Promise<RecurringEntry[]> {
+  const [templates, receipts] = await Promise.all([db.recurringTemplates.toArray(), db.receipts.toArray()]);
+
+  return await db.transaction('rw', db.recurringEntries, async () => {
+    const stored = await db.recurringEntries.toArray();
+    const entries = templates.flatMap((template) =>
+      matchRecurringEntries(
+        template,
+        stored.filter((entry) => entry.templateId === template.id),
+        receipts,
+        today
+      )
+    );
+
+    const kept = new Set(entries.map((entry) => entry.id));
+    await db.recurringEntries.bulkDelete(
+      stored.filter((entry) => !kept.has(entry.id)).map((entry) => entry.id)
+    );
+    await db.recurringEntries.bulkPut(entries);
+    return entries.sort((a, b) => a.period.localeCompare(b.period));
+  });
+}
+
+/**
+ * Category Keyword Operations
+ */
+
+/**
+ * Get the user's categorizer keywords, by category
+ */
+export async function getCategoryKeywords(): Promise<CategoryKeyword[]> {
+  const keywords = await db.categoryKeywords.toArray();
+  return keywords.sort(
+    (a, b) =>
+      a.category.localeCompare(b.category, 'ja') || a.keyword.localeCompare(b.keyword, 'ja')
+  );
+}
+
+/**
+ * Add or replace a categorizer keyword
+ */
+export async function saveCategoryKeyword(keyword: CategoryKeyword): Promise<string> {
+  return await db.categoryKeywords.put(keyword);
+}
+
+/**
+ * Delete a categorizer keyword
+ */
+export async function deleteCategoryKeyword(id: string): Promise<void> {
+  await db.categoryKeywords.delete(id);
+}
+
+/**
+ * Check the extracted category against the keyword table and the user's keywords
+ * Skipped when the vendor profile remembers a category - that is the user's own choice.
+ */
+export async function categorizeReceipt(data: ExtractedData): Promise<ExtractedData> {
+  const profile = await findVendorProfile(data);
+  if (profile?.category) return data;
+  return reconcileCategory(data, await db.categoryKeywords.toArray());
+}
+
+/**
+ * Statement (bank / card) Operations
+ */
+
+/**
+ * Store the lines of an imported statement, skipping lines already imported
+ *
+ * @returns The import record with the number of new and skipped lines
+ */
+export async function addStatementImport(
+  entry: StatementImport,
+  transactions: StatementTransaction[]
+): Promise<StatementImport> {
+  return await db.transaction('rw', db.statementTransactions, db.statementImports, async () => {
+    const known = new Set(
+      (
+        await db.statementTransactions
+          .where('fingerprint')
+          .anyOf(transactions.map((tx) => tx.fingerprint))
+          .toArray()
+      ).map((tx) => tx.fingerprint)
+    );
+    const added = transactions.filter((tx) => !known.has(tx.fingerprint));
+
+    const summary: StatementImport = {
+      ...entry,
+      transactionCount: added.length,
+      skippedCount: transactions.length - added.length,
+    };
+    await db.statementTransactions.bulkAdd(added);
+    await db.statementImports.add(summary);
+    return summary;
+  });
+}
+
+/**
+ * Get statement import history (newest first)
+ */
+export async function getStatementImports(): Promise<StatementImport[]> {
+  return await db.statementImports.orderBy('importedAt').reverse().toArray();
+}
+
+/**
+ * Remove an imported statement and its lines
+ */
+export async function deleteStatementImport(id: string): Promise<void> {
+  await db.transaction('rw', db.statementTransactions, db.statementImports, async () => {
+    await db.statementTransactions.where('importId').equals(id).delete();
+    await db.statementImports.delete(id);
+  });
+}
+
+/**
+ * Get statement lines, newest first
+ *
+ * @param status - Only lines with this status ('matched' = auto or manual)
+ */
+export async function getStatementTransactions(
+  status?: StatementMatchStatus | 'matched'
+): Promise<StatementTransaction[]> {
+  const transactions =
+    status === 'matched'
+      ? await db.statementTransactions.where('status').anyOf('auto', 'manual').toArray()
+      : status
+        ? await db.statementTransactions.where('status').equals(status).toArray()
+        : await db.statementTransactions.toArray();
+  return transactions.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Match unmatched statement lines to receipts by date, amount and vendor name
+ *
+ * @returns Number of lines matched
+ */
+export async function autoMatchStatementTransactions(): Promise<number> {
+  const [transactions, receipts] = await Promise.all([
+    db.statementTransactions.where('status').equals('unmatched').toArray(),
+    db.receipts.toArray(),
+  ]);
+  const linked = await getLinkedReceiptIds();
+
+  const matches = matchStatementTransactions(
+    transactions,
+    receipts.filter((r) => !linked.has(r.id))
+  );
+
+  await db.transaction('rw', db.statementTransactions, async () => {
+    for (const match of matches) {
+      await db.statementTransactions.update(match.transactionId, {
+        status: 'auto',
+        receiptId: match.receiptId,
+      });
+    }
+  });
+  return matches.length;
+}
+
+/**
+ * Link a statement line to a receipt by hand, or unlink it (receiptId = null)
+ */
+export async function linkStatementTransaction(id: string, receiptId: string | null): Promise<void> {
+  await db.statementTransactions
+    .where('id')
+    .equals(id)
+    .modify((tx) => {
+      if (receiptId) {
+        tx.status = 'manual';
+        tx.receiptId = receiptId;
+      } else {
+        tx.status = 'unmatched';
+        delete tx.receiptId;
+      }
+    });
+}
+
+/**
+ * Mark a statement line as not needing a receipt (or undo that)
+ */
+export async function setStatementTransactionIgnored(id: string, ignored: boolean): Promise<void> {
+  await db.statementTransactions.update(id, { status: ignored ? 'ignored' : 'unmatched' });
+}
+
+/**
+ * IDs of receipts linked to a statement line
+ */
+async function getLinkedReceiptIds(): Promise<Set<string>> {
+  const keys = await db.statementTransactions.orderBy('receiptId').uniqueKeys();
+  return new Set(keys.map(String));
+}
+
+/**
+ * IDs of receipts that should be on a statement but no line accounts for
+ * Only receipts dated within the span of the imported statements count;
+ * cash receipts are never expected on a statement.
+ */
+export async function getUnreconciledReceiptIds(): Promise<Set<string>> {
+  const [first, last] = await Promise.all([
+    db.statementTransactions.orderBy('date').first(),
+    db.statementTransactions.orderBy('date').last(),
+  ]);
+  if (!first || !last) return new Set();
+
+  const linked = await getLinkedReceiptIds();
+  const receipts = await db.receipts.toArray();
+  const from = first.date.getTime();
+  const to = last.date.getTime() + 24 * 60 * 60 * 1000; // Through the end of the last day
+
+  return new Set(
+    receipts
+      .filter((r) => {
+        const time = new Date(r.extractedData.transactionDate).getTime();
+        return !linked.has(r.id) && expectsStatementLine(r) && time >= from && time < to;
+      })
+      .map((r) => r.id)
+  );
+}
+
+/**
+ * Archive (電子帳簿保存法) Operations
+ */
+
+const ARCHIVE_SETTINGS_KEY = 'archive';
+
+/**
+ * Get the archive mode setting (off unless turned on)
+ */
+export async function getArchiveSettings(): Promise<ArchiveSettings> {
+  const record = await db.settings.get(ARCHIVE_SETTINGS_KEY);
+  return (record?.value as ArchiveSettings | undefined) ?? { enabled: false };
+}
+
+/**
+ * Turn archive mode on or off
+ * Receipts archived while it was on stay sealed either way.
+ */
+export async function setArchiveMode(enabled: boolean): Promise<void> {
+  const current = await getArchiveSettings();
+  const value: ArchiveSettings = {
+    enabled,
+    enabledAt: enabled ? current.enabledAt ?? new Date() : undefined,
+  };
+  await db.settings.put({ key: ARCHIVE_SETTINGS_KEY, value });
+}
+
+/**
+ * Hash a receipt's stored image(s) and stamp the archive time
+ */
+async function sealReceipt(receipt: Receipt): Promise<Receipt> {
+  const image = await db.images.get(receipt.imageId);
+  if (!image) {
+    throw new Error(`Image for receipt ${receipt.id} is missing - cannot archive it.`);
+  }
+
+  const pages = receipt.pageImageIds?.length
+    ? await db.images.bulkGet(receipt.pageImageIds)
+    : [];
+  const pageSha256: string[] = [];
+  for (const page of pages) {
+    if (page) pageSha256.push(await sha256Hex(page.blob));
+  }
+
+  return {
+    ...receipt,
+    archive: {
+      sha256: await sha256Hex(image.blob),
+      ...(pageSha256.length > 0 && { pageSha256 }),
+      archivedAt: new Date(),
+    },
+  };
+}
+
+/**
+ * A receipt's correction history, oldest first
+ */
+export async function getReceiptHistory(receiptId: string): Promise<ReceiptHistoryEntry[]> {
+  return await db.receiptHistory.where('receiptId').equals(receiptId).sortBy('id');
+}
+
+/**
+ * Check an archived receipt's image and history against its seal
+ */
+export async function verifyArchivedReceipt(receipt: Receipt): Promise<ArchiveIntegrity> {
+  if (!receipt.archive) return 'ok';
+
+  const image = await db.images.get(receipt.imageId);
+  if (!image) return 'image_missing';
+  if ((await sha256Hex(image.blob)) !== receipt.archive.sha256) return 'image_altered';
+
+  const pageIds = receipt.pageImageIds ?? [];
+  const pageHashes = receipt.archive.pageSha256 ?? [];
+  for (let i = 0; i < pageHashes.length; i++) {
+    const page = await db.images.get(pageIds[i]);
+    if (!page) return 'image_missing';
+    if ((await sha256Hex(page.blob)) !== pageHashes[i]) return 'image_altered';
+  }
+
+  const history = await getReceiptHistory(receipt.id);
+  if (!(await verifyHistoryChain(history))) return 'history_broken';
+
+  return 'ok';
+}
+
+/**
+ * Search conditions of the compliance search (検索要件)
+ * Date and amount take ranges and all conditions combine.
+ */
+export interface ArchiveSearch {
+  dateFrom?: Date;
+  dateTo?: Date;
+  amountMin?: number;
+  amountMax?: number;
+  counterparty?: string;
+}
+
+/**
+ * Search archived receipts by 取引年月日, 取引金額 and 取引先
+ *
+ * @returns Matching receipts by transaction date
+ */
+export async function searchArchive(search: ArchiveSearch): Promise<Receipt[]> {
+  const counterparty = normalizeName(search.counterparty);
+  const dateTo = search.dateTo
+    ? new Date(search.dateTo.getTime() + 24 * 60 * 60 * 1000) // Through the end of that day
+    : undefined;
+
+  const receipts = await db.receipts
+    .filter((r) => {
+      if (!r.archive) return false;
+      const data = r.extractedData;
+      const date = new Date(data.transactionDate);
+
+      if (search.dateFrom && date < search.dateFrom) return false;
+      if (dateTo && date >= dateTo) return false;
+      if (search.amountMin !== undefined && data.totalAmount < search.amountMin) return false;
+      if (search.amountMax !== undefined && data.totalAmount > search.amountMax) return false;
+      if (counterparty && !normalizeName(data.issuerName).includes(counterparty)) return false;
+      return true;
+    })
+    .toArray();
+
+  return receipts.sort(
+    (a, b) =>
+      new Date(a.extractedData.transactionDate).getTime() -
+      new Date(b.extractedData.transactionDate).getTime()
+  );
+}
+
+/**
+ * Revision History Operations
+ */
+
+const LAST_BULK_OPERATION_KEY = 'lastBulkOperation';
+
+/**
+ * Record a revision as the receipt's next version
+ * Call inside a transaction that includes receiptRevisions.
+ */
+async function addRevision(
+  receiptId: string,
+  action: RevisionAction,
+  changes: ReceiptRevision['changes'],
+  changedBy: RevisionActor,
+  batchId?: string
+): Promise<void> {
+  const latest = await db.receiptRevisions.where('receiptId').equals(receiptId).last();
+  await db.receiptRevisions.add({
+    receiptId,
+    version: (latest?.version ?? 0) + 1,
+    action,
+    changedAt: new Date(),
+    changedBy,
+    ...(batchId && { batchId }),
+    changes,
+  });
+}
+
+/**
+ * A receipt's revisions, newest first
+ */
+export async function getReceiptRevisions(receiptId: string): Promise<ReceiptRevision[]> {
+  const revisions = await db.receiptRevisions.where('receiptId').equals(receiptId).sortBy('id');
+  return revisions.reverse();
+}
+
+async function setLastBulkOperation(operation: BulkOperation): Promise<void> {
+  await db.settings.put({ key: LAST_BULK_OPERATION_KEY, value: operation });
+}
+
+/**
+ * The most recent bulk update or bulk delete, if it hasn't been undone
+ */
+export async function getLastBulkOperation(): Promise<BulkOperation | null> {
+  const record = await db.settings.get(LAST_BULK_OPERATION_KEY);
+  return (record?.value as BulkOperation | undefined) ?? null;
+}
+
+/**
+ * Undo the most recent bulk operation
+ * A bulk update puts every changed field back to its old value; a bulk
+ * delete restores the receipts from the trash. Receipts deleted or purged
+ * since are skipped. Nothing is undone if any receipt is in a closed year.
+ *
+ * @returns Number of receipts restored
+ */
+export async function undoLastBulkOperation(): Promise<number> {
+  const operation = await getLastBulkOperation();
+  if (!operation) return 0;
+
+  let count = 0;
+  if (operation.kind === 'update') {
+    const revisions = await db.receiptRevisions.where('batchId').equals(operation.id).toArray();
+    const receipts = await db.receipts.bulkGet(revisions.map((r) => r.receiptId));
+    const updates = revisions.flatMap((revision, i) =>
+      receipts[i]
+        ? [{ id: revision.receiptId, changes: revertChanges(receipts[i]!, revision.changes) }]
+        : []
+    );
+    count = await applyUpdates(updates, 'user');
+  } else {
+    const entries = await db.trash.where('batchId').equals(operation.id).toArray();
+    // All or nothing: a closed year anywhere in the batch stops the whole undo
+    await db.transaction(
+      'rw',
+      [db.receipts, db.images, db.trash, db.receiptRevisions, db.fiscalYears],
+      async () => {
+        await assertFiscalYearsOpen(entries.map((entry) => getFiscalYear(entry.receipt)));
+        for (const entry of entries) {
+          await restoreTrashedReceipt(entry);
+        }
+      }
+    );
+    count = entries.length;
+  }
+
+  await db.settings.delete(LAST_BULK_OPERATION_KEY);
+  return count;
+}
+
+/**
+ * Trash Operations
+ */
+
+const TRASH_SETTINGS_KEY = 'trash';
+
+/**
+ * Get the trash settings
+ */
+export async function getTrashSettings(): Promise<TrashSettings> {
+  const record = await db.settings.get(TRASH_SETTINGS_KEY);
+  return (
+    (record?.value as TrashSettings | undefined) ?? {
+      retentionDays: TRASH_SETTINGS.DEFAULT_RETENTION_DAYS,
+    }
+  );
+}
+
+/**
+ * Set how many days deleted receipts stay in the trash
+ */
+export async function setTrashRetentionDays(retentionDays: number): Promise<void> {
+  await db.settings.put({ key: TRASH_SETTINGS_KEY, value: { retentionDays } });
+}
+
+/**
+ * Receipts in the trash, most recently deleted first
+ */
+export async function getTrash(): Promise<TrashedReceipt[]> {
+  return await db.trash.orderBy('deletedAt').reverse().toArray();
+}
+
+async function restoreTrashedReceipt(entry: TrashedReceipt): Promise<void> {
+  await assertFiscalYearsOpen([getFiscalYear(entry.receipt)]);
+
+  await db.transaction('rw', db.receipts, db.images, db.trash, db.receiptRevisions, async () => {
+    await db.images.bulkPut(entry.images);
+    await db.receipts.put({ ...entry.receipt, updatedAt: new Date() });
+    await db.trash.delete(entry.receiptId);
+    await addRevision(entry.receiptId, 'restore', [], 'user');
+  });
+}
+
+/**
+ * Put a receipt from the trash back, with its images
+ * Duplicate flags and statement matches released on delete are not restored.
+ */
+export async function restoreReceipt(receiptId: string): Promise<void> {
+  const entry = await db.trash.get(receiptId);
+  if (entry) await restoreTrashedReceipt(entry);
+}
+
+/**
+ * Permanently delete receipts from the trash, with their revision history
+ */
+async function purgeTrash(receiptIds: string[]): Promise<void> {
+  await db.transaction('rw', db.trash, db.receiptRevisions, async () => {
+    await db.trash.bulkDelete(receiptIds);
+    await db.receiptRevisions.where('receiptId').anyOf(receiptIds).delete();
+  });
+}
+
+/**
+ * Permanently delete one receipt from the trash
+ */
+export async function purgeTrashedReceipt(receiptId: string): Promise<void> {
+  await purgeTrash([receiptId]);
+}
+
+/**
+ * Permanently delete everything in the trash
+ */
+export async function emptyTrash(): Promise<void> {
+  await purgeTrash((await db.trash.toArray()).map((entry) => entry.receiptId));
+}
+
+/**
+ * Permanently delete receipts that have been in the trash longer than the
+ * retention period
+ *
+ * @returns Number of receipts purged
+ */
+export async function purgeExpiredTrash(): Promise<number> {
+  const { retentionDays } = await getTrashSettings();
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  const expired = await db.trash.where('deletedAt').below(cutoff).primaryKeys();
+  if (expired.length > 0) await purgeTrash(expired);
+  return expired.length;
+}
+
+/**
+ * Sync Operations
+ */
+
+const SYNC_SETTINGS_KEY = 'sync';
+
+/**
+ * Local changes not yet pushed for one receipt
+ */
+export interface PendingSync {
+  fields: Set<string>; // Changed field paths ('*' = whole receipt)
+  deleted: boolean;
+  changedAt: Date;
+}
+
+/**
+ * Get the sync settings, creating this device's ID on first use
+ */
+export async function getSyncSettings(): Promise<SyncSettings> {
+  const record = await db.settings.get(SYNC_SETTINGS_KEY);
+  if (record) return record.value as SyncSettings;
+
+  const settings: SyncSettings = {
+    enabled: false,
+    serverUrl: '',
+    token: '',
+    deviceId: uuidv4(),
+    lastPulledSeq: 0,
+    lastPushedRevisionId: 0,
+  };
+  await db.settings.put({ key: SYNC_SETTINGS_KEY, value: settings });
+  return settings;
+}
+
+/**
+ * Update the sync settings
+ */
+export async function saveSyncSettings(changes: Partial<SyncSettings>): Promise<void> {
+  const settings = await getSyncSettings();
+  await db.settings.put({ key: SYNC_SETTINGS_KEY, value: { ...settings, ...changes } });
+}
+
+/**
+ * Local changes made since the last push, by receipt
+ * Read from the revision history; changes that came in through sync are
+ * left out so they aren't sent back.
+ *
+ * @param afterRevisionId - Revisions up to this ID were already pushed
+ * @param includeAll - First sync: every live receipt counts as changed
+ * @returns Pending changes, and the latest revision ID they cover
+ */
+export async function getPendingSyncChanges(
+  afterRevisionId: number,
+  includeAll: boolean
+): Promise<{ pending: Map<string, PendingSync>; lastRevisionId: number }> {
+  const revisions = await db.receiptRevisions.where('id').above(afterRevisionId).toArray();
+  const pending = new Map<string, PendingSync>();
+
+  for (const revision of revisions) {
+    if (revision.changedBy === 'sync') continue;
+
+    const entry = pending.get(revision.receiptId) ?? {
+      fields: new Set<string>(),
+      deleted: false,
+      changedAt: revision.changedAt,
+    };
+    if (revision.action === 'delete') {
+      entry.deleted = true;
+      entry.fields.clear();
+    } else {
+      entry.deleted = false;
+      if (revision.action === 'update') {
+        revision.changes.forEach((change) => entry.fields.add(change.field));
+      } else {
+        entry.fields.add(ALL_FIELDS);
+      }
+    }
+    entry.changedAt = revision.changedAt;
+    pending.set(revision.receiptId, entry);
+  }
+
+  if (includeAll) {
+    for (const receipt of await db.receipts.toArray()) {
+      if (pending.has(receipt.id)) continue;
+      pending.set(receipt.id, {
+        fields: new Set([ALL_FIELDS]),
+        deleted: false,
+        changedAt: receipt.updatedAt,
+      });
+    }
+  }
+
+  return {
+    pending,
+    lastRevisionId: revisions.length > 0 ? revisions[revisions.length - 1].id! : afterRevisionId,
+  };
+}
+
+/**
+ * Apply a change pulled from another device
+ * Closed fiscal years and archived receipts are never changed by sync.
+ *
+ * @param change - Change with its receipt already decoded (images fetched)
+ * @param pending - This device's unpushed changes to the same receipt
+ * @returns Whether it was applied, and how many fields both sides changed
+ */
+export async function applySyncedChange(
+  change: SyncChange,
+  pending: PendingSync | undefined
+): Promise<{ applied: boolean; conflicts: number }> {
+  const local = await db.receipts.get(change.receiptId);
+
+  if (change.action === 'delete') {
+    if (!local) return { applied: true, conflicts: 0 };
+    if (local.archive || (await isFiscalYearClosed(getFiscalYear(local)))) {
+      return { applied: false, conflicts: 0 };
+    }
+
+    // Edited here after it was deleted there: keep it
+    if (pending && pending.fields.size > 0 && local.updatedAt > new Date(change.changedAt)) {
+      return { applied: false, conflicts: 1 };
+    }
+    await deleteReceipt(local.id, 'sync');
+    return { applied: true, conflicts: 0 };
+  }
+
+  const remote = change.receipt as Receipt;
+  if (await isFiscalYearClosed(getFiscalYear(remote))) return { applied: false, conflicts: 0 };
+
+  if (!local) {
+    // Deleted here after the other device's edit: the delete wins
+    const trashed = await db.trash.get(remote.id);
+    if (pending?.deleted && (!trashed || trashed.deletedAt > remote.updatedAt)) {
+      return { applied: false, conflicts: 1 };
+    }
+    if (trashed) await db.trash.delete(remote.id);
+    await addReceipt(remote, 'sync');
+    return { applied: true, conflicts: 0 };
+  }
+
+  if (local.archive && !remote.archive) return { applied: false, conflicts: 0 };
+  if (await isFiscalYearClosed(getFiscalYear(local))) return { applied: false, conflicts: 0 };
+
+  const { merged, conflicts } = mergeReceipt(
+    local,
+    remote,
+    pending?.fields ?? new Set(),
+    change.fields
+  );
+
+  // Fields removed by the merge have to be cleared explicitly
+  const changes: Record<string, unknown> = { ...merged };
+  for (const key of Object.keys(local)) {
+    if (!(key in merged)) changes[key] = undefined;
+  }
+  await updateReceipt(local.id, changes as Partial<Receipt>, 'sync');
+
+  return { applied: true, conflicts: conflicts.length };
+}
+
+/**
+ * Consumption Tax Settings
+ */
+
+const CONSUMPTION_TAX_SETTINGS_KEY = 'consumptionTax';
+
+/**
+ * Get the consumption tax settings (簡易課税 business type defaults to 第五種)
+ */
+export async function getConsumptionTaxSettings(): Promise<ConsumptionTaxSettings> {
+  const record = await db.settings.get(CONSUMPTION_TAX_SETTINGS_KEY);
+  return (record?.value as ConsumptionTaxSettings | undefined) ?? { businessType: 5 };
+}
+
+/**
+ * Save the consumption tax settings
+ */
+export async function saveConsumptionTaxSettings(settings: ConsumptionTaxSettings): Promise<void> {
+  await db.settings.put({ key: CONSUMPTION_TAX_SETTINGS_KEY, value: settings });
+}
+
+/**
+ * Financial Statement Settings
+ */
+
+const FINANCIAL_STATEMENT_SETTINGS_KEY = 'financialStatements';
+
+/**
+ * Get the amounts entered for the income statements
+ */
+export async function getFinancialStatementSettings(): Promise<FinancialStatementSettings> {
+  const record = await db.settings.get(FINANCIAL_STATEMENT_SETTINGS_KEY);
+  return (
+    (record?.value as FinancialStatementSettings | undefined) ?? {
+      specialDeduction: 650000,
+      inventory: {},
+    }
+  );
+}
+
+/**
+ * Save the amounts entered for the income statements
+ */
+export async function saveFinancialStatementSettings(
+  settings: FinancialStatementSettings
+): Promise<void> {
+  await db.settings.put({ key: FINANCIAL_STATEMENT_SETTINGS_KEY, value: settings });
+}
+
+/**
+ * Withholding Settings
+ */
+
+const WITHHOLDING_SETTINGS_KEY = 'withholding';
+
+/**
+ * Get how withheld tax is paid (monthly unless the 納期の特例 is chosen) and
+ * which 納付書 have been paid
+ */
+export async function getWithholdingSettings(): Promise<WithholdingSettings> {
+  const record = await db.settings.get(WITHHOLDING_SETTINGS_KEY);
+  return (record?.value as WithholdingSettings | undefined) ?? { schedule: 'monthly', paid: {} };
+}
+
+/**
+ * Save how withheld tax is paid
+ */
+export async function saveWithholdingSettings(settings: WithholdingSettings): Promise<void> {
+  await db.settings.put({ key: WITHHOLDING_SETTINGS_KEY, value: settings });
+}
@@ -1,5 +1,17 @@
 import Dexie, { type EntityTable } from 'dexie';
 import type { Receipt, UploadBatch, UploadQueueItem } from '@/types/receipt';
+import type { InvoiceRegistrant, RegistryImport } from '@/types/registry';
+import type { FiscalYear } from '@/types/fiscal-year';
+import type { ApportionmentRule } from '@/types/apportionment';
+import type { VendorProfile } from '@/types/vendor';
+import type { CategoryKeyword } from '@/types/category-keyword';
+import type { StatementImport, StatementTransaction } from '@/types/statement';
+import type { ReceiptHistoryEntry } from '@/types/archive';
+import type { ReceiptRevision, TrashedReceipt } from '@/types/revision';
+import type { Payee } from '@/types/payee';
+import type { ExchangeRate } from '@/types/currency';
+import type { RecurringEntry, RecurringTemplate } from '@/types/recurring';
+import { normalizeName } from '@/lib/utils/format';
 
 // Define the database schema
 export class ReceiptDatabase extends Dexie {
@@ -7,6 +19,22 @@ export class ReceiptDatabase extends Dexie {
   images!: EntityTable<{ id: string; blob: Blob }, 'id'>;
   batches!: EntityTable<UploadBatch, 'id'>;
   uploadQueue!: EntityTable<UploadQueueItem, 'id'>;
+  registrants!: EntityTable<InvoiceRegistrant, 'tNumber'>;
+  registryImports!: EntityTable<RegistryImport, 'id'>;
+  fiscalYears!: EntityTable<FiscalYear, 'year'>;
+  apportionmentRules!: EntityTable<ApportionmentRule, 'id'>;
+  vendorProfiles!: EntityTable<VendorProfile, 'id'>;
+  categoryKeywords!: EntityTable<CategoryKeyword, 'id'>;
+  statementTransactions!: EntityTable<StatementTransaction, 'id'>;
+  statementImports!: EntityTable<StatementImport, 'id'>;
+  receiptHistory!: EntityTable<ReceiptHistoryEntry, 'id'>;
+  settings!: EntityTable<{ key: string; value: unknown }, 'key'>;
+  receiptRevisions!: EntityTable<ReceiptRevision, 'id'>;
+  trash!: EntityTable<TrashedReceipt, 'receiptId'>;
+  payees!: EntityTable<Payee, 'id'>;
+  exchangeRates!: EntityTable<ExchangeRate, 'id'>;
+  recurringTemplates!: EntityTable<RecurringTemplate, 'id'>;
+  recurringEntries!: EntityTable<RecurringEntry, 'id'>;
 
   constructor() {
     super('JapanTaxHelper');
@@ -73,12 +101,392 @@ export class ReceiptDatabase extends Dexie {
         }
       }
     });
+
+    // Version 4: Add document direction (expense / income / purchase)
+    // Existing receipts are all expenses
+    this.version(4).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+    }).upgrade(async (tx) => {
+      await tx.table('receipts').toCollection().modify((receipt) => {
+        if (receipt.extractedData && !receipt.extractedData.direction) {
+          receipt.extractedData.direction = 'expense';
+        }
+      });
+    });
+
+    // Version 5: Add offline T-number registry (NTA 公表情報 bulk download)
+    this.version(5).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      // Registered businesses, keyed by T-number
+      registrants: 'tNumber',
+      // Imported bulk download files
+      registryImports: 'id, importedAt',
+    });
+
+    // Version 6: Add fiscal-year close state
+    this.version(6).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      // Closed years (receipts dated in a closed year are read-only)
+      fiscalYears: 'year',
+    });
+
+    // Version 7: Add 家事按分 rules
+    this.version(7).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      // Business-share rules by vendor or category
+      apportionmentRules: 'id, kind',
+    });
+
+    // Version 8: Add vendor profiles (learned corrections)
+    this.version(8).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      // Looked up by T-number or by any of the vendor's normalized names
+      vendorProfiles: 'id, tNumber, *names',
+    });
+
+    // Version 9: Add user keywords for the local categorizer
+    this.version(9).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+    });
+
+    // Version 10: Add bank/card statement lines for receipt matching
+    this.version(10).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+    });
+
+    // Version 11: Add archive mode (電子帳簿保存法) - correction history and settings
+    this.version(11).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+    });
+
+    // Version 12: Add revision history and trash bin
+    this.version(12).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+      receiptRevisions: '++id, receiptId, batchId, changedAt',
+      trash: 'receiptId, deletedAt, batchId',
+    });
+
+    // Version 13: Add payee master for the 309 支払調書
+    this.version(13).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+      receiptRevisions: '++id, receiptId, batchId, changedAt',
+      trash: 'receiptId, deletedAt, batchId',
+      payees: 'id, tNumber, *names',
+    });
+
+    // Version 14: Add the exchange rate (TTM) table for foreign-currency receipts
+    this.version(14).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+      receiptRevisions: '++id, receiptId, batchId, changedAt',
+      trash: 'receiptId, deletedAt, batchId',
+      payees: 'id, tNumber, *names',
+      exchangeRates: 'id, [currency+date]',
+    });
+
+    // Version 15: Add recurring expense templates and their monthly entries
+    this.version(15).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+      receiptRevisions: '++id, receiptId, batchId, changedAt',
+      trash: 'receiptId, deletedAt, batchId',
+      payees: 'id, tNumber, *names',
+      exchangeRates: 'id, [currency+date]',
+      recurringTemplates: 'id, tNumber, *names',
+      recurringEntries: 'id, templateId, period, status, receiptId',
+    });
+
+    // Version 16: Names are normalized with ー kept - re-derive the matched names
+    this.version(16).stores({
+      receipts: `
+        id,
+        createdAt,
+        [extractedData.transactionDate],
+        [extractedData.suggestedCategory],
+        [extractedData.direction],
+        processingStatus,
+        needsReview,
+        [extractedData.tNumber]
+      `,
+      images: 'id',
+      batches: 'id, createdAt, status',
+      uploadQueue: 'id, createdAt, status, receiptId',
+      registrants: 'tNumber',
+      registryImports: 'id, importedAt',
+      fiscalYears: 'year',
+      apportionmentRules: 'id, kind',
+      vendorProfiles: 'id, tNumber, *names',
+      categoryKeywords: 'id, category',
+      statementTransactions: 'id, importId, date, status, receiptId, fingerprint',
+      statementImports: 'id, importedAt',
+      receiptHistory: '++id, receiptId, changedAt',
+      settings: 'key',
+      receiptRevisions: '++id, receiptId, batchId, changedAt',
+      trash: 'receiptId, deletedAt, batchId',
+      payees: 'id, tNumber, *names',
+      exchangeRates: 'id, [currency+date]',
+      recurringTemplates: 'id, tNumber, *names',
+      recurringEntries: 'id, templateId, period, status, receiptId',
+    }).upgrade(async (tx) => {
+      // Names saved before the long-vowel mark was kept have ー stripped. The
+      // issuer names on the receipts still have it, so each stale alias is
+      // rebuilt from the receipts it was learned from.
+      const stripLongVowel = (name: string) => name.replace(/ー/g, '');
+      const issuerNames = new Map<string, string[]>();
+      await tx.table('receipts').each((receipt) => {
+        const name = normalizeName(receipt.extractedData?.issuerName);
+        if (!name.includes('ー')) return;
+        const key = stripLongVowel(name);
+        issuerNames.set(key, [...(issuerNames.get(key) ?? []), name]);
+      });
+
+      const renormalize = (names: string[], name: string) =>
+        Array.from(
+          new Set(
+            [...names, normalizeName(name)]
+              .flatMap((n) => (n.includes('ー') ? [n] : [n, ...(issuerNames.get(n) ?? [])]))
+              .filter((n) => !!n)
+          )
+        );
+      await tx.table('vendorProfiles').toCollection().modify((profile) => {
+        profile.names = renormalize(profile.names ?? [], profile.canonicalName);
+      });
+      await tx.table('payees').toCollection().modify((payee) => {
+        payee.names = renormalize(payee.names ?? [], payee.name);
+      });
+      await tx.table('recurringTemplates').toCollection().modify((template) => {
+        template.names = renormalize(template.names ?? [], template.name);
+      });
+    });
   }
 }
 
 // Create and export database instance
 export const db = new ReceiptDatabase();
 
+// The correction history is append-only: entries can be added, never changed or removed
+db.receiptHistory.hook('updating', () => {
+  throw new Error('Receipt history is append-only');
+});
+db.receiptHistory.hook('deleting', () => {
+  throw new Error('Receipt history is append-only');
+});
+
 // Helper type for receipt with proper date handling
 export type ReceiptWithDates = Omit<Receipt, 'createdAt' | 'updatedAt' | 'extractedData'> & {
   createdAt: Date;
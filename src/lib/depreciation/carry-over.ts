@@ -0,0 +1,83 @@
+import type { Receipt } from '@/types/receipt';
+import { needsExchangeRate } from '../currency/exchange';
+import { expandAllocations } from '../export/allocations';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { getFiscalYear } from '../utils/fiscal-year';
+import { getDepreciationNote } from '../validation/receipt';
+
+/** 一括償却資産 are written off in equal thirds */
+const LUMPSUM_YEARS = 3;
+
+/**
+ * A depreciable asset whose write-off continues into a given fiscal year
+ */
+export interface CarryOverAsset {
+  receipt: Receipt;
+  acquisitionYear: number;
+  method: 'lumpsum' | 'standard';
+  /** Which year of depreciation the fiscal year is (1 = acquisition year) */
+  yearIndex: number;
+  /** Depreciation for the fiscal year (lump-sum only; standard needs a useful life) */
+  yearAmount?: number;
+  /** Book value left after the fiscal year (lump-sum only) */
+  remainingAmount?: number;
+}
+
+/**
+ * Amount written off in a given year of a 3-year lump-sum depreciation
+ * The first two years are rounded down; the last year takes the remainder.
+ */
+export function getLumpSumInstallment(amount: number, yearIndex: number): number {
+  const installment = Math.floor(amount / LUMPSUM_YEARS);
+  return yearIndex < LUMPSUM_YEARS ? installment : amount - installment * (LUMPSUM_YEARS - 1);
+}
+
+/**
+ * List assets being depreciated in a fiscal year, including ones acquired in
+ * earlier years. Items expensed immediately (少額減価償却資産の特例) are excluded,
+ * and so are receipts registered as fixed assets (see getDepreciationSchedule).
+ *
+ * Split receipts are judged per allocation.
+ *
+ * @param receipts - Receipts from all years
+ */
+export function getDepreciationCarryOver(receipts: Receipt[], year: number): CarryOverAsset[] {
+  const assets: CarryOverAsset[] = [];
+
+  for (const receipt of expandAllocations(receipts)) {
+    if (getDocumentDirection(receipt.extractedData) !== 'expense') continue;
+    if (receipt.extractedData.fixedAsset) continue;
+    if (needsExchangeRate(receipt.extractedData)) continue;
+
+    const acquisitionYear = getFiscalYear(receipt);
+    if (acquisitionYear > year) continue;
+
+    const amount = receipt.extractedData.totalAmount;
+    const note = getDepreciationNote(amount, new Date(receipt.extractedData.transactionDate));
+    if (!note || note.method === 'immediate') continue;
+
+    const yearIndex = year - acquisitionYear + 1;
+
+    if (note.method === 'lumpsum') {
+      if (yearIndex > LUMPSUM_YEARS) continue;
+
+      let written = 0;
+      for (let i = 1; i <= yearIndex; i++) {
+        written += getLumpSumInstallment(amount, i);
+      }
+
+      assets.push({
+        receipt,
+        acquisitionYear,
+        method: 'lumpsum',
+        yearIndex,
+        yearAmount: getLumpSumInstallment(amount, yearIndex),
+        remainingAmount: amount - written,
+      });
+    } else {
+      assets.push({ receipt, acquisitionYear, method: 'standard', yearIndex });
+    }
+  }
+
+  return assets.sort((a, b) => a.acquisitionYear - b.acquisitionYear);
+}
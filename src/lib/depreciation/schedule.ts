@@ -0,0 +1,214 @@
+import type {
+  AssetDepreciationYear,
+  DepreciationMethod,
+  DepreciationScheduleRow,
+  FixedAssetInfo,
+} from '@/types/fixed-asset';
+import type { ExtractedData, Receipt } from '@/types/receipt';
+import { getBusinessRatio, getDeductibleAmount } from '../apportionment/business-ratio';
+import { needsExchangeRate } from '../currency/exchange';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import {
+  DECLINING_BALANCE_RATES,
+  DEPRECIATION_THRESHOLDS,
+  LUMPSUM_DEPRECIATION_LIMIT,
+} from '../utils/constants';
+import { getLumpSumInstallment } from './carry-over';
+
+/**
+ * Depreciation schedules for registered fixed assets
+ *
+ * Amounts follow the 減価償却費の計算 of the 青色申告決算書: the year's
+ * depreciation is worked out on the full cost (1円未満切上げ), months in
+ * service count in the first year, and 定額法・定率法 stop at a 備忘価額 of ¥1.
+ * Only the business share (事業専用割合) becomes an expense.
+ */
+
+/** Book value kept on the books once an asset is fully depreciated */
+const MEMO_VALUE = 1;
+
+/** Guard against schedules that never reach the memo value */
+const MAX_SCHEDULE_YEARS = 100;
+
+/**
+ * 定額法 rate for a useful life, in 1/1000 (1/n rounded up: 4 years = 0.250, 3 years = 0.334)
+ */
+export function getStraightLineRate(usefulLife: number): number {
+  return Math.ceil(1000 / usefulLife);
+}
+
+/**
+ * Methods a receipt can be depreciated with
+ * 定率法 needs a useful life from the rate table; 一括償却 and 少額特例 depend on the cost.
+ */
+export function getAvailableMethods(cost: number, serviceDate: string, usefulLife: number): DepreciationMethod[] {
+  const methods: DepreciationMethod[] = ['straightLine'];
+  if (DECLINING_BALANCE_RATES[usefulLife]) methods.push('decliningBalance');
+  if (cost < LUMPSUM_DEPRECIATION_LIMIT) methods.push('lumpSum');
+
+  const smallAmountLimit =
+    serviceDate < DEPRECIATION_THRESHOLDS.THRESHOLD_CHANGE_DATE
+      ? DEPRECIATION_THRESHOLDS.IMMEDIATE_EXPENSE_LIMIT_CURRENT
+      : DEPRECIATION_THRESHOLDS.IMMEDIATE_EXPENSE_LIMIT_FUTURE;
+  if (cost < smallAmountLimit) methods.push('smallAmount');
+
+  return methods;
+}
+
+/**
+ * Whether a receipt can be registered as a fixed asset
+ * Split receipts can't: the asset would be only part of the receipt.
+ */
+export function canRegisterFixedAsset(data: ExtractedData): boolean {
+  return getDocumentDirection(data) === 'expense' && !data.allocations?.length;
+}
+
+/**
+ * Whether a receipt is booked as a fixed asset: its cost leaves the year's
+ * expenses and comes back as 減価償却費
+ */
+export function isBookedAsFixedAsset(data: ExtractedData): boolean {
+  return !!data.fixedAsset && canRegisterFixedAsset(data);
+}
+
+/**
+ * Rate applied in a year, for the schedule export (null = not rate-based)
+ */
+function getDisplayRate(asset: FixedAssetInfo, revised: boolean): number | null {
+  if (asset.method === 'straightLine') return getStraightLineRate(asset.usefulLife) / 1000;
+  if (asset.method === 'decliningBalance') {
+    const rates = DECLINING_BALANCE_RATES[asset.usefulLife];
+    return (revised ? rates.revisedRate : rates.rate) / 1000;
+  }
+  return null;
+}
+
+interface ScheduleYear extends AssetDepreciationYear {
+  depreciationBase: number;
+  rate: number | null;
+}
+
+function buildSchedule(asset: FixedAssetInfo, cost: number, businessRatio: number): ScheduleYear[] {
+  const firstYear = Number(asset.serviceDate.slice(0, 4));
+  const firstMonths = 12 - Number(asset.serviceDate.slice(5, 7)) + 1;
+  const years: ScheduleYear[] = [];
+
+  const push = (
+    index: number,
+    months: number,
+    opening: number,
+    depreciation: number,
+    base: number,
+    rate: number | null
+  ) => {
+    years.push({
+      year: firstYear + index,
+      months,
+      openingBookValue: opening,
+      depreciation,
+      deductible: getDeductibleAmount(depreciation, businessRatio),
+      closingBookValue: opening - depreciation,
+      depreciationBase: base,
+      rate,
+    });
+  };
+
+  if (asset.method === 'smallAmount') {
+    push(0, firstMonths, cost, cost, cost, null);
+    return years;
+  }
+
+  if (asset.method === 'lumpSum') {
+    // 一括償却資産 ignore the months in service: a third every year
+    let bookValue = cost;
+    for (let i = 0; i < 3; i++) {
+      const amount = getLumpSumInstallment(cost, i + 1);
+      push(i, 12, bookValue, amount, cost, null);
+      bookValue -= amount;
+    }
+    return years;
+  }
+
+  const declining = asset.method === 'decliningBalance' ? DECLINING_BALANCE_RATES[asset.usefulLife] : null;
+  const guarantee = declining ? Math.ceil((cost * declining.guaranteeRate) / 100000) : 0;
+  let revisedBase: number | null = null;
+  let bookValue = cost;
+
+  for (let i = 0; i < MAX_SCHEDULE_YEARS && bookValue > MEMO_VALUE; i++) {
+    const months = i === 0 ? firstMonths : 12;
+    let annual: number;
+    let base = cost;
+
+    if (declining) {
+      // Switch to 改定取得価額 × 改定償却率 once the normal amount drops below 償却保証額
+      const normal = Math.ceil((bookValue * declining.rate) / 1000);
+      if (revisedBase === null && normal < guarantee) revisedBase = bookValue;
+      base = revisedBase ?? bookValue;
+      annual = revisedBase === null ? normal : Math.ceil((revisedBase * declining.revisedRate) / 1000);
+    } else {
+      annual = Math.ceil((cost * getStraightLineRate(asset.usefulLife)) / 1000);
+    }
+
+    const amount = Math.min(Math.ceil((annual * months) / 12), bookValue - MEMO_VALUE);
+    push(i, months, bookValue, amount, base, getDisplayRate(asset, revisedBase !== null));
+    bookValue -= amount;
+  }
+
+  return years;
+}
+
+/**
+ * Full multi-year schedule of a registered asset
+ */
+export function getAssetSchedule(data: ExtractedData): AssetDepreciationYear[] {
+  if (!data.fixedAsset) return [];
+  return buildSchedule(data.fixedAsset, data.totalAmount, getBusinessRatio(data));
+}
+
+/**
+ * Assets on the books in a fiscal year, with that year's depreciation
+ * Fully depreciated 定額法・定率法 assets stay listed at their memo value.
+ *
+ * @param receipts - Receipts from all years
+ */
+export function getDepreciationSchedule(receipts: Receipt[], year: number): DepreciationScheduleRow[] {
+  const rows: DepreciationScheduleRow[] = [];
+
+  for (const receipt of receipts) {
+    const data = receipt.extractedData;
+    const asset = data.fixedAsset;
+    if (!asset || !canRegisterFixedAsset(data)) continue;
+    // The cost isn't yen until the receipt is converted
+    if (needsExchangeRate(data)) continue;
+
+    // 事業専用割合 is the receipt's 家事按分
+    const businessRatio = getBusinessRatio(data);
+    const schedule = buildSchedule(asset, data.totalAmount, businessRatio);
+    if (schedule.length === 0 || schedule[0].year > year) continue;
+
+    const entry = schedule.find((s) => s.year === year);
+    const base = { receipt, asset, cost: data.totalAmount, businessRatio };
+
+    if (entry) {
+      rows.push({ ...base, ...entry });
+      continue;
+    }
+
+    const last = schedule[schedule.length - 1];
+    if (last.closingBookValue > 0) {
+      rows.push({
+        ...base,
+        year,
+        months: 0,
+        openingBookValue: last.closingBookValue,
+        depreciation: 0,
+        deductible: 0,
+        closingBookValue: last.closingBookValue,
+        depreciationBase: last.depreciationBase,
+        rate: last.rate,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.asset.serviceDate.localeCompare(b.asset.serviceDate));
+}
@@ -0,0 +1,188 @@
+import type { ExtractedData, Receipt, ReceiptAllocation, TaxBreakdown } from '@/types/receipt';
+import { applyBusinessRatio } from '../apportionment/business-ratio';
+import { needsExchangeRate } from '../currency/exchange';
+
+/**
+ * Category/tax-rate allocations (按分) for split receipts
+ *
+ * A receipt with `allocations` is exported as one row per allocation. Each row
+ * is a shallow copy of the receipt with the same id and imageId, so every row
+ * still points back to the single stored image.
+ */
+
+/**
+ * Consumption tax contained in a tax-included amount (端数切捨て)
+ */
+export function getIncludedTax(amount: number, taxRate: number): number {
+  return Math.floor((amount * taxRate) / (100 + taxRate));
+}
+
+/**
+ * Sum of allocation amounts
+ */
+export function getAllocationTotal(allocations: ReceiptAllocation[]): number {
+  return allocations.reduce((sum, a) => sum + a.amount, 0);
+}
+
+/**
+ * Whether a receipt is split across more than one row
+ */
+export function isSplitReceipt(data: ExtractedData): boolean {
+  return (data.allocations?.length ?? 0) > 0;
+}
+
+/**
+ * Divide `total` across `weights` proportionally, giving the rounding
+ * remainder to the last share so the shares always add up to `total`
+ */
+function distribute(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, w) => sum + w, 0);
+  if (weights.length === 0) return [];
+  if (weightSum === 0) {
+    return weights.map((_, i) => (i === weights.length - 1 ? total : 0));
+  }
+
+  const shares = weights.map((w) => Math.floor((total * w) / weightSum));
+  const assigned = shares.reduce((sum, s) => sum + s, 0);
+  shares[shares.length - 1] += total - assigned;
+  return shares;
+}
+
+/**
+ * Tax breakdown for each allocation
+ * When the receipt has a breakdown for the allocation's rate, its tax amount
+ * is shared out proportionally so the split rows add up to the printed tax;
+ * otherwise the tax is computed from the allocation amount.
+ */
+function getAllocationBreakdowns(data: ExtractedData): TaxBreakdown[] {
+  const allocations = data.allocations ?? [];
+  const result: TaxBreakdown[] = new Array(allocations.length);
+
+  const rates = Array.from(new Set(allocations.map((a) => a.taxRate)));
+  for (const rate of rates) {
+    const indexes = allocations
+      .map((a, i) => (a.taxRate === rate ? i : -1))
+      .filter((i) => i >= 0);
+    const amounts = indexes.map((i) => allocations[i].amount);
+    const printed = data.taxBreakdown.find((tb) => tb.taxRate === rate);
+
+    const taxes =
+      printed && printed.total === amounts.reduce((sum, a) => sum + a, 0)
+        ? distribute(printed.taxAmount, amounts)
+        : amounts.map((amount) => getIncludedTax(amount, rate));
+
+    indexes.forEach((allocationIndex, i) => {
+      const amount = amounts[i];
+      result[allocationIndex] = {
+        taxRate: rate,
+        subtotal: amount - taxes[i],
+        taxAmount: taxes[i],
+        total: amount,
+      };
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Expand split receipts into one receipt-shaped row per allocation
+ * Receipts without allocations are returned as-is.
+ */
+export function expandAllocations(receipts: Receipt[]): Receipt[] {
+  return receipts.flatMap((receipt) => {
+    const data = receipt.extractedData;
+    if (!data.allocations || data.allocations.length === 0) return [receipt];
+
+    const breakdowns = getAllocationBreakdowns(data);
+
+    return data.allocations.map((allocation, i) => ({
+      ...receipt,
+      extractedData: {
+        ...data,
+        description: allocation.description || data.description,
+        suggestedCategory: allocation.category,
+        subtotalExcludingTax: breakdowns[i].subtotal,
+        taxBreakdown: [breakdowns[i]],
+        totalAmount: allocation.amount,
+        allocations: undefined,
+      },
+    }));
+  });
+}
+
+/**
+ * Rows as they are booked: split receipts expanded, then reduced to the
+ * business share (家事按分)
+ * Foreign-currency receipts without a rate are left out - their amounts
+ * aren't yen yet (the Excel export lists them as flagged).
+ */
+export function getExportRows(receipts: Receipt[]): Receipt[] {
+  return applyBusinessRatio(
+    expandAllocations(receipts.filter((receipt) => !needsExchangeRate(receipt.extractedData)))
+  );
+}
+
+/**
+ * Build allocations by grouping line items on (category, tax rate)
+ * Item amounts may be printed with or without tax, so each rate's groups are
+ * scaled to that rate's tax-included total from the breakdown (or to the
+ * receipt total when there is no breakdown).
+ *
+ * @returns Allocations, or an empty array if there are no usable items
+ */
+export function buildAllocationsFromItems(data: ExtractedData): ReceiptAllocation[] {
+  const items = data.items ?? [];
+  if (items.length === 0) return [];
+
+  type Group = { category: ReceiptAllocation['category']; taxRate: number; itemTotal: number; names: string[] };
+  const groups: Group[] = [];
+
+  for (const item of items) {
+    const category = item.category ?? data.suggestedCategory;
+    let group = groups.find((g) => g.category === category && g.taxRate === item.taxRate);
+    if (!group) {
+      group = { category, taxRate: item.taxRate, itemTotal: 0, names: [] };
+      groups.push(group);
+    }
+    group.itemTotal += item.amount;
+    if (item.amount > 0) group.names.push(item.name);
+  }
+
+  const usable = groups.filter((g) => g.itemTotal > 0);
+  if (usable.length === 0) return [];
+
+  const amounts = new Array<number>(usable.length).fill(0);
+  const rates = Array.from(new Set(usable.map((g) => g.taxRate)));
+  const hasBreakdown = rates.every((rate) => data.taxBreakdown.some((tb) => tb.taxRate === rate));
+
+  if (hasBreakdown) {
+    for (const rate of rates) {
+      const indexes = usable.map((g, i) => (g.taxRate === rate ? i : -1)).filter((i) => i >= 0);
+      const target = data.taxBreakdown.find((tb) => tb.taxRate === rate)!.total;
+      const shares = distribute(target, indexes.map((i) => usable[i].itemTotal));
+      indexes.forEach((groupIndex, i) => {
+        amounts[groupIndex] = shares[i];
+      });
+    }
+  } else {
+    distribute(data.totalAmount, usable.map((g) => g.itemTotal)).forEach((share, i) => {
+      amounts[i] = share;
+    });
+  }
+
+  return usable.map((group, i) => ({
+    category: group.category,
+    taxRate: group.taxRate,
+    amount: amounts[i],
+    description: group.names.join('、') || undefined,
+  }));
+}
+
+/**
+ * 1-based receipt numbers (証憑番号) in export order, keyed by receipt id
+ * Split rows share their receipt's number so they can be matched to the image.
+ */
+export function getReceiptNumbers(receipts: Receipt[]): Map<string, number> {
+  return new Map(receipts.map((receipt, index) => [receipt.id, index + 1]));
+}
@@ -0,0 +1,293 @@
+import ExcelJS from 'exceljs';
+import { saveAs } from 'file-saver';
+import type {
+  InventoryAmounts,
+  ProfitLossStatement,
+  StatementExpenseLine,
+} from '@/types/financial-statement';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+import type { Receipt } from '@/types/receipt';
+import { formatTaxYear } from './form309';
+import { EXPENSE_COLUMNS_ORDER, LEDGER_COLUMN_TO_LABEL } from './ledger-mapping';
+import { transformReceiptsToLedger } from './ledger-transform';
+
+/**
+ * 青色申告決算書（一般用） page 1 - 損益計算書
+ *
+ * Totals come from the NTA ledger (transformReceiptsToLedger), so the
+ * statement always agrees with the ledger export: business share only,
+ * split receipts per allocation.
+ */
+
+/** Item number of the 雑費 line - items 25-30 are blank lines for own items */
+const MISC_ITEM_NUMBER = 31;
+
+/** Items on the left half of the form; the rest go on the right */
+const LEFT_COLUMN_LAST_ITEM = 18;
+
+/**
+ * Circled item number as printed on the form (⑧, ㉛, ㊺)
+ */
+export function formatItemNumber(n: number): string {
+  if (n >= 1 && n <= 20) return String.fromCharCode(0x2460 + n - 1);
+  if (n >= 21 && n <= 35) return String.fromCharCode(0x3251 + n - 21);
+  if (n >= 36 && n <= 50) return String.fromCharCode(0x32b1 + n - 36);
+  return String(n);
+}
+
+/**
+ * Build the 損益計算書 for a year
+ *
+ * @param receipts - The year's receipts
+ * @param inventory - 期首・期末商品棚卸高 entered by the user
+ * @param specialDeduction - 青色申告特別控除 the filer qualifies for
+ * @param depreciation - The year's depreciation schedule (⑱ 減価償却費)
+ */
+export function buildProfitLossStatement(
+  year: number,
+  receipts: Receipt[],
+  inventory: InventoryAmounts,
+  specialDeduction: number,
+  depreciation: DepreciationScheduleRow[] = []
+): ProfitLossStatement {
+  const { grandTotal } = transformReceiptsToLedger(receipts, depreciation).ledger;
+
+  const sales = (grandTotal.sales ?? 0) + (grandTotal.miscIncome ?? 0);
+  const purchases = grandTotal.purchases ?? 0;
+  const costSubtotal = inventory.opening + purchases;
+  const costOfSales = costSubtotal - inventory.closing;
+  const grossProfit = sales - costOfSales;
+
+  const expenses: StatementExpenseLine[] = EXPENSE_COLUMNS_ORDER.map((column, index) => ({
+    number: column === 'misc' ? MISC_ITEM_NUMBER : 8 + index,
+    column,
+    label: LEDGER_COLUMN_TO_LABEL[column],
+    amount: (grandTotal[column as keyof typeof grandTotal] as number | undefined) ?? 0,
+  }));
+  const totalExpenses = expenses.reduce((sum, line) => sum + line.amount, 0);
+  const netIncome = grossProfit - totalExpenses;
+
+  // No reserves (引当金・準備金) or 専従者給与 are tracked, so ㊸ = ㉝
+  const incomeBeforeDeduction = netIncome;
+  const appliedDeduction = Math.min(specialDeduction, Math.max(0, incomeBeforeDeduction));
+
+  return {
+    year,
+    sales,
+    openingInventory: inventory.opening,
+    purchases,
+    costSubtotal,
+    closingInventory: inventory.closing,
+    costOfSales,
+    grossProfit,
+    expenses,
+    totalExpenses,
+    netIncome,
+    incomeBeforeDeduction,
+    specialDeduction: appliedDeduction,
+    income: incomeBeforeDeduction - appliedDeduction,
+  };
+}
+
+/**
+ * One line of the form in print order
+ * Amount null = a line the app doesn't fill in (own items, reserves).
+ */
+export interface FormLine {
+  heading?: string; // Group heading printed above the line
+  number: number;
+  mark?: string; // Printed instead of the circled number (収支内訳書 イ〜ヨ)
+  label: string;
+  amount: number | null;
+}
+
+function getFormLines(statement: ProfitLossStatement): FormLine[] {
+  const expense = (n: number) => statement.expenses.find((line) => line.number === n);
+
+  const expenseLines: FormLine[] = [];
+  for (let n = 8; n <= MISC_ITEM_NUMBER; n++) {
+    const line = expense(n);
+    expenseLines.push({
+      heading: n === 8 ? '経費' : undefined,
+      number: n,
+      label: line?.label ?? '',
+      amount: line ? line.amount : null,
+    });
+  }
+
+  return [
+    { number: 1, label: '売上（収入）金額（雑収入を含む）', amount: statement.sales },
+    { heading: '売上原価', number: 2, label: '期首商品（製品）棚卸高', amount: statement.openingInventory },
+    { number: 3, label: '仕入金額（製品製造原価）', amount: statement.purchases },
+    { number: 4, label: '小計（②＋③）', amount: statement.costSubtotal },
+    { number: 5, label: '期末商品（製品）棚卸高', amount: statement.closingInventory },
+    { number: 6, label: '差引原価（④−⑤）', amount: statement.costOfSales },
+    { number: 7, label: '差引金額（①−⑥）', amount: statement.grossProfit },
+    ...expenseLines,
+    { number: 32, label: '計', amount: statement.totalExpenses },
+    { number: 33, label: '差引金額（⑦−㉜）', amount: statement.netIncome },
+    { heading: '各種引当金・準備金等（繰戻額等）', number: 34, label: '貸倒引当金', amount: null },
+    { number: 35, label: '', amount: null },
+    { number: 36, label: '', amount: null },
+    { number: 37, label: '計', amount: 0 },
+    { heading: '各種引当金・準備金等（繰入額等）', number: 38, label: '専従者給与', amount: null },
+    { number: 39, label: '貸倒引当金', amount: null },
+    { number: 40, label: '', amount: null },
+    { number: 41, label: '', amount: null },
+    { number: 42, label: '計', amount: 0 },
+    { number: 43, label: '青色申告特別控除前の所得金額（㉝＋㊲−㊷）', amount: statement.incomeBeforeDeduction },
+    { number: 44, label: '青色申告特別控除額', amount: statement.specialDeduction },
+    { number: 45, label: '所得金額（㊸−㊹）', amount: statement.income },
+  ];
+}
+
+function getTitle(year: number): string {
+  return `令和${Number(formatTaxYear(year))}年分 所得税青色申告決算書（一般用） 損益計算書`;
+}
+
+export const FORM_BORDER = {
+  top: { style: 'thin' as const },
+  left: { style: 'thin' as const },
+  bottom: { style: 'thin' as const },
+  right: { style: 'thin' as const },
+};
+
+/**
+ * Write one half of the form (number / label / amount) starting at a column
+ */
+export function writeFormColumn(sheet: ExcelJS.Worksheet, lines: FormLine[], startCol: number): void {
+  let rowNum = 4;
+
+  for (const line of lines) {
+    if (line.heading) {
+      const headingCell = sheet.getCell(rowNum, startCol);
+      headingCell.value = line.heading;
+      headingCell.font = { name: 'MS Gothic', size: 9, bold: true };
+      headingCell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } };
+      sheet.mergeCells(rowNum, startCol, rowNum, startCol + 2);
+      rowNum++;
+    }
+
+    const numberCell = sheet.getCell(rowNum, startCol);
+    const labelCell = sheet.getCell(rowNum, startCol + 1);
+    const amountCell = sheet.getCell(rowNum, startCol + 2);
+
+    numberCell.value = line.mark ?? formatItemNumber(line.number);
+    numberCell.alignment = { horizontal: 'center' };
+    labelCell.value = line.label;
+    amountCell.value = line.amount;
+    amountCell.numFmt = '#,##0;[Red]-#,##0';
+
+    for (const cell of [numberCell, labelCell, amountCell]) {
+      cell.font = { name: 'MS Gothic', size: 10 };
+      cell.border = FORM_BORDER;
+    }
+    rowNum++;
+  }
+}
+
+/**
+ * Export the 損益計算書 as an Excel workbook in the two-column layout of the form
+ */
+export async function exportProfitLossExcel(statement: ProfitLossStatement): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Japanese Tax Helper';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('損益計算書', {
+    pageSetup: { paperSize: 9, orientation: 'portrait', fitToPage: true, fitToWidth: 1 },
+  });
+  sheet.columns = [
+    { width: 5 },
+    { width: 34 },
+    { width: 14 },
+    { width: 2 },
+    { width: 5 },
+    { width: 34 },
+    { width: 14 },
+  ];
+
+  const titleCell = sheet.getCell('A1');
+  titleCell.value = getTitle(statement.year);
+  titleCell.font = { name: 'MS Gothic', size: 14, bold: true };
+  sheet.mergeCells('A1:G1');
+
+  const periodCell = sheet.getCell('A2');
+  periodCell.value = '自 1月1日 至 12月31日（単位：円）';
+  periodCell.font = { name: 'MS Gothic', size: 9 };
+  sheet.mergeCells('A2:G2');
+
+  const lines = getFormLines(statement);
+  writeFormColumn(sheet, lines.filter((line) => line.number <= LEFT_COLUMN_LAST_ITEM), 1);
+  writeFormColumn(sheet, lines.filter((line) => line.number > LEFT_COLUMN_LAST_ITEM), 5);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  saveAs(blob, `青色申告決算書_損益計算書_${statement.year}.xlsx`);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function renderFormColumn(lines: FormLine[]): string {
+  return lines
+    .map((line) => {
+      const heading = line.heading
+        ? `<tr><th colspan="3" class="heading">${escapeHtml(line.heading)}</th></tr>`
+        : '';
+      const mark = line.mark ?? formatItemNumber(line.number);
+      const amount = line.amount === null ? '' : line.amount.toLocaleString('ja-JP');
+      return `${heading}<tr><td class="no">${mark}</td><td>${escapeHtml(
+        line.label
+      )}</td><td class="amount">${amount}</td></tr>`;
+    })
+    .join('');
+}
+
+/**
+ * Open the 損益計算書 in a print-ready window
+ * The browser's print dialog saves it as PDF.
+ */
+export function printProfitLossStatement(statement: ProfitLossStatement): void {
+  const lines = getFormLines(statement);
+  const left = renderFormColumn(lines.filter((line) => line.number <= LEFT_COLUMN_LAST_ITEM));
+  const right = renderFormColumn(lines.filter((line) => line.number > LEFT_COLUMN_LAST_ITEM));
+  const title = escapeHtml(getTitle(statement.year));
+
+  const html = `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  @page { size: A4 portrait; margin: 12mm; }
+  body { font-family: 'MS Gothic', 'Hiragino Kaku Gothic ProN', sans-serif; font-size: 10pt; color: #000; }
+  h1 { font-size: 13pt; text-align: center; margin: 0 0 4px; }
+  .period { text-align: center; font-size: 9pt; margin-bottom: 10px; }
+  .columns { display: flex; gap: 8px; align-items: flex-start; }
+  table { border-collapse: collapse; width: 50%; }
+  td, th { border: 1px solid #000; padding: 3px 5px; height: 16px; }
+  th.heading { background: #e5e5e5; text-align: left; font-size: 9pt; }
+  td.no { width: 22px; text-align: center; }
+  td.amount { width: 95px; text-align: right; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="period">自 1月1日 至 12月31日（単位：円）</div>
+<div class="columns"><table>${left}</table><table>${right}</table></div>
+</body>
+</html>`;
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error('Pop-up blocked: allow pop-ups to print the statement');
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+}
@@ -0,0 +1,280 @@
+import ExcelJS from 'exceljs';
+import { saveAs } from 'file-saver';
+import type {
+  ConsumptionTaxMethod,
+  ConsumptionTaxWorksheet,
+  PurchaseCreditGroup,
+} from '@/types/consumption-tax';
+import type { Language } from '../i18n/translations';
+import { CONSUMPTION_TAX } from '../utils/constants';
+import { formatDate } from '../utils/format';
+
+/**
+ * Labels for the consumption tax worksheet export
+ */
+const WORKSHEET_LABELS = {
+  ja: {
+    sheet_summary: '消費税計算表',
+    sheet_lines: '課税仕入明細',
+    title: (year: number) => `消費税計算表（${year}年分）`,
+    sales_section: '課税売上',
+    sales_total: (rate: number) => `課税売上（${rate}%・税込）`,
+    taxable_base: (rate: number) => `課税標準額（${rate}%）`,
+    sales_tax: '課税標準額に対する消費税額',
+    purchases_section: '課税仕入',
+    purchases_total: (group: string, rate: number) => `${group}（${rate}%・税込）`,
+    qualified: '適格請求書',
+    transitional: (creditRate: number) => `経過措置 ${creditRate}%控除`,
+    not_deductible: '控除対象外',
+    deductible_tax: '控除対象仕入税額（一般課税）',
+    excluded: '対象外の行（非課税・不課税・税率区分なし）',
+    comparison_section: '計算方法の比較',
+    method: '計算方法',
+    method_general: '一般課税',
+    method_twoTenths: '2割特例',
+    method_simplified: (type: number, rate: number) => `簡易課税（第${type}種 ${rate}%）`,
+    not_eligible: '（適用期間外）',
+    col_sales_tax: '消費税額',
+    col_deductible: '控除税額',
+    col_national: '差引税額',
+    col_local: '地方消費税',
+    col_total: '納付税額',
+    note: '※ 金額は国税分（7.8%・6.24%）。マイナスは還付。',
+    date: '日付',
+    issuer: '取引先',
+    tnumber: '登録番号',
+    tax_rate: '税率',
+    amount: '金額（税込）',
+    invoice: '区分',
+    credit_rate: '控除割合',
+    line_deductible: '控除対象仕入税額',
+  },
+  en: {
+    sheet_summary: 'Consumption Tax',
+    sheet_lines: 'Taxable Purchases',
+    title: (year: number) => `Consumption Tax Worksheet (${year})`,
+    sales_section: 'Taxable sales',
+    sales_total: (rate: number) => `Taxable sales (${rate}%, tax incl.)`,
+    taxable_base: (rate: number) => `Tax base (${rate}%)`,
+    sales_tax: 'Tax on sales',
+    purchases_section: 'Taxable purchases',
+    purchases_total: (group: string, rate: number) => `${group} (${rate}%, tax incl.)`,
+    qualified: 'Qualified invoice',
+    transitional: (creditRate: number) => `Transitional ${creditRate}% credit`,
+    not_deductible: 'Not deductible',
+    deductible_tax: 'Deductible input tax (general method)',
+    excluded: 'Rows left out (non-taxable or no tax breakdown)',
+    comparison_section: 'Method comparison',
+    method: 'Method',
+    method_general: 'General',
+    method_twoTenths: '20% special rule',
+    method_simplified: (type: number, rate: number) => `Simplified (type ${type}, ${rate}%)`,
+    not_eligible: ' (not available)',
+    col_sales_tax: 'Tax on sales',
+    col_deductible: 'Deduction',
+    col_national: 'National tax',
+    col_local: 'Local tax',
+    col_total: 'Tax due',
+    note: 'National tax share (7.8% / 6.24%). Negative amounts are refunds.',
+    date: 'Date',
+    issuer: 'Vendor',
+    tnumber: 'T-Number',
+    tax_rate: 'Rate',
+    amount: 'Amount (tax incl.)',
+    invoice: 'Invoice',
+    credit_rate: 'Credit',
+    line_deductible: 'Deductible input tax',
+  },
+};
+
+type WorksheetLabels = (typeof WORKSHEET_LABELS)['ja'];
+
+const CURRENCY_FORMAT = '¥#,##0;[Red]-¥#,##0';
+
+const THIN_BORDER = {
+  top: { style: 'thin' as const },
+  left: { style: 'thin' as const },
+  bottom: { style: 'thin' as const },
+  right: { style: 'thin' as const },
+};
+
+function getGroupLabel(group: Pick<PurchaseCreditGroup, 'qualified' | 'creditRate'>, l: WorksheetLabels) {
+  if (group.qualified) return l.qualified;
+  if (group.creditRate === 0) return l.not_deductible;
+  return l.transitional(group.creditRate);
+}
+
+function getMethodLabel(method: ConsumptionTaxMethod, worksheet: ConsumptionTaxWorksheet, l: WorksheetLabels) {
+  switch (method) {
+    case 'general':
+      return l.method_general;
+    case 'twoTenths':
+      return l.method_twoTenths;
+    case 'simplified':
+      return l.method_simplified(
+        worksheet.businessType,
+        CONSUMPTION_TAX.DEEMED_PURCHASE_RATES[worksheet.businessType]
+      );
+  }
+}
+
+/**
+ * Add a label/amount row to the summary sheet
+ */
+function addAmountRow(sheet: ExcelJS.Worksheet, label: string, amount: number, bold = false) {
+  const row = sheet.addRow([label, amount]);
+  row.getCell(2).numFmt = CURRENCY_FORMAT;
+  row.getCell(1).border = THIN_BORDER;
+  row.getCell(2).border = THIN_BORDER;
+  if (bold) row.font = { bold: true };
+}
+
+function addSectionRow(sheet: ExcelJS.Worksheet, label: string) {
+  sheet.addRow([]);
+  const row = sheet.addRow([label]);
+  row.font = { bold: true, color: { argb: 'FF4F46E5' } };
+}
+
+function createSummarySheet(workbook: ExcelJS.Workbook, worksheet: ConsumptionTaxWorksheet, l: WorksheetLabels) {
+  const sheet = workbook.addWorksheet(l.sheet_summary);
+  sheet.columns = [{ width: 42 }, { width: 16 }, { width: 16 }, { width: 16 }, { width: 16 }, { width: 16 }];
+
+  const titleRow = sheet.addRow([l.title(worksheet.year)]);
+  titleRow.font = { size: 14, bold: true };
+
+  // 課税売上
+  addSectionRow(sheet, l.sales_section);
+  for (const sales of worksheet.sales) {
+    addAmountRow(sheet, l.sales_total(sales.taxRate), sales.total);
+  }
+  for (const base of worksheet.taxableBase) {
+    addAmountRow(sheet, l.taxable_base(base.taxRate), base.base);
+  }
+  addAmountRow(sheet, l.sales_tax, worksheet.salesTax, true);
+
+  // 課税仕入
+  addSectionRow(sheet, l.purchases_section);
+  for (const group of worksheet.purchases) {
+    for (const rate of group.byRate) {
+      addAmountRow(sheet, l.purchases_total(getGroupLabel(group, l), rate.taxRate), rate.total);
+    }
+  }
+  addAmountRow(
+    sheet,
+    l.deductible_tax,
+    worksheet.purchases.reduce((sum, g) => sum + g.deductibleTax, 0),
+    true
+  );
+  const excludedRow = sheet.addRow([l.excluded, worksheet.excludedCount]);
+  excludedRow.font = { color: { argb: 'FF6B7280' } };
+
+  // Method comparison
+  addSectionRow(sheet, l.comparison_section);
+  const headerRow = sheet.addRow([
+    l.method,
+    l.col_sales_tax,
+    l.col_deductible,
+    l.col_national,
+    l.col_local,
+    l.col_total,
+  ]);
+  headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  headerRow.eachCell((cell) => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4F46E5' } };
+    cell.alignment = { horizontal: 'center' };
+    cell.border = THIN_BORDER;
+  });
+
+  for (const result of worksheet.results) {
+    const row = sheet.addRow([
+      getMethodLabel(result.method, worksheet, l) + (result.eligible ? '' : l.not_eligible),
+      result.salesTax,
+      result.deductibleTax,
+      result.nationalTax,
+      result.localTax,
+      result.totalTax,
+    ]);
+    row.eachCell((cell, col) => {
+      cell.border = THIN_BORDER;
+      if (col > 1) cell.numFmt = CURRENCY_FORMAT;
+    });
+    if (!result.eligible) row.font = { color: { argb: 'FF9CA3AF' } };
+  }
+
+  const noteRow = sheet.addRow([l.note]);
+  noteRow.font = { size: 9, color: { argb: 'FF6B7280' } };
+}
+
+function createLinesSheet(
+  workbook: ExcelJS.Workbook,
+  worksheet: ConsumptionTaxWorksheet,
+  l: WorksheetLabels,
+  lang: Language
+) {
+  const sheet = workbook.addWorksheet(l.sheet_lines);
+
+  sheet.columns = [
+    { header: l.date, key: 'date', width: 12 },
+    { header: l.issuer, key: 'issuer', width: 25 },
+    { header: l.tnumber, key: 'tnumber', width: 16 },
+    { header: l.tax_rate, key: 'taxRate', width: 8 },
+    { header: l.amount, key: 'total', width: 14 },
+    { header: l.invoice, key: 'invoice', width: 20 },
+    { header: l.credit_rate, key: 'creditRate', width: 10 },
+    { header: l.line_deductible, key: 'deductible', width: 16 },
+  ];
+
+  const headerRow = sheet.getRow(1);
+  headerRow.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  headerRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4F46E5' } };
+  headerRow.alignment = { vertical: 'middle', horizontal: 'center' };
+
+  for (const line of worksheet.lines) {
+    const row = sheet.addRow({
+      date: formatDate(line.transactionDate, lang),
+      issuer: line.issuerName,
+      tnumber: line.tNumber || '-',
+      taxRate: `${line.taxRate}%`,
+      total: line.total,
+      invoice: getGroupLabel(line, l),
+      creditRate: `${line.creditRate}%`,
+      deductible: line.deductibleTax,
+    });
+    if (!line.qualified) {
+      row.getCell('invoice').font = { color: { argb: 'FF92400E' } };
+    }
+  }
+
+  sheet.getColumn('total').numFmt = CURRENCY_FORMAT;
+  sheet.getColumn('deductible').numFmt = CURRENCY_FORMAT;
+
+  sheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      cell.border = THIN_BORDER;
+    });
+  });
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+/**
+ * Export the consumption tax worksheet as an Excel workbook
+ */
+export async function exportConsumptionTaxWorksheet(
+  worksheet: ConsumptionTaxWorksheet,
+  lang: Language = 'ja'
+): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  const l = WORKSHEET_LABELS[lang];
+
+  workbook.creator = 'Japanese Tax Helper';
+  workbook.created = new Date();
+
+  createSummarySheet(workbook, worksheet, l);
+  createLinesSheet(workbook, worksheet, l, lang);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  saveAs(blob, `消費税計算表_${worksheet.year}.xlsx`);
+}
@@ -1,8 +1,17 @@
 import { encode } from 'iconv-lite';
 import { saveAs } from 'file-saver';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
 import type { Receipt } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+import { getInputTaxCredit } from '../consumption-tax/input-tax';
+import { normalizeCurrency } from '../currency/exchange';
+import { verifyReceiptTNumbers } from '../db/operations';
 import { formatDate } from '../utils/format';
+import { VOUCHER_LABEL } from '../vouchers/voucher';
 import type { Language } from '../i18n/translations';
+import { getExportRows, getReceiptNumbers } from './allocations';
+import { getAccountLabel, getDocumentDirection } from './ledger-mapping';
+import { summarizeByCategory, type SummaryTotals } from './summary';
 
 /**
  * CSV column headers for e-Tax compatible bookkeeping export
@@ -15,6 +24,7 @@ const CSV_HEADERS = {
     tNumber: '登録番号',
     issuer: '取引先',
     description: '摘要',
+    direction: '取引区分',
     category: '勘定科目',
     tax8Subtotal: '8%対象額',
     tax8Amount: '8%消費税額',
@@ -23,14 +33,27 @@ const CSV_HEADERS = {
     tax10Amount: '10%消費税額',
     tax10Total: '10%税込額',
     total: '合計金額',
+    currency: '通貨',
+    originalAmount: '外貨金額',
+    exchangeRate: '換算レート',
+    rateSource: 'レート',
+    rateTtm: 'TTM',
+    rateManual: '手入力',
+    creditRate: '仕入税額控除割合',
+    deductibleTax: '控除対象消費税額',
     paymentMethod: '支払方法',
+    document: '証憑区分',
+    documentReceipt: '領収書等',
+    voucherReason: '伝票作成理由',
     notes: '備考',
+    receiptNo: '証憑番号',
   },
   en: {
     date: 'Date',
     tNumber: 'T-Number',
     issuer: 'Vendor',
     description: 'Description',
+    direction: 'Direction',
     category: 'Category',
     tax8Subtotal: '8% Subtotal',
     tax8Amount: '8% Tax Amount',
@@ -39,11 +62,31 @@ const CSV_HEADERS = {
     tax10Amount: '10% Tax Amount',
     tax10Total: '10% Total w/Tax',
     total: 'Total Amount',
+    currency: 'Currency',
+    originalAmount: 'Original Amount',
+    exchangeRate: 'Exchange Rate',
+    rateSource: 'Rate Source',
+    rateTtm: 'TTM',
+    rateManual: 'Manual',
+    creditRate: 'Input Tax Credit Rate',
+    deductibleTax: 'Deductible Tax',
     paymentMethod: 'Payment Method',
+    document: 'Document Type',
+    documentReceipt: 'Receipt',
+    voucherReason: 'Voucher Reason',
     notes: 'Notes',
+    receiptNo: 'Receipt No.',
   },
 };
 
+/**
+ * Labels for the 取引区分 column
+ */
+const DIRECTION_LABELS = {
+  ja: { expense: '経費', income: '売上', purchase: '仕入' },
+  en: { expense: 'Expense', income: 'Income', purchase: 'Purchase' },
+};
+
 /**
  * Escape a CSV field value
  * - Wrap in quotes if contains comma, quote, or newline
@@ -67,9 +110,19 @@ function escapeCSVField(value: string | number | null | undefined): string {
 
 /**
  * Convert receipt data to CSV row with enhanced tax breakdown
+ * @param receiptNo - Number shared by all rows of a split receipt
+ * @param verification - T-number check, for the deductible input tax
  */
-function receiptToCSVRow(receipt: Receipt): string[] {
+function receiptToCSVRow(
+  receipt: Receipt,
+  lang: Language,
+  receiptNo: number,
+  verification: TNumberVerification
+): string[] {
   const data = receipt.extractedData;
+  const h = CSV_HEADERS[lang];
+  const credit = getInputTaxCredit(data, verification);
+  const currency = normalizeCurrency(data.currency);
 
   // Get tax amounts for 8% and 10%
   const tax8 = data.taxBreakdown.find((tb) => tb.taxRate === 8);
@@ -80,7 +133,8 @@ function receiptToCSVRow(receipt: Receipt): string[] {
     data.tNumber || '',
     data.issuerName,
     data.description,
-    data.suggestedCategory,
+    DIRECTION_LABELS[lang][getDocumentDirection(data)],
+    getAccountLabel(data),
     String(tax8?.subtotal || 0),
     String(tax8?.taxAmount || 0),
     String(tax8?.total || 0),
@@ -88,18 +142,34 @@ function receiptToCSVRow(receipt: Receipt): string[] {
     String(tax10?.taxAmount || 0),
     String(tax10?.total || 0),
     String(data.totalAmount),
+    currency ?? '',
+    currency ? String(data.originalAmount ?? '') : '',
+    currency && data.exchangeRate ? String(data.exchangeRate.rate) : '',
+    currency && data.exchangeRate
+      ? `${data.exchangeRate.source === 'ttm' ? h.rateTtm : h.rateManual} ${data.exchangeRate.date}`
+      : '',
+    credit ? `${credit.creditRate}%` : '',
+    credit ? String(credit.deductibleTax) : '',
     data.paymentMethod || '',
+    data.voucher ? VOUCHER_LABEL : h.documentReceipt,
+    data.voucher?.reason ?? '',
     receipt.notes || '',
+    String(receiptNo),
   ];
 }
 
 /**
  * Generate CSV content from receipts
  * @param receipts - Array of receipts to export
+ * @param verifications - T-number checks by receipt ID
  * @param lang - Language for headers
  * @returns CSV content as string
  */
-function generateCSVContent(receipts: Receipt[], lang: Language): string {
+function generateCSVContent(
+  receipts: Receipt[],
+  verifications: Map<string, TNumberVerification>,
+  lang: Language
+): string {
   const h = CSV_HEADERS[lang];
 
   // Build header row with enhanced tax breakdown columns
@@ -108,6 +178,7 @@ function generateCSVContent(receipts: Receipt[], lang: Language): string {
     h.tNumber,
     h.issuer,
     h.description,
+    h.direction,
     h.category,
     h.tax8Subtotal,
     h.tax8Amount,
@@ -116,13 +187,28 @@ function generateCSVContent(receipts: Receipt[], lang: Language): string {
     h.tax10Amount,
     h.tax10Total,
     h.total,
+    h.currency,
+    h.originalAmount,
+    h.exchangeRate,
+    h.rateSource,
+    h.creditRate,
+    h.deductibleTax,
     h.paymentMethod,
+    h.document,
+    h.voucherReason,
     h.notes,
+    h.receiptNo,
   ].map(escapeCSVField);
 
-  // Build data rows
-  const dataRows = receipts.map((receipt) =>
-    receiptToCSVRow(receipt).map(escapeCSVField)
+  // Build data rows (one row per allocation, business share only)
+  const receiptNumbers = getReceiptNumbers(receipts);
+  const dataRows = getExportRows(receipts).map((receipt) =>
+    receiptToCSVRow(
+      receipt,
+      lang,
+      receiptNumbers.get(receipt.id) ?? 0,
+      verifications.get(receipt.id) ?? { status: 'missing' }
+    ).map(escapeCSVField)
   );
 
   // Combine all rows
@@ -154,7 +240,8 @@ export async function exportToCSV(
   lang: Language = 'ja'
 ): Promise<void> {
   // Generate CSV content
-  const csvContent = generateCSVContent(receipts, lang);
+  const verifications = await verifyReceiptTNumbers(receipts);
+  const csvContent = generateCSVContent(receipts, verifications, lang);
 
   // Encode to SHIFT-JIS for e-Tax compatibility
   // This is required because e-Tax system expects SHIFT-JIS encoding
@@ -178,9 +265,14 @@ export async function exportToCSV(
  * Enhanced with detailed tax breakdown for Invoice System compliance
  * @param receipts - Array of receipts to summarize
  * @param lang - Language for headers
+ * @param depreciation - The year's depreciation schedule, booked as 減価償却費
  * @returns CSV content as string
  */
-function generateSummaryCSVContent(receipts: Receipt[], lang: Language): string {
+function generateSummaryCSVContent(
+  receipts: Receipt[],
+  lang: Language,
+  depreciation: DepreciationScheduleRow[]
+): string {
   const isJapanese = lang === 'ja';
 
   // Headers with enhanced tax breakdown
@@ -188,77 +280,35 @@ function generateSummaryCSVContent(receipts: Receipt[], lang: Language): string
     ? ['勘定科目', '件数', '8%対象額', '8%消費税額', '8%税込額', '10%対象額', '10%消費税額', '10%税込額', '合計金額']
     : ['Category', 'Count', '8% Subtotal', '8% Tax', '8% Total', '10% Subtotal', '10% Tax', '10% Total', 'Total Amount'];
 
-  // Group by category with detailed tax breakdown
-  const categoryTotals: Record<
-    string,
-    { count: number; tax8Subtotal: number; tax8Amount: number; tax8Total: number; tax10Subtotal: number; tax10Amount: number; tax10Total: number; total: number }
-  > = {};
-
-  receipts.forEach((receipt) => {
-    const cat = receipt.extractedData.suggestedCategory;
-    if (!categoryTotals[cat]) {
-      categoryTotals[cat] = { count: 0, tax8Subtotal: 0, tax8Amount: 0, tax8Total: 0, tax10Subtotal: 0, tax10Amount: 0, tax10Total: 0, total: 0 };
-    }
-
-    categoryTotals[cat].count++;
-    categoryTotals[cat].total += receipt.extractedData.totalAmount;
-
-    receipt.extractedData.taxBreakdown.forEach((tb) => {
-      if (tb.taxRate === 8) {
-        categoryTotals[cat].tax8Subtotal += tb.subtotal;
-        categoryTotals[cat].tax8Amount += tb.taxAmount;
-        categoryTotals[cat].tax8Total += tb.total;
-      } else if (tb.taxRate === 10) {
-        categoryTotals[cat].tax10Subtotal += tb.subtotal;
-        categoryTotals[cat].tax10Amount += tb.taxAmount;
-        categoryTotals[cat].tax10Total += tb.total;
-      }
-    });
-  });
+  const summary = summarizeByCategory(receipts, depreciation);
 
   // Build rows
   const rows: string[][] = [headers.map(escapeCSVField)];
 
-  Object.entries(categoryTotals).forEach(([category, data]) => {
-    rows.push([
-      escapeCSVField(category),
-      escapeCSVField(data.count),
-      escapeCSVField(data.tax8Subtotal),
-      escapeCSVField(data.tax8Amount),
-      escapeCSVField(data.tax8Total),
-      escapeCSVField(data.tax10Subtotal),
-      escapeCSVField(data.tax10Amount),
-      escapeCSVField(data.tax10Total),
-      escapeCSVField(data.total),
-    ]);
+  const totalsToRow = (label: string, data: SummaryTotals): string[] => [
+    escapeCSVField(label),
+    escapeCSVField(data.count),
+    escapeCSVField(data.tax8Subtotal),
+    escapeCSVField(data.tax8Amount),
+    escapeCSVField(data.tax8Total),
+    escapeCSVField(data.tax10Subtotal),
+    escapeCSVField(data.tax10Amount),
+    escapeCSVField(data.tax10Total),
+    escapeCSVField(data.total),
+  ];
+
+  Object.entries(summary.categories).forEach(([category, data]) => {
+    rows.push(totalsToRow(category, data));
   });
 
   // Add grand total row
-  const grandTotal = Object.values(categoryTotals).reduce(
-    (acc, data) => ({
-      count: acc.count + data.count,
-      tax8Subtotal: acc.tax8Subtotal + data.tax8Subtotal,
-      tax8Amount: acc.tax8Amount + data.tax8Amount,
-      tax8Total: acc.tax8Total + data.tax8Total,
-      tax10Subtotal: acc.tax10Subtotal + data.tax10Subtotal,
-      tax10Amount: acc.tax10Amount + data.tax10Amount,
-      tax10Total: acc.tax10Total + data.tax10Total,
-      total: acc.total + data.total,
-    }),
-    { count: 0, tax8Subtotal: 0, tax8Amount: 0, tax8Total: 0, tax10Subtotal: 0, tax10Amount: 0, tax10Total: 0, total: 0 }
-  );
-
-  rows.push([
-    escapeCSVField(isJapanese ? '合計' : 'Total'),
-    escapeCSVField(grandTotal.count),
-    escapeCSVField(grandTotal.tax8Subtotal),
-    escapeCSVField(grandTotal.tax8Amount),
-    escapeCSVField(grandTotal.tax8Total),
-    escapeCSVField(grandTotal.tax10Subtotal),
-    escapeCSVField(grandTotal.tax10Amount),
-    escapeCSVField(grandTotal.tax10Total),
-    escapeCSVField(grandTotal.total),
-  ]);
+  // Income (売上) is totalled separately so it doesn't offset expenses
+  if (!summary.income) {
+    rows.push(totalsToRow(isJapanese ? '合計' : 'Total', summary.payments));
+  } else {
+    rows.push(totalsToRow(isJapanese ? '経費・仕入 合計' : 'Expenses & Purchases Total', summary.payments));
+    rows.push(totalsToRow(isJapanese ? '売上 合計' : 'Income Total', summary.income));
+  }
 
   // Join with CRLF and handle final field
   const csvLines = rows.map((row) => {
@@ -277,12 +327,14 @@ function generateSummaryCSVContent(receipts: Receipt[], lang: Language): string
  *
  * @param receipts - Array of receipts to summarize
  * @param lang - Language for column headers (default: 'ja')
+ * @param depreciation - The year's depreciation schedule, booked as 減価償却費
  */
 export async function exportSummaryToCSV(
   receipts: Receipt[],
-  lang: Language = 'ja'
+  lang: Language = 'ja',
+  depreciation: DepreciationScheduleRow[] = []
 ): Promise<void> {
-  const csvContent = generateSummaryCSVContent(receipts, lang);
+  const csvContent = generateSummaryCSVContent(receipts, lang, depreciation);
   const shiftJISBuffer = encode(csvContent, 'Shift_JIS');
 
   // Convert to Uint8Array for compatibility
@@ -0,0 +1,174 @@
+import ExcelJS from 'exceljs';
+import { saveAs } from 'file-saver';
+import type { DepreciationMethod, DepreciationScheduleRow } from '@/types/fixed-asset';
+import { getAssetSchedule } from '../depreciation/schedule';
+import { DECLINING_BALANCE_RATES } from '../utils/constants';
+import { FORM_BORDER } from './blue-return';
+
+/**
+ * 減価償却費の計算 (青色申告決算書 page 3 / 収支内訳書 page 2) and the
+ * multi-year fixed asset register
+ */
+
+const METHOD_LABELS: Record<DepreciationMethod, string> = {
+  straightLine: '定額法',
+  decliningBalance: '定率法',
+  lumpSum: '一括償却',
+  smallAmount: '少額特例',
+};
+
+const YEN_FORMAT = '#,##0;[Red]-#,##0';
+
+function styleHeader(row: ExcelJS.Row): void {
+  row.font = { bold: true, size: 9 };
+  row.alignment = { vertical: 'middle', horizontal: 'center', wrapText: true };
+  row.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } };
+  row.height = 32;
+}
+
+function applyBorders(sheet: ExcelJS.Worksheet): void {
+  sheet.eachRow((row) => {
+    row.eachCell({ includeEmpty: true }, (cell) => {
+      cell.border = FORM_BORDER;
+    });
+  });
+}
+
+/**
+ * Remark for the 摘要 column
+ */
+function getRemark(row: DepreciationScheduleRow): string {
+  if (row.asset.method === 'smallAmount') return '措法28の2';
+  if (row.asset.method === 'decliningBalance') {
+    const guarantee = Math.ceil((row.cost * DECLINING_BALANCE_RATES[row.asset.usefulLife].guaranteeRate) / 100000);
+    return `償却保証額 ${guarantee.toLocaleString('ja-JP')}円`;
+  }
+  return '';
+}
+
+function addCalculationSheet(workbook: ExcelJS.Workbook, year: number, rows: DepreciationScheduleRow[]): void {
+  const sheet = workbook.addWorksheet('減価償却費の計算', {
+    pageSetup: { paperSize: 9, orientation: 'landscape', fitToPage: true, fitToWidth: 1 },
+  });
+  sheet.columns = [
+    { header: '減価償却資産の名称等', key: 'name', width: 24 },
+    { header: '取得年月', key: 'acquired', width: 10 },
+    { header: '取得価額', key: 'cost', width: 12 },
+    { header: '償却の基礎になる金額', key: 'base', width: 12 },
+    { header: '償却方法', key: 'method', width: 9 },
+    { header: '耐用年数', key: 'life', width: 7 },
+    { header: '償却率又は改定償却率', key: 'rate', width: 10 },
+    { header: '本年中の償却期間', key: 'months', width: 9 },
+    { header: '本年分の普通償却費', key: 'ordinary', width: 12 },
+    { header: '特別償却費', key: 'special', width: 9 },
+    { header: '本年分の償却費合計', key: 'total', width: 12 },
+    { header: '事業専用割合', key: 'ratio', width: 8 },
+    { header: '本年分の必要経費算入額', key: 'deductible', width: 12 },
+    { header: '未償却残高（期末残高）', key: 'remaining', width: 12 },
+    { header: '摘要', key: 'remark', width: 18 },
+  ];
+  styleHeader(sheet.getRow(1));
+
+  for (const row of rows) {
+    const [acquiredYear, acquiredMonth] = row.asset.serviceDate.split('-').map(Number);
+    const rateBased = row.asset.method === 'straightLine' || row.asset.method === 'decliningBalance';
+
+    sheet.addRow({
+      name: row.asset.name,
+      acquired: `${acquiredYear}年${acquiredMonth}月`,
+      cost: row.cost,
+      base: row.depreciationBase,
+      method: METHOD_LABELS[row.asset.method],
+      life: rateBased ? row.asset.usefulLife : row.asset.method === 'lumpSum' ? 3 : null,
+      rate: row.rate,
+      months: `${row.months}/12`,
+      ordinary: row.depreciation,
+      special: null,
+      total: row.depreciation,
+      ratio: row.businessRatio / 100,
+      deductible: row.deductible,
+      remaining: row.closingBookValue,
+      remark: getRemark(row),
+    });
+  }
+
+  const totalRow = sheet.addRow({
+    name: '計',
+    cost: rows.reduce((sum, row) => sum + row.cost, 0),
+    ordinary: rows.reduce((sum, row) => sum + row.depreciation, 0),
+    total: rows.reduce((sum, row) => sum + row.depreciation, 0),
+    deductible: rows.reduce((sum, row) => sum + row.deductible, 0),
+    remaining: rows.reduce((sum, row) => sum + row.closingBookValue, 0),
+  });
+  totalRow.font = { bold: true };
+
+  for (const key of ['cost', 'base', 'ordinary', 'special', 'total', 'deductible', 'remaining']) {
+    sheet.getColumn(key).numFmt = YEN_FORMAT;
+  }
+  sheet.getColumn('rate').numFmt = '0.000';
+  sheet.getColumn('ratio').numFmt = '0%';
+  applyBorders(sheet);
+
+  sheet.insertRow(1, [`${year}年分 減価償却費の計算`]);
+  sheet.getRow(1).font = { bold: true, size: 13 };
+  sheet.mergeCells(1, 1, 1, sheet.columns.length);
+}
+
+function addRegisterSheet(workbook: ExcelJS.Workbook, rows: DepreciationScheduleRow[]): void {
+  const sheet = workbook.addWorksheet('固定資産台帳');
+  sheet.columns = [
+    { header: '資産の名称', key: 'name', width: 24 },
+    { header: '事業供用日', key: 'serviceDate', width: 12 },
+    { header: '償却方法', key: 'method', width: 9 },
+    { header: '耐用年数', key: 'life', width: 8 },
+    { header: '年分', key: 'year', width: 8 },
+    { header: '期首帳簿価額', key: 'opening', width: 13 },
+    { header: '償却費', key: 'depreciation', width: 12 },
+    { header: '必要経費算入額', key: 'deductible', width: 13 },
+    { header: '期末帳簿価額', key: 'closing', width: 13 },
+  ];
+  styleHeader(sheet.getRow(1));
+
+  for (const row of rows) {
+    for (const entry of getAssetSchedule(row.receipt.extractedData)) {
+      const line = sheet.addRow({
+        name: row.asset.name,
+        serviceDate: row.asset.serviceDate,
+        method: METHOD_LABELS[row.asset.method],
+        life: row.asset.usefulLife,
+        year: entry.year,
+        opening: entry.openingBookValue,
+        depreciation: entry.depreciation,
+        deductible: entry.deductible,
+        closing: entry.closingBookValue,
+      });
+      if (entry.year === row.year) line.font = { bold: true };
+    }
+  }
+
+  for (const key of ['opening', 'depreciation', 'deductible', 'closing']) {
+    sheet.getColumn(key).numFmt = YEN_FORMAT;
+  }
+  applyBorders(sheet);
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+/**
+ * Export the year's 減価償却費の計算 with each asset's full schedule
+ *
+ * @param rows - getDepreciationSchedule for the year
+ */
+export async function exportDepreciationSchedule(year: number, rows: DepreciationScheduleRow[]): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Japanese Tax Helper';
+  workbook.created = new Date();
+
+  addCalculationSheet(workbook, year, rows);
+  addRegisterSheet(workbook, rows);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  saveAs(blob, `減価償却費の計算_${year}.xlsx`);
+}
@@ -1,10 +1,22 @@
 import ExcelJS from 'exceljs';
 import { saveAs } from 'file-saver';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
 import type { Receipt } from '@/types/receipt';
+import type { TNumberVerification } from '@/types/registry';
+import { getBusinessRatio } from '../apportionment/business-ratio';
+import { getInputTaxCredit, getInputTaxCreditRate } from '../consumption-tax/input-tax';
+import { needsExchangeRate, normalizeCurrency } from '../currency/exchange';
+import { verifyReceiptTNumbers } from '../db/operations';
 import { getImageBlob } from '../storage/images';
 import { formatDate, formatCurrency } from '../utils/format';
 import type { Language } from '../i18n/translations';
 import { EQUIPMENT_THRESHOLD, DEPRECIATION_THRESHOLDS } from '../utils/constants';
+import { hasUnresolvedDuplicate } from '../validation/duplicates';
+import { hasRegistrationProblem } from '../validation/registry';
+import { VOUCHER_LABEL } from '../vouchers/voucher';
+import { expandAllocations, getExportRows, getReceiptNumbers } from './allocations';
+import { getAccountLabel, getDocumentDirection } from './ledger-mapping';
+import { getBookedRows } from './summary';
 
 /**
  * Column header translations for Excel export
@@ -33,12 +45,29 @@ const EXPORT_HEADERS = {
     tax_10_amount: '10%消費税額',
     tax_10_total: '10%税込額',
     total: '合計金額',
+    currency: '通貨',
+    original_amount: '外貨金額',
+    exchange_rate: '換算レート',
+    rate_source: 'レート',
+    rate_ttm: 'TTM',
+    rate_manual: '手入力',
     category: '分類',
+    direction: '取引区分',
+    direction_expense: '経費',
+    direction_income: '売上',
+    direction_purchase: '仕入',
     payment: '支払方法',
+    document: '証憑区分',
+    document_receipt: '領収書等',
+    voucher_reason: '伝票作成理由',
     notes: '備考',
+    receipt_no: '証憑番号',
     // Summary sheet
     count: '件数',
     grand_total: '合計',
+    payments_total: '経費・仕入 合計',
+    income_total: '売上 合計',
+    net_amount: '差引金額',
     qualified_invoice_section: '適格請求書区分',
     qualified_invoice: '適格請求書（T番号あり）',
     non_qualified: '区分記載請求書等',
@@ -64,7 +93,20 @@ const EXPORT_HEADERS = {
     tnumber_valid: '有効',
     tnumber_invalid: '無効',
     tnumber_missing: '未登録',
+    tnumber_check_digit: 'チェックデジット誤り',
+    tnumber_unverified: '形式のみ確認',
+    tnumber_not_found: '公表データなし',
+    tnumber_name_mismatch: '名称不一致',
+    tnumber_not_yet_registered: '取引時点で未登録',
+    tnumber_cancelled: '登録取消',
+    tnumber_expired: '登録失効',
+    registered_name: '登録名称',
+    registration_date: '登録日',
+    registration_end_date: '取消・失効日',
     tax_breakdown_status: '税率区分状況',
+    input_tax: '消費税額（事業分）',
+    credit_rate: '控除割合',
+    deductible_tax: '控除対象消費税額',
     action_required: '対応要否',
     status_ok: '正常',
     status_action_needed: '要確認',
@@ -73,6 +115,8 @@ const EXPORT_HEADERS = {
     issue_low_confidence: '信頼度低い',
     issue_amount_check: '金額要確認',
     issue_tnumber_check: 'T番号要確認',
+    issue_duplicate: '重複の可能性',
+    issue_exchange_rate: '円換算レートなし',
   },
   en: {
     // Sheet names
@@ -97,12 +141,29 @@ const EXPORT_HEADERS = {
     tax_10_amount: '10% Tax',
     tax_10_total: '10% Total',
     total: 'Total',
+    currency: 'Currency',
+    original_amount: 'Original Amount',
+    exchange_rate: 'Exchange Rate',
+    rate_source: 'Rate Source',
+    rate_ttm: 'TTM',
+    rate_manual: 'Manual',
     category: 'Category',
+    direction: 'Direction',
+    direction_expense: 'Expense',
+    direction_income: 'Income',
+    direction_purchase: 'Purchase',
     payment: 'Payment',
+    document: 'Document Type',
+    document_receipt: 'Receipt',
+    voucher_reason: 'Voucher Reason',
     notes: 'Notes',
+    receipt_no: 'Receipt No.',
     // Summary sheet
     count: 'Count',
     grand_total: 'Total',
+    payments_total: 'Expenses & Purchases Total',
+    income_total: 'Income Total',
+    net_amount: 'Net Amount',
     qualified_invoice_section: 'Invoice System Classification',
     qualified_invoice: 'Qualified Invoice (w/ T-Number)',
     non_qualified: 'Non-Qualified Invoice',
@@ -128,7 +189,20 @@ const EXPORT_HEADERS = {
     tnumber_valid: 'Valid',
     tnumber_invalid: 'Invalid',
     tnumber_missing: 'Not Registered',
+    tnumber_check_digit: 'Bad check digit',
+    tnumber_unverified: 'Format only',
+    tnumber_not_found: 'Not in registry',
+    tnumber_name_mismatch: 'Name mismatch',
+    tnumber_not_yet_registered: 'Not yet registered',
+    tnumber_cancelled: 'Cancelled',
+    tnumber_expired: 'Expired',
+    registered_name: 'Registered Name',
+    registration_date: 'Registered',
+    registration_end_date: 'Cancelled / Expired',
     tax_breakdown_status: 'Tax Rate Status',
+    input_tax: 'Tax (business share)',
+    credit_rate: 'Credit Rate',
+    deductible_tax: 'Deductible Tax',
     action_required: 'Action Required',
     status_ok: 'OK',
     status_action_needed: 'Needs Review',
@@ -137,6 +211,8 @@ const EXPORT_HEADERS = {
     issue_low_confidence: 'Low confidence',
     issue_amount_check: 'Amount needs review',
     issue_tnumber_check: 'T-Number needs review',
+    issue_duplicate: 'Possible duplicate',
+    issue_exchange_rate: 'Not converted to yen',
   },
 };
 
@@ -146,8 +222,13 @@ type ExportHeaders = typeof EXPORT_HEADERS.ja;
  * Export receipts to Excel file with multiple sheets
  * @param receipts - Array of receipts to export
  * @param lang - Language for column headers (default: 'ja')
+ * @param depreciation - The year's depreciation schedule, booked as 減価償却費 in the summary
  */
-export async function exportToExcel(receipts: Receipt[], lang: Language = 'ja'): Promise<void> {
+export async function exportToExcel(
+  receipts: Receipt[],
+  lang: Language = 'ja',
+  depreciation: DepreciationScheduleRow[] = []
+): Promise<void> {
   const workbook = new ExcelJS.Workbook();
   const h = EXPORT_HEADERS[lang];
 
@@ -156,17 +237,20 @@ export async function exportToExcel(receipts: Receipt[], lang: Language = 'ja'):
   workbook.created = new Date();
   workbook.modified = new Date();
 
+  // T-number registry lookups (offline NTA data, if imported)
+  const verifications = await verifyReceiptTNumbers(receipts);
+
   // Sheet 1: Main receipt data (領収書一覧)
   await createMainSheet(workbook, receipts, h);
 
   // Sheet 2: Summary by category (集計)
-  await createSummarySheet(workbook, receipts, h);
+  await createSummarySheet(workbook, receipts, depreciation, h);
 
   // Sheet 3: Invoice validation (適格請求書確認)
-  await createInvoiceValidationSheet(workbook, receipts, h);
+  await createInvoiceValidationSheet(workbook, receipts, verifications, h);
 
   // Sheet 4: Flagged receipts (要確認)
-  await createFlaggedSheet(workbook, receipts, h);
+  await createFlaggedSheet(workbook, receipts, verifications, h);
 
   // Sheet 5: Images (領収書画像)
   await createImagesSheet(workbook, receipts, h);
@@ -187,6 +271,7 @@ export async function exportToExcel(receipts: Receipt[], lang: Language = 'ja'):
 /**
  * Create main receipts sheet with enhanced Invoice System fields
  * T-Number is now column 2 (after Date) for prominence
+ * Split receipts get one row per allocation, tied together by receipt number
  */
 async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[], h: ExportHeaders) {
   const sheet = workbook.addWorksheet(h.sheet_main);
@@ -197,13 +282,21 @@ async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[],
     { header: h.tnumber, key: 'tnumber', width: 16 },
     { header: h.issuer, key: 'issuer', width: 25 },
     { header: h.description, key: 'description', width: 30 },
+    { header: h.direction, key: 'direction', width: 10 },
     { header: h.category, key: 'category', width: 15 },
     { header: h.subtotal, key: 'subtotal', width: 15 },
     { header: h.tax8, key: 'tax8', width: 12 },
     { header: h.tax10, key: 'tax10', width: 12 },
     { header: h.total, key: 'total', width: 12 },
+    { header: h.currency, key: 'currency', width: 8 },
+    { header: h.original_amount, key: 'originalAmount', width: 14 },
+    { header: h.exchange_rate, key: 'exchangeRate', width: 12 },
+    { header: h.rate_source, key: 'rateSource', width: 16 },
     { header: h.payment, key: 'payment', width: 12 },
+    { header: h.document, key: 'document', width: 12 },
+    { header: h.voucher_reason, key: 'voucherReason', width: 25 },
     { header: h.notes, key: 'notes', width: 30 },
+    { header: h.receipt_no, key: 'receiptNo', width: 10 },
   ];
 
   // Style header row
@@ -216,24 +309,38 @@ async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[],
   };
   headerRow.alignment = { vertical: 'middle', horizontal: 'center' };
 
+  const receiptNumbers = getReceiptNumbers(receipts);
+
   // Add data rows with T-Number validation
-  receipts.forEach((receipt, index) => {
+  getExportRows(receipts).forEach((receipt, index) => {
     const tax8 = receipt.extractedData.taxBreakdown.find(tb => tb.taxRate === 8);
     const tax10 = receipt.extractedData.taxBreakdown.find(tb => tb.taxRate === 10);
     const rowNum = index + 2; // +2 because row 1 is header
+    const currency = normalizeCurrency(receipt.extractedData.currency);
+    const exchangeRate = currency ? receipt.extractedData.exchangeRate : undefined;
 
     const row = sheet.addRow({
       date: formatDate(receipt.extractedData.transactionDate),
       tnumber: receipt.extractedData.tNumber || '-',
       issuer: receipt.extractedData.issuerName,
       description: receipt.extractedData.description,
-      category: receipt.extractedData.suggestedCategory,
+      direction: h[`direction_${getDocumentDirection(receipt.extractedData)}`],
+      category: getAccountLabel(receipt.extractedData),
       subtotal: receipt.extractedData.subtotalExcludingTax,
       tax8: tax8?.taxAmount || 0,
       tax10: tax10?.taxAmount || 0,
       total: receipt.extractedData.totalAmount,
+      currency: currency ?? '',
+      originalAmount: currency ? receipt.extractedData.originalAmount : undefined,
+      exchangeRate: exchangeRate?.rate,
+      rateSource: exchangeRate
+        ? `${exchangeRate.source === 'ttm' ? h.rate_ttm : h.rate_manual} ${exchangeRate.date}`
+        : '',
       payment: receipt.extractedData.paymentMethod || '-',
+      document: receipt.extractedData.voucher ? VOUCHER_LABEL : h.document_receipt,
+      voucherReason: receipt.extractedData.voucher?.reason ?? '',
       notes: receipt.notes || '',
+      receiptNo: receiptNumbers.get(receipt.id),
     });
 
     // Apply conditional formatting to T-Number cell (column 2)
@@ -258,6 +365,15 @@ async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[],
       };
       tNumberCell.font = { color: { argb: 'FFFFFFFF' }, bold: true };
     }
+
+    // 出金伝票: self-prepared, highlighted for the reviewer
+    if (receipt.extractedData.voucher) {
+      row.getCell('document').fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFFDE68A' }, // Amber
+      };
+    }
   });
 
   // Format currency columns
@@ -266,6 +382,7 @@ async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[],
     col.numFmt = '¥#,##0';
     col.alignment = { horizontal: 'right' };
   });
+  sheet.getColumn('originalAmount').numFmt = '#,##0.00';
 
   // Add borders to all cells
   sheet.eachRow((row) => {
@@ -288,15 +405,32 @@ async function createMainSheet(workbook: ExcelJS.Workbook, receipts: Receipt[],
  * Enhanced with Invoice System (適格請求書) classification section
  * Includes tax breakdown by rate (8% and 10%) for Japanese tax filing
  */
-async function createSummarySheet(workbook: ExcelJS.Workbook, receipts: Receipt[], h: ExportHeaders) {
+async function createSummarySheet(
+  workbook: ExcelJS.Workbook,
+  receipts: Receipt[],
+  depreciation: DepreciationScheduleRow[],
+  h: ExportHeaders
+) {
   const sheet = workbook.addWorksheet(h.sheet_summary);
 
+  // Issued invoices (売上) don't affect input tax credit
+  const incomeReceipts = receipts.filter(r => getDocumentDirection(r.extractedData) === 'income');
+  const paymentReceipts = receipts.filter(r => getDocumentDirection(r.extractedData) !== 'income');
+
+  // Amounts come from the booked rows (split and reduced to the business share)
+  const rows = getExportRows(receipts);
+  const paymentRows = rows.filter(r => getDocumentDirection(r.extractedData) !== 'income');
+
+  // Category totals book fixed assets as the year's 減価償却費, like the ledger
+  const bookedRows = getBookedRows(receipts, depreciation);
+
   // Calculate Invoice System statistics
-  const withTNumber = receipts.filter(r => r.extractedData.tNumber && /^T\d{13}$/.test(r.extractedData.tNumber));
-  const withoutTNumber = receipts.filter(r => !r.extractedData.tNumber || !/^T\d{13}$/.test(r.extractedData.tNumber));
+  const hasValidTNumber = (r: Receipt) => !!r.extractedData.tNumber && /^T\d{13}$/.test(r.extractedData.tNumber);
+  const withTNumber = paymentReceipts.filter(hasValidTNumber);
+  const withoutTNumber = paymentReceipts.filter(r => !hasValidTNumber(r));
 
-  const qualifiedTotal = withTNumber.reduce((sum, r) => sum + r.extractedData.totalAmount, 0);
-  const nonQualifiedTotal = withoutTNumber.reduce((sum, r) => sum + r.extractedData.totalAmount, 0);
+  const qualifiedTotal = paymentRows.filter(hasValidTNumber).reduce((sum, r) => sum + r.extractedData.totalAmount, 0);
+  const nonQualifiedTotal = paymentRows.filter(r => !hasValidTNumber(r)).reduce((sum, r) => sum + r.extractedData.totalAmount, 0);
 
   // Add Invoice System classification section at the top
   sheet.mergeCells('A1:F1');
@@ -389,8 +523,9 @@ async function createSummarySheet(workbook: ExcelJS.Workbook, receipts: Receipt[
     total: number;
   }> = {};
 
-  receipts.forEach(receipt => {
-    const cat = receipt.extractedData.suggestedCategory;
+  // Split receipts count once in each category they are allocated to
+  bookedRows.forEach(receipt => {
+    const cat = getAccountLabel(receipt.extractedData);
     if (!categoryTotals[cat]) {
       categoryTotals[cat] = { count: 0, subtotal: 0, tax8: 0, tax10: 0, total: 0 };
     }
@@ -421,36 +556,57 @@ async function createSummarySheet(workbook: ExcelJS.Workbook, receipts: Receipt[
     currentRow++;
   });
 
-  // Calculate grand totals
-  const grandTotals = receipts.reduce(
-    (acc, r) => {
-      acc.subtotal += r.extractedData.subtotalExcludingTax;
-      acc.total += r.extractedData.totalAmount;
-      r.extractedData.taxBreakdown.forEach(tb => {
-        if (tb.taxRate === 8) acc.tax8 += tb.taxAmount;
-        else if (tb.taxRate === 10) acc.tax10 += tb.taxAmount;
-      });
-      return acc;
-    },
-    { subtotal: 0, tax8: 0, tax10: 0, total: 0 }
-  );
+  // Calculate grand totals (income is totalled separately so it doesn't offset expenses)
+  const sumTotals = (list: Receipt[]) =>
+    list.reduce(
+      (acc, r) => {
+        acc.subtotal += r.extractedData.subtotalExcludingTax;
+        acc.total += r.extractedData.totalAmount;
+        r.extractedData.taxBreakdown.forEach(tb => {
+          if (tb.taxRate === 8) acc.tax8 += tb.taxAmount;
+          else if (tb.taxRate === 10) acc.tax10 += tb.taxAmount;
+        });
+        return acc;
+      },
+      { subtotal: 0, tax8: 0, tax10: 0, total: 0 }
+    );
 
-  // Add total row
-  sheet.getCell(currentRow, 1).value = h.grand_total;
-  sheet.getCell(currentRow, 2).value = receipts.length;
-  sheet.getCell(currentRow, 3).value = grandTotals.subtotal;
-  sheet.getCell(currentRow, 4).value = grandTotals.tax8;
-  sheet.getCell(currentRow, 5).value = grandTotals.tax10;
-  sheet.getCell(currentRow, 6).value = grandTotals.total;
-
-  const totalRow = sheet.getRow(currentRow);
-  totalRow.font = { bold: true };
-  totalRow.fill = {
-    type: 'pattern',
-    pattern: 'solid',
-    fgColor: { argb: 'FFF3F4F6' },
+  const addTotalRow = (label: string, count: number | null, totals: ReturnType<typeof sumTotals>) => {
+    sheet.getCell(currentRow, 1).value = label;
+    sheet.getCell(currentRow, 2).value = count;
+    sheet.getCell(currentRow, 3).value = totals.subtotal;
+    sheet.getCell(currentRow, 4).value = totals.tax8;
+    sheet.getCell(currentRow, 5).value = totals.tax10;
+    sheet.getCell(currentRow, 6).value = totals.total;
+
+    const totalRow = sheet.getRow(currentRow);
+    totalRow.font = { bold: true };
+    totalRow.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFF3F4F6' },
+    };
   };
 
+  const paymentTotals = sumTotals(bookedRows.filter(r => getDocumentDirection(r.extractedData) !== 'income'));
+
+  if (incomeReceipts.length === 0) {
+    addTotalRow(h.grand_total, receipts.length, paymentTotals);
+  } else {
+    const incomeTotals = sumTotals(bookedRows.filter(r => getDocumentDirection(r.extractedData) === 'income'));
+
+    addTotalRow(h.payments_total, paymentReceipts.length, paymentTotals);
+    currentRow++;
+    addTotalRow(h.income_total, incomeReceipts.length, incomeTotals);
+    currentRow++;
+    addTotalRow(h.net_amount, null, {
+      subtotal: incomeTotals.subtotal - paymentTotals.subtotal,
+      tax8: incomeTotals.tax8 - paymentTotals.tax8,
+      tax10: incomeTotals.tax10 - paymentTotals.tax10,
+      total: incomeTotals.total - paymentTotals.total,
+    });
+  }
+
   // Format currency columns (columns 3-6)
   for (let col = 3; col <= 6; col++) {
     sheet.getColumn(col).numFmt = '¥#,##0';
@@ -473,19 +629,57 @@ async function createSummarySheet(workbook: ExcelJS.Workbook, receipts: Receipt[
   sheet.views = [{ state: 'frozen', ySplit: startRow }];
 }
 
+/**
+ * Label for a T-Number verification result
+ */
+function getVerificationLabel(verification: TNumberVerification, h: ExportHeaders): string {
+  switch (verification.status) {
+    case 'missing':
+      return h.tnumber_missing;
+    case 'invalid_format':
+      return h.tnumber_invalid;
+    case 'invalid_check_digit':
+      return h.tnumber_check_digit;
+    case 'unverified':
+      return h.tnumber_unverified;
+    case 'not_found':
+      return h.tnumber_not_found;
+    case 'not_yet_registered':
+      return h.tnumber_not_yet_registered;
+    case 'cancelled':
+      return h.tnumber_cancelled;
+    case 'expired':
+      return h.tnumber_expired;
+    case 'registered':
+      return verification.nameMatches ? h.tnumber_valid : h.tnumber_name_mismatch;
+  }
+}
+
 /**
  * Create Invoice Validation sheet
- * Shows T-Number validation status and tax breakdown compliance
+ * Shows T-Number registration status (checked against the imported NTA
+ * registry when available) and tax breakdown compliance
  */
-async function createInvoiceValidationSheet(workbook: ExcelJS.Workbook, receipts: Receipt[], h: ExportHeaders) {
+async function createInvoiceValidationSheet(
+  workbook: ExcelJS.Workbook,
+  receipts: Receipt[],
+  verifications: Map<string, TNumberVerification>,
+  h: ExportHeaders
+) {
   const sheet = workbook.addWorksheet(h.sheet_invoice_validation);
 
   sheet.columns = [
     { header: h.date, key: 'date', width: 12 },
     { header: h.issuer, key: 'issuer', width: 25 },
     { header: h.tnumber, key: 'tnumber', width: 16 },
-    { header: h.tnumber_status, key: 'status', width: 12 },
+    { header: h.tnumber_status, key: 'status', width: 16 },
+    { header: h.registered_name, key: 'registeredName', width: 25 },
+    { header: h.registration_date, key: 'registrationDate', width: 12 },
+    { header: h.registration_end_date, key: 'registrationEndDate', width: 12 },
     { header: h.tax_breakdown_status, key: 'taxStatus', width: 15 },
+    { header: h.input_tax, key: 'inputTax', width: 14 },
+    { header: h.credit_rate, key: 'creditRate', width: 10 },
+    { header: h.deductible_tax, key: 'deductibleTax', width: 14 },
     { header: h.action_required, key: 'action', width: 15 },
   ];
 
@@ -502,21 +696,20 @@ async function createInvoiceValidationSheet(workbook: ExcelJS.Workbook, receipts
   // Add data rows
   receipts.forEach(receipt => {
     const tNumber = receipt.extractedData.tNumber;
-    const isValidTNumber = tNumber && /^T\d{13}$/.test(tNumber);
+    const verification = verifications.get(receipt.id) ?? { status: 'missing' };
 
     // Determine T-Number status
-    let tNumberStatus: string;
-    let actionRequired: string;
-    if (!tNumber || tNumber === '-') {
-      tNumberStatus = h.tnumber_missing;
-      actionRequired = h.status_action_needed;
-    } else if (isValidTNumber) {
-      tNumberStatus = h.tnumber_valid;
-      actionRequired = h.status_ok;
-    } else {
-      tNumberStatus = h.tnumber_invalid;
-      actionRequired = h.status_action_needed;
-    }
+    const tNumberStatus = getVerificationLabel(verification, h);
+    const actionRequired =
+      verification.status === 'missing' || hasRegistrationProblem(verification)
+        ? h.status_action_needed
+        : h.status_ok;
+    const registrant = verification.registrant;
+    const credit = getInputTaxCredit(
+      receipt.extractedData,
+      verification,
+      getBusinessRatio(receipt.extractedData)
+    );
 
     // Check tax breakdown status
     const hasTax8 = receipt.extractedData.taxBreakdown.some(tb => tb.taxRate === 8);
@@ -537,12 +730,23 @@ async function createInvoiceValidationSheet(workbook: ExcelJS.Workbook, receipts
       issuer: receipt.extractedData.issuerName,
       tnumber: tNumber || '-',
       status: tNumberStatus,
+      registeredName: registrant?.name ?? '',
+      registrationDate: registrant?.registrationDate ?? '',
+      registrationEndDate: registrant?.cancellationDate ?? registrant?.expirationDate ?? '',
       taxStatus: taxStatus,
+      inputTax: credit?.inputTax ?? null,
+      creditRate: credit ? `${credit.creditRate}%` : '-',
+      deductibleTax: credit?.deductibleTax ?? null,
       action: actionRequired,
     });
 
+    // Highlight a reduced credit (経過措置 or none)
+    if (credit && credit.creditRate < 100) {
+      row.getCell('creditRate').font = { color: { argb: 'FF92400E' }, bold: true };
+    }
+
     // Color-code action column
-    const actionCell = row.getCell(6);
+    const actionCell = row.getCell('action');
     if (actionRequired === h.status_action_needed) {
       actionCell.fill = {
         type: 'pattern',
@@ -560,6 +764,9 @@ async function createInvoiceValidationSheet(workbook: ExcelJS.Workbook, receipts
     }
   });
 
+  sheet.getColumn('inputTax').numFmt = '¥#,##0';
+  sheet.getColumn('deductibleTax').numFmt = '¥#,##0';
+
   // Add borders
   sheet.eachRow((row) => {
     row.eachCell((cell) => {
@@ -578,15 +785,20 @@ async function createInvoiceValidationSheet(workbook: ExcelJS.Workbook, receipts
 
 /**
  * Create flagged receipts sheet
- * Shows receipts with compliance issues (missing T-Number, low confidence)
- * regardless of review status - for audit/compliance purposes
+ * Shows receipts with compliance issues (missing or unregistered T-Number,
+ * low confidence, unresolved duplicates) regardless of review status - for audit/compliance purposes
  */
-async function createFlaggedSheet(workbook: ExcelJS.Workbook, receipts: Receipt[], h: ExportHeaders) {
+async function createFlaggedSheet(
+  workbook: ExcelJS.Workbook,
+  receipts: Receipt[],
+  verifications: Map<string, TNumberVerification>,
+  h: ExportHeaders
+) {
   const sheet = workbook.addWorksheet(h.sheet_flagged);
 
   // Filter receipts that have any compliance issues (regardless of review status)
   const flaggedReceipts = receipts.filter(receipt => {
-    const issues = getReceiptIssues(receipt, h);
+    const issues = getReceiptIssues(receipt, h, receipts, verifications.get(receipt.id));
     return issues.length > 0;
   });
 
@@ -611,7 +823,7 @@ async function createFlaggedSheet(workbook: ExcelJS.Workbook, receipts: Receipt[
 
   // Add data
   flaggedReceipts.forEach(receipt => {
-    const issues = getReceiptIssues(receipt, h);
+    const issues = getReceiptIssues(receipt, h, receipts, verifications.get(receipt.id));
 
     sheet.addRow({
       date: formatDate(receipt.extractedData.transactionDate),
@@ -648,7 +860,12 @@ async function createFlaggedSheet(workbook: ExcelJS.Workbook, receipts: Receipt[
  * Get list of compliance issues for a receipt
  * Used for flagged sheet - identifies receipts that may need attention for tax compliance
  */
-function getReceiptIssues(receipt: Receipt, h: ExportHeaders): string[] {
+function getReceiptIssues(
+  receipt: Receipt,
+  h: ExportHeaders,
+  receipts: Receipt[],
+  verification?: TNumberVerification
+): string[] {
   const issues: string[] = [];
 
   // Missing T-Number (required for 適格請求書)
@@ -657,7 +874,19 @@ function getReceiptIssues(receipt: Receipt, h: ExportHeaders): string[] {
   const hasTNumber = tNumber && tNumber.trim().length > 0;
 
   if (!hasTNumber) {
-    issues.push(h.issue_no_tnumber);
+    // Without an invoice only the transitional share of the input tax is deductible
+    const creditRate =
+      getDocumentDirection(receipt.extractedData) === 'income'
+        ? 100
+        : getInputTaxCreditRate(receipt.extractedData.transactionDate, false);
+    issues.push(
+      creditRate < 100 ? `${h.issue_no_tnumber} (${h.credit_rate} ${creditRate}%)` : h.issue_no_tnumber
+    );
+  }
+
+  // Registration problems (bad check digit, not registered, cancelled, name mismatch)
+  if (verification && hasRegistrationProblem(verification)) {
+    issues.push(`${h.tnumber_status}: ${getVerificationLabel(verification, h)}`);
   }
 
   // Low overall confidence
@@ -677,6 +906,21 @@ function getReceiptIssues(receipt: Receipt, h: ExportHeaders): string[] {
     }
   }
 
+  // Possible duplicate of another receipt, not yet merged/discarded/kept
+  if (hasUnresolvedDuplicate(receipt)) {
+    const original = receipts.find(r => r.id === receipt.duplicate?.receiptId);
+    issues.push(
+      original
+        ? `${h.issue_duplicate} (${formatDate(original.extractedData.transactionDate)} ${original.extractedData.issuerName})`
+        : h.issue_duplicate
+    );
+  }
+
+  // Foreign-currency amounts not converted to yen yet
+  if (needsExchangeRate(receipt.extractedData)) {
+    issues.push(`${h.issue_exchange_rate} (${receipt.extractedData.currency})`);
+  }
+
   // User notes (manual flags)
   if (receipt.notes && receipt.notes.trim().length > 0) {
     issues.push(receipt.notes);
@@ -696,6 +940,7 @@ async function createImagesSheet(workbook: ExcelJS.Workbook, receipts: Receipt[]
     { header: h.date, key: 'date', width: 12 },
     { header: h.issuer, key: 'issuer', width: 25 },
     { header: h.amount, key: 'total', width: 12 },
+    { header: h.receipt_no, key: 'receiptNo', width: 10 },
   ];
 
   // Style header (same as other sheets)
@@ -754,9 +999,10 @@ async function createImagesSheet(workbook: ExcelJS.Workbook, receipts: Receipt[]
         sheet.getCell(currentRow, 3).value = receipt.extractedData.issuerName;
         sheet.getCell(currentRow, 4).value = receipt.extractedData.totalAmount;
         sheet.getCell(currentRow, 4).numFmt = '¥#,##0';
+        sheet.getCell(currentRow, 5).value = i + 1;
 
         // Add borders to data cells
-        for (let col = 1; col <= 4; col++) {
+        for (let col = 1; col <= 5; col++) {
           sheet.getCell(currentRow, col).border = {
             top: { style: 'thin' },
             left: { style: 'thin' },
@@ -774,8 +1020,9 @@ async function createImagesSheet(workbook: ExcelJS.Workbook, receipts: Receipt[]
         sheet.getCell(currentRow, 3).value = receipt.extractedData.issuerName;
         sheet.getCell(currentRow, 4).value = receipt.extractedData.totalAmount;
         sheet.getCell(currentRow, 4).numFmt = '¥#,##0';
+        sheet.getCell(currentRow, 5).value = i + 1;
 
-        for (let col = 1; col <= 4; col++) {
+        for (let col = 1; col <= 5; col++) {
           sheet.getCell(currentRow, col).border = {
             top: { style: 'thin' },
             left: { style: 'thin' },
@@ -792,8 +1039,9 @@ async function createImagesSheet(workbook: ExcelJS.Workbook, receipts: Receipt[]
       sheet.getCell(currentRow, 3).value = receipt.extractedData.issuerName;
       sheet.getCell(currentRow, 4).value = receipt.extractedData.totalAmount;
       sheet.getCell(currentRow, 4).numFmt = '¥#,##0';
+      sheet.getCell(currentRow, 5).value = i + 1;
 
-      for (let col = 1; col <= 4; col++) {
+      for (let col = 1; col <= 5; col++) {
         sheet.getCell(currentRow, col).border = {
           top: { style: 'thin' },
           left: { style: 'thin' },
@@ -817,9 +1065,12 @@ async function createImagesSheet(workbook: ExcelJS.Workbook, receipts: Receipt[]
 async function createDepreciationSheet(workbook: ExcelJS.Workbook, receipts: Receipt[], h: ExportHeaders) {
   const sheet = workbook.addWorksheet(h.sheet_depreciation);
 
-  // Filter high-value receipts (≥ ¥100,000)
-  const highValueReceipts = receipts.filter(
-    r => r.extractedData.totalAmount >= EQUIPMENT_THRESHOLD
+  // Filter high-value expense receipts (≥ ¥100,000), judging split receipts per allocation
+  const highValueReceipts = expandAllocations(receipts).filter(
+    r =>
+      getDocumentDirection(r.extractedData) === 'expense' &&
+      !needsExchangeRate(r.extractedData) &&
+      r.extractedData.totalAmount >= EQUIPMENT_THRESHOLD
   );
 
   sheet.columns = [
@@ -0,0 +1,325 @@
+import { saveAs } from 'file-saver';
+import type { Payee } from '@/types/payee';
+import type { Receipt } from '@/types/receipt';
+import type {
+  Form309Submitter,
+  Form309PaymentRecord,
+  Form309Export,
+  Form309ValidationResult,
+} from '@/types/form309';
+import {
+  FORM309_FIELD_LIMITS,
+  buildForm309Export,
+  toFullWidth,
+  toHalfWidth,
+  validateCharacterType,
+  validateFieldLength,
+} from './form309';
+
+/**
+ * Form 309 (報酬、料金、契約金及び賞金の支払調書) as 法定調書 XML (.xtx)
+ *
+ * Carries the same items as the CSV from generateForm309CSV, as UTF-8 XML
+ * that e-Tax software can import instead of the items being typed in again.
+ * e-Tax rejects the whole file over one bad item, so every value is checked
+ * against FORM309_FIELD_LIMITS and its character type before it is written.
+ */
+
+/**
+ * One item of the XML with the rule it has to satisfy
+ */
+interface Form309XMLField {
+  /** Element name (法定調書の項目名) */
+  tag: string;
+  /** Value after 半角/全角 conversion */
+  value: string;
+  type: 'half' | 'full';
+  maxLength?: number;
+  required?: boolean;
+}
+
+/**
+ * Submitter items (提出義務者) in form order
+ */
+function getSubmitterFields(submitter: Form309Submitter): Form309XMLField[] {
+  return [
+    {
+      tag: '整理番号1',
+      value: toHalfWidth(submitter.referenceNumber1),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.referenceNumber1,
+    },
+    {
+      tag: '本支店等区分番号',
+      value: toHalfWidth(submitter.branchCode || ''),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.branchCode,
+    },
+    {
+      tag: '住所又は所在地',
+      value: toFullWidth(submitter.submitterAddress),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.submitterAddress,
+      required: true,
+    },
+    {
+      tag: '氏名又は名称',
+      value: toFullWidth(submitter.submitterName),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.submitterName,
+      required: true,
+    },
+    {
+      tag: '電話番号',
+      value: toHalfWidth(submitter.submitterPhone),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.submitterPhone,
+    },
+    {
+      tag: '訂正表示',
+      value: toHalfWidth(submitter.correctionIndicator || ''),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.correctionIndicator,
+    },
+  ];
+}
+
+/**
+ * Payment record items (支払を受ける者・支払金額等) in form order
+ */
+function getRecordFields(record: Form309PaymentRecord): Form309XMLField[] {
+  return [
+    {
+      tag: '支払を受ける者の住所',
+      value: toFullWidth(record.recipientAddress || ''),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.recipientAddress,
+    },
+    {
+      tag: '支払を受ける者の氏名',
+      value: toFullWidth(record.recipientName),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.recipientName,
+      required: true,
+    },
+    {
+      tag: '法人番号',
+      value: toHalfWidth(record.corporateNumber || ''),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.corporateNumber,
+    },
+    {
+      tag: '登録番号',
+      value: toHalfWidth(record.recipientTNumber || ''),
+      type: 'half',
+      maxLength: FORM309_FIELD_LIMITS.recipientTNumber,
+    },
+    {
+      tag: '区分',
+      value: toFullWidth(record.paymentCategory || ''),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.paymentCategory,
+    },
+    {
+      tag: '細目',
+      value: toFullWidth(record.paymentDetail || ''),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.paymentDetail,
+    },
+    {
+      tag: '支払金額',
+      value: record.paymentAmount.toString(),
+      type: 'half',
+      required: true,
+    },
+    {
+      tag: '源泉徴収税額',
+      value: record.withholdingTax.toString(),
+      type: 'half',
+      required: true,
+    },
+    {
+      tag: '摘要',
+      value: toFullWidth(record.paymentDescription),
+      type: 'full',
+      maxLength: FORM309_FIELD_LIMITS.remarks,
+    },
+  ];
+}
+
+/**
+ * Check items against their length and character type
+ *
+ * @param fields Items to check
+ * @param prefix Prefix for error messages (e.g., "Record 1: ")
+ * @returns Error messages
+ */
+function validateFields(fields: Form309XMLField[], prefix: string): string[] {
+  const errors: string[] = [];
+
+  fields.forEach((field) => {
+    if (field.value === '') {
+      if (field.required) {
+        errors.push(`${prefix}${field.tag} is required`);
+      }
+      return;
+    }
+
+    if (!validateCharacterType(field.value, field.type)) {
+      errors.push(
+        `${prefix}${field.tag} must be ${field.type === 'half' ? 'half-width' : 'full-width'} characters`
+      );
+    }
+    if (
+      field.maxLength !== undefined &&
+      !validateFieldLength(field.value, field.maxLength)
+    ) {
+      errors.push(
+        `${prefix}${field.tag} must be ${field.maxLength} characters or less`
+      );
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Validate Form 309 export data against the XML item rules
+ * Values are checked after 半角/全角 conversion, as they will be written.
+ *
+ * @param exportData Form 309 export data
+ * @returns Validation result
+ */
+export function validateForm309XML(
+  exportData: Form309Export
+): Form309ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  errors.push(
+    ...validateFields(getSubmitterFields(exportData.submitter), 'Submitter: ')
+  );
+
+  const { taxYear } = exportData.submitter;
+  if (!validateCharacterType(taxYear, 'half') || !/^\d{2}$/.test(taxYear)) {
+    errors.push('Tax year must be 2 half-width digits');
+  }
+
+  exportData.paymentRecords.forEach((record, index) => {
+    errors.push(
+      ...validateFields(getRecordFields(record), `Record ${index + 1}: `)
+    );
+    if (
+      !Number.isInteger(record.paymentAmount) ||
+      !Number.isInteger(record.withholdingTax)
+    ) {
+      errors.push(`Record ${index + 1}: Amounts must be whole yen`);
+    }
+  });
+
+  if (exportData.paymentRecords.length === 0) {
+    warnings.push('No payment records to report');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Escape text for XML element content and attribute values
+ */
+function escapeXML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Render items as indented elements, leaving out empty optional ones
+ */
+function renderFields(fields: Form309XMLField[], indent: string): string[] {
+  return fields
+    .filter((field) => field.value !== '')
+    .map(
+      (field) =>
+        `${indent}<${field.tag}>${escapeXML(field.value)}</${field.tag}>`
+    );
+}
+
+/**
+ * Generate Form 309 XML document
+ *
+ * @param exportData Form 309 export data
+ * @returns XML string (UTF-8, CRLF line endings)
+ */
+export function generateForm309XML(exportData: Form309Export): string {
+  const validation = validateForm309XML(exportData);
+  if (!validation.isValid) {
+    throw new Error(
+      `Form 309 XML validation failed: ${validation.errors.join(', ')}`
+    );
+  }
+
+  const { submitter, paymentRecords, metadata } = exportData;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<法定調書 様式="${escapeXML(submitter.documentType)}" 年分="${escapeXML(submitter.taxYear)}" 件数="${metadata.recordCount}">`,
+    '  <提出義務者>',
+    ...renderFields(getSubmitterFields(submitter), '    '),
+    '  </提出義務者>',
+  ];
+
+  paymentRecords.forEach((record, index) => {
+    lines.push(
+      `  <支払調書 連番="${index + 1}">`,
+      ...renderFields(getRecordFields(record), '    '),
+      '  </支払調書>'
+    );
+  });
+
+  lines.push(
+    '  <合計>',
+    `    <支払金額>${exportData.totalPayments}</支払金額>`,
+    `    <源泉徴収税額>${exportData.totalWithholdingTax}</源泉徴収税額>`,
+    '  </合計>',
+    '</法定調書>'
+  );
+
+  // CRLF like the CSV, for Windows-based e-Tax software
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Download Form 309 XML (.xtx) export to user's computer
+ *
+ * @param receipts Array of receipts to export
+ * @param payees Payee master
+ * @param submitter Form 309 submitter information
+ * @param taxYear Tax year (e.g., "06" for Reiwa 6/2024)
+ */
+export async function downloadForm309XML(
+  receipts: Receipt[],
+  payees: Payee[],
+  submitter: Form309Submitter,
+  taxYear: string
+): Promise<void> {
+  const exportData = buildForm309Export(receipts, payees, submitter, taxYear);
+  const xmlContent = generateForm309XML(exportData);
+
+  const blob = new Blob([xmlContent], {
+    type: 'application/xml;charset=UTF-8',
+  });
+
+  // Generate filename with date
+  const today = new Date().toISOString().split('T')[0];
+  const filename = `支払調書_309_${today}.xtx`;
+
+  // Trigger download
+  saveAs(blob, filename);
+}
@@ -1,12 +1,21 @@
 import { encode } from 'iconv-lite';
 import { saveAs } from 'file-saver';
-import type { Receipt } from '@/types/receipt';
+import type {
+  Form309PreviewEntry,
+  Form309PreviewStatus,
+  Payee,
+  WithholdingCategory,
+} from '@/types/payee';
+import type { ExtractedData, Receipt } from '@/types/receipt';
 import type {
   Form309Submitter,
   Form309PaymentRecord,
   Form309Export,
   Form309ValidationResult,
 } from '@/types/form309';
+import { normalizeName } from '../utils/format';
+import { WITHHOLDING_CATEGORIES, WITHHOLDING_SETTINGS } from '../utils/constants';
+import { getDocumentDirection } from './ledger-mapping';
 
 /**
  * Calculate withholding tax for professional fees (報酬・料金)
@@ -156,37 +165,136 @@ export function transformReceiptToForm309(
 }
 
 /**
- * Aggregate receipts into Form 309 payment records
- * Groups receipts by recipient (issuer) and sums payments
+ * Calculate withholding tax on one payment by 区分
  *
- * @param receipts Array of receipts
- * @returns Array of aggregated payment records
+ * Rules by 区分:
+ * - 原稿料・弁護士報酬 etc.: 10.21% / 20.42% (see calculateWithholdingTax)
+ * - 司法書士・土地家屋調査士: 10.21% of the amount over ¥10,000
+ * - Outside the 支払調書: nothing is withheld
+ *
+ * @param amount Payment amount before withholding
+ * @param category Withholding category (区分)
+ * @returns Withholding tax amount (rounded down to nearest yen)
  */
-export function aggregatePaymentRecords(
-  receipts: Receipt[]
-): Form309PaymentRecord[] {
-  // Group receipts by recipient name
-  const receiptsByRecipient = receipts.reduce(
-    (groups, receipt) => {
-      const recipientName = receipt.extractedData.issuerName;
-      if (!groups[recipientName]) {
-        groups[recipientName] = [];
-      }
-      groups[recipientName].push(receipt);
-      return groups;
-    },
-    {} as Record<string, Receipt[]>
-  );
+export function calculateWithholdingByCategory(
+  amount: number,
+  category: WithholdingCategory
+): number {
+  if (category === 'notSubject') {
+    return 0;
+  }
+
+  if (category === 'judicialScrivener') {
+    // Flat 10.21%, no higher rate over ¥1,000,000
+    const taxable = Math.max(0, amount - WITHHOLDING_SETTINGS.JUDICIAL_SCRIVENER_DEDUCTION);
+    return Math.floor(taxable * 0.1021);
+  }
+
+  return calculateWithholdingTax(amount);
+}
+
+/**
+ * Calculate withholding tax on one payment to a payee
+ * Nothing is withheld on payments to corporations.
+ *
+ * @param amount Payment amount before withholding
+ * @param payee Payee from the payee master
+ * @returns Withholding tax amount (rounded down to nearest yen)
+ */
+export function calculatePayeeWithholding(amount: number, payee: Payee): number {
+  if (payee.payeeType === 'corporation') {
+    return 0;
+  }
+  return calculateWithholdingByCategory(amount, payee.category);
+}
+
+/**
+ * Find the payee a receipt was paid to - by T-number, then by normalized name
+ * Normalizing makes "株式会社ABC" and "(株)ABC" the same payee.
+ *
+ * @param data Receipt data
+ * @param payees Payee master
+ * @returns Matching payee, if any
+ */
+export function findPayee(
+  data: Pick<ExtractedData, 'tNumber' | 'issuerName'>,
+  payees: Payee[]
+): Payee | undefined {
+  if (data.tNumber) {
+    const byTNumber = payees.find((payee) => payee.tNumber === data.tNumber);
+    if (byTNumber) return byTNumber;
+  }
+
+  const name = normalizeName(data.issuerName);
+  if (!name) return undefined;
+  return payees.find((payee) => payee.names.includes(name));
+}
+
+/** Order of the preview: reported payees first */
+const PREVIEW_STATUS_ORDER: Form309PreviewStatus[] = [
+  'reported',
+  'belowThreshold',
+  'notSubject',
+  'corporation',
+  'unregistered',
+];
+
+/**
+ * Group a year's payments by payee and decide who is reported
+ *
+ * Receipts from payees in the master are grouped by payee; receipts from
+ * unregistered vendors are only listed when filed under an outsourcing
+ * category, as candidates to register. Withholding is worked out per
+ * payment, as it is withheld, unless the receipt records the amount.
+ * Fees paid to corporations are listed but not reported.
+ *
+ * @param receipts Receipts of the tax year
+ * @param payees Payee master
+ * @returns One entry per payee, reported payees first
+ */
+export function buildForm309Preview(
+  receipts: Receipt[],
+  payees: Payee[]
+): Form309PreviewEntry[] {
+  // Issued invoices (売上) are not payments, so they never appear on Form 309
+  const groups = new Map<string, { payee?: Payee; receipts: Receipt[] }>();
+
+  receipts.forEach((receipt) => {
+    const data = receipt.extractedData;
+    if (getDocumentDirection(data) === 'income') return;
+
+    const payee = findPayee(data, payees);
+    if (
+      !payee &&
+      !WITHHOLDING_SETTINGS.CANDIDATE_CATEGORIES.includes(data.suggestedCategory)
+    ) {
+      return;
+    }
+
+    const key = payee?.id ?? normalizeName(data.issuerName);
+    if (!key) return;
 
-  // Aggregate payments for each recipient
-  return Object.entries(receiptsByRecipient).map(
-    ([recipientName, receipts]) => {
-      const totalPayment = receipts.reduce(
+    const group = groups.get(key) ?? { payee, receipts: [] };
+    group.receipts.push(receipt);
+    groups.set(key, group);
+  });
+
+  const entries = Array.from(groups.entries()).map(
+    ([key, { payee, receipts }]): Form309PreviewEntry => {
+      const paymentAmount = receipts.reduce(
         (sum, r) => sum + r.extractedData.totalAmount,
         0
       );
-
-      const withholdingTax = calculateWithholdingTax(totalPayment);
+      // The amount recorded on the receipt is what was actually withheld
+      const withholdingTax = payee
+        ? receipts.reduce(
+            (sum, r) =>
+              sum +
+              (r.extractedData.withholding?.amount ??
+                calculatePayeeWithholding(r.extractedData.totalAmount, payee)),
+            0
+          )
+        : 0;
 
       // Use data from the most recent receipt for address/T-number
       const latestReceipt = receipts.reduce((latest, r) =>
@@ -194,19 +302,76 @@ export function aggregatePaymentRecords(
           ? r
           : latest
       );
+      const latest = latestReceipt.extractedData;
+
+      let status: Form309PreviewStatus;
+      if (!payee) {
+        status = 'unregistered';
+      } else if (payee.category === 'notSubject') {
+        status = 'notSubject';
+      } else if (payee.payeeType === 'corporation') {
+        status = 'corporation';
+      } else if (paymentAmount <= WITHHOLDING_SETTINGS.REPORTING_THRESHOLD) {
+        status = 'belowThreshold';
+      } else {
+        status = 'reported';
+      }
 
       return {
-        recipientName,
-        recipientAddress: latestReceipt.extractedData.issuerAddress,
-        recipientTNumber: latestReceipt.extractedData.tNumber || undefined,
-        paymentAmount: totalPayment,
+        key,
+        payee,
+        name: payee?.name ?? latest.issuerName,
+        address: payee?.address || latest.issuerAddress || undefined,
+        tNumber: payee?.tNumber ?? (latest.tNumber || undefined),
+        receiptCount: receipts.length,
+        paymentAmount,
         withholdingTax,
-        paymentDate: latestReceipt.extractedData.transactionDate,
-        paymentDescription: `${receipts.length}件の支払`,
-        paymentCategory: latestReceipt.extractedData.suggestedCategory,
+        latestPaymentDate: latest.transactionDate,
+        status,
       };
     }
   );
+
+  return entries.sort(
+    (a, b) =>
+      PREVIEW_STATUS_ORDER.indexOf(a.status) -
+        PREVIEW_STATUS_ORDER.indexOf(b.status) ||
+      b.paymentAmount - a.paymentAmount
+  );
+}
+
+/**
+ * Aggregate receipts into Form 309 payment records
+ * Only payees over the reporting threshold are included (see buildForm309Preview)
+ *
+ * @param receipts Array of receipts
+ * @param payees Payee master
+ * @returns Array of aggregated payment records
+ */
+export function aggregatePaymentRecords(
+  receipts: Receipt[],
+  payees: Payee[]
+): Form309PaymentRecord[] {
+  return buildForm309Preview(receipts, payees)
+    .filter(
+      (entry): entry is Form309PreviewEntry & { payee: Payee } =>
+        entry.status === 'reported' && !!entry.payee
+    )
+    .map((entry) => ({
+      recipientName: entry.name,
+      recipientAddress: entry.address,
+      recipientTNumber: entry.tNumber,
+      paymentAmount: entry.paymentAmount,
+      withholdingTax: entry.withholdingTax,
+      paymentDate: entry.latestPaymentDate,
+      paymentDescription: `${entry.receiptCount}件の支払`,
+      paymentCategory: WITHHOLDING_CATEGORIES.find(
+        (category) => category.value === entry.payee.category
+      )?.label,
+      paymentDetail: entry.payee.detail,
+      withholdingCategory: entry.payee.category,
+      corporateNumber: entry.payee.corporateNumber,
+    }));
 }
 
 /**
@@ -303,6 +468,9 @@ export function validateForm309PaymentRecord(
   if (record.withholdingTax < 0) {
     errors.push('Withholding tax cannot be negative');
   }
+  if (record.withholdingTax > record.paymentAmount) {
+    errors.push('Withholding tax cannot exceed the payment amount');
+  }
 
   // Validate T-Number format if provided
   if (record.recipientTNumber) {
@@ -317,8 +485,13 @@ export function validateForm309PaymentRecord(
   }
 
   // Verify withholding tax calculation
+  // Records from the payee master are withheld per payment by their 区分, so
+  // only records without one are expected to follow the rate on the total
   const expectedWithholding = calculateWithholdingTax(record.paymentAmount);
-  if (Math.abs(record.withholdingTax - expectedWithholding) > 1) {
+  if (
+    !record.withholdingCategory &&
+    Math.abs(record.withholdingTax - expectedWithholding) > 1
+  ) {
     warnings.push(
       `Withholding tax mismatch: expected ¥${expectedWithholding}, got ¥${record.withholdingTax}`
     );
@@ -392,8 +565,8 @@ export function validateForm309Export(
 }
 
 /**
- * CSV field length limits for Form 309
- * Used for validation before export
+ * Field length limits for Form 309
+ * Used for validation before CSV and XML export
  */
 export const FORM309_FIELD_LIMITS = {
   referenceNumber1: 10,
@@ -402,9 +575,13 @@ export const FORM309_FIELD_LIMITS = {
   submitterName: 30,
   submitterPhone: 15,
   taxYear: 2,
+  correctionIndicator: 1,
   recipientAddress: 60,
   recipientName: 30,
   recipientTNumber: 14, // T + 13 digits
+  corporateNumber: 13,
+  paymentCategory: 30,
+  paymentDetail: 30,
   remarks: 120,
 } as const;
 
@@ -514,21 +691,23 @@ export function generateForm309CSV(exportData: Form309Export): string {
 }
 
 /**
- * Export receipts to Form 309 CSV file with SHIFT-JIS encoding
- * Compatible with Japanese e-Tax system requirements
+ * Build Form 309 export data from receipts
+ * Aggregates payments by recipient and validates the result
  *
  * @param receipts Array of receipts to export
+ * @param payees Payee master
  * @param submitter Form 309 submitter information
  * @param taxYear Tax year (e.g., "06" for Reiwa 6/2024)
- * @returns Promise that resolves to a Blob containing the CSV data
+ * @returns Validated Form 309 export data
  */
-export async function exportToForm309CSV(
+export function buildForm309Export(
   receipts: Receipt[],
+  payees: Payee[],
   submitter: Form309Submitter,
   taxYear: string
-): Promise<Blob> {
-  // Aggregate receipts by recipient
-  const paymentRecords = aggregatePaymentRecords(receipts);
+): Form309Export {
+  // Aggregate receipts by payee
+  const paymentRecords = aggregatePaymentRecords(receipts, payees);
 
   // Calculate totals
   const totalPayments = paymentRecords.reduce(
@@ -564,6 +743,27 @@ export async function exportToForm309CSV(
     );
   }
 
+  return exportData;
+}
+
+/**
+ * Export receipts to Form 309 CSV file with SHIFT-JIS encoding
+ * Compatible with Japanese e-Tax system requirements
+ *
+ * @param receipts Array of receipts to export
+ * @param payees Payee master
+ * @param submitter Form 309 submitter information
+ * @param taxYear Tax year (e.g., "06" for Reiwa 6/2024)
+ * @returns Promise that resolves to a Blob containing the CSV data
+ */
+export async function exportToForm309CSV(
+  receipts: Receipt[],
+  payees: Payee[],
+  submitter: Form309Submitter,
+  taxYear: string
+): Promise<Blob> {
+  const exportData = buildForm309Export(receipts, payees, submitter, taxYear);
+
   // Generate CSV content
   const csvContent = generateForm309CSV(exportData);
 
@@ -582,15 +782,17 @@ export async function exportToForm309CSV(
  * Download Form 309 CSV export to user's computer
  *
  * @param receipts Array of receipts to export
+ * @param payees Payee master
  * @param submitter Form 309 submitter information
  * @param taxYear Tax year (e.g., "06" for Reiwa 6/2024)
  */
 export async function downloadForm309CSV(
   receipts: Receipt[],
+  payees: Payee[],
   submitter: Form309Submitter,
   taxYear: string
 ): Promise<void> {
-  const blob = await exportToForm309CSV(receipts, submitter, taxYear);
+  const blob = await exportToForm309CSV(receipts, payees, submitter, taxYear);
 
   // Generate filename with date
   const today = new Date().toISOString().split('T')[0];
@@ -1,11 +1,11 @@
-import type { ExpenseCategory } from '@/types/receipt';
-import type { LedgerRow } from '@/types/ledger';
+import type { DocumentDirection, ExpenseCategory, ExtractedData } from '@/types/receipt';
+import type { LedgerExpenseColumn, LedgerIncomeColumn, LedgerRow } from '@/types/ledger';
 
 /**
  * Maps Receipt ExpenseCategory to LedgerRow column name
  * Order matches NTA 青色申告決算書 (items 8-31)
  */
-export const CATEGORY_TO_LEDGER_COLUMN: Record<ExpenseCategory, keyof LedgerRow> = {
+export const CATEGORY_TO_LEDGER_COLUMN: Record<ExpenseCategory, LedgerExpenseColumn> = {
   // NTA official categories (items 8-24, 31)
   '租税公課': 'taxes',            // 8
   '荷造運賃': 'packing',          // 9
@@ -31,6 +31,35 @@ export const CATEGORY_TO_LEDGER_COLUMN: Record<ExpenseCategory, keyof LedgerRow>
   '未分類': 'misc',               // Uncategorized → Misc
 };
 
+/**
+ * Maps non-expense document directions to their LedgerRow income column
+ * Expenses use CATEGORY_TO_LEDGER_COLUMN instead
+ */
+export const DIRECTION_TO_LEDGER_COLUMN: Record<Exclude<DocumentDirection, 'expense'>, LedgerIncomeColumn> = {
+  income: 'sales',       // 売上
+  purchase: 'purchases', // 仕入
+};
+
+/**
+ * Returns the document direction, treating records saved before
+ * directions existed as expenses
+ */
+export function getDocumentDirection(data: Pick<ExtractedData, 'direction'>): DocumentDirection {
+  return data.direction ?? 'expense';
+}
+
+/**
+ * Returns the account label used to group a receipt in summaries:
+ * 売上 / 仕入 for income and purchases, otherwise the expense category
+ */
+export function getAccountLabel(data: Pick<ExtractedData, 'direction' | 'suggestedCategory'>): string {
+  const direction = getDocumentDirection(data);
+  if (direction === 'expense') {
+    return data.suggestedCategory;
+  }
+  return LEDGER_COLUMN_TO_LABEL[DIRECTION_TO_LEDGER_COLUMN[direction]];
+}
+
 /**
  * Reverse mapping: LedgerRow column → Japanese category name
  * Used for displaying column headers in Japanese
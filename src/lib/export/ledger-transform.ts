@@ -1,27 +1,48 @@
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
 import type { Receipt } from '@/types/receipt';
 import type { LedgerRow, LedgerSubtotal, LedgerSheet, LedgerExport } from '@/types/ledger';
-import { CATEGORY_TO_LEDGER_COLUMN, EXPENSE_COLUMNS_ORDER } from './ledger-mapping';
+import {
+  CATEGORY_TO_LEDGER_COLUMN,
+  DIRECTION_TO_LEDGER_COLUMN,
+  EXPENSE_COLUMNS_ORDER,
+  getDocumentDirection,
+} from './ledger-mapping';
+import { getExportRows } from './allocations';
+import { isBookedAsFixedAsset } from '../depreciation/schedule';
+import { describeConversion } from '../currency/exchange';
+import { describeVoucher } from '../vouchers/voucher';
 
 /**
  * Transforms receipts into NTA ledger format
  *
+ * Receipts registered as fixed assets are left out: their cost is booked as
+ * 減価償却費 through the depreciation schedule instead.
+ *
  * @param receipts - Array of Receipt objects to transform
+ * @param depreciation - The year's depreciation schedule (getDepreciationSchedule)
  * @returns Complete ledger export structure
  */
-export function transformReceiptsToLedger(receipts: Receipt[]): LedgerExport {
+export function transformReceiptsToLedger(
+  receipts: Receipt[],
+  depreciation: DepreciationScheduleRow[] = []
+): LedgerExport {
   // Filter out receipts with invalid/missing dates
   const validReceipts = receipts.filter(r => {
     const d = new Date(r.extractedData.transactionDate);
     return r.extractedData.transactionDate && !isNaN(d.getTime());
   });
+  const expensedReceipts = validReceipts.filter(r => !isBookedAsFixedAsset(r.extractedData));
 
   // Sort receipts by date (oldest first)
-  const sortedReceipts = [...validReceipts].sort(
+  const sortedReceipts = [...expensedReceipts].sort(
     (a, b) => new Date(a.extractedData.transactionDate).getTime() - new Date(b.extractedData.transactionDate).getTime()
   );
 
-  // Convert receipts to ledger rows
-  const ledgerRows: LedgerRow[] = sortedReceipts.map(receiptToLedgerRow);
+  // Convert receipts to ledger rows (one row per allocation, business share only)
+  const ledgerRows: LedgerRow[] = getExportRows(sortedReceipts).map(receiptToLedgerRow);
+
+  // Year-end depreciation entries (決算整理) come last
+  ledgerRows.push(...depreciation.filter(d => d.deductible > 0).map(depreciationToLedgerRow));
 
   // Calculate date range
   const dateRange = calculateDateRange(sortedReceipts);
@@ -61,8 +82,7 @@ function receiptToLedgerRow(receipt: Receipt): LedgerRow {
   const { extractedData } = receipt;
   const date = new Date(extractedData.transactionDate);
 
-  // Get the ledger column for this category
-  const categoryColumn = CATEGORY_TO_LEDGER_COLUMN[extractedData.suggestedCategory];
+  const direction = getDocumentDirection(extractedData);
 
   // Base row structure
   const row: LedgerRow = {
@@ -75,33 +95,69 @@ function receiptToLedgerRow(receipt: Receipt): LedgerRow {
     tNumber: extractedData.tNumber || undefined,
   };
 
-  // Populate the appropriate expense column
-  // For receipts, we only populate expense columns (not sales/purchases)
-  if (categoryColumn !== 'sales' && categoryColumn !== 'purchases' && categoryColumn !== 'miscIncome') {
-    (row as any)[categoryColumn] = extractedData.totalAmount;
-  } else {
-    // Edge case: if category somehow maps to income column, default to misc
-    row.misc = extractedData.totalAmount;
+  // Income and purchases go to the 売上 / 仕入 columns
+  if (direction !== 'expense') {
+    row[DIRECTION_TO_LEDGER_COLUMN[direction]] = extractedData.totalAmount;
+    return row;
   }
 
+  // Populate the expense column for this category
+  row[CATEGORY_TO_LEDGER_COLUMN[extractedData.suggestedCategory]] = extractedData.totalAmount;
+
   return row;
 }
 
+/**
+ * Books one asset's depreciation for the year on 12/31
+ */
+function depreciationToLedgerRow(entry: DepreciationScheduleRow): LedgerRow {
+  const date = new Date(entry.year, 11, 31);
+
+  return {
+    year: entry.year,
+    month: 12,
+    day: 31,
+    date,
+    description: `減価償却費 - ${entry.asset.name}`,
+    depreciation: entry.deductible,
+    receiptId: entry.receipt.id,
+  };
+}
+
 /**
  * Formats receipt description for ledger entry
- * Combines issuer name and transaction description
+ * Combines counterparty name, transaction description, currency conversion and
+ * the 出金伝票 note
+ * (for issued invoices the counterparty is the recipient, not the issuer)
  */
 function formatDescription(extractedData: Receipt['extractedData']): string {
   const parts: string[] = [];
 
-  if (extractedData.issuerName) {
-    parts.push(extractedData.issuerName);
+  const counterparty =
+    getDocumentDirection(extractedData) === 'income' && extractedData.recipientName
+      ? extractedData.recipientName
+      : extractedData.issuerName;
+
+  if (counterparty) {
+    parts.push(counterparty);
   }
 
-  if (extractedData.description && extractedData.description !== extractedData.issuerName) {
+  if (extractedData.description && extractedData.description !== counterparty) {
     parts.push(extractedData.description);
   }
 
+  // Foreign-currency documents note the original amount and the rate used
+  const conversion = describeConversion(extractedData);
+  if (conversion) {
+    parts.push(conversion);
+  }
+
+  // Payments without a receipt are marked with the reason
+  const voucher = describeVoucher(extractedData);
+  if (voucher) {
+    parts.push(voucher);
+  }
+
   return parts.join(' - ') || '（記載なし）';
 }
 
@@ -1,5 +1,6 @@
 import ExcelJS from 'exceljs';
 import { saveAs } from 'file-saver';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
 import type { Receipt } from '@/types/receipt';
 import type { Language } from '../i18n/translations';
 import type { LedgerRow, LedgerSubtotal } from '@/types/ledger';
@@ -128,11 +129,16 @@ const LEDGER_EXCEL_FORMAT = {
  *
  * @param receipts - Array of receipts to export
  * @param lang - Language for interface (currently only 'ja' supported)
+ * @param depreciation - The year's depreciation schedule, booked as 減価償却費
  * @returns Promise that resolves when export is complete
  */
-export async function exportToLedgerExcel(receipts: Receipt[], lang: Language = 'ja'): Promise<void> {
+export async function exportToLedgerExcel(
+  receipts: Receipt[],
+  lang: Language = 'ja',
+  depreciation: DepreciationScheduleRow[] = []
+): Promise<void> {
   // Transform receipts to ledger structure
-  const ledgerData = transformReceiptsToLedger(receipts);
+  const ledgerData = transformReceiptsToLedger(receipts, depreciation);
 
   // Create workbook
   const workbook = new ExcelJS.Workbook();
@@ -439,6 +445,21 @@ function addGrandTotal(sheet: ExcelJS.Worksheet, grandTotal: LedgerSubtotal): vo
       right: { style: 'thin' },
     };
   });
+
+  // Net amount row: (売上 + 雑収入等) − 仕入 − 経費
+  const netRow = sheet.getRow(rowNum + 1);
+  netRow.getCell(1).value = '差引金額（売上・雑収入等 − 仕入 − 経費）';
+  sheet.mergeCells(rowNum + 1, 1, rowNum + 1, 4);
+
+  const netCell = netRow.getCell(5);
+  netCell.value = grandTotal.netAmount;
+  netCell.numFmt = LEDGER_EXCEL_FORMAT.NUMBER_FORMAT.currency;
+  netCell.alignment = { horizontal: LEDGER_EXCEL_FORMAT.ALIGNMENT.amount };
+
+  netRow.font = LEDGER_EXCEL_FORMAT.GRAND_TOTAL_ROW.font;
+  netRow.eachCell((cell) => {
+    cell.border = LEDGER_EXCEL_FORMAT.DATA_ROW.border;
+  });
 }
 
 /**
@@ -0,0 +1,113 @@
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+import type { Receipt } from '@/types/receipt';
+import { isBookedAsFixedAsset } from '../depreciation/schedule';
+import { getExportRows } from './allocations';
+import { getAccountLabel, getDocumentDirection } from './ledger-mapping';
+
+/**
+ * Category totals (集計) for the summary exports
+ *
+ * Amounts come from the booked rows: split receipts count once in each
+ * category they are allocated to, 家事按分 is applied, and unconverted
+ * foreign-currency receipts are left out. Fixed assets are booked like the
+ * ledger does: their cost is replaced by the year's 減価償却費.
+ */
+
+export interface SummaryTotals {
+  count: number;
+  tax8Subtotal: number;
+  tax8Amount: number;
+  tax8Total: number;
+  tax10Subtotal: number;
+  tax10Amount: number;
+  tax10Total: number;
+  total: number;
+}
+
+export interface CategorySummary {
+  /** Totals by account label (勘定科目), in order of first appearance */
+  categories: Record<string, SummaryTotals>;
+  /** Expenses and purchases */
+  payments: SummaryTotals;
+  /** Income (売上), totalled separately so it doesn't offset expenses; null when none is booked */
+  income: SummaryTotals | null;
+}
+
+function emptyTotals(): SummaryTotals {
+  return { count: 0, tax8Subtotal: 0, tax8Amount: 0, tax8Total: 0, tax10Subtotal: 0, tax10Amount: 0, tax10Total: 0, total: 0 };
+}
+
+function addRow(totals: SummaryTotals, receipt: Receipt): void {
+  totals.count++;
+  totals.total += receipt.extractedData.totalAmount;
+
+  receipt.extractedData.taxBreakdown.forEach((tb) => {
+    if (tb.taxRate === 8) {
+      totals.tax8Subtotal += tb.subtotal;
+      totals.tax8Amount += tb.taxAmount;
+      totals.tax8Total += tb.total;
+    } else if (tb.taxRate === 10) {
+      totals.tax10Subtotal += tb.subtotal;
+      totals.tax10Amount += tb.taxAmount;
+      totals.tax10Total += tb.total;
+    }
+  });
+}
+
+/**
+ * A year's depreciation as a receipt-shaped 減価償却費 row (business share, no tax)
+ */
+function depreciationToRow(entry: DepreciationScheduleRow): Receipt {
+  return {
+    ...entry.receipt,
+    extractedData: {
+      ...entry.receipt.extractedData,
+      direction: 'expense',
+      suggestedCategory: '減価償却費',
+      subtotalExcludingTax: entry.deductible,
+      taxBreakdown: [],
+      totalAmount: entry.deductible,
+      allocations: undefined,
+      businessRatio: undefined,
+    },
+  };
+}
+
+/**
+ * Rows as they are booked for the year, fixed assets replaced by their depreciation
+ *
+ * @param depreciation - The year's depreciation schedule (getDepreciationSchedule)
+ */
+export function getBookedRows(receipts: Receipt[], depreciation: DepreciationScheduleRow[] = []): Receipt[] {
+  return [
+    ...getExportRows(receipts.filter((receipt) => !isBookedAsFixedAsset(receipt.extractedData))),
+    ...depreciation.filter((entry) => entry.deductible > 0).map(depreciationToRow),
+  ];
+}
+
+/**
+ * Total the booked rows by account label, with payment and income totals
+ *
+ * @param depreciation - The year's depreciation schedule (getDepreciationSchedule)
+ */
+export function summarizeByCategory(
+  receipts: Receipt[],
+  depreciation: DepreciationScheduleRow[] = []
+): CategorySummary {
+  const summary: CategorySummary = { categories: {}, payments: emptyTotals(), income: null };
+
+  for (const receipt of getBookedRows(receipts, depreciation)) {
+    const label = getAccountLabel(receipt.extractedData);
+    if (!summary.categories[label]) summary.categories[label] = emptyTotals();
+    addRow(summary.categories[label], receipt);
+
+    if (getDocumentDirection(receipt.extractedData) === 'income') {
+      if (!summary.income) summary.income = emptyTotals();
+      addRow(summary.income, receipt);
+    } else {
+      addRow(summary.payments, receipt);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,275 @@
+import ExcelJS from 'exceljs';
+import { saveAs } from 'file-saver';
+import type {
+  IncomeExpenseStatement,
+  InventoryAmounts,
+  MiscExpenseEntry,
+  WhiteReturnExpenseLine,
+  WhiteReturnIssue,
+} from '@/types/financial-statement';
+import type { DepreciationScheduleRow } from '@/types/fixed-asset';
+import type { LedgerRow } from '@/types/ledger';
+import type { Receipt } from '@/types/receipt';
+import { isBookedAsFixedAsset } from '../depreciation/schedule';
+import { getExportRows } from './allocations';
+import { FORM_BORDER, type FormLine, formatItemNumber, writeFormColumn } from './blue-return';
+import { formatTaxYear } from './form309';
+import {
+  CATEGORY_TO_LEDGER_COLUMN,
+  EXPENSE_COLUMNS_ORDER,
+  LEDGER_COLUMN_TO_LABEL,
+  getDocumentDirection,
+} from './ledger-mapping';
+import { transformReceiptsToLedger } from './ledger-transform';
+
+/**
+ * 収支内訳書（一般用） page 1 for white return filers
+ *
+ * Built from the same ledger totals as the 青色申告決算書, rearranged into
+ * the white form's order: six expense items of their own (⑪〜⑯), then the
+ * rest as ⑰ その他の経費 イ〜カ with a subtotal (ヨ).
+ */
+
+/** Items ⑪〜⑯ in form order */
+const MAIN_EXPENSE_COLUMNS: (keyof LedgerRow)[] = [
+  'salaries', // ⑪ 給料賃金
+  'outsourcing', // ⑫ 外注工賃
+  'depreciation', // ⑬ 減価償却費
+  'badDebts', // ⑭ 貸倒金
+  'rent', // ⑮ 地代家賃
+  'interest', // ⑯ 利子割引料
+];
+
+/** ⑰ その他の経費 in form order (ヲ・ワ are blank lines for own items) */
+const OTHER_EXPENSE_COLUMNS: { mark: string; column: keyof LedgerRow }[] = [
+  { mark: 'イ', column: 'taxes' },
+  { mark: 'ロ', column: 'packing' },
+  { mark: 'ハ', column: 'utilities' },
+  { mark: 'ニ', column: 'travel' },
+  { mark: 'ホ', column: 'communication' },
+  { mark: 'ヘ', column: 'advertising' },
+  { mark: 'ト', column: 'entertainment' },
+  { mark: 'チ', column: 'insurance' },
+  { mark: 'リ', column: 'repairs' },
+  { mark: 'ヌ', column: 'consumables' },
+  { mark: 'ル', column: 'welfare' },
+  { mark: 'カ', column: 'misc' },
+];
+
+/** First item number on the right half of the form */
+const RIGHT_COLUMN_FIRST_ITEM = 17;
+
+/** Category names printed on the form */
+const FORM_CATEGORY_LABELS = new Set(EXPENSE_COLUMNS_ORDER.map((column) => LEDGER_COLUMN_TO_LABEL[column]));
+
+/**
+ * Expense categories without a line of their own on the form
+ */
+function findWhiteReturnIssues(receipts: Receipt[]): WhiteReturnIssue[] {
+  const issues = new Map<string, WhiteReturnIssue>();
+
+  for (const row of getExportRows(receipts)) {
+    const data = row.extractedData;
+    if (getDocumentDirection(data) !== 'expense') continue;
+    // Fixed assets are booked as 減価償却費 whatever their category
+    if (isBookedAsFixedAsset(data)) continue;
+
+    const category = data.suggestedCategory;
+    if (FORM_CATEGORY_LABELS.has(category)) continue;
+
+    let issue = issues.get(category);
+    if (!issue) {
+      const column = CATEGORY_TO_LEDGER_COLUMN[category];
+      issue = column
+        ? { type: 'merged', category, mergedInto: LEDGER_COLUMN_TO_LABEL[column], count: 0, amount: 0 }
+        : { type: 'excluded', category, count: 0, amount: 0 };
+      issues.set(category, issue);
+    }
+    issue.count++;
+    issue.amount += data.totalAmount;
+  }
+
+  return Array.from(issues.values());
+}
+
+/**
+ * Build the 収支内訳書 for a year
+ *
+ * @param receipts - The year's receipts
+ * @param inventory - 期首・期末商品棚卸高 entered by the user
+ * @param depreciation - The year's depreciation schedule (⑬ 減価償却費)
+ */
+export function buildIncomeExpenseStatement(
+  year: number,
+  receipts: Receipt[],
+  inventory: InventoryAmounts,
+  depreciation: DepreciationScheduleRow[] = []
+): IncomeExpenseStatement {
+  const { rows, grandTotal } = transformReceiptsToLedger(receipts, depreciation).ledger;
+  const columnTotal = (column: keyof LedgerRow) =>
+    (grandTotal[column as keyof typeof grandTotal] as number | undefined) ?? 0;
+
+  const sales = grandTotal.sales ?? 0;
+  const otherIncome = grandTotal.miscIncome ?? 0;
+  const totalIncome = sales + otherIncome;
+  const purchases = grandTotal.purchases ?? 0;
+  const costSubtotal = inventory.opening + purchases;
+  const costOfSales = costSubtotal - inventory.closing;
+  const grossProfit = totalIncome - costOfSales;
+
+  const expenses: WhiteReturnExpenseLine[] = MAIN_EXPENSE_COLUMNS.map((column, index) => ({
+    mark: formatItemNumber(11 + index),
+    column,
+    label: LEDGER_COLUMN_TO_LABEL[column],
+    amount: columnTotal(column),
+  }));
+  const otherExpenses: WhiteReturnExpenseLine[] = OTHER_EXPENSE_COLUMNS.map(({ mark, column }) => ({
+    mark,
+    column,
+    label: LEDGER_COLUMN_TO_LABEL[column],
+    amount: columnTotal(column),
+  }));
+
+  const otherExpensesSubtotal = otherExpenses.reduce((sum, line) => sum + line.amount, 0);
+  const totalExpenses = expenses.reduce((sum, line) => sum + line.amount, otherExpensesSubtotal);
+  const netIncome = grossProfit - totalExpenses;
+
+  const miscBreakdown: MiscExpenseEntry[] = rows
+    .filter((row) => row.misc)
+    .map((row) => ({ date: row.date, description: row.description, amount: row.misc ?? 0 }));
+
+  return {
+    year,
+    sales,
+    householdConsumption: 0,
+    otherIncome,
+    totalIncome,
+    openingInventory: inventory.opening,
+    purchases,
+    costSubtotal,
+    closingInventory: inventory.closing,
+    costOfSales,
+    grossProfit,
+    expenses,
+    otherExpenses,
+    otherExpensesSubtotal,
+    totalExpenses,
+    netIncome,
+    // No 専従者控除 is tracked, so ㉑ = ⑲
+    income: netIncome,
+    miscBreakdown,
+    issues: findWhiteReturnIssues(receipts),
+  };
+}
+
+function getFormLines(statement: IncomeExpenseStatement): FormLine[] {
+  const otherLines: FormLine[] = statement.otherExpenses.map((line) => ({
+    number: 17,
+    mark: line.mark,
+    label: line.label,
+    amount: line.amount,
+  }));
+  // ヲ・ワ go between ル 福利厚生費 and カ 雑費
+  otherLines.splice(
+    otherLines.length - 1,
+    0,
+    { number: 17, mark: 'ヲ', label: '', amount: null },
+    { number: 17, mark: 'ワ', label: '', amount: null }
+  );
+  otherLines[0].heading = `${formatItemNumber(17)} その他の経費`;
+
+  return [
+    { heading: '収入金額', number: 1, label: '売上（収入）金額', amount: statement.sales },
+    { number: 2, label: '家事消費', amount: statement.householdConsumption },
+    { number: 3, label: 'その他の収入', amount: statement.otherIncome },
+    { number: 4, label: '計（①＋②＋③）', amount: statement.totalIncome },
+    { heading: '売上原価', number: 5, label: '期首商品（製品）棚卸高', amount: statement.openingInventory },
+    { number: 6, label: '仕入金額（製品製造原価）', amount: statement.purchases },
+    { number: 7, label: '小計（⑤＋⑥）', amount: statement.costSubtotal },
+    { number: 8, label: '期末商品（製品）棚卸高', amount: statement.closingInventory },
+    { number: 9, label: '差引原価（⑦−⑧）', amount: statement.costOfSales },
+    { number: 10, label: '差引金額（④−⑨）', amount: statement.grossProfit },
+    ...statement.expenses.map((line, index) => ({
+      heading: index === 0 ? '経費' : undefined,
+      number: 11 + index,
+      label: line.label,
+      amount: line.amount,
+    })),
+    ...otherLines,
+    { number: 17, mark: 'ヨ', label: '小計（イ〜カ）', amount: statement.otherExpensesSubtotal },
+    { number: 18, label: '経費計（⑪〜⑯＋ヨ）', amount: statement.totalExpenses },
+    { number: 19, label: '差引金額（⑩−⑱）', amount: statement.netIncome },
+    { number: 20, label: '専従者控除', amount: null },
+    { number: 21, label: '所得金額（⑲−⑳）', amount: statement.income },
+  ];
+}
+
+/**
+ * Export the 収支内訳書 as an Excel workbook in the two-column layout of the
+ * form, with the 雑費 breakdown on a second sheet
+ */
+export async function exportIncomeExpenseExcel(statement: IncomeExpenseStatement): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Japanese Tax Helper';
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('収支内訳書', {
+    pageSetup: { paperSize: 9, orientation: 'portrait', fitToPage: true, fitToWidth: 1 },
+  });
+  sheet.columns = [
+    { width: 5 },
+    { width: 30 },
+    { width: 14 },
+    { width: 2 },
+    { width: 5 },
+    { width: 30 },
+    { width: 14 },
+  ];
+
+  const titleCell = sheet.getCell('A1');
+  titleCell.value = `令和${Number(formatTaxYear(statement.year))}年分 収支内訳書（一般用）`;
+  titleCell.font = { name: 'MS Gothic', size: 14, bold: true };
+  sheet.mergeCells('A1:G1');
+
+  const periodCell = sheet.getCell('A2');
+  periodCell.value = '自 1月1日 至 12月31日（単位：円）';
+  periodCell.font = { name: 'MS Gothic', size: 9 };
+  sheet.mergeCells('A2:G2');
+
+  const lines = getFormLines(statement);
+  writeFormColumn(sheet, lines.filter((line) => line.number < RIGHT_COLUMN_FIRST_ITEM), 1);
+  writeFormColumn(sheet, lines.filter((line) => line.number >= RIGHT_COLUMN_FIRST_ITEM), 5);
+
+  const miscSheet = workbook.addWorksheet('雑費内訳');
+  miscSheet.columns = [
+    { header: '月日', key: 'date', width: 12 },
+    { header: '摘要', key: 'description', width: 48 },
+    { header: '金額', key: 'amount', width: 14 },
+  ];
+  for (const entry of statement.miscBreakdown) {
+    miscSheet.addRow({
+      date: `${entry.date.getMonth() + 1}/${entry.date.getDate()}`,
+      description: entry.description,
+      amount: entry.amount,
+    });
+  }
+  const miscTotalRow = miscSheet.addRow({
+    description: '合計（カ 雑費）',
+    amount: statement.otherExpenses.find((line) => line.column === 'misc')?.amount ?? 0,
+  });
+  miscTotalRow.font = { bold: true };
+
+  miscSheet.getRow(1).font = { bold: true };
+  miscSheet.getColumn('amount').numFmt = '#,##0;[Red]-#,##0';
+  miscSheet.eachRow((row) => {
+    row.eachCell({ includeEmpty: true }, (cell) => {
+      cell.border = FORM_BORDER;
+    });
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  saveAs(blob, `収支内訳書_${statement.year}.xlsx`);
+}
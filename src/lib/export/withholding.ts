@@ -0,0 +1,110 @@
+import ExcelJS from 'exceljs';
+import { saveAs } from 'file-saver';
+import type { RemittanceSlip } from '@/types/withholding';
+import { WITHHOLDING_CATEGORIES } from '../utils/constants';
+import { getNetPayment, REMITTANCE_FORM_LABELS } from '../withholding/remittance';
+import { FORM_BORDER } from './blue-return';
+
+/**
+ * 源泉所得税の納付書 summary: what to write on each 納付書 of the year,
+ * with the payments behind it
+ */
+
+const YEN_FORMAT = '#,##0;[Red]-#,##0';
+
+/**
+ * 納付書 period as written on the form (e.g. "3月分", "1月〜6月分")
+ */
+export function formatRemittancePeriod(slip: RemittanceSlip): string {
+  return slip.startMonth === slip.endMonth
+    ? `${slip.startMonth}月分`
+    : `${slip.startMonth}月〜${slip.endMonth}月分`;
+}
+
+function styleSheet(sheet: ExcelJS.Worksheet, amountColumns: string[]): void {
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE0E0E0' } };
+
+  for (const key of amountColumns) {
+    sheet.getColumn(key).numFmt = YEN_FORMAT;
+  }
+  sheet.eachRow((row) => {
+    row.eachCell({ includeEmpty: true }, (cell) => {
+      cell.border = FORM_BORDER;
+    });
+  });
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+/**
+ * Export the year's 納付書 with the payments on each
+ *
+ * @param slips - getRemittanceSlips for the year
+ */
+export async function exportRemittanceSummary(year: number, slips: RemittanceSlip[]): Promise<void> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'Japanese Tax Helper';
+  workbook.created = new Date();
+
+  const summary = workbook.addWorksheet('納付書');
+  summary.columns = [
+    { header: '納付書', key: 'form', width: 44 },
+    { header: '期間', key: 'period', width: 14 },
+    { header: '納期限', key: 'dueDate', width: 12 },
+    { header: '人員', key: 'payees', width: 6 },
+    { header: '支給額', key: 'gross', width: 14 },
+    { header: '税額', key: 'tax', width: 12 },
+    { header: '納付日', key: 'paidOn', width: 12 },
+  ];
+  for (const slip of slips) {
+    summary.addRow({
+      form: REMITTANCE_FORM_LABELS[slip.form],
+      period: `${slip.year}年${formatRemittancePeriod(slip)}`,
+      dueDate: slip.dueDate,
+      payees: slip.payeeCount,
+      gross: slip.grossAmount,
+      tax: slip.taxAmount,
+      paidOn: slip.paidOn ?? '',
+    });
+  }
+  const totalRow = summary.addRow({
+    form: '合計',
+    gross: slips.reduce((sum, slip) => sum + slip.grossAmount, 0),
+    tax: slips.reduce((sum, slip) => sum + slip.taxAmount, 0),
+  });
+  totalRow.font = { bold: true };
+  styleSheet(summary, ['gross', 'tax']);
+
+  const detail = workbook.addWorksheet('支払明細');
+  detail.columns = [
+    { header: '支払年月日', key: 'date', width: 12 },
+    { header: '支払先', key: 'payee', width: 28 },
+    { header: '区分', key: 'category', width: 30 },
+    { header: '支払金額', key: 'gross', width: 13 },
+    { header: '源泉徴収税額', key: 'tax', width: 13 },
+    { header: '差引支払額', key: 'net', width: 13 },
+    { header: '納付書の期間', key: 'period', width: 14 },
+  ];
+  for (const slip of slips) {
+    for (const receipt of slip.receipts) {
+      const data = receipt.extractedData;
+      detail.addRow({
+        date: data.withholding?.paymentDate,
+        payee: data.issuerName,
+        category: WITHHOLDING_CATEGORIES.find((c) => c.value === data.withholding?.category)?.label,
+        gross: data.totalAmount,
+        tax: data.withholding?.amount ?? 0,
+        net: getNetPayment(data),
+        period: formatRemittancePeriod(slip),
+      });
+    }
+  }
+  styleSheet(detail, ['gross', 'tax', 'net']);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+  saveAs(blob, `源泉所得税納付書_${year}.xlsx`);
+}
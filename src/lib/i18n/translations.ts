@@ -53,6 +53,15 @@ export const translations = {
     upload_click_to_retry: 'クリックして再試行',
     upload_camera_button: 'カメラで撮影',
     upload_review_first: '次の領収書を確認',
+    upload_pdf_mode_title: 'PDFの取り込み方法',
+    upload_pdf_mode_message: '「{name}」は{count}ページあります。取り込み方法を選択してください。',
+    upload_pdf_per_page: '1ページ = 1枚の領収書',
+    upload_pdf_per_page_hint: 'Amazonの請求書まとめなど、ページごとに別の取引の場合',
+    upload_pdf_whole: '全ページで1枚の領収書',
+    upload_pdf_whole_hint: '公共料金の請求書など、複数ページで1つの取引の場合',
+    upload_pdf_whole_too_many: '{max}ページまでの書類で使えます（それ以上は文字が小さくなり読み取れません）',
+    upload_pdf_rendering: 'PDFを読み込み中...',
+    upload_pdf_render_failed: 'PDFを読み込めませんでした: {name}',
 
     // Dashboard
     dashboard_title: '領収書詳細',
@@ -96,14 +105,23 @@ export const translations = {
     // Bulk actions
     bulk_approve: '{count}件を承認',
     bulk_delete: '{count}件を削除',
-    bulk_delete_confirm: '{count}件の領収書を削除してもよろしいですか？この操作は元に戻せません。',
+    bulk_locked_hint: '締め済みの年分の領収書が含まれているため実行できません',
+    bulk_delete_confirm: '{count}件の領収書を削除してもよろしいですか？削除した領収書はゴミ箱から元に戻せます。',
 
     // Receipt fields
     field_issuer_name: '発行者名',
     field_date: '取引年月日',
     field_tnumber: '登録番号 (T-Number)',
     field_total_amount: '合計金額',
+    field_currency: '通貨',
+    field_original_amount: '外貨金額',
+    field_exchange_rate: '換算レート',
+    field_voucher: '出金伝票',
     field_category: '勘定科目',
+    field_direction: '取引区分',
+    direction_expense: '経費',
+    direction_income: '売上',
+    direction_purchase: '仕入',
     field_tax_rate: '適用税率',
     field_verify: '確認',
     field_missing_value: '値がありません',
@@ -155,6 +173,8 @@ export const translations = {
     image_pan_left: '左へ移動',
     image_pan_right: '右へ移動',
     image_reset: 'リセット',
+    image_prev_page: '前のページ',
+    image_next_page: '次のページ',
     image_hover_to_zoom: 'ホバーで拡大',
     image_fullscreen: '全画面表示',
     image_exit_fullscreen: '全画面終了',
@@ -183,11 +203,12 @@ export const translations = {
     // Export
     exporting: 'エクスポート中...',
     export_error: 'エクスポートに失敗しました。もう一度お試しください。',
+    export_unconverted_confirm: '円に換算していない外貨の領収書が{count}件あります。これらは金額・消費税の集計から除外されます。このままエクスポートしますか？',
     export_excel: 'Excel形式',
     export_csv: 'CSV形式 (e-Tax対応)',
     export_csv_summary: 'CSV集計 (e-Tax対応)',
     export_ledger: '帳簿形式Excel',
-    export_form309: 'Form 309 CSV (支払調書)',
+    export_form309: 'Form 309 CSV/XML (支払調書)',
     export_ledger_description: '国税庁の帳簿様式例に準拠',
     export_form309_description: '報酬・料金等の支払調書（e-Tax形式）',
 
@@ -202,12 +223,151 @@ export const translations = {
     export_ledger_tooltip_casual: '💡 自分で確定申告する人はこれ。税務署に提出する帳簿の形式です。',
     export_form309_tooltip: '報酬、料金、契約金及び賞金の支払調書（法定調書の種類：309）。外部の専門家や個人事業主へ報酬を支払った場合に、e-TaxまたはCD・DVDで提出する法定調書です。',
     export_form309_tooltip_casual: '💡 フリーランスに仕事を依頼した人向け。年間5万円以上払った場合に必要です。',
+    export_withholding: '源泉所得税 納付書',
+    export_withholding_description: '月別・半期別の納付額と納期限',
+    export_withholding_tooltip: '源泉徴収した所得税を、支払った月の翌月10日（納期の特例は7月10日・1月20日）までに納付書で納めます。月別・半期別の税額と人員をまとめ、Excelで出力します。',
+    export_withholding_tooltip_casual: '💡 報酬から源泉徴収した人向け。天引きした税金は期限までに税務署へ納めます。',
     submitter_settings: '提出者情報',
     submitter_name: '提出義務者の氏名',
     submitter_address: '提出義務者の住所',
     submitter_phone: '電話番号',
     submitter_reference_number: '整理番号',
     form309_warning: '支払調書には提出者情報が必要です',
+    form309_export_csv: 'CSV形式',
+    form309_export_xtx: 'XML形式 (.xtx)',
+    form309_export_xtx_hint: 'e-Taxソフトに取り込める法定調書XML形式で保存します',
+    form309_title: '{year}年分 支払調書（309）',
+    form309_description: '支払先マスタの区分ごとに源泉徴収税額を計算し、年間の支払額が{threshold}を超える個人の支払先を提出対象にします（法人は提出不要）。',
+    form309_submitter_required: '提出者名と住所は必須項目です',
+    form309_preview_title: '提出対象のプレビュー',
+    form309_preview_empty: 'この年分に支払先マスタの支払先や外注工賃の支払はありません。',
+    form309_payment_amount: '支払金額',
+    form309_withholding: '源泉徴収税額',
+    form309_status: '判定',
+    form309_receipt_count: '{count}件',
+    form309_register_as: '未登録 - 区分を選んで登録',
+    form309_status_reported: '提出',
+    form309_status_belowThreshold: '提出不要',
+    form309_status_notSubject: '対象外',
+    form309_status_corporation: '提出不要（法人）',
+    form309_status_unregistered: '未登録',
+    form309_reason_reported: '年間の支払額が{threshold}を超えています',
+    form309_reason_belowThreshold: '年間の支払額が{threshold}以下です',
+    form309_reason_notSubject: '区分が源泉徴収・支払調書の対象外です',
+    form309_reason_corporation: '法人への報酬・料金は支払調書の提出対象外です',
+    form309_reason_unregistered: '外注工賃の支払先です。区分を選ぶと支払先マスタに登録されます',
+    form309_reported_summary: '提出 {count}件 / 支払金額 {amount} / 源泉徴収税額 {withholding}',
+
+    // Payee master
+    payee_title: '支払先マスタ（支払調書）',
+    payee_description: '報酬・料金を支払った相手と区分を登録します。表記ゆれ（株式会社ABC・(株)ABC）は同じ支払先にまとめられ、区分に応じて源泉徴収税額を計算します。',
+    payee_empty: '支払先はまだ登録されていません。支払調書のプレビューから外注工賃の支払先を登録することもできます。',
+    payee_name: '氏名又は名称',
+    payee_address: '住所',
+    payee_address_placeholder: '空欄なら領収書の住所',
+    payee_type: '個人・法人',
+    payee_type_individual: '個人',
+    payee_type_corporation: '法人',
+    payee_number: '個人番号・法人番号',
+    payee_my_number_placeholder: '（e-Taxソフトで入力）',
+    payee_my_number_note: '個人番号（マイナンバー）は保存しません。提出時にe-Taxソフトで入力してください。',
+    payee_category: '区分',
+    payee_detail: '細目',
+    payee_detail_placeholder: '顧問料など',
+    payee_add: '支払先を追加',
+    payee_delete_confirm: '「{name}」を支払先マスタから削除しますか？',
+    payee_category_manuscript: '原稿料・デザイン料・講演料等',
+    payee_category_professional: '弁護士・税理士等の報酬',
+    payee_category_judicialScrivener: '司法書士・土地家屋調査士の報酬',
+    payee_category_notSubject: '源泉徴収の対象外（外注工賃など）',
+    withholding_title: '源泉徴収',
+    withholding_description: '個人への報酬・料金は支払時に源泉徴収し、翌月10日までに納付します。',
+    withholding_record: '源泉徴収を記録（{amount}）',
+    withholding_remove: '取り消す',
+    withholding_amount: '源泉徴収税額',
+    withholding_payment_date: '支払日',
+    withholding_net_payment: '差引支払額',
+    withholding_due_date: '納期限',
+    withholding_summary_title: '{year}年 源泉所得税 納付書',
+    withholding_summary_description: '源泉徴収を記録した支払を、納付書ごと（月別・納期の特例は半期別）にまとめています。納付したらチェックしてください。',
+    withholding_summary_empty: 'この年に源泉徴収を記録した支払はありません。',
+    withholding_summary_total: '税額合計 {amount}',
+    withholding_schedule: '納付方法',
+    withholding_schedule_monthly: '毎月納付（翌月10日まで）',
+    withholding_schedule_semiAnnual: '納期の特例（7月10日・1月20日まで）',
+    withholding_schedule_note: '納期の特例は弁護士・税理士・司法書士等の報酬が対象です。原稿料・デザイン料などは毎月納付のままです。',
+    withholding_period: '期間',
+    withholding_period_month: '{month}月分',
+    withholding_period_range: '{start}月〜{end}月分',
+    withholding_form: '納付書',
+    withholding_form_general: '一般用',
+    withholding_form_special: '納期特例分',
+    withholding_form_fees: '報酬・料金等',
+    withholding_payee_count: '人員',
+    withholding_gross: '支給額',
+    withholding_tax: '税額',
+    withholding_paid: '納付済',
+    withholding_reminders_title: '源泉所得税の納付',
+    withholding_reminder_overdue: '期限超過 {date}',
+    withholding_reminder_dueSoon: '期限間近 {date}',
+    withholding_reminder_upcoming: '納期限 {date}',
+    currency_per_unit: '円/{currency}',
+    currency_rate_ttm: 'TTM（{date}）で換算',
+    currency_rate_manual: '手入力のレートで換算',
+    currency_not_converted: '未換算: 金額は円に換算されていません',
+    currency_use_ttm: 'TTM {rate}円（{date}）を使う',
+    currency_no_ttm: 'レート表に{date}までの{currency}のTTMがありません',
+    exchange_rates_title: '為替レート（TTM）',
+    exchange_rates_description: '外貨建ての領収書は、取引日のTTM（仲値）で円に換算します。銀行の公示相場などのCSVを読み込んでください（「日付,USD,EUR…」または「date,currency,rate」形式）。土日・祝日は直前のレートを使います。',
+    exchange_rates_empty: 'レートはまだ読み込まれていません。',
+    exchange_rates_range: '{count}件（{from}〜{to}）',
+    exchange_rates_import: 'CSVを読み込む',
+    exchange_rates_importing: '読み込み中...',
+    exchange_rates_imported: '{count}件のレートを読み込みました',
+    exchange_rates_import_failed: 'レートを読み込めませんでした: {error}',
+    exchange_rates_clear: 'すべて削除',
+    exchange_rates_clear_confirm: '読み込んだ為替レートをすべて削除しますか？換算済みの領収書は変わりません。',
+    recurring_button: '定期支出',
+    recurring_title: '{year}年 定期支出',
+    recurring_description: '家賃・通信費・サブスクなど毎月の支払を登録すると、月ごとに領収書を照合します。予定日を過ぎても見つからない月は「未着」として表示されます。',
+    recurring_empty: '定期支出はまだ登録されていません。下の候補から登録するか、手入力で追加してください。',
+    recurring_name: '支払先',
+    recurring_amount: '金額',
+    recurring_day: '支払日',
+    recurring_start_month: '開始月',
+    recurring_end_month: '終了月',
+    recurring_since: '{month}から',
+    recurring_legend: '✓ 照合済 ／ ! 未着 ／ ○ 予定 ／ − 対象外。未着・予定の月をクリックすると対象外（無料月など）にできます。',
+    recurring_status_missing: '未着（予定日 {date}）',
+    recurring_status_expected: '予定日 {date}',
+    recurring_skip: 'クリックで対象外にする',
+    recurring_unskip: '対象外を取り消す',
+    recurring_add: '追加',
+    recurring_delete_confirm: '「{name}」の定期支出を削除しますか？領収書は削除されません。',
+    recurring_suggestions: '定期支出の候補',
+    recurring_suggestions_description: '同じ支払先に毎月ほぼ同じ金額を支払っている領収書です。',
+    recurring_suggestion_detail: '{count}か月（{from}〜{to}）・毎月{day}日ごろ',
+    recurring_register: '登録',
+    recurring_missing_title: '未着の定期支出 {count}件',
+    voucher_button: '出金伝票',
+    voucher_title: '出金伝票（領収書のない支払）',
+    voucher_description: '電車賃・香典など領収書がもらえなかった支払を記録します。伝票の画像を作成して保存し、エクスポートでは「出金伝票」と明記されます。',
+    voucher_payee: '支払先',
+    voucher_payee_placeholder: '例: JR東日本、〇〇家',
+    voucher_memo: '摘要',
+    voucher_memo_placeholder: '例: 新宿→横浜 往復（打合せ）',
+    voucher_amount: '金額（税込）',
+    voucher_tax_rate: '消費税率',
+    voucher_tax_none: '消費税なし（香典・切手など）',
+    voucher_reason: '領収書がない理由',
+    voucher_reason_placeholder: '例: 券売機で切符を購入したため',
+    voucher_note: '自己作成の証憑として記録されます',
+    voucher_save: '伝票を作成',
+    voucher_saving: '作成中...',
+    voucher_save_failed: '出金伝票を作成できませんでした: {error}',
+    voucher_badge: '伝票',
+    voucher_badge_title: '出金伝票（自己作成・領収書なし）',
+    voucher_prepared_on: '作成日 {date}',
 
     // Expense Categories (勘定科目) - NTA Official Categories
     category_租税公課: '租税公課',
@@ -231,6 +391,391 @@ export const translations = {
     category_福利厚生費: '福利厚生費',
     category_未分類: '未分類',
 
+    // Duplicate detection
+    duplicate_badge: '重複?',
+    duplicate_possible: '重複の可能性があります',
+    duplicate_count: '{count}件 重複の可能性',
+    duplicate_banner_title: '重複の可能性',
+    duplicate_banner_message: '{date} {issuer}（{amount}）の領収書と一致しています',
+    duplicate_original_missing: '一致した元の領収書は見つかりません',
+    duplicate_matched_on: '一致項目: {reasons}',
+    duplicate_reason_image: '画像',
+    duplicate_reason_issuer: '発行者',
+    duplicate_reason_tNumber: 'T番号',
+    duplicate_reason_date: '日付',
+    duplicate_reason_amount: '金額',
+    duplicate_action_merge: '元の領収書に統合',
+    duplicate_action_discard: 'この領収書を破棄',
+    duplicate_action_keep: '重複ではない',
+    duplicate_action_view_original: '元の領収書を表示',
+    duplicate_scan: '重複チェック',
+    duplicate_scan_result: '{count}件の重複候補が見つかりました',
+
+    // T-number registry (offline verification)
+    registry_button: '登録番号データ',
+    registry_title: '適格請求書発行事業者データ',
+    registry_description: '国税庁「適格請求書発行事業者公表サイト」の全件・差分データ（CSV / XML）を取り込むと、T番号の登録状況と登録名をオフラインで確認できます。ZIPファイルは展開してから選択してください。',
+    registry_count: '{count}件の事業者データ',
+    registry_empty: '登録番号データは未取込です',
+    registry_last_import: '最終取込: {date}（{file}）',
+    registry_import: 'CSV / XMLを取込',
+    registry_importing: '取込中... {percent}%',
+    registry_import_done: '{count}件を取込みました（削除 {deleted}件）',
+    registry_import_failed: '取込に失敗しました: {error}',
+    registry_clear: 'データを削除',
+    registry_clear_confirm: '取り込んだ登録番号データをすべて削除しますか？',
+    tnumber_status_registered: '登録確認済み',
+    tnumber_status_name_mismatch: '登録名と一致しません',
+    tnumber_status_invalid_format: 'T番号の形式が正しくありません',
+    tnumber_status_invalid_check_digit: 'チェックデジットが一致しません',
+    tnumber_status_unverified: '登録番号データ未取込のため未確認',
+    tnumber_status_not_found: '登録番号データに見つかりません',
+    tnumber_status_not_yet_registered: '取引日時点で未登録（登録日: {date}）',
+    tnumber_status_cancelled: '登録取消済み（取消日: {date}）',
+    tnumber_status_expired: '登録失効済み（失効日: {date}）',
+    tnumber_registered_name: '登録名: {name}',
+    warning_tnumber_check_digit: 'T番号のチェックデジットが一致しません。読み取り誤りの可能性があります',
+
+    // Fiscal-year workspaces
+    fiscal_year_label: '年度',
+    fiscal_year_option: '{year}年分（{count}件）',
+    fiscal_year_closed: '締め済み',
+    fiscal_year_close: '締める',
+    fiscal_year_reopen: '締めを解除',
+    fiscal_year_close_confirm: '{year}年分を締めますか？締めた年度の領収書は編集・削除できなくなります。',
+    fiscal_year_close_blocked: '{year}年分に未確認の領収書が{count}件あります。すべて確認してから締めてください。',
+    fiscal_year_reopen_confirm: '{year}年分の締めを解除しますか？',
+    fiscal_year_locked_message: '{year}年分は締め済みのため編集できません',
+    fiscal_year_carry_over: '繰越資産',
+    carry_over_title: '{year}年分の減価償却資産',
+    carry_over_description: '{year}年に償却する資産です（前年以前に取得し償却が続く資産を含みます）。即時経費化した資産は含まれません。',
+    carry_over_empty: '対象の資産はありません',
+    carry_over_acquired: '取得日',
+    carry_over_method: '償却方法',
+    carry_over_method_lumpsum: '一括償却 {index}/3年目',
+    carry_over_method_standard: '通常償却 {index}年目',
+    carry_over_year_amount: '本年償却額',
+    carry_over_remaining: '未償却残高',
+    carry_over_standard_note: '耐用年数に応じて計算してください',
+    carry_over_from_prior: '繰越',
+
+    // Line items and category splits
+    items_title: '明細',
+    items_empty: '明細はありません',
+    items_add: '明細を追加',
+    items_total: '明細合計 {amount}',
+    item_name: '品名',
+    item_quantity: '数量',
+    item_unit_price: '単価',
+    item_tax_rate: '税率',
+    item_amount: '金額',
+    item_category: '科目',
+    item_category_default: '（領収書と同じ）',
+    allocation_title: '科目別の分割',
+    allocation_description: '1枚の領収書を複数の科目・税率に分けて記帳します。出力では分割ごとに1行になり、同じ証憑番号で画像とひも付きます。',
+    allocation_add: '分割を追加',
+    allocation_from_items: '明細の科目で分割',
+    allocation_clear: '分割を解除',
+    allocation_remaining: '未配分 {amount}',
+    allocation_over: '配分超過 {amount}',
+    allocation_description_placeholder: '摘要（省略可）',
+    warning_allocation_mismatch: '分割の合計が合計金額と一致しません: 合計金額 {expected}円、分割合計 {actual}円',
+    warning_category_mismatch: 'キーワード判定では「{category}」です。勘定科目を確認してください',
+    warning_exchange_rate_missing: '{currency}建ての金額が円に換算されていません。換算レートを入力してください',
+    warning_voucher_reason_missing: '出金伝票には領収書がない理由を入力してください',
+
+    // 家事按分 (business share)
+    apportionment_button: '家事按分',
+    apportionment_title: '家事按分ルール',
+    apportionment_description: '家賃・光熱費・通信費など私用と共用の支出は、事業に使った割合だけが必要経費になります。取引先または科目ごとに事業割合を設定すると、新しい領収書に自動で適用されます。',
+    apportionment_empty: 'ルールはまだありません',
+    apportionment_kind_category: '科目',
+    apportionment_kind_vendor: '取引先',
+    apportionment_vendor_placeholder: '取引先名（例: 東京電力）',
+    apportionment_add: 'ルールを保存',
+    apportionment_apply: '既存の領収書に適用',
+    apportionment_apply_confirm: '締めていない年度の該当する経費に、ルールの事業割合を設定しますか？個別に設定した割合や取引先ごとに記憶した割合はそのまま残ります。',
+    apportionment_apply_done: '{count}件の領収書に事業割合を設定しました',
+    apportionment_apply_done_kept: '{count}件の領収書に事業割合を設定しました（個別に設定された{kept}件はそのままです）',
+    field_business_ratio: '事業割合（家事按分）',
+    business_ratio_gross: '支払総額 {amount}',
+    business_ratio_deductible: '必要経費 {amount}',
+    business_ratio_apply_rule: 'ルールの{ratio}%を適用',
+
+    // Payment method
+    field_payment_method: '支払方法',
+    payment_method_cash: '現金',
+    payment_method_credit_card: 'クレジットカード',
+    payment_method_debit: 'デビットカード',
+    payment_method_electronic_money: '電子マネー・QR決済',
+    payment_method_bank_transfer: '銀行振込',
+    payment_method_unknown: '不明',
+
+    // Settings / vendor profiles
+    settings_subtitle: '取引先ごとの記憶内容と家事按分ルールを管理します',
+    settings_manage_rules: 'ルールを管理',
+    vendor_profiles_title: '取引先の記憶',
+    vendor_profiles_description:
+      '修正した勘定科目・支払方法・事業割合・正式名称を取引先ごとに記憶し、次回の読み取り時に自動で反映します。登録番号または取引先名で照合します。',
+    vendor_profiles_empty: '記憶している取引先はまだありません。領収書を修正して保存すると自動で追加されます。',
+    vendor_name: '取引先名',
+    vendor_business_ratio: '事業割合',
+    vendor_not_set: '未設定',
+    vendor_add: '取引先を追加',
+    vendor_delete_confirm: '「{name}」の記憶を削除しますか？',
+
+    // Settings / categorizer keywords
+    keywords_title: '分類キーワード',
+    keywords_description:
+      '取引先名・取引内容・明細にキーワードが含まれる場合、その勘定科目として判定します。AIの判定と食い違う領収書は要確認になります。組み込みのキーワードより優先されます。',
+    keywords_empty: '追加したキーワードはありません（組み込みのキーワードのみ使用）',
+    keywords_placeholder: 'キーワード（例: 取引先名）',
+    keywords_add: 'キーワードを追加',
+
+    // Bank / card statements
+    statement_button: '明細照合',
+    statement_title: '銀行・カード明細の照合',
+    statement_description:
+      '銀行口座やクレジットカードの利用明細（CSV）を取り込むと、日付・金額・取引先名から領収書と自動で照合します。現金払いの領収書は照合の対象外です。',
+    statement_format_custom: 'カスタム（列を指定）',
+    statement_account_placeholder: '口座・カード名（例: 楽天カード）',
+    statement_kind: '種類',
+    statement_kind_card: 'クレジットカード',
+    statement_kind_bank: '銀行口座',
+    statement_encoding: '文字コード',
+    statement_skip_rows: '読み飛ばす行数',
+    statement_column_date: '日付の列',
+    statement_column_description: '摘要の列',
+    statement_column_amount: '金額の列',
+    statement_column_withdrawal: '出金の列',
+    statement_column_deposit: '入金の列',
+    statement_payments_negative: '金額の列で支払いがマイナス表記',
+    statement_custom_hint: '列は左から1, 2, 3…と数えます。金額が1列の場合は「金額の列」、出金・入金が別の列の場合はその2つを指定してください。',
+    statement_choose_file: 'CSVファイルを選択',
+    statement_import: '取り込む',
+    statement_import_done: '{count}件を取り込みました（取込済み {skipped}件はスキップ）。{matched}件を照合しました',
+    statement_import_failed: '取り込みに失敗しました: {error}',
+    statement_match_done: '{matched}件を照合しました',
+    statement_rematch: '再照合',
+    statement_tab_unmatched: '未照合',
+    statement_tab_matched: '照合済み',
+    statement_tab_ignored: '対象外',
+    statement_empty_unmatched: '未照合の明細はありません',
+    statement_empty_matched: '照合済みの明細はありません',
+    statement_empty_ignored: '対象外にした明細はありません',
+    statement_link_receipt: '領収書と紐付け…',
+    statement_ignore: '領収書不要（対象外にする）',
+    statement_unlink: '紐付けを解除',
+    statement_restore: '未照合に戻す',
+    statement_status_auto: '自動',
+    statement_status_manual: '手動',
+    statement_history: '取り込み履歴',
+    statement_history_count: '{count}件',
+    statement_delete_confirm: '「{file}」の明細を削除しますか？照合結果も削除されます。',
+    filter_unreconciled: '明細なし',
+
+    // Archive (電子帳簿保存法)
+    archive_mode_title: '電子帳簿保存法 保存モード',
+    archive_mode_description: 'オンにすると、以降に取り込む領収書は画像のハッシュとタイムスタンプで封印され、データの訂正はすべて履歴に残り、削除できなくなります。',
+    archive_mode_enable: '保存モードを有効にする',
+    archive_mode_enabled_since: '{date} から有効',
+    archive_enable_confirm: '保存モードで取り込んだ領収書は、後で保存モードをオフにしても削除できません。有効にしますか？',
+    archive_delete_blocked: 'この領収書は電子帳簿保存法の保存対象のため削除できません。',
+    archive_bulk_delete_skipped: '保存対象の領収書 {count} 件は削除されませんでした。',
+    bulk_delete_failed: '{count}件の領収書は見つからなかったため削除されませんでした。',
+    archive_receipt_banner: '電子帳簿保存法の保存対象（{date} 受領）・訂正は履歴に記録されます',
+    archive_search_title: '電子帳簿 検索',
+    archive_search_description: '保存対象の領収書を取引年月日・取引金額（範囲指定可）・取引先で検索し、画像と訂正履歴の改ざんがないか確認します。',
+    archive_counterparty: '取引先',
+    archive_search_button: '検索',
+    archive_search_clear: 'クリア',
+    archive_search_empty: '該当する保存対象の領収書はありません',
+    archive_archived_at: '受領日時',
+    archive_integrity: '検証',
+    archive_integrity_ok: '改ざんなし',
+    archive_integrity_image_altered: '画像が変更されています',
+    archive_integrity_image_missing: '画像がありません',
+    archive_integrity_history_broken: '履歴が一致しません',
+    archive_history_title: '訂正・削除履歴',
+    archive_history_create: '受領',
+    archive_history_update: '訂正',
+
+    // Revision history, undo and trash
+    revision_title: '変更履歴',
+    revision_empty: '履歴はありません',
+    revision_action_create: '登録',
+    revision_action_update: '変更',
+    revision_action_delete: '削除',
+    revision_action_restore: '復元',
+    revision_actor_user: 'ユーザー',
+    revision_actor_system: '自動',
+    revision_actor_sync: '同期',
+    revision_bulk: '一括操作',
+    revision_field_needs_review: '要確認',
+    revision_field_reviewed: '確認済み',
+    undo_bulk_title: '直前の一括操作を取り消す',
+    undo_bulk_update: '一括変更を元に戻す ({count}件)',
+    undo_bulk_delete: '一括削除を元に戻す ({count}件)',
+    trash_title: 'ゴミ箱',
+    trash_retention: '保持期間',
+    trash_retention_days: '{days}日',
+    trash_no_items: 'ゴミ箱は空です',
+    trash_purged_on: '完全削除予定日',
+    trash_restore: '元に戻す',
+    trash_purge: '完全に削除',
+    trash_purge_confirm: 'この領収書を完全に削除しますか？元に戻せません。',
+    trash_empty: 'ゴミ箱を空にする',
+    trash_empty_confirm: 'ゴミ箱の領収書をすべて完全に削除しますか？元に戻せません。',
+
+    // Backup & restore
+    backup_title: 'バックアップと復元',
+    backup_description: '領収書・画像・履歴・設定をまとめて1つのファイルに書き出し、別のブラウザや端末で復元できます。データはこのブラウザにしか保存されていないため、定期的なバックアップをおすすめします。',
+    backup_passphrase_optional: 'パスフレーズ（任意・暗号化）',
+    backup_passphrase: 'パスフレーズ',
+    backup_export: 'バックアップを書き出す',
+    backup_exporting: '書き出し中...',
+    backup_import: 'バックアップから復元...',
+    backup_file_summary: '{date} 作成・領収書 {count} 件',
+    backup_mode_merge: '統合',
+    backup_mode_merge_description: '足りないデータだけを追加します。内容の異なる同じ領収書はこの端末の版を残し、競合として表示します。',
+    backup_mode_replace: '置き換え',
+    backup_mode_replace_description: 'この端末のデータをすべて削除してから、バックアップの内容を読み込みます。',
+    backup_replace_confirm: 'この端末のデータをすべて削除してバックアップで置き換えます。よろしいですか？',
+    backup_restore: '復元',
+    backup_restoring: '復元中...',
+    backup_restore_result: '領収書 {added} 件を追加しました（同一 {unchanged} 件）',
+    backup_conflicts: '{count} 件の領収書が競合しています（この端末の版を残しました）',
+    backup_conflict_dates: 'この端末 {local} / バックアップ {backup}',
+
+    // Multi-device sync
+    sync_title: 'デバイス間同期',
+    sync_description: '自分で運用する同期サーバーを通して、領収書と画像を他のデバイスと同期します。同じ項目を両方で編集した場合は、後から更新した方が残ります。',
+    sync_enable: '同期を有効にする',
+    sync_server_url: '同期サーバーURL',
+    sync_server_url_placeholder: '空欄 = このアプリのサーバー',
+    sync_server_url_hint: '別のサーバーを指定する場合は、このアプリの SYNC_SERVER_ORIGINS にそのオリジンを追加してください。',
+    sync_token: '同期トークン（サーバーの SYNC_TOKEN）',
+    sync_now: '今すぐ同期',
+    sync_syncing: '同期中...',
+    sync_last_synced: '最終同期: {date}',
+    sync_never_synced: 'まだ同期していません',
+    sync_result: '送信 {pushed}件・受信 {pulled}件・競合 {conflicts}件・スキップ {skipped}件',
+
+    // Consumption tax worksheet
+    export_consumption_tax: '消費税計算表',
+    export_consumption_tax_description: '消費税申告用（一般・2割特例・簡易課税）',
+    export_consumption_tax_tooltip: '課税売上と課税仕入を税率別に集計し、T番号の有無で仕入を区分して（経過措置80%・50%を適用）、一般課税・2割特例・簡易課税の納付税額を比較します。',
+    export_consumption_tax_tooltip_casual: '💡 インボイス登録をして消費税の申告が必要な人向けです。',
+    ctax_title: '消費税計算表（{year}年分）',
+    ctax_description: '家事按分後の金額で計算しています。T番号のない仕入は取引日に応じて80%・50%の経過措置を適用します。',
+    ctax_sales: '課税売上（税込）',
+    ctax_purchases: '課税仕入（税込）',
+    ctax_rate_total: '{rate}%（{count}件）',
+    ctax_sales_tax: '課税標準額に対する消費税額',
+    ctax_deductible_tax: '控除対象仕入税額（一般課税）',
+    ctax_qualified: '適格請求書',
+    ctax_transitional: '経過措置{rate}%',
+    ctax_not_deductible: '控除対象外',
+    ctax_excluded: '非課税・不課税の経費や税率区分のない{count}行は集計から除いています',
+    ctax_comparison: '計算方法の比較',
+    ctax_business_type: '簡易課税の事業区分',
+    ctax_business_type_1: '第一種（卸売業）',
+    ctax_business_type_2: '第二種（小売業等）',
+    ctax_business_type_3: '第三種（製造業等）',
+    ctax_business_type_4: '第四種（飲食店業等）',
+    ctax_business_type_5: '第五種（サービス業等）',
+    ctax_business_type_6: '第六種（不動産業）',
+    ctax_method: '計算方法',
+    ctax_method_general: '一般課税',
+    ctax_method_twoTenths: '2割特例',
+    ctax_method_simplified: '簡易課税',
+    ctax_not_eligible: '（適用期間外）',
+    ctax_deduction: '控除税額',
+    ctax_national_tax: '差引税額',
+    ctax_local_tax: '地方消費税',
+    ctax_total_tax: '納付税額',
+    ctax_method_note: '金額は国税分（7.8%・6.24%）で計算。マイナスは還付です。2割特例はインボイス登録で課税事業者になった人が2026年分まで、簡易課税は事前に届出をした人が選べます。',
+    ctax_export_excel: 'Excelで出力',
+
+    // Input tax credit (仕入税額控除)
+    input_tax_credit_qualified: '仕入税額控除 100%（適格請求書）',
+    input_tax_credit_before_invoice: '仕入税額控除 100%（インボイス制度前）',
+    input_tax_credit_transitional: '仕入税額控除 {rate}%（経過措置）',
+    input_tax_credit_none: '仕入税額控除の対象外',
+    input_tax_credit_amount: '控除対象 ¥{deductible} / 消費税額 ¥{tax}',
+
+    // Blue return statement (青色申告決算書)
+    export_blue_return: '青色申告決算書（損益計算書）',
+    export_blue_return_description: '確定申告用の損益計算書（Excel・PDF）',
+    export_blue_return_tooltip: '1年分の記録から青色申告決算書1ページ目の損益計算書を作成します。売上・仕入・経費の各科目、差引金額、青色申告特別控除額（65万・55万・10万円）を記入済みです。',
+    export_blue_return_tooltip_casual: '💡 青色申告をしている人向けです。決算書に書き写すか、そのまま印刷できます。',
+    blue_return_title: '{year}年分 青色申告決算書（損益計算書）',
+    blue_return_description: '期首・期末の棚卸高と青色申告特別控除額を入力して、損益計算書を出力します。',
+    financials_opening_inventory: '期首商品棚卸高',
+    financials_closing_inventory: '期末商品棚卸高',
+    blue_return_special_deduction: '青色申告特別控除額',
+    blue_return_deduction_option: '{amount}万円',
+    blue_return_sales: '売上（収入）金額',
+    financials_cost_of_sales: '差引原価',
+    financials_gross_profit: '差引金額',
+    financials_total_expenses: '経費計',
+    blue_return_net_income: '差引金額',
+    financials_income: '所得金額',
+    blue_return_note: '金額は事業分（家事按分後）です。特別控除額は控除前の所得金額が上限です。専従者給与・引当金は含まれません。',
+    financials_export_excel: 'Excelで出力',
+    blue_return_print: '印刷・PDF',
+
+    // White return statement (収支内訳書)
+    export_white_return: '収支内訳書',
+    export_white_return_description: '白色申告用の収支内訳書（Excel）',
+    export_white_return_tooltip: '1年分の記録から収支内訳書（一般用）1ページ目を作成します。経費は様式どおり⑪〜⑯と「その他の経費」イ〜カに並べ替え、雑費の内訳を別シートに出力します。様式にない科目は確認のため一覧表示します。',
+    export_white_return_tooltip_casual: '💡 白色申告をしている人向けです。',
+    white_return_title: '{year}年分 収支内訳書',
+    white_return_description: '期首・期末の棚卸高を入力して、収支内訳書を出力します（棚卸高は青色申告決算書と共通です）。',
+    white_return_total_income: '収入金額計',
+    white_return_issues_title: '収支内訳書にない科目があります',
+    white_return_issue_merged: '{category}（{count}件・{amount}）は「{mergedInto}」に合算しています',
+    white_return_issue_excluded: '{category}（{count}件・{amount}）は該当する欄がないため含まれていません。科目を変更してください',
+    white_return_note: '金額は事業分（家事按分後）です。雑費の内訳（{count}件）は別シートに出力します。家事消費・専従者控除は含まれません。',
+
+    // Fixed asset register (固定資産台帳)
+    fixed_asset_title: '固定資産',
+    fixed_asset_description: '10万円以上の備品などは固定資産として登録すると、支払った年の経費ではなく減価償却費として年ごとに計上されます。',
+    fixed_asset_register: '固定資産として登録',
+    fixed_asset_unregister: '登録を解除',
+    fixed_asset_name: '資産の名称',
+    fixed_asset_service_date: '事業供用日',
+    fixed_asset_years: '年',
+    fixed_asset_life_years: '{years}年',
+    fixed_asset_life_custom: '耐用年数を直接入力',
+    fixed_asset_life_pc: 'パソコン（サーバー用を除く）',
+    fixed_asset_life_server: 'サーバー',
+    fixed_asset_life_office_equipment: '複合機・プリンター等の事務機器',
+    fixed_asset_life_camera: 'カメラ',
+    fixed_asset_life_audio_visual: 'テレビ・音響機器',
+    fixed_asset_life_software: 'ソフトウェア（自社利用）',
+    fixed_asset_life_appliance: '冷蔵庫・洗濯機・エアコン等の電気機器',
+    fixed_asset_life_phone_digital: 'デジタル構内交換設備・デジタルボタン電話設備',
+    fixed_asset_life_communication: '電話機その他の通信機器',
+    fixed_asset_life_furniture_metal: '事務机・椅子・キャビネット（金属製）',
+    fixed_asset_life_furniture_other: '事務机・椅子・キャビネット（その他）',
+    fixed_asset_life_car: '自動車（普通）',
+    fixed_asset_life_car_light: '軽自動車',
+    fixed_asset_life_motorcycle: '二輪自動車',
+    fixed_asset_life_building_equipment: '建物附属設備（電気・給排水設備）',
+    fixed_asset_life_building_wood_office: '木造建物（事務所）',
+    fixed_asset_life_building_wood_shop: '木造建物（店舗）',
+    fixed_asset_method_straightLine: '定額法',
+    fixed_asset_method_decliningBalance: '定率法',
+    fixed_asset_method_lumpSum: '一括償却（3年）',
+    fixed_asset_method_smallAmount: '少額特例（全額）',
+    fixed_asset_note: '年ごとの必要経費算入額です。事業専用割合は家事按分の割合を使います。定率法は税務署への届出が必要です。',
+    fixed_asset_register_title: '固定資産台帳',
+    fixed_asset_unregistered_title: '未登録の高額な経費',
+    fixed_asset_unregistered_hint: '領収書の詳細から固定資産として登録すると、償却額が自動で計算されます。',
+    fixed_asset_deductible: '本年分の必要経費',
+    fixed_asset_export: '減価償却費の計算（Excel）',
+
     // Depreciation threshold warnings
     warning_depreciation_threshold_title: '減価償却の確認',
     warning_depreciation_required: '10万円以上のため減価償却が必要な可能性があります。青色申告者は少額減価償却資産の特例で即時経費化可能な場合があります。',
@@ -318,6 +863,15 @@ export const translations = {
     upload_click_to_retry: 'Click to retry',
     upload_camera_button: 'Take Photo',
     upload_review_first: 'Review Next Receipt',
+    upload_pdf_mode_title: 'How should this PDF be imported?',
+    upload_pdf_mode_message: '"{name}" has {count} pages. Choose how to import it.',
+    upload_pdf_per_page: 'One receipt per page',
+    upload_pdf_per_page_hint: 'Each page is a separate transaction (e.g. Amazon invoice bundles)',
+    upload_pdf_whole: 'One receipt for the whole document',
+    upload_pdf_whole_hint: 'All pages belong to one transaction (e.g. monthly utility bills)',
+    upload_pdf_whole_too_many: 'Only for documents of up to {max} pages (longer ones would be too small to read)',
+    upload_pdf_rendering: 'Loading PDF...',
+    upload_pdf_render_failed: 'Could not read PDF: {name}',
 
     // Dashboard
     dashboard_title: 'Receipt Details',
@@ -361,14 +915,23 @@ export const translations = {
     // Bulk actions
     bulk_approve: 'Approve {count}',
     bulk_delete: 'Delete {count}',
-    bulk_delete_confirm: 'Delete {count} receipts? This cannot be undone.',
+    bulk_locked_hint: 'The selection includes receipts from a closed year',
+    bulk_delete_confirm: 'Delete {count} receipts? They can be restored from the trash.',
 
     // Receipt fields
     field_issuer_name: 'Issuer Name',
     field_date: 'Transaction Date',
     field_tnumber: 'T-Number (Registration)',
     field_total_amount: 'Total Amount',
+    field_currency: 'Currency',
+    field_original_amount: 'Original amount',
+    field_exchange_rate: 'Rate',
+    field_voucher: 'Payment voucher',
     field_category: 'Expense Category',
+    field_direction: 'Direction',
+    direction_expense: 'Expense',
+    direction_income: 'Income (売上)',
+    direction_purchase: 'Purchase of goods (仕入)',
     field_tax_rate: 'Tax Rate',
     field_verify: 'Verify',
     field_missing_value: 'Missing value',
@@ -420,6 +983,8 @@ export const translations = {
     image_pan_left: 'Pan left',
     image_pan_right: 'Pan right',
     image_reset: 'Reset',
+    image_prev_page: 'Previous page',
+    image_next_page: 'Next page',
     image_hover_to_zoom: 'Hover to zoom',
     image_fullscreen: 'Fullscreen',
     image_exit_fullscreen: 'Exit fullscreen',
@@ -448,11 +1013,12 @@ export const translations = {
     // Export
     exporting: 'Exporting...',
     export_error: 'Export failed. Please try again.',
+    export_unconverted_confirm: '{count} foreign-currency receipts have not been converted to yen. They are left out of the amounts and consumption tax. Export anyway?',
     export_excel: 'Excel Format',
     export_csv: 'CSV Format (e-Tax)',
     export_csv_summary: 'CSV Summary (e-Tax)',
     export_ledger: 'Ledger Format Excel',
-    export_form309: 'Form 309 CSV (Payment Statement)',
+    export_form309: 'Form 309 CSV/XML (Payment Statement)',
     export_ledger_description: 'NTA ledger format compliant',
     export_form309_description: 'Compensation payment statement (e-Tax format)',
 
@@ -467,12 +1033,151 @@ export const translations = {
     export_ledger_tooltip_casual: '💡 For filing your own taxes. Official bookkeeping format required by the tax office.',
     export_form309_tooltip: 'Payment statement for compensation, fees, contracts and prizes (statutory report type: 309). Required when paying professionals or sole proprietors, submitted via e-Tax or CD/DVD.',
     export_form309_tooltip_casual: '💡 Only if you hired freelancers. Required when paying over ¥50,000/year.',
+    export_withholding: 'Withholding Tax Slips (源泉所得税)',
+    export_withholding_description: 'Amounts and due dates per month or half-year',
+    export_withholding_tooltip: 'Tax withheld from fees is paid with a 納付書 by the 10th of the following month (7/10 and 1/20 under the 納期の特例). Summarizes the tax and payee count per slip and exports it to Excel.',
+    export_withholding_tooltip_casual: '💡 Only if you withheld tax from fees. The withheld tax must be paid to the tax office by the due date.',
     submitter_settings: 'Submitter Information',
     submitter_name: 'Submitter Name',
     submitter_address: 'Submitter Address',
     submitter_phone: 'Phone Number',
     submitter_reference_number: 'Reference Number',
     form309_warning: 'Payment statement requires submitter information',
+    form309_export_csv: 'CSV',
+    form309_export_xtx: 'XML (.xtx)',
+    form309_export_xtx_hint: 'Save as statutory report XML that e-Tax software can import',
+    form309_title: 'Payment Statement (309) for {year}',
+    form309_description: 'Withholding is worked out per payment from each payee\'s category, and individuals paid more than {threshold} in the year are reported (corporations are not).',
+    form309_submitter_required: 'Submitter name and address are required',
+    form309_preview_title: 'Preview of reported payees',
+    form309_preview_empty: 'No payments to payees in the payee master or under outsourcing this year.',
+    form309_payment_amount: 'Paid',
+    form309_withholding: 'Withheld',
+    form309_status: 'Status',
+    form309_receipt_count: '{count} receipts',
+    form309_register_as: 'Not registered - pick a category',
+    form309_status_reported: 'Reported',
+    form309_status_belowThreshold: 'Not required',
+    form309_status_notSubject: 'Not subject',
+    form309_status_corporation: 'Not required (corporation)',
+    form309_status_unregistered: 'Not registered',
+    form309_reason_reported: 'Paid more than {threshold} this year',
+    form309_reason_belowThreshold: 'Paid {threshold} or less this year',
+    form309_reason_notSubject: 'Category is not subject to withholding or reporting',
+    form309_reason_corporation: 'Fees paid to corporations are not reported on this statement',
+    form309_reason_unregistered: 'Paid under outsourcing. Pick a category to add to the payee master',
+    form309_reported_summary: '{count} reported / paid {amount} / withheld {withholding}',
+
+    // Payee master
+    payee_title: 'Payees (Payment Statement)',
+    payee_description: 'Register who you paid fees to and their category. Name variants (株式会社ABC, (株)ABC) count as one payee, and withholding is worked out by category.',
+    payee_empty: 'No payees yet. Vendors paid under outsourcing can also be registered from the payment statement preview.',
+    payee_name: 'Name',
+    payee_address: 'Address',
+    payee_address_placeholder: 'Blank = address on the receipt',
+    payee_type: 'Type',
+    payee_type_individual: 'Individual',
+    payee_type_corporation: 'Corporation',
+    payee_number: 'My Number / Corporate No.',
+    payee_my_number_placeholder: '(enter in e-Tax software)',
+    payee_my_number_note: 'My Number is never stored. Enter it in the e-Tax software when filing.',
+    payee_category: 'Category',
+    payee_detail: 'Detail',
+    payee_detail_placeholder: 'e.g. retainer',
+    payee_add: 'Add payee',
+    payee_delete_confirm: 'Remove "{name}" from the payee master?',
+    payee_category_manuscript: 'Writing, design, lecture fees',
+    payee_category_professional: 'Lawyer, tax accountant fees',
+    payee_category_judicialScrivener: 'Judicial scrivener fees',
+    payee_category_notSubject: 'Not subject (outsourcing)',
+    withholding_title: 'Withholding Tax (源泉徴収)',
+    withholding_description: 'Fees paid to individuals have tax withheld at payment, due to the tax office by the 10th of the next month.',
+    withholding_record: 'Record withholding ({amount})',
+    withholding_remove: 'Remove',
+    withholding_amount: 'Withheld',
+    withholding_payment_date: 'Paid on',
+    withholding_net_payment: 'Net paid',
+    withholding_due_date: 'Due',
+    withholding_summary_title: '{year} Withholding Tax Slips (源泉所得税 納付書)',
+    withholding_summary_description: 'Payments with recorded withholding, grouped by 納付書 (per month, or per half-year under the 納期の特例). Check each slip once paid.',
+    withholding_summary_empty: 'No payments with withholding recorded for this year.',
+    withholding_summary_total: 'Total tax {amount}',
+    withholding_schedule: 'Payment schedule',
+    withholding_schedule_monthly: 'Monthly (by the 10th of the next month)',
+    withholding_schedule_semiAnnual: '納期の特例 (by 7/10 and 1/20)',
+    withholding_schedule_note: 'The 納期の特例 covers fees for lawyers, tax accountants, judicial scriveners etc. Manuscript and design fees are still paid monthly.',
+    withholding_period: 'Period',
+    withholding_period_month: 'Month {month}',
+    withholding_period_range: 'Months {start}-{end}',
+    withholding_form: 'Slip',
+    withholding_form_general: 'General',
+    withholding_form_special: 'Special (納期特例)',
+    withholding_form_fees: 'Fees',
+    withholding_payee_count: 'Payees',
+    withholding_gross: 'Gross',
+    withholding_tax: 'Tax',
+    withholding_paid: 'Paid',
+    withholding_reminders_title: 'Withholding tax due',
+    withholding_reminder_overdue: 'Overdue {date}',
+    withholding_reminder_dueSoon: 'Due soon {date}',
+    withholding_reminder_upcoming: 'Due {date}',
+    currency_per_unit: '¥/{currency}',
+    currency_rate_ttm: 'Converted at the TTM of {date}',
+    currency_rate_manual: 'Converted at a manual rate',
+    currency_not_converted: 'Not converted: amounts are not in yen yet',
+    currency_use_ttm: 'Use TTM ¥{rate} ({date})',
+    currency_no_ttm: 'No {currency} TTM up to {date} in the rate table',
+    exchange_rates_title: 'Exchange Rates (TTM)',
+    exchange_rates_description: 'Foreign-currency receipts are converted to yen at the TTM (mid rate) of the transaction date. Import a CSV such as a bank\'s published rates ("date,USD,EUR..." or "date,currency,rate"). Weekends and holidays use the previous rate.',
+    exchange_rates_empty: 'No rates imported yet.',
+    exchange_rates_range: '{count} rates ({from} to {to})',
+    exchange_rates_import: 'Import CSV',
+    exchange_rates_importing: 'Importing...',
+    exchange_rates_imported: 'Imported {count} rates',
+    exchange_rates_import_failed: 'Could not import rates: {error}',
+    exchange_rates_clear: 'Delete all',
+    exchange_rates_clear_confirm: 'Delete all imported exchange rates? Receipts already converted are not changed.',
+    recurring_button: 'Recurring expenses',
+    recurring_title: 'Recurring Expenses {year}',
+    recurring_description: 'Register monthly payments such as rent, phone and subscriptions to match their receipts month by month. Months without a receipt some days after the expected date are shown as missing.',
+    recurring_empty: 'No recurring expenses yet. Register one of the suggestions below or add one by hand.',
+    recurring_name: 'Vendor',
+    recurring_amount: 'Amount',
+    recurring_day: 'Day',
+    recurring_start_month: 'Start month',
+    recurring_end_month: 'End month',
+    recurring_since: 'since {month}',
+    recurring_legend: '✓ matched / ! missing / ○ expected / − skipped. Click a missing or expected month to skip it (e.g. a free month).',
+    recurring_status_missing: 'Missing (expected {date})',
+    recurring_status_expected: 'Expected {date}',
+    recurring_skip: 'click to skip',
+    recurring_unskip: 'Expect a receipt again',
+    recurring_add: 'Add',
+    recurring_delete_confirm: 'Delete the recurring expense "{name}"? Receipts are not deleted.',
+    recurring_suggestions: 'Suggested recurring expenses',
+    recurring_suggestions_description: 'Receipts from the same vendor for about the same amount every month.',
+    recurring_suggestion_detail: '{count} months ({from} to {to}), around day {day}',
+    recurring_register: 'Register',
+    recurring_missing_title: 'Missing recurring receipts ({count})',
+    voucher_button: 'Payment voucher',
+    voucher_title: 'Payment Voucher (出金伝票)',
+    voucher_description: 'Record a payment you got no receipt for, such as a train fare or a condolence gift. A voucher image is generated and stored, and exports mark the entry as a payment voucher.',
+    voucher_payee: 'Paid to',
+    voucher_payee_placeholder: 'e.g. JR East',
+    voucher_memo: 'Description',
+    voucher_memo_placeholder: 'e.g. Shinjuku - Yokohama return (meeting)',
+    voucher_amount: 'Amount (incl. tax)',
+    voucher_tax_rate: 'Consumption tax',
+    voucher_tax_none: 'No consumption tax (gifts, stamps...)',
+    voucher_reason: 'Why there is no receipt',
+    voucher_reason_placeholder: 'e.g. Ticket bought at a ticket machine',
+    voucher_note: 'Recorded as a self-prepared document',
+    voucher_save: 'Create voucher',
+    voucher_saving: 'Creating...',
+    voucher_save_failed: 'Could not create the payment voucher: {error}',
+    voucher_badge: 'Voucher',
+    voucher_badge_title: 'Payment voucher (self-prepared, no receipt)',
+    voucher_prepared_on: 'Prepared {date}',
 
     // Expense Categories (勘定科目) - NTA Official Categories (Japanese + English)
     category_租税公課: '租税公課 (Taxes & Public Charges)',
@@ -496,6 +1201,391 @@ export const translations = {
     category_福利厚生費: '福利厚生費 (Employee Welfare)',
     category_未分類: '未分類 (Uncategorized)',
 
+    // Duplicate detection
+    duplicate_badge: 'Dup?',
+    duplicate_possible: 'Possible duplicate',
+    duplicate_count: '{count} possible duplicates',
+    duplicate_banner_title: 'Possible duplicate',
+    duplicate_banner_message: 'Matches the receipt from {issuer} on {date} ({amount})',
+    duplicate_original_missing: 'The matching receipt could not be found',
+    duplicate_matched_on: 'Matched on: {reasons}',
+    duplicate_reason_image: 'image',
+    duplicate_reason_issuer: 'issuer',
+    duplicate_reason_tNumber: 'T-number',
+    duplicate_reason_date: 'date',
+    duplicate_reason_amount: 'amount',
+    duplicate_action_merge: 'Merge into original',
+    duplicate_action_discard: 'Discard this one',
+    duplicate_action_keep: 'Not a duplicate',
+    duplicate_action_view_original: 'View original',
+    duplicate_scan: 'Check duplicates',
+    duplicate_scan_result: 'Found {count} possible duplicates',
+
+    // T-number registry (offline verification)
+    registry_button: 'T-Number Registry',
+    registry_title: 'Qualified Invoice Issuer Registry',
+    registry_description: 'Import the full or differential download (CSV / XML) from the NTA Qualified Invoice Issuer publication site to check T-number registration and registered names offline. Extract ZIP files before selecting them.',
+    registry_count: '{count} registered businesses',
+    registry_empty: 'No registry data imported',
+    registry_last_import: 'Last import: {date} ({file})',
+    registry_import: 'Import CSV / XML',
+    registry_importing: 'Importing... {percent}%',
+    registry_import_done: 'Imported {count} records ({deleted} deleted)',
+    registry_import_failed: 'Import failed: {error}',
+    registry_clear: 'Delete data',
+    registry_clear_confirm: 'Delete all imported registry data?',
+    tnumber_status_registered: 'Registered',
+    tnumber_status_name_mismatch: 'Does not match the registered name',
+    tnumber_status_invalid_format: 'Invalid T-Number format',
+    tnumber_status_invalid_check_digit: 'Check digit does not match',
+    tnumber_status_unverified: 'Not verified - no registry data imported',
+    tnumber_status_not_found: 'Not found in registry data',
+    tnumber_status_not_yet_registered: 'Not yet registered on the transaction date (registered {date})',
+    tnumber_status_cancelled: 'Registration cancelled ({date})',
+    tnumber_status_expired: 'Registration expired ({date})',
+    tnumber_registered_name: 'Registered name: {name}',
+    warning_tnumber_check_digit: 'T-Number check digit does not match. It may have been misread',
+
+    // Fiscal-year workspaces
+    fiscal_year_label: 'Year',
+    fiscal_year_option: '{year} ({count})',
+    fiscal_year_closed: 'Closed',
+    fiscal_year_close: 'Close',
+    fiscal_year_reopen: 'Reopen year',
+    fiscal_year_close_confirm: 'Close {year}? Receipts in a closed year can no longer be edited or deleted.',
+    fiscal_year_close_blocked: '{year} has {count} receipts that need review. Review them all before closing the year.',
+    fiscal_year_reopen_confirm: 'Reopen {year}?',
+    fiscal_year_locked_message: '{year} is closed and cannot be edited',
+    fiscal_year_carry_over: 'Carry-over assets',
+    carry_over_title: 'Depreciating assets in {year}',
+    carry_over_description: 'Assets depreciated in {year}, including ones acquired in earlier years. Items expensed immediately are not listed.',
+    carry_over_empty: 'No depreciating assets',
+    carry_over_acquired: 'Acquired',
+    carry_over_method: 'Method',
+    carry_over_method_lumpsum: 'Lump-sum, year {index}/3',
+    carry_over_method_standard: 'Standard, year {index}',
+    carry_over_year_amount: 'This year',
+    carry_over_remaining: 'Remaining',
+    carry_over_standard_note: 'Calculate from useful life',
+    carry_over_from_prior: 'Carried over',
+
+    // Line items and category splits
+    items_title: 'Line Items',
+    items_empty: 'No line items',
+    items_add: 'Add item',
+    items_total: 'Items total {amount}',
+    item_name: 'Item',
+    item_quantity: 'Qty',
+    item_unit_price: 'Unit price',
+    item_tax_rate: 'Tax',
+    item_amount: 'Amount',
+    item_category: 'Category',
+    item_category_default: '(Same as receipt)',
+    allocation_title: 'Category Split',
+    allocation_description: 'Book one receipt under several categories and tax rates. Exports emit one row per split, linked to the image by the same receipt number.',
+    allocation_add: 'Add split',
+    allocation_from_items: 'Split by item categories',
+    allocation_clear: 'Remove split',
+    allocation_remaining: 'Unallocated {amount}',
+    allocation_over: 'Over-allocated {amount}',
+    allocation_description_placeholder: 'Description (optional)',
+    warning_allocation_mismatch: 'Split total does not match the receipt total: receipt ¥{expected}, splits ¥{actual}',
+    warning_category_mismatch: 'Keywords suggest "{category}" - please check the category',
+    warning_exchange_rate_missing: 'Amounts in {currency} have not been converted to yen - enter the exchange rate',
+    warning_voucher_reason_missing: 'Enter why there is no receipt for this payment voucher',
+
+    // 家事按分 (business share)
+    apportionment_button: 'Business-use share',
+    apportionment_title: 'Business-Use Rules',
+    apportionment_description: 'Costs shared with private life - rent, utilities, phone - are only deductible for the business share. Set a business percentage per vendor or category and it is applied to new receipts automatically.',
+    apportionment_empty: 'No rules yet',
+    apportionment_kind_category: 'Category',
+    apportionment_kind_vendor: 'Vendor',
+    apportionment_vendor_placeholder: 'Vendor name (e.g. TEPCO)',
+    apportionment_add: 'Save rule',
+    apportionment_apply: 'Apply to receipts',
+    apportionment_apply_confirm: 'Set the business share from the rules on matching expenses in open fiscal years? Shares set by hand or remembered for a vendor are kept.',
+    apportionment_apply_done: 'Business share set on {count} receipts',
+    apportionment_apply_done_kept: 'Business share set on {count} receipts ({kept} set individually were kept)',
+    field_business_ratio: 'Business Share',
+    business_ratio_gross: 'Paid {amount}',
+    business_ratio_deductible: 'Deductible {amount}',
+    business_ratio_apply_rule: 'Apply rule ({ratio}%)',
+
+    // Payment method
+    field_payment_method: 'Payment Method',
+    payment_method_cash: 'Cash',
+    payment_method_credit_card: 'Credit Card',
+    payment_method_debit: 'Debit Card',
+    payment_method_electronic_money: 'E-money / QR Payment',
+    payment_method_bank_transfer: 'Bank Transfer',
+    payment_method_unknown: 'Unknown',
+
+    // Settings / vendor profiles
+    settings_subtitle: 'Manage what is remembered per vendor and the business-use rules',
+    settings_manage_rules: 'Manage Rules',
+    vendor_profiles_title: 'Vendor Memory',
+    vendor_profiles_description:
+      'Category, payment method, business share and canonical name you correct are remembered per vendor and applied the next time a receipt is read. Vendors are matched by T-Number or name.',
+    vendor_profiles_empty: 'No vendors remembered yet. They are added automatically when you correct and save a receipt.',
+    vendor_name: 'Vendor Name',
+    vendor_business_ratio: 'Business %',
+    vendor_not_set: 'Not set',
+    vendor_add: 'Add Vendor',
+    vendor_delete_confirm: 'Forget "{name}"?',
+
+    // Settings / categorizer keywords
+    keywords_title: 'Category Keywords',
+    keywords_description:
+      'A receipt whose vendor, description or line items contain a keyword is categorized accordingly. Receipts where the AI disagrees are flagged for review. Your keywords take precedence over the built-in ones.',
+    keywords_empty: 'No keywords added (only the built-in keywords are used)',
+    keywords_placeholder: 'Keyword (e.g. a vendor name)',
+    keywords_add: 'Add Keyword',
+
+    // Bank / card statements
+    statement_button: 'Statements',
+    statement_title: 'Bank & Card Statement Matching',
+    statement_description:
+      'Import bank or credit-card statement CSVs to match their lines with receipts by date, amount and vendor name. Receipts paid in cash are not expected on a statement.',
+    statement_format_custom: 'Custom (choose columns)',
+    statement_account_placeholder: 'Account or card name (e.g. Rakuten Card)',
+    statement_kind: 'Type',
+    statement_kind_card: 'Credit card',
+    statement_kind_bank: 'Bank account',
+    statement_encoding: 'Encoding',
+    statement_skip_rows: 'Rows to skip',
+    statement_column_date: 'Date column',
+    statement_column_description: 'Description column',
+    statement_column_amount: 'Amount column',
+    statement_column_withdrawal: 'Withdrawal column',
+    statement_column_deposit: 'Deposit column',
+    statement_payments_negative: 'Payments are negative in the amount column',
+    statement_custom_hint: 'Columns are counted 1, 2, 3… from the left. Use "Amount column" for a single signed amount, or the withdrawal and deposit columns when they are separate.',
+    statement_choose_file: 'Choose CSV file',
+    statement_import: 'Import',
+    statement_import_done: 'Imported {count} lines ({skipped} already imported were skipped). Matched {matched}',
+    statement_import_failed: 'Import failed: {error}',
+    statement_match_done: 'Matched {matched} lines',
+    statement_rematch: 'Match Again',
+    statement_tab_unmatched: 'Unmatched',
+    statement_tab_matched: 'Matched',
+    statement_tab_ignored: 'Ignored',
+    statement_empty_unmatched: 'No unmatched statement lines',
+    statement_empty_matched: 'No matched statement lines',
+    statement_empty_ignored: 'No ignored statement lines',
+    statement_link_receipt: 'Link to receipt…',
+    statement_ignore: 'No receipt needed (ignore)',
+    statement_unlink: 'Unlink',
+    statement_restore: 'Mark unmatched',
+    statement_status_auto: 'auto',
+    statement_status_manual: 'manual',
+    statement_history: 'Import History',
+    statement_history_count: '{count} lines',
+    statement_delete_confirm: 'Delete the lines imported from "{file}"? Their matches are removed too.',
+    filter_unreconciled: 'No Statement',
+
+    // Archive (電子帳簿保存法)
+    archive_mode_title: 'Electronic Bookkeeping Act Archive',
+    archive_mode_description: 'When on, receipts added from now on are sealed with an image hash and timestamp, every correction to their data is kept in a history, and they can no longer be deleted.',
+    archive_mode_enable: 'Enable archive mode',
+    archive_mode_enabled_since: 'On since {date}',
+    archive_enable_confirm: 'Receipts added in archive mode cannot be deleted, even if archive mode is turned off later. Enable it?',
+    archive_delete_blocked: 'This receipt is archived under the Electronic Bookkeeping Act and cannot be deleted.',
+    archive_bulk_delete_skipped: '{count} archived receipts were not deleted.',
+    bulk_delete_failed: '{count} receipts could not be found and were not deleted.',
+    archive_receipt_banner: 'Archived (received {date}) - corrections are recorded in its history',
+    archive_search_title: 'Archive Search',
+    archive_search_description: 'Search archived receipts by transaction date, amount (ranges allowed) and counterparty, and check their images and correction history for tampering.',
+    archive_counterparty: 'Counterparty',
+    archive_search_button: 'Search',
+    archive_search_clear: 'Clear',
+    archive_search_empty: 'No archived receipts match',
+    archive_archived_at: 'Received',
+    archive_integrity: 'Integrity',
+    archive_integrity_ok: 'Intact',
+    archive_integrity_image_altered: 'Image altered',
+    archive_integrity_image_missing: 'Image missing',
+    archive_integrity_history_broken: 'History does not verify',
+    archive_history_title: 'Correction History',
+    archive_history_create: 'Received',
+    archive_history_update: 'Corrected',
+
+    // Revision history, undo and trash
+    revision_title: 'History',
+    revision_empty: 'No history',
+    revision_action_create: 'Created',
+    revision_action_update: 'Changed',
+    revision_action_delete: 'Deleted',
+    revision_action_restore: 'Restored',
+    revision_actor_user: 'User',
+    revision_actor_system: 'Automatic',
+    revision_actor_sync: 'Sync',
+    revision_bulk: 'Bulk operation',
+    revision_field_needs_review: 'Needs Review',
+    revision_field_reviewed: 'Reviewed',
+    undo_bulk_title: 'Undo the last bulk operation',
+    undo_bulk_update: 'Undo bulk change ({count})',
+    undo_bulk_delete: 'Undo bulk delete ({count})',
+    trash_title: 'Trash',
+    trash_retention: 'Keep for',
+    trash_retention_days: '{days} days',
+    trash_no_items: 'The trash is empty',
+    trash_purged_on: 'Deleted for good on',
+    trash_restore: 'Restore',
+    trash_purge: 'Delete permanently',
+    trash_purge_confirm: 'Permanently delete this receipt? This cannot be undone.',
+    trash_empty: 'Empty Trash',
+    trash_empty_confirm: 'Permanently delete every receipt in the trash? This cannot be undone.',
+
+    // Backup & restore
+    backup_title: 'Backup & Restore',
+    backup_description: 'Write receipts, images, history and settings to a single file and restore it in another browser or device. Your data lives only in this browser, so back up regularly.',
+    backup_passphrase_optional: 'Passphrase (optional, encrypts)',
+    backup_passphrase: 'Passphrase',
+    backup_export: 'Export Backup',
+    backup_exporting: 'Exporting...',
+    backup_import: 'Restore from Backup...',
+    backup_file_summary: 'Created {date} · {count} receipts',
+    backup_mode_merge: 'Merge',
+    backup_mode_merge_description: 'Add only what is missing. Receipts that differ keep this device\'s version and are listed as conflicts.',
+    backup_mode_replace: 'Replace',
+    backup_mode_replace_description: 'Delete all data on this device, then load the backup.',
+    backup_replace_confirm: 'All data on this device will be deleted and replaced with the backup. Continue?',
+    backup_restore: 'Restore',
+    backup_restoring: 'Restoring...',
+    backup_restore_result: 'Added {added} receipts ({unchanged} already identical)',
+    backup_conflicts: '{count} receipts conflict (this device\'s version was kept)',
+    backup_conflict_dates: 'this device {local} / backup {backup}',
+
+    // Multi-device sync
+    sync_title: 'Multi-Device Sync',
+    sync_description: 'Sync receipts and images with your other devices through a sync server you host yourself. When both sides edit the same field, the later edit is kept.',
+    sync_enable: 'Enable sync',
+    sync_server_url: 'Sync server URL',
+    sync_server_url_placeholder: 'Blank = the server this app runs on',
+    sync_server_url_hint: 'To use another server, add its origin to this app\'s SYNC_SERVER_ORIGINS.',
+    sync_token: 'Sync token (SYNC_TOKEN on the server)',
+    sync_now: 'Sync now',
+    sync_syncing: 'Syncing...',
+    sync_last_synced: 'Last synced: {date}',
+    sync_never_synced: 'Not synced yet',
+    sync_result: '{pushed} sent · {pulled} received · {conflicts} conflicts · {skipped} skipped',
+
+    // Consumption tax worksheet
+    export_consumption_tax: 'Consumption Tax Worksheet',
+    export_consumption_tax_description: 'For the consumption tax return (general, 20% rule, simplified)',
+    export_consumption_tax_tooltip: 'Totals taxable sales and purchases by tax rate, splits purchases by whether they have a valid T-number (applying the transitional 80% / 50% credit), and compares the tax due under the general method, the 20% special rule and the simplified method.',
+    export_consumption_tax_tooltip_casual: '💡 For registered invoice issuers who have to file consumption tax.',
+    ctax_title: 'Consumption Tax Worksheet ({year})',
+    ctax_description: 'Calculated on the business share of each amount. Purchases without a T-number get the transitional 80% / 50% credit by transaction date.',
+    ctax_sales: 'Taxable sales (tax incl.)',
+    ctax_purchases: 'Taxable purchases (tax incl.)',
+    ctax_rate_total: '{rate}% ({count} rows)',
+    ctax_sales_tax: 'Tax on sales',
+    ctax_deductible_tax: 'Deductible input tax (general method)',
+    ctax_qualified: 'Qualified invoice',
+    ctax_transitional: 'Transitional {rate}%',
+    ctax_not_deductible: 'Not deductible',
+    ctax_excluded: '{count} rows left out (non-taxable expenses or no tax breakdown)',
+    ctax_comparison: 'Method comparison',
+    ctax_business_type: 'Simplified method business type',
+    ctax_business_type_1: 'Type 1 (wholesale)',
+    ctax_business_type_2: 'Type 2 (retail, etc.)',
+    ctax_business_type_3: 'Type 3 (manufacturing, etc.)',
+    ctax_business_type_4: 'Type 4 (restaurants, etc.)',
+    ctax_business_type_5: 'Type 5 (services, etc.)',
+    ctax_business_type_6: 'Type 6 (real estate)',
+    ctax_method: 'Method',
+    ctax_method_general: 'General',
+    ctax_method_twoTenths: '20% special rule',
+    ctax_method_simplified: 'Simplified',
+    ctax_not_eligible: '(not available)',
+    ctax_deduction: 'Deduction',
+    ctax_national_tax: 'National tax',
+    ctax_local_tax: 'Local tax',
+    ctax_total_tax: 'Tax due',
+    ctax_method_note: 'National share (7.8% / 6.24%). Negative amounts are refunds. The 20% rule is available through 2026 to those who became taxable by registering as an invoice issuer; the simplified method requires filing the election in advance.',
+    ctax_export_excel: 'Export to Excel',
+
+    // Input tax credit
+    input_tax_credit_qualified: 'Input tax credit 100% (qualified invoice)',
+    input_tax_credit_before_invoice: 'Input tax credit 100% (before the invoice system)',
+    input_tax_credit_transitional: 'Input tax credit {rate}% (transitional)',
+    input_tax_credit_none: 'No input tax credit',
+    input_tax_credit_amount: 'Deductible ¥{deductible} of ¥{tax} tax',
+
+    // Blue return statement (青色申告決算書)
+    export_blue_return: 'Blue Return Statement (P&L)',
+    export_blue_return_description: 'Profit and loss statement for the tax return (Excel, PDF)',
+    export_blue_return_tooltip: 'Builds the profit and loss statement on page 1 of the blue return financial statement (青色申告決算書) from the year\'s records, with sales, purchases, each expense item, net income and the blue return special deduction (¥650k / ¥550k / ¥100k) filled in.',
+    export_blue_return_tooltip_casual: '💡 For blue return filers. Copy it onto the form or print it as is.',
+    blue_return_title: 'Blue Return Statement {year} (P&L)',
+    blue_return_description: 'Enter the opening and closing inventory and the special deduction, then export the profit and loss statement.',
+    financials_opening_inventory: 'Opening inventory',
+    financials_closing_inventory: 'Closing inventory',
+    blue_return_special_deduction: 'Blue return special deduction',
+    blue_return_deduction_option: '¥{yen}',
+    blue_return_sales: 'Sales (revenue)',
+    financials_cost_of_sales: 'Cost of sales',
+    financials_gross_profit: 'Gross profit',
+    financials_total_expenses: 'Total expenses',
+    blue_return_net_income: 'Net income',
+    financials_income: 'Income',
+    blue_return_note: 'Amounts are the business share (after apportionment). The special deduction is capped at the income before deduction. Family employee salaries and reserves are not included.',
+    financials_export_excel: 'Export Excel',
+    blue_return_print: 'Print / PDF',
+
+    // White return statement (収支内訳書)
+    export_white_return: 'White Return Statement',
+    export_white_return_description: 'Income and expense statement for white return filers (Excel)',
+    export_white_return_tooltip: 'Builds page 1 of the income and expense statement (収支内訳書) from the year\'s records. Expenses are arranged in the form\'s order (items ⑪–⑯ and "other expenses" イ–カ), and the miscellaneous expenses are itemized on a second sheet. Categories the form has no line for are listed for review.',
+    export_white_return_tooltip_casual: '💡 For white return filers.',
+    white_return_title: 'White Return Statement {year}',
+    white_return_description: 'Enter the opening and closing inventory, then export the income and expense statement (inventory is shared with the blue return statement).',
+    white_return_total_income: 'Total revenue',
+    white_return_issues_title: 'Some categories have no line on the white return form',
+    white_return_issue_merged: '{category} ({count} records, {amount}) is counted under "{mergedInto}"',
+    white_return_issue_excluded: '{category} ({count} records, {amount}) has no line on the form and is left out. Please change the category',
+    white_return_note: 'Amounts are the business share (after apportionment). The {count} miscellaneous expenses are itemized on a second sheet. Household consumption and the family employee deduction are not included.',
+
+    // Fixed asset register (固定資産台帳)
+    fixed_asset_title: 'Fixed Asset',
+    fixed_asset_description: 'Register equipment of ¥100,000 or more as a fixed asset to depreciate it over the years instead of expensing it in the year of payment.',
+    fixed_asset_register: 'Register as fixed asset',
+    fixed_asset_unregister: 'Unregister',
+    fixed_asset_name: 'Asset name',
+    fixed_asset_service_date: 'In service from',
+    fixed_asset_years: 'years',
+    fixed_asset_life_years: '{years} yrs',
+    fixed_asset_life_custom: 'Enter useful life manually',
+    fixed_asset_life_pc: 'Computer (not a server)',
+    fixed_asset_life_server: 'Server',
+    fixed_asset_life_office_equipment: 'Copier, printer and other office machines',
+    fixed_asset_life_camera: 'Camera',
+    fixed_asset_life_audio_visual: 'TV and audio equipment',
+    fixed_asset_life_software: 'Software (internal use)',
+    fixed_asset_life_appliance: 'Refrigerator, washer, air conditioner and other appliances',
+    fixed_asset_life_phone_digital: 'Digital PBX and button telephone systems',
+    fixed_asset_life_communication: 'Telephones and other communication equipment',
+    fixed_asset_life_furniture_metal: 'Desk, chair, cabinet (metal)',
+    fixed_asset_life_furniture_other: 'Desk, chair, cabinet (other)',
+    fixed_asset_life_car: 'Car',
+    fixed_asset_life_car_light: 'Kei car',
+    fixed_asset_life_motorcycle: 'Motorcycle',
+    fixed_asset_life_building_equipment: 'Building fixtures (electrical, plumbing)',
+    fixed_asset_life_building_wood_office: 'Wooden building (office)',
+    fixed_asset_life_building_wood_shop: 'Wooden building (shop)',
+    fixed_asset_method_straightLine: 'Straight-line',
+    fixed_asset_method_decliningBalance: 'Declining balance',
+    fixed_asset_method_lumpSum: 'Lump-sum (3 years)',
+    fixed_asset_method_smallAmount: 'Small-asset rule (full)',
+    fixed_asset_note: 'Deductible amount per year. The business share is the apportionment ratio. Declining balance requires a notification to the tax office.',
+    fixed_asset_register_title: 'Fixed Asset Register',
+    fixed_asset_unregistered_title: 'Large expenses not registered',
+    fixed_asset_unregistered_hint: 'Register them as fixed assets from the receipt details to have the depreciation calculated.',
+    fixed_asset_deductible: 'Deductible this year',
+    fixed_asset_export: 'Depreciation Schedule (Excel)',
+
     // Depreciation threshold warnings
     warning_depreciation_threshold_title: 'Depreciation Review Required',
     warning_depreciation_required: 'Amount ≥¥100,000: May require depreciation treatment. Blue form (青色申告) filers may use immediate expensing under 少額減価償却資産の特例.',
@@ -0,0 +1,255 @@
+import type { ExpenseCategory, Receipt } from '@/types/receipt';
+import type { RecurringEntry, RecurringSuggestion, RecurringTemplate } from '@/types/recurring';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { RECURRING_SETTINGS } from '../utils/constants';
+import { formatDateForInput, normalizeName } from '../utils/format';
+import { getVendorNames } from '../vendors/profile';
+
+/**
+ * Recurring expenses (定期支出)
+ *
+ * Subscriptions, rent and phone bills arrive as near-identical receipts every
+ * month. A receipt belongs to a template when it is an expense from the same
+ * vendor (T-number, or normalized issuer name) within the amount tolerance;
+ * each month's expected entry is matched to the closest such receipt around
+ * its expected date.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * YYYY-MM of a date
+ */
+export function toPeriod(date: Date | string): string {
+  return formatDateForInput(date).slice(0, 7);
+}
+
+/**
+ * Move a YYYY-MM period by a number of months
+ */
+export function addMonths(period: string, months: number): string {
+  const index = Number(period.slice(0, 4)) * 12 + Number(period.slice(5, 7)) - 1 + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Number of months from one period to a later one
+ */
+function monthsBetween(from: string, to: string): number {
+  return (
+    (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 +
+    Number(to.slice(5, 7)) -
+    Number(from.slice(5, 7))
+  );
+}
+
+/**
+ * Expected date of a month, with the day clamped to the end of short months
+ */
+export function getExpectedDate(period: string, dayOfMonth: number): string {
+  const year = Number(period.slice(0, 4));
+  const month = Number(period.slice(5, 7));
+  const lastDay = new Date(year, month, 0).getDate();
+  return `${period}-${String(Math.min(Math.max(dayOfMonth, 1), lastDay)).padStart(2, '0')}`;
+}
+
+function daysBetween(a: string, b: string): number {
+  const toTime = (date: string) =>
+    new Date(Number(date.slice(0, 4)), Number(date.slice(5, 7)) - 1, Number(date.slice(8, 10))).getTime();
+  return Math.round(Math.abs(toTime(a) - toTime(b)) / DAY_MS);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+function isWithinTolerance(amount: number, usual: number): boolean {
+  return Math.abs(amount - usual) <= usual * RECURRING_SETTINGS.AMOUNT_TOLERANCE;
+}
+
+/**
+ * Whether a receipt is the vendor's monthly payment described by a template
+ */
+export function matchesTemplate(receipt: Receipt, template: RecurringTemplate): boolean {
+  const data = receipt.extractedData;
+  if (getDocumentDirection(data) !== 'expense') return false;
+
+  const sameVendor =
+    (!!template.tNumber && data.tNumber === template.tNumber) ||
+    template.names.includes(normalizeName(data.issuerName));
+  return sameVendor && isWithinTolerance(data.totalAmount, template.amount);
+}
+
+/**
+ * Months a template expects a payment in, up to the current month
+ */
+export function getTemplatePeriods(template: RecurringTemplate, today: string): string[] {
+  const current = today.slice(0, 7);
+  const last = template.endMonth && template.endMonth < current ? template.endMonth : current;
+
+  const periods: string[] = [];
+  for (let period = template.startMonth; period <= last; period = addMonths(period, 1)) {
+    periods.push(period);
+  }
+  return periods;
+}
+
+/**
+ * The template's entries up to the current month, matched against receipts
+ *
+ * Every month gets the receipt closest to its expected date (within the match
+ * window), each receipt counting for one month only. Months without a
+ * receipt keep a 'skipped' mark made by the user; months outside the
+ * template's range are dropped.
+ *
+ * @param entries - The template's stored entries
+ * @returns Entries ordered by period
+ */
+export function matchRecurringEntries(
+  template: RecurringTemplate,
+  entries: RecurringEntry[],
+  receipts: Receipt[],
+  today: string
+): RecurringEntry[] {
+  const stored = new Map(entries.map((entry) => [entry.period, entry]));
+  const periods = getTemplatePeriods(template, today).map((period) => ({
+    period,
+    expectedDate: getExpectedDate(period, template.dayOfMonth),
+  }));
+
+  // Closest pairs first
+  const pairs: { period: string; receiptId: string; distance: number }[] = [];
+  for (const receipt of receipts) {
+    if (!matchesTemplate(receipt, template)) continue;
+    const date = formatDateForInput(receipt.extractedData.transactionDate);
+    for (const { period, expectedDate } of periods) {
+      const distance = daysBetween(date, expectedDate);
+      if (distance <= RECURRING_SETTINGS.MATCH_WINDOW_DAYS) {
+        pairs.push({ period, receiptId: receipt.id, distance });
+      }
+    }
+  }
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const matched = new Map<string, string>();
+  const usedReceipts = new Set<string>();
+  for (const { period, receiptId } of pairs) {
+    if (matched.has(period) || usedReceipts.has(receiptId)) continue;
+    matched.set(period, receiptId);
+    usedReceipts.add(receiptId);
+  }
+
+  return periods.map(({ period, expectedDate }) => {
+    const receiptId = matched.get(period);
+    const entry: RecurringEntry = {
+      id: `${template.id}:${period}`,
+      templateId: template.id,
+      period,
+      expectedDate,
+      status: receiptId ? 'matched' : stored.get(period)?.status === 'skipped' ? 'skipped' : 'expected',
+    };
+    if (receiptId) entry.receiptId = receiptId;
+    return entry;
+  });
+}
+
+/**
+ * Whether a month's receipt is overdue: still expected a while after its date
+ */
+export function isMissingEntry(entry: RecurringEntry, today: string): boolean {
+  return (
+    entry.status === 'expected' &&
+    entry.expectedDate < today &&
+    daysBetween(entry.expectedDate, today) > RECURRING_SETTINGS.MISSING_AFTER_DAYS
+  );
+}
+
+/**
+ * The latest run of months with no gap over MAX_GAP_MONTHS
+ */
+function getLatestRun(months: string[]): string[] {
+  let start = months.length - 1;
+  while (start > 0 && monthsBetween(months[start - 1], months[start]) <= RECURRING_SETTINGS.MAX_GAP_MONTHS) {
+    start--;
+  }
+  return months.slice(start);
+}
+
+function mostFrequent<T>(values: T[]): T {
+  const counts = new Map<T, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Find vendors paid about the same amount every month that no template
+ * covers yet
+ *
+ * Receipts are grouped by T-number (or normalized issuer name when there is
+ * none) and narrowed to those near the group's median amount. A group is
+ * suggested when its latest run of months has MIN_OCCURRENCES months and
+ * mostly one receipt per month; shops visited several times a month are not
+ * subscriptions.
+ *
+ * @returns Suggestions, most recently paid first
+ */
+export function detectRecurringSeries(
+  receipts: Receipt[],
+  templates: RecurringTemplate[]
+): RecurringSuggestion[] {
+  const groups = new Map<string, Receipt[]>();
+  for (const receipt of receipts) {
+    const data = receipt.extractedData;
+    if (getDocumentDirection(data) !== 'expense' || !(data.totalAmount > 0)) continue;
+    if (templates.some((template) => matchesTemplate(receipt, template))) continue;
+
+    const key = data.tNumber || normalizeName(data.issuerName);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) ?? []), receipt]);
+  }
+
+  const suggestions: RecurringSuggestion[] = [];
+  for (const [key, group] of Array.from(groups.entries())) {
+    if (group.length < RECURRING_SETTINGS.MIN_OCCURRENCES) continue;
+
+    const usual = median(group.map((r) => r.extractedData.totalAmount));
+    const byMonth = new Map<string, Receipt[]>();
+    for (const receipt of group) {
+      if (!isWithinTolerance(receipt.extractedData.totalAmount, usual)) continue;
+      const period = toPeriod(receipt.extractedData.transactionDate);
+      byMonth.set(period, [...(byMonth.get(period) ?? []), receipt]);
+    }
+
+    const months = getLatestRun(Array.from(byMonth.keys()).sort());
+    if (months.length < RECURRING_SETTINGS.MIN_OCCURRENCES) continue;
+
+    const series = months
+      .flatMap((month) => byMonth.get(month)!)
+      .sort(
+        (a, b) =>
+          new Date(a.extractedData.transactionDate).getTime() -
+          new Date(b.extractedData.transactionDate).getTime()
+      );
+    // Allow the odd re-issued invoice, not a shop visited every week
+    if (series.length > months.length * 1.25) continue;
+
+    const latest = series[series.length - 1].extractedData;
+    suggestions.push({
+      key,
+      name: latest.issuerName,
+      names: getVendorNames(...series.map((r) => r.extractedData.issuerName)),
+      tNumber: latest.tNumber ?? undefined,
+      category: mostFrequent<ExpenseCategory>(series.map((r) => r.extractedData.suggestedCategory)),
+      amount: median(series.map((r) => r.extractedData.totalAmount)),
+      dayOfMonth: median(series.map((r) => new Date(r.extractedData.transactionDate).getDate())),
+      months,
+      receipts: series,
+    });
+  }
+
+  return suggestions.sort((a, b) =>
+    b.months[b.months.length - 1].localeCompare(a.months[a.months.length - 1])
+  );
+}
@@ -0,0 +1,243 @@
+import type { InvoiceRegistrant, RegistryImport } from '@/types/registry';
+import { v4 as uuidv4 } from 'uuid';
+import { addRegistryImport, applyRegistryChanges } from '../db/operations';
+import { REGISTRY_IMPORT } from '../utils/constants';
+import { parseCSVLine } from '../utils/csv';
+
+/**
+ * NTA 適格請求書発行事業者 公表情報 bulk download importer
+ *
+ * Both the CSV and XML downloads carry the same fields in the same order.
+ * CSV files have no header row; XML files wrap each record in an element
+ * that starts with <sequenceNumber>. Files are UTF-8 and can be several
+ * hundred MB, so they are streamed and written to IndexedDB in batches.
+ *
+ * Reference: 適格請求書発行事業者公表システム ダウンロード機能 仕様書
+ */
+
+/**
+ * CSV column positions (0-based)
+ */
+const CSV_COLUMNS = {
+  registratedNumber: 1,
+  process: 2,
+  kind: 4,
+  latest: 6,
+  registrationDate: 7,
+  updateDate: 8,
+  disposalDate: 9,
+  expireDate: 10,
+  address: 11,
+  kana: 17,
+  name: 18,
+  tradeName: 22,
+  popularName: 23,
+} as const;
+
+type NtaField = keyof typeof CSV_COLUMNS;
+
+/**
+ * XML element names for each field
+ */
+const XML_ELEMENTS: Record<NtaField, string> = {
+  registratedNumber: 'registratedNumber',
+  process: 'process',
+  kind: 'kind',
+  latest: 'latest',
+  registrationDate: 'registrationDate',
+  updateDate: 'updateDate',
+  disposalDate: 'disposalDate',
+  expireDate: 'expireDate',
+  address: 'address',
+  kana: 'kana',
+  name: 'name',
+  tradeName: 'tradeName',
+  popularName: 'popularName_previousName',
+};
+
+/** 事業者処理区分: record was deleted from the public registry */
+const PROCESS_DELETED = '99';
+
+/** 人格区分: corporation */
+const KIND_CORPORATION = '2';
+
+type NtaRecord = Partial<Record<NtaField, string>>;
+
+/**
+ * Result of parsing one record
+ * - registrant: add or replace
+ * - deleted: remove this T-number
+ * - null: ignore (history rows, malformed rows)
+ */
+type ParsedRecord =
+  | { type: 'registrant'; registrant: InvoiceRegistrant }
+  | { type: 'deleted'; tNumber: string }
+  | null;
+
+/**
+ * Decode the predefined XML entities
+ */
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Convert a raw NTA record into a registrant (or deletion)
+ */
+function toParsedRecord(record: NtaRecord): ParsedRecord {
+  const tNumber = record.registratedNumber?.trim();
+  if (!tNumber || !/^T\d{13}$/.test(tNumber)) return null;
+
+  if (record.process?.trim() === PROCESS_DELETED) {
+    return { type: 'deleted', tNumber };
+  }
+
+  // Difference files include superseded history rows
+  if (record.latest?.trim() === '0') return null;
+
+  const optional = (value: string | undefined) => value?.trim() || undefined;
+
+  return {
+    type: 'registrant',
+    registrant: {
+      tNumber,
+      kind: record.kind?.trim() === KIND_CORPORATION ? 'corporation' : 'individual',
+      name: record.name?.trim() ?? '',
+      kana: optional(record.kana),
+      tradeName: optional(record.tradeName),
+      popularName: optional(record.popularName),
+      address: optional(record.address),
+      registrationDate: record.registrationDate?.trim() ?? '',
+      updateDate: optional(record.updateDate),
+      cancellationDate: optional(record.disposalDate),
+      expirationDate: optional(record.expireDate),
+    },
+  };
+}
+
+/**
+ * Parse one CSV line of the bulk download
+ */
+export function parseNtaCSVLine(line: string): ParsedRecord {
+  const fields = parseCSVLine(line);
+  const record: NtaRecord = {};
+  for (const [field, index] of Object.entries(CSV_COLUMNS)) {
+    record[field as NtaField] = fields[index];
+  }
+  return toParsedRecord(record);
+}
+
+/**
+ * Parse one XML record block of the bulk download
+ */
+export function parseNtaXMLRecord(block: string): ParsedRecord {
+  const record: NtaRecord = {};
+  for (const [field, element] of Object.entries(XML_ELEMENTS)) {
+    const match = block.match(new RegExp(`<${element}>([\\s\\S]*?)</${element}>`));
+    if (match) {
+      record[field as NtaField] = decodeXmlEntities(match[1]);
+    }
+  }
+  return toParsedRecord(record);
+}
+
+/**
+ * Split buffered text into complete records, returning the unfinished tail
+ */
+function takeCSVRecords(buffer: string, isFinal: boolean): { records: string[]; rest: string } {
+  const lines = buffer.split(/\r?\n/);
+  const rest = isFinal ? '' : lines.pop() ?? '';
+  return { records: lines.filter((line) => line.trim().length > 0), rest };
+}
+
+function takeXMLRecords(buffer: string, isFinal: boolean): { records: string[]; rest: string } {
+  const blocks = buffer.split('<sequenceNumber>');
+  // Text before the first record is the document header
+  const head = blocks.shift() ?? '';
+  const rest = isFinal ? '' : blocks.length > 0 ? `<sequenceNumber>${blocks.pop()}` : head;
+  return { records: blocks, rest };
+}
+
+/**
+ * Import an NTA bulk download file (CSV or XML) into the local registry
+ *
+ * @param onProgress - Called with the fraction of the file read (0-1)
+ * @returns Summary of the import
+ */
+export async function importNtaRegistryFile(
+  file: File,
+  onProgress?: (progress: number) => void
+): Promise<RegistryImport> {
+  const format: RegistryImport['format'] = /\.xml$/i.test(file.name) ? 'xml' : 'csv';
+  const takeRecords = format === 'xml' ? takeXMLRecords : takeCSVRecords;
+  const parseRecord = format === 'xml' ? parseNtaXMLRecord : parseNtaCSVLine;
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+
+  let buffer = '';
+  let bytesRead = 0;
+  let recordCount = 0;
+  let deletedCount = 0;
+  let registrants: InvoiceRegistrant[] = [];
+  let deletions: string[] = [];
+
+  const flush = async () => {
+    if (registrants.length === 0 && deletions.length === 0) return;
+    await applyRegistryChanges(registrants, deletions);
+    recordCount += registrants.length;
+    deletedCount += deletions.length;
+    registrants = [];
+    deletions = [];
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) {
+      bytesRead += value.byteLength;
+      buffer += decoder.decode(value, { stream: true });
+    }
+    if (done) {
+      buffer += decoder.decode();
+    }
+
+    const { records, rest } = takeRecords(buffer, done);
+    buffer = rest;
+
+    for (const raw of records) {
+      const parsed = parseRecord(raw);
+      if (parsed?.type === 'registrant') registrants.push(parsed.registrant);
+      if (parsed?.type === 'deleted') deletions.push(parsed.tNumber);
+
+      if (registrants.length + deletions.length >= REGISTRY_IMPORT.BATCH_SIZE) {
+        await flush();
+      }
+    }
+
+    onProgress?.(file.size > 0 ? bytesRead / file.size : 1);
+    if (done) break;
+  }
+
+  await flush();
+
+  if (recordCount === 0 && deletedCount === 0) {
+    throw new Error('No registrant records found. Please select an NTA 公表情報 CSV or XML file.');
+  }
+
+  const summary: RegistryImport = {
+    id: uuidv4(),
+    importedAt: new Date(),
+    fileName: file.name,
+    format,
+    recordCount,
+    deletedCount,
+  };
+  await addRegistryImport(summary);
+
+  return summary;
+}
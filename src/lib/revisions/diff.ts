@@ -0,0 +1,73 @@
+import type { Receipt } from '@/types/receipt';
+import type { FieldChange } from '@/types/revision';
+
+/** Prefix of extracted data fields in a change's path */
+export const EXTRACTED_PREFIX = 'extractedData.';
+
+/** Bookkeeping fields that change on every write and aren't worth recording */
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Field-level differences between two versions of a receipt
+ * Extracted data is compared field by field so a correction shows exactly
+ * which value changed.
+ */
+export function diffReceipts(before: Receipt, after: Receipt): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const keys = Array.from(
+    new Set([...Object.keys(before), ...Object.keys(after)])
+  ) as (keyof Receipt)[];
+  for (const key of keys) {
+    if (IGNORED_FIELDS.has(key) || key === 'extractedData') continue;
+    if (!isSame(before[key], after[key])) {
+      changes.push({ field: key, before: before[key], after: after[key] });
+    }
+  }
+
+  const data = Array.from(
+    new Set([...Object.keys(before.extractedData), ...Object.keys(after.extractedData)])
+  ) as (keyof Receipt['extractedData'])[];
+  for (const key of data) {
+    const a = before.extractedData[key];
+    const b = after.extractedData[key];
+    if (!isSame(a, b)) {
+      changes.push({ field: `${EXTRACTED_PREFIX}${key}`, before: a, after: b });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Update that puts the changed fields back to their old values
+ *
+ * @param receipt - The receipt as it is now
+ * @param changes - Changes of the revision being undone
+ */
+export function revertChanges(receipt: Receipt, changes: FieldChange[]): Partial<Receipt> {
+  const update: Record<string, unknown> = {};
+  const extractedData: Record<string, unknown> = { ...receipt.extractedData };
+  let touchesData = false;
+
+  for (const change of changes) {
+    if (change.field.startsWith(EXTRACTED_PREFIX)) {
+      const key = change.field.slice(EXTRACTED_PREFIX.length);
+      if (change.before === undefined) {
+        delete extractedData[key];
+      } else {
+        extractedData[key] = change.before;
+      }
+      touchesData = true;
+    } else {
+      update[change.field] = change.before;
+    }
+  }
+
+  if (touchesData) update.extractedData = extractedData;
+  return update as Partial<Receipt>;
+}
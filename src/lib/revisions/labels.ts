@@ -0,0 +1,41 @@
+import type { TranslationKey } from '../i18n/translations';
+import { formatDate } from '../utils/format';
+
+/** Translated labels for changed fields; others show their path */
+const FIELD_LABELS: Record<string, TranslationKey> = {
+  'extractedData.issuerName': 'field_issuer_name',
+  'extractedData.tNumber': 'field_tnumber',
+  'extractedData.transactionDate': 'field_date',
+  'extractedData.totalAmount': 'field_total_amount',
+  'extractedData.currency': 'field_currency',
+  'extractedData.originalAmount': 'field_original_amount',
+  'extractedData.exchangeRate': 'field_exchange_rate',
+  'extractedData.voucher': 'field_voucher',
+  'extractedData.suggestedCategory': 'field_category',
+  'extractedData.direction': 'field_direction',
+  'extractedData.paymentMethod': 'field_payment_method',
+  'extractedData.businessRatio': 'field_business_ratio',
+  'extractedData.fixedAsset': 'fixed_asset_title',
+  'extractedData.withholding': 'withholding_title',
+  needsReview: 'revision_field_needs_review',
+  isManuallyReviewed: 'revision_field_reviewed',
+};
+
+/**
+ * Label key for a changed field ("extractedData.totalAmount"), if there is one
+ */
+export function getFieldLabelKey(field: string): TranslationKey | undefined {
+  return FIELD_LABELS[field];
+}
+
+/**
+ * Short display form of an old/new value in a history view
+ */
+export function formatChangeValue(value: unknown, language: 'ja' | 'en'): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return formatDate(value, language);
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,138 @@
+import type { Receipt } from '@/types/receipt';
+import type { StatementTransaction } from '@/types/statement';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { STATEMENT_MATCHING } from '../utils/constants';
+import { normalizeName } from '../utils/format';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatementMatch {
+  transactionId: string;
+  receiptId: string;
+}
+
+/**
+ * Character-bigram (Dice) similarity of two vendor names, 0-1
+ * Statement descriptions are often abbreviated or in half-width katakana
+ * ("ｱﾏｿﾞﾝ" for アマゾンジャパン合同会社); NFKC normalization plus partial
+ * overlap handles most of it. Containment counts as a full match.
+ */
+export function getNameSimilarity(a: string, b: string): number {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x.includes(y) || y.includes(x)) return 1;
+
+  const bigrams = (text: string) => {
+    const result: string[] = [];
+    for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+    return result;
+  };
+
+  const left = bigrams(x);
+  const right = bigrams(y);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = new Map<string, number>();
+  for (const gram of right) remaining.set(gram, (remaining.get(gram) ?? 0) + 1);
+
+  let shared = 0;
+  for (const gram of left) {
+    const count = remaining.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      remaining.set(gram, count - 1);
+    }
+  }
+
+  return (2 * shared) / (left.length + right.length);
+}
+
+/**
+ * Signed amount a receipt should appear with on a statement
+ * Expenses and purchases are payments (positive), income is money in (negative).
+ */
+export function getStatementAmount(receipt: Receipt): number {
+  const amount = receipt.extractedData.totalAmount;
+  return getDocumentDirection(receipt.extractedData) === 'income' ? -amount : amount;
+}
+
+/**
+ * Pair unmatched statement lines with receipts
+ * A pair needs the same amount and a date within the account's window (a few
+ * days for cards, weeks for bank transfers). Among candidates, similar vendor
+ * names and closer dates win; a candidate with a dissimilar name is only
+ * taken when it is the line's only candidate. Each receipt is used once.
+ *
+ * @param transactions - Statement lines; only 'unmatched' ones are considered
+ * @param receipts - Receipts not yet linked to a statement line
+ */
+export function matchStatementTransactions(
+  transactions: StatementTransaction[],
+  receipts: Receipt[]
+): StatementMatch[] {
+  const candidates: (StatementMatch & { score: number })[] = [];
+
+  for (const transaction of transactions) {
+    if (transaction.status !== 'unmatched') continue;
+
+    const windowDays =
+      transaction.kind === 'card'
+        ? STATEMENT_MATCHING.CARD_WINDOW_DAYS
+        : STATEMENT_MATCHING.BANK_WINDOW_DAYS;
+
+    const own = receipts.flatMap((receipt) => {
+      if (receipt.processingStatus !== 'completed') return [];
+      if (getStatementAmount(receipt) !== transaction.amount) return [];
+
+      const days =
+        Math.abs(
+          new Date(receipt.extractedData.transactionDate).getTime() -
+            new Date(transaction.date).getTime()
+        ) / DAY_MS;
+      if (days > windowDays) return [];
+
+      const similarity = getNameSimilarity(
+        transaction.description,
+        receipt.extractedData.issuerName
+      );
+      return [{ receiptId: receipt.id, similarity, days }];
+    });
+
+    for (const candidate of own) {
+      if (candidate.similarity < STATEMENT_MATCHING.MIN_NAME_SIMILARITY && own.length > 1) continue;
+      candidates.push({
+        transactionId: transaction.id,
+        receiptId: candidate.receiptId,
+        score: candidate.similarity - candidate.days / (windowDays + 1),
+      });
+    }
+  }
+
+  // Best pairs first; each line and each receipt is used once
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedTransactions = new Set<string>();
+  const usedReceipts = new Set<string>();
+  const matches: StatementMatch[] = [];
+
+  for (const candidate of candidates) {
+    if (usedTransactions.has(candidate.transactionId) || usedReceipts.has(candidate.receiptId)) {
+      continue;
+    }
+    usedTransactions.add(candidate.transactionId);
+    usedReceipts.add(candidate.receiptId);
+    matches.push({ transactionId: candidate.transactionId, receiptId: candidate.receiptId });
+  }
+
+  return matches;
+}
+
+/**
+ * Receipts that should show up on a statement
+ * Cash payments never do; everything else is expected once statements
+ * covering its date have been imported.
+ */
+export function expectsStatementLine(receipt: Receipt): boolean {
+  return receipt.extractedData.paymentMethod !== 'cash';
+}
@@ -0,0 +1,75 @@
+/**
+ * Perceptual image hashing (dHash) for duplicate detection
+ *
+ * The image is shrunk to 9x8 grayscale and each bit records whether a pixel
+ * is brighter than its right neighbour. Re-compressed or resized copies of
+ * the same photo produce hashes within a few bits of each other.
+ */
+
+const HASH_WIDTH = 9; // 8 comparisons per row
+const HASH_HEIGHT = 8;
+
+/**
+ * Compute a 64-bit difference hash of an image blob
+ * @returns 16-character hex string
+ */
+export async function computeImageHash(blob: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+    if (!ctx) {
+      throw new Error('Canvas context not available');
+    }
+
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    // Luma per pixel (ITU-R BT.601)
+    const gray: number[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      gray.push(data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+    }
+
+    let hash = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let nibble = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        const left = gray[y * HASH_WIDTH + x];
+        const right = gray[y * HASH_WIDTH + x + 1];
+        nibble = (nibble << 1) | (left > right ? 1 : 0);
+
+        // Emit a hex digit every 4 bits
+        if (x % 4 === 3) {
+          hash += nibble.toString(16);
+          nibble = 0;
+        }
+      }
+    }
+
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let xor = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (xor) {
+      distance += xor & 1;
+      xor >>= 1;
+    }
+  }
+  return distance;
+}
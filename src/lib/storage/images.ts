@@ -1,5 +1,6 @@
 import { db } from '../db/schema';
 import { IMAGE_COMPRESSION } from '../utils/constants';
+import { isPdfFile, renderPdfPages } from './pdf';
 
 /**
  * Check if a file is HEIC format
@@ -58,6 +59,7 @@ export function base64ToBlob(base64: string, mimeType: string = 'image/jpeg'): B
 /**
  * Compress an image file using Canvas API
  * HEIC files are converted to JPEG first, then compressed
+ * PDF files are rendered and only the first page is kept (use renderPdfPages for all pages)
  * Returns { blob, needsServerConversion } - if needsServerConversion is true, the blob is the original HEIC
  */
 export async function compressImage(
@@ -82,6 +84,15 @@ export async function compressImage(
     }
   }
 
+  // PDFs can't be loaded into an <img>, render the first page instead
+  if (isPdfFile(file)) {
+    const [firstPage] = await renderPdfPages(file, 1, maxDimension, quality);
+    if (!firstPage) {
+      throw new Error('PDF has no pages');
+    }
+    return { blob: firstPage, needsServerConversion: false };
+  }
+
   // For non-HEIC images, compress normally
   const compressed = await compressImageBlob(file, maxDimension, quality);
   return { blob: compressed, needsServerConversion: false };
@@ -166,6 +177,18 @@ export async function storeImage(file: File, imageId: string): Promise<{ imageId
   return { imageId, needsServerConversion };
 }
 
+/**
+ * Store an already-processed image blob (e.g., a rendered PDF page) in IndexedDB
+ */
+export async function storeImageBlob(blob: Blob, imageId: string): Promise<string> {
+  await db.images.add({
+    id: imageId,
+    blob: blob,
+  });
+
+  return imageId;
+}
+
 /**
  * Update an existing stored image with a new blob (e.g., after server-side HEIC conversion)
  */
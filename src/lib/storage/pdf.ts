@@ -0,0 +1,181 @@
+import { IMAGE_COMPRESSION, PDF_SETTINGS } from '../utils/constants';
+
+/**
+ * Check if a file is a PDF document
+ */
+export function isPdfFile(file: File | Blob): boolean {
+  if (file.type === 'application/pdf') {
+    return true;
+  }
+  if (file instanceof File) {
+    return file.name.toLowerCase().endsWith('.pdf');
+  }
+  return false;
+}
+
+/**
+ * Load pdf.js on demand
+ * Uses dynamic import to avoid window reference during SSR
+ */
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+
+  // Let webpack bundle the worker as a module worker (served from 'self', allowed by the CSP)
+  if (!pdfjs.GlobalWorkerOptions.workerPort) {
+    pdfjs.GlobalWorkerOptions.workerPort = new Worker(
+      new URL('pdfjs-dist/build/pdf.worker.mjs', import.meta.url),
+      { type: 'module' }
+    );
+  }
+
+  return pdfjs;
+}
+
+/**
+ * Convert a canvas to a JPEG blob
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error('Page rendering failed'));
+        }
+      },
+      IMAGE_COMPRESSION.FORMAT,
+      quality
+    );
+  });
+}
+
+/**
+ * Render each page of a PDF to a JPEG image
+ * Pages are scaled so their longest side fits within maxDimension
+ *
+ * @param file - PDF file or blob
+ * @param maxPages - Stop after this many pages (large bundles are truncated)
+ * @returns One JPEG blob per page, in page order
+ */
+export async function renderPdfPages(
+  file: Blob,
+  maxPages: number = PDF_SETTINGS.MAX_PAGES,
+  maxDimension: number = IMAGE_COMPRESSION.MAX_DIMENSION,
+  quality: number = IMAGE_COMPRESSION.QUALITY
+): Promise<Blob[]> {
+  const pdfjs = await loadPdfjs();
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pageCount = Math.min(pdf.numPages, maxPages);
+    const pages: Blob[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+
+      // Scale so the longest side is maxDimension pixels
+      const baseViewport = page.getViewport({ scale: 1 });
+      const scale = maxDimension / Math.max(baseViewport.width, baseViewport.height);
+      const viewport = page.getViewport({ scale });
+
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        throw new Error('Canvas context not available');
+      }
+
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+
+      // PDFs have a transparent background; JPEG needs white
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      pages.push(await canvasToBlob(canvas, quality));
+
+      page.cleanup();
+    }
+
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Load a blob into an image element
+ */
+function loadImage(blob: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const url = URL.createObjectURL(blob);
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load page image'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Whether a document is short enough to extract from one stitched image
+ */
+export function canStitchPages(pageCount: number): boolean {
+  return pageCount <= PDF_SETTINGS.MAX_STITCHED_PAGES;
+}
+
+/**
+ * Stack page images vertically into a single image
+ * Used to extract "whole document" PDFs as one receipt, since the
+ * extraction API accepts one image per request. Limited to
+ * MAX_STITCHED_PAGES so each page keeps a readable height.
+ */
+export async function stitchPageImages(
+  pages: Blob[],
+  maxHeight: number = PDF_SETTINGS.MAX_STITCHED_HEIGHT,
+  quality: number = IMAGE_COMPRESSION.QUALITY
+): Promise<Blob> {
+  if (!canStitchPages(pages.length)) {
+    throw new Error(
+      `Only ${PDF_SETTINGS.MAX_STITCHED_PAGES} pages can be read as one document (got ${pages.length})`
+    );
+  }
+
+  const images = await Promise.all(pages.map(loadImage));
+
+  // Normalize every page to the widest page's width
+  const width = Math.max(...images.map((img) => img.width));
+  const scaledHeights = images.map((img) => (img.height * width) / img.width);
+  const totalHeight = scaledHeights.reduce((sum, h) => sum + h, 0);
+
+  // Shrink the whole sheet if it would exceed the height limit
+  const scale = Math.min(1, maxHeight / totalHeight);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  canvas.width = Math.floor(width * scale);
+  canvas.height = Math.floor(totalHeight * scale);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  let y = 0;
+  images.forEach((img, index) => {
+    const height = scaledHeights[index] * scale;
+    ctx.drawImage(img, 0, y, canvas.width, height);
+    y += height;
+  });
+
+  return canvasToBlob(canvas, quality);
+}
@@ -0,0 +1,176 @@
+import {
+  applySyncedChange,
+  getPendingSyncChanges,
+  getReceipt,
+  getSyncSettings,
+  saveSyncSettings,
+} from '@/lib/db/operations';
+import { getImageBlob, storeImageBlob } from '@/lib/storage/images';
+import type { Receipt } from '@/types/receipt';
+import type {
+  SyncChange,
+  SyncPullResponse,
+  SyncPushRequest,
+  SyncResult,
+  SyncSettings,
+} from '@/types/sync';
+import { decodeValue, encodeValue } from '../utils/serialize';
+import { ALL_FIELDS } from './merge';
+
+/** Most changes sent in one push request */
+const PUSH_BATCH_SIZE = 200;
+
+type SyncFetch = (path: string, init?: RequestInit) => Promise<Response>;
+
+function createSyncFetch(settings: SyncSettings): SyncFetch {
+  const baseUrl = settings.serverUrl.trim().replace(/\/+$/, '');
+
+  return async (path, init) => {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: { ...init?.headers, Authorization: `Bearer ${settings.token}` },
+      });
+    } catch (error) {
+      // A server on another origin is blocked by the CSP unless it is allowed
+      if (baseUrl) {
+        throw new Error(
+          `Could not reach the sync server at ${baseUrl} (is its origin listed in SYNC_SERVER_ORIGINS?)`
+        );
+      }
+      throw error;
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Sync server error (${response.status})`);
+    }
+    return response;
+  };
+}
+
+function getImageIds(receipt: Receipt): string[] {
+  return [receipt.imageId, ...(receipt.pageImageIds ?? [])];
+}
+
+/**
+ * Download the images of a pulled receipt that aren't stored here yet
+ */
+async function pullImages(receipt: Receipt, syncFetch: SyncFetch): Promise<void> {
+  for (const imageId of getImageIds(receipt)) {
+    if (await getImageBlob(imageId)) continue;
+    const response = await syncFetch(`/api/sync/images/${encodeURIComponent(imageId)}`);
+    await storeImageBlob(await response.blob(), imageId);
+  }
+}
+
+/**
+ * Upload the images of a receipt being pushed
+ */
+async function pushImages(receipt: Receipt, syncFetch: SyncFetch): Promise<void> {
+  for (const imageId of getImageIds(receipt)) {
+    const blob = await getImageBlob(imageId);
+    if (!blob) continue;
+    await syncFetch(`/api/sync/images/${encodeURIComponent(imageId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': blob.type || 'application/octet-stream' },
+      body: blob,
+    });
+  }
+}
+
+/**
+ * Sync with the server: pull other devices' changes, then push ours
+ *
+ * Local changes are collected before pulling so that remote edits can be
+ * merged field by field against them.
+ */
+export async function syncNow(): Promise<SyncResult> {
+  const settings = await getSyncSettings();
+  if (!settings.enabled) throw new Error('Sync is not enabled');
+  if (!settings.token) throw new Error('Sync token is not set');
+
+  const syncFetch = createSyncFetch(settings);
+  const { pending, lastRevisionId } = await getPendingSyncChanges(
+    settings.lastPushedRevisionId,
+    !settings.lastSyncedAt
+  );
+  const result: SyncResult = { pushed: 0, pulled: 0, conflicts: 0, skipped: 0 };
+
+  // Pull
+  let since = settings.lastPulledSeq;
+  let hasMore = true;
+  while (hasMore) {
+    const response = await syncFetch(
+      `/api/sync?since=${since}&device=${encodeURIComponent(settings.deviceId)}`
+    );
+    const page = (await response.json()) as SyncPullResponse;
+
+    for (const entry of page.entries) {
+      const change: SyncChange = {
+        ...entry.change,
+        receipt: entry.change.receipt && decodeValue(entry.change.receipt),
+      };
+      if (change.action === 'upsert') {
+        await pullImages(change.receipt as Receipt, syncFetch);
+      }
+
+      const outcome = await applySyncedChange(change, pending.get(change.receiptId));
+      if (outcome.applied) {
+        result.pulled++;
+      } else if (outcome.conflicts === 0) {
+        result.skipped++;
+      }
+      result.conflicts += outcome.conflicts;
+    }
+
+    since = page.latestSeq;
+    hasMore = page.hasMore;
+    await saveSyncSettings({ lastPulledSeq: since });
+  }
+
+  // Push
+  const changes: SyncChange[] = [];
+  for (const [receiptId, entry] of Array.from(pending.entries())) {
+    if (entry.deleted) {
+      changes.push({
+        receiptId,
+        action: 'delete',
+        changedAt: entry.changedAt.toISOString(),
+        fields: [],
+      });
+      continue;
+    }
+
+    // Merged with pulled changes above, so this is the current state
+    const receipt = await getReceipt(receiptId);
+    if (!receipt) continue;
+
+    const fields = Array.from(entry.fields);
+    if (fields.some((field) => [ALL_FIELDS, 'imageId', 'pageImageIds'].includes(field))) {
+      await pushImages(receipt, syncFetch);
+    }
+    changes.push({
+      receiptId,
+      action: 'upsert',
+      changedAt: new Date(receipt.updatedAt).toISOString(),
+      fields,
+      receipt: await encodeValue(receipt),
+    });
+  }
+
+  // Sent in batches to stay under the server's request size limit
+  for (let i = 0; i < changes.length; i += PUSH_BATCH_SIZE) {
+    const batch = changes.slice(i, i + PUSH_BATCH_SIZE);
+    const body: SyncPushRequest = { deviceId: settings.deviceId, changes: batch };
+    await syncFetch('/api/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    result.pushed += batch.length;
+  }
+
+  await saveSyncSettings({ lastPushedRevisionId: lastRevisionId, lastSyncedAt: new Date() });
+  return result;
+}
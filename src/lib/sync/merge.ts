@@ -0,0 +1,68 @@
+import type { Receipt } from '@/types/receipt';
+import { diffReceipts, EXTRACTED_PREFIX } from '../revisions/diff';
+
+/** Field path meaning "the whole receipt" (creates and restores) */
+export const ALL_FIELDS = '*';
+
+function getField(receipt: Receipt, field: string): unknown {
+  if (field.startsWith(EXTRACTED_PREFIX)) {
+    return (receipt.extractedData as unknown as Record<string, unknown>)[
+      field.slice(EXTRACTED_PREFIX.length)
+    ];
+  }
+  return (receipt as unknown as Record<string, unknown>)[field];
+}
+
+function setField(receipt: Receipt, field: string, value: unknown): void {
+  const target = field.startsWith(EXTRACTED_PREFIX)
+    ? (receipt.extractedData as unknown as Record<string, unknown>)
+    : (receipt as unknown as Record<string, unknown>);
+  const key = field.startsWith(EXTRACTED_PREFIX) ? field.slice(EXTRACTED_PREFIX.length) : field;
+
+  if (value === undefined) {
+    delete target[key];
+  } else {
+    target[key] = value;
+  }
+}
+
+/**
+ * Merge a receipt changed on another device into the local copy
+ *
+ * Fields only the other device changed are taken from it; fields only
+ * changed here are kept. A field changed on both sides goes to whichever
+ * receipt was updated last.
+ *
+ * @param localFields - Fields changed here since the last push ('*' = all)
+ * @param remoteFields - Fields the remote change touched ('*' = all)
+ * @returns The merged receipt and the fields both sides changed
+ */
+export function mergeReceipt(
+  local: Receipt,
+  remote: Receipt,
+  localFields: Set<string>,
+  remoteFields: string[]
+): { merged: Receipt; conflicts: string[] } {
+  const fields = remoteFields.includes(ALL_FIELDS)
+    ? diffReceipts(local, remote).map((change) => change.field)
+    : remoteFields;
+  const remoteIsNewer = new Date(remote.updatedAt) > new Date(local.updatedAt);
+
+  const merged: Receipt = { ...local, extractedData: { ...local.extractedData } };
+  const conflicts: string[] = [];
+
+  for (const field of fields) {
+    const changedHere = localFields.has(ALL_FIELDS) || localFields.has(field);
+    if (changedHere) {
+      if (JSON.stringify(getField(local, field)) === JSON.stringify(getField(remote, field))) {
+        continue;
+      }
+      conflicts.push(field);
+      if (!remoteIsNewer) continue;
+    }
+    setField(merged, field, getField(remote, field));
+  }
+
+  merged.updatedAt = remoteIsNewer ? remote.updatedAt : local.updatedAt;
+  return { merged, conflicts };
+}
@@ -0,0 +1,285 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { appendFile, mkdir, open, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import type { SyncChange, SyncLogEntry } from '@/types/sync';
+
+/**
+ * File-backed store of the sync server
+ *
+ * The change log is a JSON-lines file, one SyncLogEntry per line; images are
+ * stored as files next to it. Everything lives under SYNC_DATA_DIR
+ * (default .sync-data in the working directory). Writes are serialized in
+ * process, which is enough for a single self-hosted server.
+ *
+ * Sequence numbers run 1, 2, 3... in log order, so the byte offset of every
+ * line is kept in memory and a pull reads only the lines after its cursor.
+ */
+
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || '.sync-data');
+const LOG_FILE = path.join(DATA_DIR, 'changes.jsonl');
+const IMAGE_DIR = path.join(DATA_DIR, 'images');
+
+/** Most entries returned by one pull */
+const PULL_LIMIT = 500;
+
+/** Largest push request body (the client sends changes in smaller batches) */
+const MAX_PUSH_BYTES = 10 * 1024 * 1024;
+
+/** Largest image upload (uploads are at most 10MB before compression) */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+/** IDs used in image file names - UUIDs only, never a path */
+const IMAGE_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+/** Content types images are served with; anything else is served as binary */
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/heic', 'image/heif'];
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+interface LogIndex {
+  /** Byte offset of each line; entry seq n starts at lineOffsets[n - 1] */
+  lineOffsets: number[];
+  /** Bytes in the log file */
+  size: number;
+}
+
+let logIndex: Promise<LogIndex> | null = null;
+
+async function loadLogIndex(): Promise<LogIndex> {
+  let data: Buffer;
+  try {
+    data = await readFile(LOG_FILE);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    data = Buffer.alloc(0);
+  }
+
+  const lineOffsets: number[] = [];
+  let start = 0;
+  while (start < data.length) {
+    const end = data.indexOf(0x0a, start);
+    const next = end === -1 ? data.length : end + 1;
+    if (next - start > 1) lineOffsets.push(start);
+    start = next;
+  }
+  return { lineOffsets, size: data.length };
+}
+
+/**
+ * Offsets of the lines in the log, read from the file on first use
+ */
+function getLogIndex(): Promise<LogIndex> {
+  if (!logIndex) {
+    logIndex = loadLogIndex();
+    logIndex.catch(() => {
+      logIndex = null;
+    });
+  }
+  return logIndex;
+}
+
+/**
+ * Read the log bytes between two offsets as entries
+ */
+async function readLogRange(start: number, end: number): Promise<SyncLogEntry[]> {
+  if (end <= start) return [];
+
+  const file = await open(LOG_FILE, 'r');
+  try {
+    const buffer = Buffer.alloc(end - start);
+    await file.read(buffer, 0, buffer.length, start);
+    return buffer
+      .toString('utf-8')
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as SyncLogEntry);
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Append changes from a device to the log
+ *
+ * @returns Sequence number of the last appended change
+ */
+export function appendChanges(deviceId: string, changes: SyncChange[]): Promise<number> {
+  const write = writeQueue.then(async () => {
+    await mkdir(DATA_DIR, { recursive: true });
+    const index = await getLogIndex();
+    let seq = index.lineOffsets.length;
+    const receivedAt = new Date().toISOString();
+
+    const lines = changes.map((change) => {
+      seq++;
+      const entry: SyncLogEntry = { seq, deviceId, receivedAt, change };
+      return Buffer.from(JSON.stringify(entry) + '\n', 'utf-8');
+    });
+    if (lines.length > 0) await appendFile(LOG_FILE, Buffer.concat(lines));
+
+    // Index the new lines only once they are on disk
+    for (const line of lines) {
+      index.lineOffsets.push(index.size);
+      index.size += line.length;
+    }
+    return seq;
+  });
+  writeQueue = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Changes after a sequence number, leaving out the asking device's own
+ */
+export async function readChanges(
+  since: number,
+  deviceId: string
+): Promise<{ entries: SyncLogEntry[]; latestSeq: number; hasMore: boolean }> {
+  const { lineOffsets, size } = await getLogIndex();
+  const total = lineOffsets.length;
+  const first = Math.min(since, total);
+  const last = Math.min(first + PULL_LIMIT, total);
+  const page = await readLogRange(
+    first < total ? lineOffsets[first] : size,
+    last < total ? lineOffsets[last] : size
+  );
+
+  return {
+    entries: page.filter((entry) => entry.deviceId !== deviceId),
+    latestSeq: last > first ? last : Math.max(since, total),
+    hasMore: total > last,
+  };
+}
+
+/**
+ * Read a request body, giving up once it grows past a limit
+ *
+ * @returns The body, or null if it is larger than maxBytes
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<Buffer | null> {
+  const declared = Number(request.headers.get('content-length'));
+  if (declared > maxBytes) return null;
+  if (!request.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Body of a push request, or null if it is over the size limit
+ */
+export async function readPushBody(request: NextRequest): Promise<string | null> {
+  const body = await readBody(request, MAX_PUSH_BYTES);
+  return body && body.toString('utf-8');
+}
+
+/**
+ * Body of an image upload, or null if it is over the size limit
+ */
+export function readImageBody(request: NextRequest): Promise<Buffer | null> {
+  return readBody(request, MAX_IMAGE_BYTES);
+}
+
+/**
+ * Response for a request body over its size limit
+ */
+export function payloadTooLarge(): NextResponse {
+  return NextResponse.json(
+    { error: 'Request body is too large' },
+    { status: 413, headers: SYNC_CORS_HEADERS }
+  );
+}
+
+/**
+ * Content type to store and serve an image with
+ * The uploading client's header is only trusted for known image types.
+ */
+function toImageType(type: string): string {
+  const normalized = type.split(';')[0].trim().toLowerCase();
+  return IMAGE_TYPES.includes(normalized) ? normalized : 'application/octet-stream';
+}
+
+function imagePath(id: string): string {
+  if (!IMAGE_ID_PATTERN.test(id)) throw new Error(`Invalid image ID: ${id}`);
+  return path.join(IMAGE_DIR, id);
+}
+
+/**
+ * Store an image (overwrites)
+ */
+export async function saveImage(id: string, data: Buffer, type: string): Promise<void> {
+  const file = imagePath(id);
+  await mkdir(IMAGE_DIR, { recursive: true });
+  await writeFile(file, data);
+  await writeFile(`${file}.json`, JSON.stringify({ type: toImageType(type) }), 'utf-8');
+}
+
+/**
+ * Read a stored image
+ *
+ * @returns The image, or null if the server doesn't have it
+ */
+export async function readImage(id: string): Promise<{ data: Buffer; type: string } | null> {
+  const file = imagePath(id);
+  try {
+    const [data, meta] = await Promise.all([readFile(file), readFile(`${file}.json`, 'utf-8')]);
+    return { data, type: toImageType((JSON.parse(meta) as { type: string }).type) };
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Headers that let an app served from another origin reach this server
+ */
+export const SYNC_CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+/**
+ * Compare a secret in constant time
+ * Both sides are hashed first so their lengths don't leak either.
+ */
+function isSameSecret(actual: string, expected: string): boolean {
+  const hash = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(hash(actual), hash(expected));
+}
+
+/**
+ * Check a sync request against SYNC_TOKEN
+ * Sync is off unless SYNC_TOKEN is set on the server.
+ *
+ * @returns An error response, or null if the request may proceed
+ */
+export function authorizeSyncRequest(request: NextRequest): NextResponse | null {
+  const token = process.env.SYNC_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Sync is not enabled on this server (set SYNC_TOKEN)' },
+      { status: 404, headers: SYNC_CORS_HEADERS }
+    );
+  }
+  if (!isSameSecret(request.headers.get('authorization') ?? '', `Bearer ${token}`)) {
+    return NextResponse.json(
+      { error: 'Invalid sync token' },
+      { status: 401, headers: SYNC_CORS_HEADERS }
+    );
+  }
+  return null;
+}
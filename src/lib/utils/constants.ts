@@ -1,4 +1,5 @@
-import { ExpenseCategory } from '@/types/receipt';
+import { DocumentDirection, ExpenseCategory, PaymentMethod } from '@/types/receipt';
+import type { WithholdingCategory } from '@/types/payee';
 
 // NTA Official Expense Categories (国税庁公式経費科目)
 // Reference: https://www.nta.go.jp/taxes/shiraberu/shinkoku/kojin_jigyo/index.htm
@@ -29,6 +30,24 @@ export const EXPENSE_CATEGORIES: { value: ExpenseCategory; label: string; descri
   { value: '未分類', label: '未分類', description: 'Uncategorized' },
 ];
 
+// Document directions (取引区分)
+// Income and purchases map to the 売上/仕入 columns of the NTA ledger
+export const DOCUMENT_DIRECTIONS: { value: DocumentDirection; label: string; description: string }[] = [
+  { value: 'expense', label: '経費', description: 'Expense' },
+  { value: 'income', label: '売上', description: 'Income (issued invoice)' },
+  { value: 'purchase', label: '仕入', description: 'Purchase of goods' },
+];
+
+// Payment methods (支払方法)
+export const PAYMENT_METHODS: { value: PaymentMethod; label: string; description: string }[] = [
+  { value: 'cash', label: '現金', description: 'Cash' },
+  { value: 'credit_card', label: 'クレジットカード', description: 'Credit card' },
+  { value: 'debit', label: 'デビット', description: 'Debit' },
+  { value: 'electronic_money', label: '電子マネー', description: 'Electronic money' },
+  { value: 'bank_transfer', label: '銀行振込', description: 'Bank transfer' },
+  { value: 'unknown', label: '不明', description: 'Unknown' },
+];
+
 // Japanese consumption tax rates
 export const TAX_RATES = {
   STANDARD: 10, // 標準税率
@@ -59,6 +78,154 @@ export const DEPRECIATION_THRESHOLDS = {
   THRESHOLD_CHANGE_DATE: '2026-04-01',
 } as const;
 
+// Useful lives (耐用年数) of common business assets, from the 減価償却資産の耐用年数等に関する省令
+export const USEFUL_LIFE_TABLE = [
+  { key: 'pc', label: 'パソコン（サーバー用を除く）', years: 4 },
+  { key: 'server', label: 'サーバー', years: 5 },
+  { key: 'office_equipment', label: '複合機・プリンター等の事務機器', years: 5 },
+  { key: 'camera', label: 'カメラ', years: 5 },
+  { key: 'audio_visual', label: 'テレビ・音響機器', years: 5 },
+  { key: 'software', label: 'ソフトウェア（自社利用）', years: 5 },
+  { key: 'appliance', label: '冷蔵庫・洗濯機・エアコン等の電気機器', years: 6 },
+  { key: 'phone_digital', label: 'デジタル構内交換設備・デジタルボタン電話設備', years: 6 },
+  { key: 'communication', label: '電話機その他の通信機器', years: 10 },
+  { key: 'furniture_metal', label: '事務机・椅子・キャビネット（金属製）', years: 15 },
+  { key: 'furniture_other', label: '事務机・椅子・キャビネット（その他）', years: 8 },
+  { key: 'car', label: '自動車（普通）', years: 6 },
+  { key: 'car_light', label: '軽自動車', years: 4 },
+  { key: 'motorcycle', label: '二輪自動車', years: 3 },
+  { key: 'building_equipment', label: '建物附属設備（電気・給排水設備）', years: 15 },
+  { key: 'building_wood_office', label: '木造建物（事務所）', years: 24 },
+  { key: 'building_wood_shop', label: '木造建物（店舗）', years: 22 },
+] as const;
+
+// 200%定率法 rates by useful life (平成24年4月1日以後取得)
+// rate / revisedRate in 1/1000, guaranteeRate (保証率) in 1/100000
+export const DECLINING_BALANCE_RATES: Record<number, { rate: number; revisedRate: number; guaranteeRate: number }> = {
+  2: { rate: 1000, revisedRate: 0, guaranteeRate: 0 },
+  3: { rate: 667, revisedRate: 1000, guaranteeRate: 11089 },
+  4: { rate: 500, revisedRate: 1000, guaranteeRate: 12499 },
+  5: { rate: 400, revisedRate: 500, guaranteeRate: 10800 },
+  6: { rate: 333, revisedRate: 334, guaranteeRate: 9911 },
+  7: { rate: 286, revisedRate: 334, guaranteeRate: 8680 },
+  8: { rate: 250, revisedRate: 334, guaranteeRate: 7909 },
+  9: { rate: 222, revisedRate: 250, guaranteeRate: 7126 },
+  10: { rate: 200, revisedRate: 250, guaranteeRate: 6552 },
+  11: { rate: 182, revisedRate: 200, guaranteeRate: 5992 },
+  12: { rate: 167, revisedRate: 200, guaranteeRate: 5566 },
+  13: { rate: 154, revisedRate: 167, guaranteeRate: 5180 },
+  14: { rate: 143, revisedRate: 167, guaranteeRate: 4854 },
+  15: { rate: 133, revisedRate: 143, guaranteeRate: 4565 },
+  16: { rate: 125, revisedRate: 143, guaranteeRate: 4294 },
+  17: { rate: 118, revisedRate: 125, guaranteeRate: 4038 },
+  18: { rate: 111, revisedRate: 112, guaranteeRate: 3884 },
+  19: { rate: 105, revisedRate: 112, guaranteeRate: 3693 },
+  20: { rate: 100, revisedRate: 112, guaranteeRate: 3486 },
+};
+
+// 一括償却資産: assets under this amount may be written off in thirds over 3 years
+export const LUMPSUM_DEPRECIATION_LIMIT = 200000; // ¥200,000
+
+// 報酬・料金等 withholding (源泉徴収) and the 309 支払調書
+export const WITHHOLDING_CATEGORIES: { value: WithholdingCategory; label: string; description: string }[] = [
+  { value: 'manuscript', label: '原稿料・デザイン料・講演料等', description: 'Writing, design, lecture fees' },
+  { value: 'professional', label: '弁護士・税理士等の報酬', description: 'Lawyer, tax accountant fees' },
+  { value: 'judicialScrivener', label: '司法書士・土地家屋調査士の報酬', description: 'Judicial scrivener fees' },
+  { value: 'notSubject', label: '源泉徴収の対象外（外注工賃など）', description: 'Not subject (outsourcing)' },
+];
+
+export const WITHHOLDING_SETTINGS = {
+  JUDICIAL_SCRIVENER_DEDUCTION: 10000, // 司法書士等: withheld only on the part of each payment over ¥10,000
+  REPORTING_THRESHOLD: 50000,          // Payees paid more than this in the year are reported
+  // Unregistered vendors paid under these categories are suggested as payees
+  CANDIDATE_CATEGORIES: ['外注工賃'] as ExpenseCategory[],
+  // 納期の特例 covers 弁護士・税理士・司法書士 etc. (204条1項2号) but not 原稿料・デザイン料
+  SEMI_ANNUAL_CATEGORIES: ['professional', 'judicialScrivener'] as WithholdingCategory[],
+  MONTHLY_DUE_DAY: 10,     // Withheld tax is due by the 10th of the next month
+  REMINDER_DAYS: 14,       // Unpaid 納付書 due within this many days are highlighted
+} as const;
+
+// Foreign-currency receipts (外貨建取引)
+export const CURRENCIES: { value: string; label: string; description: string }[] = [
+  { value: 'USD', label: '米ドル', description: 'US dollar' },
+  { value: 'EUR', label: 'ユーロ', description: 'Euro' },
+  { value: 'GBP', label: '英ポンド', description: 'British pound' },
+  { value: 'CNY', label: '人民元', description: 'Chinese yuan' },
+  { value: 'KRW', label: '韓国ウォン', description: 'Korean won' },
+  { value: 'TWD', label: '台湾ドル', description: 'Taiwan dollar' },
+  { value: 'HKD', label: '香港ドル', description: 'Hong Kong dollar' },
+  { value: 'SGD', label: 'シンガポールドル', description: 'Singapore dollar' },
+  { value: 'THB', label: 'タイバーツ', description: 'Thai baht' },
+  { value: 'AUD', label: '豪ドル', description: 'Australian dollar' },
+  { value: 'CAD', label: 'カナダドル', description: 'Canadian dollar' },
+  { value: 'CHF', label: 'スイスフラン', description: 'Swiss franc' },
+];
+
+export const EXCHANGE_RATE_SETTINGS = {
+  BASE_CURRENCY: 'JPY',
+  // No TTM is published on weekends and holidays - the last one within this window is used
+  LOOKBACK_DAYS: 7,
+} as const;
+
+// Duplicate detection settings
+export const DUPLICATE_DETECTION = {
+  MAX_HASH_DISTANCE: 6, // Max differing bits (of 64) for images to count as the same photo
+  SIGNAL_COUNT: 5,      // image, issuer, T-number, date, amount
+} as const;
+
+// T-number registry import (NTA bulk download)
+export const REGISTRY_IMPORT = {
+  BATCH_SIZE: 5000, // Records written to IndexedDB per transaction
+} as const;
+
+// Statement ↔ receipt matching
+export const STATEMENT_MATCHING = {
+  CARD_WINDOW_DAYS: 3,      // Card lines carry the purchase date, so it stays close to the receipt
+  BANK_WINDOW_DAYS: 45,     // Invoices are often paid by transfer weeks after they are dated
+  MIN_NAME_SIMILARITY: 0.3, // Vendor names below this only match when the amount is unambiguous
+} as const;
+
+// Recurring expenses (subscriptions, rent)
+export const RECURRING_SETTINGS = {
+  MIN_OCCURRENCES: 3,     // Receipts in different months before a series is suggested
+  MAX_GAP_MONTHS: 2,      // A suggested series may skip at most one month between receipts
+  AMOUNT_TOLERANCE: 0.15, // Amounts within ±15% of the usual amount belong to the series
+  MATCH_WINDOW_DAYS: 15,  // A receipt matches the month whose expected date is this close
+  MISSING_AFTER_DAYS: 7,  // An unmatched month is reported missing this long after its expected date
+} as const;
+
+// Trash bin
+export const TRASH_SETTINGS = {
+  DEFAULT_RETENTION_DAYS: 30, // Deleted receipts are purged after this many days
+  RETENTION_OPTIONS: [7, 30, 90, 365],
+} as const;
+
+// Invoice system (インボイス制度) transitional credit for purchases without a qualified invoice
+// Transaction dates (YYYY-MM-DD) from which each credit rate applies
+export const INVOICE_TRANSITION = {
+  INVOICE_SYSTEM_START: '2023-10-01', // Before this, every purchase is fully creditable
+  PERIODS: [
+    { from: '2023-10-01', creditRate: 80 },
+    { from: '2026-10-01', creditRate: 50 },
+    { from: '2029-10-01', creditRate: 0 },
+  ],
+} as const;
+
+// Consumption tax return (消費税申告)
+export const CONSUMPTION_TAX = {
+  // National share of each rate (消費税率), in basis points; the rest is 地方消費税
+  NATIONAL_RATE_BP: { 10: 780, 8: 624 } as Record<number, number>,
+  // 地方消費税 = national tax × 22/78
+  LOCAL_TAX_RATIO: { numerator: 22, denominator: 78 },
+  // 2割特例: national tax is 20% of the tax on sales (individuals: 2023-2026)
+  TWO_TENTHS_LAST_YEAR: 2026,
+  TWO_TENTHS_CREDIT_RATE: 80,
+  // 簡易課税 deemed purchase rates (みなし仕入率) by business type (第一種〜第六種)
+  DEEMED_PURCHASE_RATES: { 1: 90, 2: 80, 3: 70, 4: 60, 5: 50, 6: 40 } as Record<number, number>,
+  // Expense categories that are not taxable purchases (不課税・非課税)
+  NON_TAXABLE_CATEGORIES: ['租税公課', '給料賃金', '損害保険料', '利子割引料', '減価償却費', '貸倒金'] as ExpenseCategory[],
+} as const;
+
 // File upload constraints
 export const UPLOAD_CONSTRAINTS = {
   MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
@@ -74,6 +241,13 @@ export const IMAGE_COMPRESSION = {
   FORMAT: 'image/jpeg',
 } as const;
 
+// PDF rendering settings
+export const PDF_SETTINGS = {
+  MAX_PAGES: 30,              // Pages beyond this are not rendered
+  MAX_STITCHED_HEIGHT: 8192,  // Max height of the combined image for "whole document" mode
+  MAX_STITCHED_PAGES: 4,      // More pages would be shrunk too far to read (~2000px each)
+} as const;
+
 // Processing queue settings
 export const QUEUE_SETTINGS = {
   CONCURRENCY: 5,      // Process 5 receipts at a time
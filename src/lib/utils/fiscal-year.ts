@@ -0,0 +1,14 @@
+import type { Receipt } from '@/types/receipt';
+
+/**
+ * Fiscal year (calendar year) a receipt belongs to
+ * Falls back to the upload date when the transaction date is missing or invalid.
+ */
+export function getFiscalYear(receipt: Pick<Receipt, 'extractedData' | 'createdAt'>): number {
+  const transactionDate = new Date(receipt.extractedData.transactionDate);
+  if (!isNaN(transactionDate.getTime())) {
+    return transactionDate.getFullYear();
+  }
+  return new Date(receipt.createdAt).getFullYear();
+}
+
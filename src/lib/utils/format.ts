@@ -37,12 +37,12 @@ export function formatDateForInput(date: Date | string | null | undefined): stri
 }
 
 /**
- * Format currency in Japanese Yen
+ * Format currency in Japanese Yen (or another ISO 4217 currency)
  */
-export function formatCurrency(amount: number): string {
+export function formatCurrency(amount: number, currency = 'JPY'): string {
   return new Intl.NumberFormat('ja-JP', {
     style: 'currency',
-    currency: 'JPY',
+    currency,
   }).format(amount);
 }
 
@@ -82,3 +82,19 @@ export function parseTNumber(formatted: string): string {
   // Remove space: T 1234567890123 -> T1234567890123
   return formatted.replace(/\s/g, '');
 }
+
+/**
+ * Normalize a business name for comparison
+ * Full-width → half-width (NFKC), lowercase, and strips whitespace,
+ * punctuation and legal-entity markers such as 株式会社 / (株).
+ * The long-vowel mark ー is kept: it tells katakana names apart.
+ */
+export function normalizeName(name: string | null | undefined): string {
+  if (!name) return '';
+
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/株式会社|有限会社|合同会社|合名会社|合資会社|\(株\)|\(有\)|\(同\)|㈱|㈲/g, '')
+    .replace(/[\s・.,，、。'"`’()（）\-‐]/g, '');
+}
@@ -0,0 +1,65 @@
+/**
+ * JSON encoding of database rows
+ * Dates and Blobs don't survive JSON.stringify, so they are written as
+ * tagged values ({ $date }, { $blob }) and turned back on decode. Used by
+ * backups and sync.
+ */
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunk)));
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Replace Dates and Blobs with tagged JSON values ({ $date }, { $blob })
+ */
+export async function encodeValue(value: unknown): Promise<unknown> {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Blob) {
+    const bytes = new Uint8Array(await value.arrayBuffer());
+    return { $blob: { type: value.type, data: bytesToBase64(bytes) } };
+  }
+  if (Array.isArray(value)) {
+    const result: unknown[] = [];
+    for (const item of value) result.push(await encodeValue(item));
+    return result;
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = await encodeValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Turn tagged JSON values back into Dates and Blobs
+ */
+export function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.$date === 'string') return new Date(record.$date);
+    if (record.$blob && typeof record.$blob === 'object') {
+      const blob = record.$blob as { type: string; data: string };
+      return new Blob([base64ToBytes(blob.data)], { type: blob.type });
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(record)) result[key] = decodeValue(item);
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,90 @@
+import type { DuplicateInfo, DuplicateReason, Receipt } from '@/types/receipt';
+import { hammingDistance } from '@/lib/storage/image-hash';
+import { DUPLICATE_DETECTION } from '@/lib/utils/constants';
+import { formatDateForInput, normalizeName } from '@/lib/utils/format';
+
+/**
+ * Compare two receipts and return the duplicate signals they share
+ */
+export function getDuplicateReasons(a: Receipt, b: Receipt): DuplicateReason[] {
+  const reasons: DuplicateReason[] = [];
+  const dataA = a.extractedData;
+  const dataB = b.extractedData;
+
+  if (
+    a.imageHash &&
+    b.imageHash &&
+    hammingDistance(a.imageHash, b.imageHash) <= DUPLICATE_DETECTION.MAX_HASH_DISTANCE
+  ) {
+    reasons.push('image');
+  }
+
+  const issuerA = normalizeName(dataA.issuerName);
+  if (issuerA && issuerA === normalizeName(dataB.issuerName)) {
+    reasons.push('issuer');
+  }
+
+  if (dataA.tNumber && dataA.tNumber === dataB.tNumber) {
+    reasons.push('tNumber');
+  }
+
+  const dateA = formatDateForInput(dataA.transactionDate);
+  if (dateA && dateA === formatDateForInput(dataB.transactionDate)) {
+    reasons.push('date');
+  }
+
+  if (dataA.totalAmount > 0 && dataA.totalAmount === dataB.totalAmount) {
+    reasons.push('amount');
+  }
+
+  return reasons;
+}
+
+/**
+ * Decide whether a set of shared signals means "likely the same receipt"
+ * - Near-identical images, or
+ * - Same date and total from the same business (by name or T-number)
+ */
+export function isLikelyDuplicate(reasons: DuplicateReason[]): boolean {
+  if (reasons.includes('image')) return true;
+
+  return (
+    reasons.includes('date') &&
+    reasons.includes('amount') &&
+    (reasons.includes('issuer') || reasons.includes('tNumber'))
+  );
+}
+
+/**
+ * Find the best duplicate match for a receipt among existing receipts
+ * Candidates are expected to be older than the receipt being checked
+ *
+ * @returns Duplicate info for the strongest match, or null if none
+ */
+export function findDuplicate(receipt: Receipt, candidates: Receipt[]): DuplicateInfo | null {
+  let best: DuplicateInfo | null = null;
+
+  for (const candidate of candidates) {
+    if (candidate.id === receipt.id) continue;
+
+    // Receipts already flagged as duplicates don't count as originals
+    if (candidate.duplicate?.status === 'unresolved') continue;
+
+    const reasons = getDuplicateReasons(receipt, candidate);
+    if (!isLikelyDuplicate(reasons)) continue;
+
+    const score = reasons.length / DUPLICATE_DETECTION.SIGNAL_COUNT;
+    if (!best || score > best.score) {
+      best = { receiptId: candidate.id, reasons, score, status: 'unresolved' };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Whether a receipt is flagged as a possible duplicate the user hasn't resolved
+ */
+export function hasUnresolvedDuplicate(receipt: Receipt): boolean {
+  return receipt.duplicate?.status === 'unresolved';
+}
@@ -1,11 +1,22 @@
 import type { ExtractedData } from '@/types/receipt';
 import { EQUIPMENT_THRESHOLD, DEPRECIATION_THRESHOLDS } from '@/lib/utils/constants';
+import { hasCategoryMismatch } from '@/lib/ai/categorizer';
+import { needsExchangeRate } from '@/lib/currency/exchange';
 
 /**
  * Structured validation warning for translation support
  */
 export type ValidationWarning = {
-  type: 'tnumber_missing' | 'tax_calculation_mismatch' | 'total_amount_mismatch' | 'depreciation_required';
+  type:
+    | 'tnumber_missing'
+    | 'tnumber_check_digit'
+    | 'tax_calculation_mismatch'
+    | 'total_amount_mismatch'
+    | 'allocation_mismatch'
+    | 'category_mismatch'
+    | 'exchange_rate_missing'
+    | 'voucher_reason_missing'
+    | 'depreciation_required';
   params?: Record<string, string | number>;
 };
 
@@ -17,6 +28,29 @@ export function validateTNumber(tNumber: string | null): boolean {
   return /^T\d{13}$/.test(tNumber);
 }
 
+/**
+ * Validate the check digit of a T-Number
+ * The 13 digits follow the 法人番号 scheme: the first digit is a check digit
+ * computed from the remaining 12 (individual registrants use the same format).
+ *
+ *   check = 9 - (Σ Pn × Qn mod 9)
+ *   Pn = nth digit counting from the rightmost, Qn = 1 for odd n, 2 for even n
+ */
+export function validateTNumberCheckDigit(tNumber: string | null): boolean {
+  if (!validateTNumber(tNumber)) return false;
+
+  const digits = tNumber!.slice(1);
+  const base = digits.slice(1);
+
+  let sum = 0;
+  for (let n = 1; n <= 12; n++) {
+    const digit = Number(base[12 - n]);
+    sum += digit * (n % 2 === 1 ? 1 : 2);
+  }
+
+  return Number(digits[0]) === 9 - (sum % 9);
+}
+
 /**
  * Validate tax calculation
  * Sum of all tax amounts should equal total - subtotal (with 1 yen tolerance)
@@ -114,6 +148,8 @@ export function validateReceiptData(data: ExtractedData): {
   if (data.tNumber) {
     if (!validateTNumber(data.tNumber)) {
       errors.push('Invalid T-Number format. Must be T followed by 13 digits');
+    } else if (!validateTNumberCheckDigit(data.tNumber)) {
+      warnings.push({ type: 'tnumber_check_digit' });
     }
   } else {
     warnings.push({ type: 'tnumber_missing' });
@@ -131,8 +167,10 @@ export function validateReceiptData(data: ExtractedData): {
   }
 
   // Tax breakdown totals validation
+  // (出金伝票 for payments without consumption tax, e.g. 香典, have no breakdown)
   const taxTotalsResult = validateTaxBreakdownTotals(data);
-  if (!taxTotalsResult.isValid && taxTotalsResult.error) {
+  const isUntaxedVoucher = !!data.voucher && data.taxBreakdown.length === 0;
+  if (!taxTotalsResult.isValid && taxTotalsResult.error && !isUntaxedVoucher) {
     const calculatedTotal = data.taxBreakdown.reduce((sum, tb) => sum + tb.total, 0);
     warnings.push({
       type: 'total_amount_mismatch',
@@ -140,6 +178,38 @@ export function validateReceiptData(data: ExtractedData): {
     });
   }
 
+  // Split allocations must add up to the receipt total
+  if (data.allocations && data.allocations.length > 0) {
+    const allocatedTotal = data.allocations.reduce((sum, a) => sum + a.amount, 0);
+    if (allocatedTotal !== data.totalAmount) {
+      warnings.push({
+        type: 'allocation_mismatch',
+        params: { expected: data.totalAmount, actual: allocatedTotal },
+      });
+    }
+  }
+
+  // Keyword categorizer disagrees with the chosen category
+  if (hasCategoryMismatch(data)) {
+    warnings.push({
+      type: 'category_mismatch',
+      params: { category: data.keywordCategory! },
+    });
+  }
+
+  // Foreign-currency amounts not converted to yen yet
+  if (needsExchangeRate(data)) {
+    warnings.push({
+      type: 'exchange_rate_missing',
+      params: { currency: data.currency! },
+    });
+  }
+
+  // 出金伝票 must say why there is no receipt
+  if (data.voucher && !data.voucher.reason.trim()) {
+    warnings.push({ type: 'voucher_reason_missing' });
+  }
+
   // Tax rates validation
   const taxRatesResult = validateTaxRates(data);
   if (!taxRatesResult.isValid && taxRatesResult.error) {
@@ -213,10 +283,12 @@ export function requiresDepreciationConsideration(data: ExtractedData): boolean
 }
 
 /**
- * Get the depreciation method note based on amount and current date
+ * Get the depreciation method note based on amount and acquisition date
  * Returns appropriate depreciation guidance based on 少額減価償却資産の特例 thresholds
+ *
+ * @param asOf - Acquisition date the thresholds apply to (defaults to today)
  */
-export function getDepreciationNote(amount: number): {
+export function getDepreciationNote(amount: number, asOf: Date = new Date()): {
   method: 'immediate' | 'lumpsum' | 'standard';
   note: string;
   requiresRegistration: boolean;
@@ -225,7 +297,7 @@ export function getDepreciationNote(amount: number): {
     return null; // No depreciation needed
   }
 
-  const now = new Date();
+  const now = asOf;
   const thresholdChangeDate = new Date(DEPRECIATION_THRESHOLDS.THRESHOLD_CHANGE_DATE);
 
   // Determine current special rule limit
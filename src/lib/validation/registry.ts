@@ -0,0 +1,74 @@
+import type { ExtractedData } from '@/types/receipt';
+import type { InvoiceRegistrant, TNumberVerification } from '@/types/registry';
+import { formatDateForInput, normalizeName } from '@/lib/utils/format';
+import { validateTNumber, validateTNumberCheckDigit } from './receipt';
+
+/**
+ * Check whether a receipt's issuer name matches a registrant
+ * Receipts often show a store or brand name rather than the legal name,
+ * so containment in either direction counts as a match.
+ */
+export function registrantNameMatches(issuerName: string, registrant: InvoiceRegistrant): boolean {
+  const issuer = normalizeName(issuerName);
+  if (!issuer) return false;
+
+  return [registrant.name, registrant.tradeName, registrant.popularName].some((candidate) => {
+    const name = normalizeName(candidate);
+    return !!name && (name === issuer || name.includes(issuer) || issuer.includes(name));
+  });
+}
+
+/**
+ * Verify a receipt's T-number against a registry lookup result
+ *
+ * @param registrant - The registry record for the T-number, if any
+ * @param hasRegistry - Whether any registry data has been imported
+ */
+export function verifyRegistration(
+  data: Pick<ExtractedData, 'tNumber' | 'issuerName' | 'transactionDate'>,
+  registrant: InvoiceRegistrant | undefined,
+  hasRegistry: boolean
+): TNumberVerification {
+  const tNumber = data.tNumber;
+
+  if (!tNumber) return { status: 'missing' };
+  if (!validateTNumber(tNumber)) return { status: 'invalid_format' };
+  if (!validateTNumberCheckDigit(tNumber)) return { status: 'invalid_check_digit' };
+  if (!hasRegistry) return { status: 'unverified' };
+  if (!registrant) return { status: 'not_found' };
+
+  const nameMatches = registrantNameMatches(data.issuerName, registrant);
+
+  // Registry dates are YYYY-MM-DD, so string comparison is chronological
+  const date = formatDateForInput(data.transactionDate);
+  if (date) {
+    if (registrant.registrationDate && date < registrant.registrationDate) {
+      return { status: 'not_yet_registered', registrant, nameMatches };
+    }
+    if (registrant.cancellationDate && date >= registrant.cancellationDate) {
+      return { status: 'cancelled', registrant, nameMatches };
+    }
+    if (registrant.expirationDate && date >= registrant.expirationDate) {
+      return { status: 'expired', registrant, nameMatches };
+    }
+  }
+
+  return { status: 'registered', registrant, nameMatches };
+}
+
+/**
+ * Whether a verification result means the receipt may not qualify for
+ * 仕入税額控除 and needs attention. Missing T-numbers are reported by
+ * validateReceiptData and an empty registry is not a problem with the receipt.
+ */
+export function hasRegistrationProblem(verification: TNumberVerification): boolean {
+  switch (verification.status) {
+    case 'missing':
+    case 'unverified':
+      return false;
+    case 'registered':
+      return verification.nameMatches === false;
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,61 @@
+import type { ExtractedData } from '@/types/receipt';
+import type { VendorProfile } from '@/types/vendor';
+import { normalizeName } from '../utils/format';
+
+/**
+ * Fields a vendor profile can remember
+ */
+export type VendorPreferences = Partial<
+  Pick<VendorProfile, 'canonicalName' | 'category' | 'paymentMethod' | 'businessRatio'>
+>;
+
+/**
+ * Apply a vendor profile to freshly extracted data
+ * Remembered values replace what the model returned; the category is marked
+ * as fully confident since it came from the user.
+ */
+export function applyVendorProfile(data: ExtractedData, profile: VendorProfile): ExtractedData {
+  return {
+    ...data,
+    issuerName: profile.canonicalName || data.issuerName,
+    ...(profile.category && { suggestedCategory: profile.category, categoryConfidence: 1 }),
+    ...(profile.paymentMethod && { paymentMethod: profile.paymentMethod }),
+    ...(profile.businessRatio !== undefined && {
+      businessRatio: profile.businessRatio,
+      businessRatioSource: 'vendor' as const,
+    }),
+  };
+}
+
+/**
+ * What the user corrected between the stored and the saved data
+ * @returns The corrected preferences, or null if nothing worth remembering changed
+ */
+export function getVendorCorrections(
+  original: ExtractedData,
+  edited: ExtractedData
+): VendorPreferences | null {
+  const corrections: VendorPreferences = {};
+
+  if (edited.issuerName.trim() && edited.issuerName.trim() !== original.issuerName.trim()) {
+    corrections.canonicalName = edited.issuerName.trim();
+  }
+  if (edited.suggestedCategory !== original.suggestedCategory) {
+    corrections.category = edited.suggestedCategory;
+  }
+  if (edited.paymentMethod && edited.paymentMethod !== original.paymentMethod) {
+    corrections.paymentMethod = edited.paymentMethod;
+  }
+  if ((edited.businessRatio ?? 100) !== (original.businessRatio ?? 100)) {
+    corrections.businessRatio = edited.businessRatio ?? 100;
+  }
+
+  return Object.keys(corrections).length > 0 ? corrections : null;
+}
+
+/**
+ * Normalized names a receipt is known by (as extracted and as corrected)
+ */
+export function getVendorNames(...names: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(names.map((name) => normalizeName(name)).filter((name) => !!name)));
+}
@@ -0,0 +1,151 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ExtractedData, Receipt } from '@/types/receipt';
+import type { VoucherInput } from '@/types/voucher';
+import { addReceipt } from '../db/operations';
+import { deleteImage, storeImageBlob } from '../storage/images';
+import { PAYMENT_METHODS } from '../utils/constants';
+import { formatDateForInput, formatNumber } from '../utils/format';
+import { buildVoucherData, VOUCHER_LABEL } from './voucher';
+
+/**
+ * Creating 出金伝票 receipts: the slip image and the stored receipt
+ */
+
+/**
+ * Draw the voucher as a slip image (PNG)
+ */
+export async function renderVoucherImage(data: ExtractedData): Promise<Blob> {
+  const width = 800;
+  const height = 560;
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  canvas.width = width;
+  canvas.height = height;
+
+  const font = (size: number, bold = false) =>
+    `${bold ? 'bold ' : ''}${size}px "Hiragino Sans", "Noto Sans JP", "Yu Gothic", sans-serif`;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.strokeStyle = '#b91c1c';
+  ctx.lineWidth = 3;
+  ctx.strokeRect(20, 20, width - 40, height - 40);
+
+  ctx.fillStyle = '#b91c1c';
+  ctx.font = font(36, true);
+  ctx.textAlign = 'center';
+  ctx.fillText(VOUCHER_LABEL, width / 2, 80);
+  ctx.font = font(16);
+  ctx.fillText('（自己作成・領収書なし）', width / 2, 108);
+
+  const date = formatDateForInput(data.transactionDate);
+  const paymentMethod = PAYMENT_METHODS.find((m) => m.value === data.paymentMethod)?.label ?? '';
+  const taxRate = data.taxBreakdown[0]?.taxRate;
+  const rows: [string, string][] = [
+    ['日付', date],
+    ['支払先', data.issuerName],
+    ['勘定科目', data.suggestedCategory],
+    ['摘要', data.description],
+    [
+      '金額',
+      `¥${formatNumber(data.totalAmount)}（${taxRate ? `税込・${taxRate}%` : '消費税なし'}）`,
+    ],
+    ['支払方法', paymentMethod],
+    ['領収書がない理由', data.voucher?.reason ?? ''],
+  ];
+
+  const labelX = 50;
+  const valueX = 250;
+  const rowHeight = 50;
+  let y = 150;
+  ctx.textAlign = 'left';
+  ctx.lineWidth = 1;
+  for (const [label, value] of rows) {
+    ctx.strokeStyle = '#d1d5db';
+    ctx.beginPath();
+    ctx.moveTo(labelX, y + rowHeight - 14);
+    ctx.lineTo(width - 50, y + rowHeight - 14);
+    ctx.stroke();
+
+    ctx.fillStyle = '#6b7280';
+    ctx.font = font(18);
+    ctx.fillText(label, labelX, y + 16);
+    ctx.fillStyle = '#111827';
+    ctx.font = font(22, label === '金額');
+    ctx.fillText(value, valueX, y + 16, width - 50 - valueX);
+    y += rowHeight;
+  }
+
+  ctx.fillStyle = '#6b7280';
+  ctx.font = font(14);
+  ctx.textAlign = 'right';
+  ctx.fillText(`作成日 ${data.voucher?.preparedOn ?? ''}`, width - 50, height - 40);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Voucher rendering failed'));
+      }
+    }, 'image/png');
+  });
+}
+
+/**
+ * Create a receipt from a 出金伝票
+ * The receipt is marked as entered by hand and needs no review.
+ *
+ * @returns The new receipt
+ */
+export async function createVoucherReceipt(input: VoucherInput): Promise<Receipt> {
+  if (!input.reason.trim()) {
+    throw new Error('A reason is required for a payment without a receipt');
+  }
+  if (!input.payee.trim() || !(input.amount > 0) || !input.date) {
+    throw new Error('Date, payee and a positive amount are required');
+  }
+
+  const extractedData = buildVoucherData(input);
+  const blob = await renderVoucherImage(extractedData);
+  const imageId = await storeImageBlob(blob, uuidv4());
+  const now = new Date();
+
+  const receipt: Receipt = {
+    id: uuidv4(),
+    createdAt: now,
+    updatedAt: now,
+    imageId,
+    imageUrl: URL.createObjectURL(blob),
+    fileName: `${VOUCHER_LABEL}_${input.date}.png`,
+    fileSize: blob.size,
+    mimeType: 'image/png',
+    extractedData,
+    processingStatus: 'manual',
+    confidence: {
+      overall: 1,
+      fields: {
+        issuerName: 1,
+        tNumber: 1,
+        transactionDate: 1,
+        totalAmount: 1,
+        taxBreakdown: 1,
+        category: 1,
+      },
+    },
+    isManuallyReviewed: true,
+    needsReview: false,
+  };
+
+  try {
+    await addReceipt(receipt);
+  } catch (error) {
+    // e.g. the fiscal year is closed - don't leave the image behind
+    await deleteImage(imageId);
+    throw error;
+  }
+  return receipt;
+}
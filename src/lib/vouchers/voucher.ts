@@ -0,0 +1,68 @@
+import type { ExtractedData } from '@/types/receipt';
+import type { VoucherInput } from '@/types/voucher';
+import { getIncludedTax } from '../export/allocations';
+import { formatDateForInput } from '../utils/format';
+
+/**
+ * 出金伝票 (payment vouchers)
+ *
+ * Payments without a receipt - train fares, 香典, small payments where none
+ * was issued - are recorded on a self-prepared voucher with the reason there
+ * is no receipt. The voucher is stored as an image like any scanned receipt
+ * (so the archive seal, backups and image exports cover it), and every export
+ * marks it so it can be told apart from documents issued by the payee.
+ */
+
+/** How vouchers are marked in exports and the ledger */
+export const VOUCHER_LABEL = '出金伝票';
+
+/**
+ * Whether a receipt was entered by hand on a 出金伝票
+ */
+export function isVoucher(data: ExtractedData): boolean {
+  return !!data.voucher;
+}
+
+/**
+ * 摘要 note for a voucher, e.g. "【出金伝票】領収書の発行なし（香典）"
+ * @returns The note, or "" for receipts from the payee
+ */
+export function describeVoucher(data: ExtractedData): string {
+  return data.voucher ? `【${VOUCHER_LABEL}】${data.voucher.reason}` : '';
+}
+
+/**
+ * Receipt data of a voucher; the amount is tax-included at the chosen rate
+ * (0 = no consumption tax, e.g. 香典 or 切手)
+ */
+export function buildVoucherData(input: VoucherInput, preparedOn: Date = new Date()): ExtractedData {
+  const taxAmount = input.taxRate > 0 ? getIncludedTax(input.amount, input.taxRate) : 0;
+
+  return {
+    issuerName: input.payee.trim(),
+    tNumber: null,
+    transactionDate: new Date(`${input.date}T00:00:00`),
+    description: input.description.trim(),
+    subtotalExcludingTax: input.amount - taxAmount,
+    taxBreakdown:
+      input.taxRate > 0
+        ? [
+            {
+              taxRate: input.taxRate,
+              subtotal: input.amount - taxAmount,
+              taxAmount,
+              total: input.amount,
+            },
+          ]
+        : [],
+    totalAmount: input.amount,
+    suggestedCategory: input.category,
+    categoryConfidence: 1,
+    paymentMethod: input.paymentMethod,
+    direction: 'expense',
+    voucher: {
+      reason: input.reason.trim(),
+      preparedOn: formatDateForInput(preparedOn),
+    },
+  };
+}
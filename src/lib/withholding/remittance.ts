@@ -0,0 +1,165 @@
+import type { Payee } from '@/types/payee';
+import type { ExtractedData, Receipt } from '@/types/receipt';
+import type {
+  RemittanceForm,
+  RemittanceReminderStatus,
+  RemittanceSlip,
+  WithholdingInfo,
+  WithholdingSchedule,
+  WithholdingSettings,
+} from '@/types/withholding';
+import { calculateWithholdingByCategory } from '../export/form309';
+import { getDocumentDirection } from '../export/ledger-mapping';
+import { WITHHOLDING_SETTINGS } from '../utils/constants';
+import { formatDateForInput, normalizeName } from '../utils/format';
+
+/**
+ * Paying withheld tax (源泉所得税の納付)
+ *
+ * Receipts with recorded withholding are grouped into 納付書 by the month
+ * (or half-year under the 納期の特例) they were paid in. 原稿料・デザイン料
+ * are paid monthly on their own 報酬・料金等 form even under the 納期の特例,
+ * which only covers 税理士・司法書士 etc.
+ *
+ * Due dates falling on a weekend move to the Monday; public holidays are not
+ * taken into account.
+ */
+
+/** 納付書 names as printed on the forms */
+export const REMITTANCE_FORM_LABELS: Record<RemittanceForm, string> = {
+  general: '給与所得・退職所得等の所得税徴収高計算書（一般用）',
+  special: '給与所得・退職所得等の所得税徴収高計算書（納期特例分）',
+  fees: '報酬・料金等の所得税徴収高計算書',
+};
+
+/**
+ * Amount actually paid to the payee (差引支払額)
+ */
+export function getNetPayment(data: ExtractedData): number {
+  return data.totalAmount - (data.withholding?.amount ?? 0);
+}
+
+/**
+ * Withholding to record on a receipt, from the payee's 区分 when known
+ * Payees outside the 支払調書 or corporations fall back to 原稿料等.
+ */
+export function getDefaultWithholding(data: ExtractedData, payee?: Payee): WithholdingInfo {
+  const category =
+    payee && payee.category !== 'notSubject' ? payee.category : 'manuscript';
+  return {
+    amount: calculateWithholdingByCategory(data.totalAmount, category),
+    category,
+    paymentDate: formatDateForInput(data.transactionDate),
+  };
+}
+
+/**
+ * Move a date on a Saturday or Sunday to the next Monday
+ */
+function toWeekday(year: number, month: number, day: number): string {
+  const date = new Date(year, month - 1, day);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() + 1);
+  }
+  return formatDateForInput(date);
+}
+
+/**
+ * Which 納付書 a withheld amount goes on, and when it is due
+ */
+export function getRemittancePeriod(
+  info: WithholdingInfo,
+  schedule: WithholdingSchedule
+): Pick<RemittanceSlip, 'key' | 'form' | 'year' | 'startMonth' | 'endMonth' | 'dueDate'> {
+  const year = Number(info.paymentDate.slice(0, 4));
+  const month = Number(info.paymentDate.slice(5, 7));
+
+  if (schedule === 'semiAnnual' && WITHHOLDING_SETTINGS.SEMI_ANNUAL_CATEGORIES.includes(info.category)) {
+    const firstHalf = month <= 6;
+    return {
+      key: `${year}-H${firstHalf ? 1 : 2}:special`,
+      form: 'special',
+      year,
+      startMonth: firstHalf ? 1 : 7,
+      endMonth: firstHalf ? 6 : 12,
+      // 1-6月分 by 7/10, 7-12月分 by 1/20 of the next year
+      dueDate: firstHalf ? toWeekday(year, 7, 10) : toWeekday(year + 1, 1, 20),
+    };
+  }
+
+  const form: RemittanceForm = info.category === 'manuscript' ? 'fees' : 'general';
+  return {
+    key: `${info.paymentDate.slice(0, 7)}:${form}`,
+    form,
+    year,
+    startMonth: month,
+    endMonth: month,
+    dueDate:
+      month === 12
+        ? toWeekday(year + 1, 1, WITHHOLDING_SETTINGS.MONTHLY_DUE_DAY)
+        : toWeekday(year, month + 1, WITHHOLDING_SETTINGS.MONTHLY_DUE_DAY),
+  };
+}
+
+/**
+ * Group the receipts with recorded withholding into 納付書
+ *
+ * @param receipts - Receipts from all years (December's tax is due in January)
+ * @returns Slips ordered by due date
+ */
+export function getRemittanceSlips(
+  receipts: Receipt[],
+  settings: WithholdingSettings
+): RemittanceSlip[] {
+  const slips = new Map<string, RemittanceSlip>();
+  const payees = new Map<string, Set<string>>();
+
+  for (const receipt of receipts) {
+    const data = receipt.extractedData;
+    const info = data.withholding;
+    if (!info || getDocumentDirection(data) !== 'expense') continue;
+
+    const period = getRemittancePeriod(info, settings.schedule);
+    let slip = slips.get(period.key);
+    if (!slip) {
+      slip = {
+        ...period,
+        payeeCount: 0,
+        grossAmount: 0,
+        taxAmount: 0,
+        receipts: [],
+        paidOn: settings.paid[period.key],
+      };
+      slips.set(period.key, slip);
+      payees.set(period.key, new Set());
+    }
+
+    slip.grossAmount += data.totalAmount;
+    slip.taxAmount += info.amount;
+    slip.receipts.push(receipt);
+    payees.get(period.key)!.add(normalizeName(data.issuerName));
+  }
+
+  const result = Array.from(slips.values());
+  for (const slip of result) {
+    // 人員 counts each payee once
+    slip.payeeCount = payees.get(slip.key)!.size;
+  }
+
+  return result.sort(
+    (a, b) => a.dueDate.localeCompare(b.dueDate) || a.form.localeCompare(b.form)
+  );
+}
+
+/**
+ * How urgent an unpaid 納付書 is
+ *
+ * @param today - YYYY-MM-DD
+ */
+export function getReminderStatus(slip: RemittanceSlip, today: string): RemittanceReminderStatus {
+  if (slip.dueDate < today) return 'overdue';
+
+  const soon = new Date(`${today}T00:00:00`);
+  soon.setDate(soon.getDate() + WITHHOLDING_SETTINGS.REMINDER_DAYS);
+  return slip.dueDate <= formatDateForInput(soon) ? 'dueSoon' : 'upcoming';
+}
@@ -17,6 +17,11 @@ export function middleware(request: NextRequest) {
   // Content Security Policy
   // Allow self, inline scripts/styles (needed for Next.js), and Gemini API
   // worker-src blob: needed for heic2any HEIC image conversion
+  // SYNC_SERVER_ORIGINS lets devices reach a sync server hosted elsewhere
+  const syncOrigins = (process.env.SYNC_SERVER_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter((origin) => origin.length > 0);
   response.headers.set(
     'Content-Security-Policy',
     [
@@ -25,7 +30,7 @@ export function middleware(request: NextRequest) {
       "style-src 'self' 'unsafe-inline'",
       "img-src 'self' blob: data:",
       "font-src 'self'",
-      "connect-src 'self' https://generativelanguage.googleapis.com",
+      ["connect-src 'self' https://generativelanguage.googleapis.com", ...syncOrigins].join(' '),
       "worker-src 'self' blob:",
       "frame-ancestors 'none'",
     ].join('; ')
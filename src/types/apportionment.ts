@@ -0,0 +1,19 @@
+import type { ExpenseCategory } from './receipt';
+
+/**
+ * 家事按分 (household/business apportionment)
+ *
+ * Costs shared between the business and private life - rent, utilities,
+ * phone bills for a home office - are only deductible for the business share.
+ * Rules suggest that share for new receipts; the ratio itself is stored on
+ * each receipt (ExtractedData.businessRatio) so it can be adjusted per bill.
+ */
+export interface ApportionmentRule {
+  id: string; // UUID v4
+  /** Vendor rules take precedence over category rules */
+  kind: 'vendor' | 'category';
+  vendorName?: string; // kind === 'vendor' - matched against the issuer name
+  category?: ExpenseCategory; // kind === 'category'
+  businessRatio: number; // 事業割合 (%), 0-100
+  createdAt: Date;
+}
@@ -0,0 +1,58 @@
+import type { ExtractedData } from './receipt';
+
+/**
+ * 電子帳簿保存法 (スキャナ保存) archive mode
+ *
+ * With archive mode on, every receipt is sealed when it is saved: the stored
+ * image is hashed and the time recorded, every later change to its extracted
+ * data is appended to a hash-chained history, and the receipt can no longer
+ * be deleted. A compliance search over 取引年月日, 取引金額 and 取引先 sits
+ * on top of this.
+ */
+
+/**
+ * Seal recorded on a receipt when it is archived
+ */
+export interface ArchiveRecord {
+  sha256: string; // Hex SHA-256 of the stored image at ingest
+  pageSha256?: string[]; // Same for each rendered PDF page, in page order
+  archivedAt: Date; // When the receipt was received into the archive
+}
+
+/**
+ * Archive mode switch (stored in the settings table)
+ */
+export interface ArchiveSettings {
+  enabled: boolean;
+  enabledAt?: Date;
+}
+
+export type ReceiptHistoryAction =
+  | 'create' // Received into the archive
+  | 'update'; // Extracted data corrected
+
+/**
+ * One entry of a receipt's correction history - never updated or deleted
+ * Entries for a receipt form a chain: each hash covers the previous entry's
+ * hash, so removing or altering an entry breaks every hash after it.
+ */
+export interface ReceiptHistoryEntry {
+  id?: number; // Auto-increment
+  receiptId: string;
+  action: ReceiptHistoryAction;
+  changedAt: Date;
+  changedFields: (keyof ExtractedData)[];
+  before?: ExtractedData;
+  after: ExtractedData;
+  prevHash: string; // '' for the first entry
+  hash: string;
+}
+
+/**
+ * Result of checking an archived receipt against its seal
+ */
+export type ArchiveIntegrity =
+  | 'ok'
+  | 'image_altered' // Image hash no longer matches the seal
+  | 'image_missing'
+  | 'history_broken'; // History chain does not verify
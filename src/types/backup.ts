@@ -0,0 +1,64 @@
+/**
+ * Backup file of the whole local database
+ *
+ * A single JSON file holding every user table (receipts, images, batches,
+ * rules, statements, history, trash, settings). Dates and image blobs are
+ * encoded as tagged values so they come back as Date / Blob. With a
+ * passphrase the table data is encrypted (AES-GCM, key from PBKDF2); the
+ * envelope stays readable so the file can be checked before it is unlocked.
+ */
+
+export const BACKUP_FORMAT = 'japan-tax-helper-backup';
+
+/** Version of the file layout (not the database schema) */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Encryption parameters of an encrypted backup
+ */
+export interface BackupEncryption {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2-SHA-256';
+  iterations: number;
+  salt: string; // Base64
+  iv: string; // Base64
+  ciphertext: string; // Base64 of the encrypted table data
+}
+
+/**
+ * Backup file contents
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // Database version the backup was made from
+  createdAt: string; // ISO 8601
+  counts: Record<string, number>; // Rows per table
+  tables?: Record<string, unknown[]>; // Plain backup
+  encryption?: BackupEncryption; // Encrypted backup
+}
+
+export type BackupRestoreMode =
+  | 'merge' // Add what is missing, keep local versions of conflicting receipts
+  | 'replace'; // Wipe local data and load the backup
+
+/**
+ * A receipt that exists both locally and in the backup with different contents
+ * The local version is kept.
+ */
+export interface BackupConflict {
+  receiptId: string;
+  issuerName: string;
+  localUpdatedAt: Date;
+  backupUpdatedAt: Date;
+}
+
+/**
+ * Outcome of a restore
+ */
+export interface BackupRestoreResult {
+  mode: BackupRestoreMode;
+  added: number; // Receipts added
+  unchanged: number; // Receipts already identical locally
+  conflicts: BackupConflict[];
+}
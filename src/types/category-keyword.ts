@@ -0,0 +1,13 @@
+import type { ExpenseCategory } from './receipt';
+
+/**
+ * User-added keyword for the local categorizer
+ * Checked alongside the built-in CATEGORY_KEYWORDS table and weighted above
+ * it, so a user's own vendors and wording win over the defaults.
+ */
+export interface CategoryKeyword {
+  id: string; // UUID v4
+  keyword: string;
+  category: ExpenseCategory;
+  createdAt: Date;
+}
@@ -0,0 +1,93 @@
+/**
+ * Consumption tax return (消費税申告) worksheet
+ *
+ * Sales and purchases of one year are totalled by tax rate, purchases are
+ * split by whether they carry a valid registration number (T-number), and
+ * the tax due is worked out under each calculation method so they can be
+ * compared before filing.
+ */
+
+export type ConsumptionTaxMethod =
+  | 'general' // 一般課税 (本則課税)
+  | 'twoTenths' // 2割特例
+  | 'simplified'; // 簡易課税
+
+/** 簡易課税 business type (第一種〜第六種事業) */
+export type SimplifiedBusinessType = 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Tax-included total of one tax rate
+ */
+export interface TaxRateTotal {
+  taxRate: number; // 8 or 10 (%)
+  total: number; // 税込金額
+  count: number; // Rows (receipts or allocations)
+}
+
+/**
+ * Purchases deductible at the same credit rate
+ */
+export interface PurchaseCreditGroup {
+  qualified: boolean; // Valid T-number on the transaction date
+  creditRate: number; // % of the input tax that may be deducted (80/50 = 経過措置)
+  byRate: TaxRateTotal[];
+  deductibleTax: number; // 控除対象仕入税額 (national share)
+}
+
+/**
+ * One purchase row on the worksheet
+ */
+export interface ConsumptionTaxLine {
+  receiptId: string;
+  transactionDate: Date;
+  issuerName: string;
+  tNumber: string | null;
+  taxRate: number;
+  total: number; // 税込金額 (business share)
+  qualified: boolean;
+  creditRate: number;
+  deductibleTax: number; // National share
+}
+
+/**
+ * Input tax credit (仕入税額控除) of one receipt
+ */
+export interface InputTaxCredit {
+  qualified: boolean;
+  creditRate: number; // % of the input tax that may be deducted
+  inputTax: number; // Consumption tax on the receipt (business share)
+  deductibleTax: number; // inputTax × creditRate (端数切捨て)
+}
+
+/**
+ * Tax due under one calculation method
+ * Negative national and total tax mean a refund (還付).
+ */
+export interface ConsumptionTaxCalculation {
+  method: ConsumptionTaxMethod;
+  eligible: boolean; // 2割特例 only applies up to TWO_TENTHS_LAST_YEAR
+  salesTax: number; // 課税標準額に対する消費税額
+  deductibleTax: number; // 控除税額
+  nationalTax: number; // 差引税額 (100円未満切捨て)
+  localTax: number; // 地方消費税
+  totalTax: number; // 納付税額 (national + local)
+}
+
+export interface ConsumptionTaxWorksheet {
+  year: number;
+  businessType: SimplifiedBusinessType;
+  sales: TaxRateTotal[];
+  taxableBase: { taxRate: number; base: number }[]; // 課税標準額 (1,000円未満切捨て)
+  salesTax: number;
+  purchases: PurchaseCreditGroup[];
+  lines: ConsumptionTaxLine[];
+  excludedCount: number; // Rows left out: non-taxable expenses, no tax breakdown
+  results: ConsumptionTaxCalculation[]; // One per method
+}
+
+/**
+ * Consumption tax settings (stored in the settings table)
+ */
+export interface ConsumptionTaxSettings {
+  businessType: SimplifiedBusinessType;
+}
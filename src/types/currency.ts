@@ -0,0 +1,37 @@
+/**
+ * Foreign-currency documents (外貨建取引)
+ *
+ * Amounts on a receipt are always booked in yen. A receipt issued in another
+ * currency keeps the printed total (`originalAmount`) and the rate it was
+ * converted at; the rate is the TTM (仲値) of the transaction date from a
+ * table the user imports, or one entered by hand.
+ */
+
+/**
+ * TTM of one currency on one day, as imported from a rate CSV
+ */
+export interface ExchangeRate {
+  id: string; // `${currency}:${date}`
+  currency: string; // ISO 4217 (USD, EUR...)
+  date: string; // YYYY-MM-DD
+  rate: number; // Yen per 1 unit of the currency (TTM)
+}
+
+/**
+ * Rate a foreign-currency receipt was converted at
+ */
+export interface AppliedExchangeRate {
+  rate: number; // Yen per 1 unit
+  date: string; // Date of the TTM used (YYYY-MM-DD); the transaction date for manual rates
+  source: 'ttm' | 'manual'; // From the imported table, or entered on the receipt
+}
+
+/**
+ * Imported rates of one currency
+ */
+export interface ExchangeRateSummary {
+  currency: string;
+  count: number;
+  firstDate: string;
+  lastDate: string;
+}
@@ -0,0 +1,117 @@
+import type { LedgerRow } from './ledger';
+
+/**
+ * Income statements for the income tax return
+ *
+ * Page 1 of the 青色申告決算書 (損益計算書) is built from the year's ledger
+ * totals: sales and purchases from income / purchase documents, expenses
+ * per 青色申告決算書 item (8-31), plus the inventory amounts and the special
+ * deduction the user enters.
+ */
+
+/** 青色申告特別控除 (65万円: e-Tax or 電子帳簿, 55万円: 複式簿記, 10万円: other) */
+export type BlueReturnSpecialDeduction = 650000 | 550000 | 100000;
+
+/**
+ * Opening and closing stock (期首・期末商品棚卸高) of one year
+ */
+export interface InventoryAmounts {
+  opening: number;
+  closing: number;
+}
+
+/**
+ * One expense item of the statement
+ */
+export interface StatementExpenseLine {
+  number: number; // Item number on the form (8 = ⑧ 租税公課)
+  column: keyof LedgerRow;
+  label: string;
+  amount: number;
+}
+
+/**
+ * 損益計算書 (青色申告決算書 page 1)
+ */
+export interface ProfitLossStatement {
+  year: number;
+  sales: number; // ① 売上（収入）金額（雑収入を含む）
+  openingInventory: number; // ② 期首商品棚卸高
+  purchases: number; // ③ 仕入金額
+  costSubtotal: number; // ④ 小計 (② + ③)
+  closingInventory: number; // ⑤ 期末商品棚卸高
+  costOfSales: number; // ⑥ 差引原価 (④ − ⑤)
+  grossProfit: number; // ⑦ 差引金額 (① − ⑥)
+  expenses: StatementExpenseLine[]; // ⑧〜㉔, ㉛
+  totalExpenses: number; // ㉜ 計
+  netIncome: number; // ㉝ 差引金額 (⑦ − ㉜)
+  incomeBeforeDeduction: number; // ㊸ 青色申告特別控除前の所得金額
+  specialDeduction: number; // ㊹ 青色申告特別控除額 (capped at ㊸)
+  income: number; // ㊺ 所得金額 (㊸ − ㊹)
+}
+
+/**
+ * Amounts entered for the statements (stored in the settings table)
+ */
+export interface FinancialStatementSettings {
+  specialDeduction: BlueReturnSpecialDeduction;
+  inventory: Record<number, InventoryAmounts>; // By fiscal year
+}
+
+/**
+ * One expense line of the 収支内訳書
+ * Items ⑪〜⑯ stand alone; the rest are the イ〜カ lines of ⑰ その他の経費.
+ */
+export interface WhiteReturnExpenseLine {
+  mark: string; // As printed on the form (⑪, イ, カ)
+  column: keyof LedgerRow;
+  label: string;
+  amount: number;
+}
+
+/**
+ * A 雑費 entry listed in the breakdown sheet
+ */
+export interface MiscExpenseEntry {
+  date: Date;
+  description: string;
+  amount: number;
+}
+
+/**
+ * Expense category that has no line of its own on the 収支内訳書
+ * - merged: counted on another line (交際費 → 接待交際費, 未分類 → 雑費)
+ * - excluded: no line at all, left out of the statement
+ */
+export interface WhiteReturnIssue {
+  type: 'merged' | 'excluded';
+  category: string;
+  mergedInto?: string; // Label of the line it was counted on
+  count: number;
+  amount: number;
+}
+
+/**
+ * 収支内訳書（一般用） page 1
+ */
+export interface IncomeExpenseStatement {
+  year: number;
+  sales: number; // ① 売上（収入）金額
+  householdConsumption: number; // ② 家事消費 (not tracked, always 0)
+  otherIncome: number; // ③ その他の収入 (雑収入)
+  totalIncome: number; // ④ 計 (① + ② + ③)
+  openingInventory: number; // ⑤ 期首商品棚卸高
+  purchases: number; // ⑥ 仕入金額
+  costSubtotal: number; // ⑦ 小計 (⑤ + ⑥)
+  closingInventory: number; // ⑧ 期末商品棚卸高
+  costOfSales: number; // ⑨ 差引原価 (⑦ − ⑧)
+  grossProfit: number; // ⑩ 差引金額 (④ − ⑨)
+  expenses: WhiteReturnExpenseLine[]; // ⑪〜⑯
+  otherExpenses: WhiteReturnExpenseLine[]; // ⑰ イ〜カ
+  otherExpensesSubtotal: number; // ⑰ ヨ 小計
+  totalExpenses: number; // ⑱ 経費計
+  netIncome: number; // ⑲ 差引金額 (⑩ − ⑱)
+  income: number; // ㉑ 所得金額 (専従者控除 ⑳ is not tracked)
+  miscBreakdown: MiscExpenseEntry[];
+  issues: WhiteReturnIssue[];
+}
@@ -0,0 +1,26 @@
+/**
+ * Fiscal-year workspaces
+ *
+ * Individuals file one 確定申告 per calendar year, so a fiscal year is the
+ * calendar year of a receipt's transaction date.
+ */
+
+/**
+ * Stored state of a fiscal year (only years that have been closed or
+ * reopened have a record; all other years are open)
+ */
+export interface FiscalYear {
+  year: number; // Calendar year - primary key
+  isClosed: boolean;
+  closedAt?: Date;
+}
+
+/**
+ * A year shown in the year selector
+ */
+export interface FiscalYearSummary {
+  year: number;
+  receiptCount: number;
+  isClosed: boolean;
+  closedAt?: Date;
+}
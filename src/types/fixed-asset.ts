@@ -0,0 +1,47 @@
+import type { Receipt } from './receipt';
+
+/**
+ * Fixed asset register (固定資産台帳)
+ *
+ * A receipt is turned into a fixed asset by setting `extractedData.fixedAsset`.
+ * Its cost then leaves the year's expenses and comes back as 減価償却費,
+ * spread over the years by the chosen method.
+ */
+
+export type DepreciationMethod =
+  | 'straightLine' // 定額法
+  | 'decliningBalance' // 定率法 (200%定率法, needs a filed notification)
+  | 'lumpSum' // 一括償却資産 (10万円以上20万円未満, thirds over 3 years)
+  | 'smallAmount'; // 少額減価償却資産の特例 (blue return, expensed in full)
+
+export interface FixedAssetInfo {
+  name: string; // 資産の名称
+  serviceDate: string; // 事業供用日 (YYYY-MM-DD) - depreciation starts in this month
+  usefulLifeItem?: string; // Key of the 耐用年数表 entry (absent = entered by hand)
+  usefulLife: number; // 耐用年数 (years)
+  method: DepreciationMethod;
+}
+
+/**
+ * Depreciation of one asset in one year
+ */
+export interface AssetDepreciationYear {
+  year: number;
+  months: number; // 本年中の償却期間
+  openingBookValue: number; // 期首帳簿価額
+  depreciation: number; // 本年分の償却費合計
+  deductible: number; // 本年分の必要経費算入額 (business share)
+  closingBookValue: number; // 未償却残高
+}
+
+/**
+ * One asset's line of the 減価償却費の計算 for a year
+ */
+export interface DepreciationScheduleRow extends AssetDepreciationYear {
+  receipt: Receipt;
+  asset: FixedAssetInfo;
+  cost: number; // 取得価額
+  businessRatio: number; // 事業専用割合 (%)
+  depreciationBase: number; // 償却の基礎になる金額
+  rate: number | null; // 償却率 or 改定償却率 (null for 一括償却・少額特例)
+}
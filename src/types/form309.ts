@@ -1,3 +1,5 @@
+import type { WithholdingCategory } from './payee';
+
 /**
  * Form 309 (報酬・料金等の支払調書) - Compensation/Fees Payment Statement
  *
@@ -63,8 +65,17 @@ export interface Form309PaymentRecord {
   /** Payment description (摘要) - What the payment was for */
   paymentDescription: string;
 
-  /** Payment category (細目) - Type of professional service */
+  /** Payment category (区分) - Type of professional service */
   paymentCategory?: string;
+
+  /** Payment detail (細目) - From the payee master (optional) */
+  paymentDetail?: string;
+
+  /** Withholding category of the payee (absent = 10.21%/20.42% on the total) */
+  withholdingCategory?: WithholdingCategory;
+
+  /** Corporate number (法人番号) - 13 digits, from the payee master (optional) */
+  corporateNumber?: string;
 }
 
 /**
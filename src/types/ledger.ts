@@ -45,6 +45,34 @@ export interface LedgerRow {
   tNumber?: string;      // T番号 (for verification)
 }
 
+/**
+ * Income columns of a LedgerRow (売上・仕入・雑収入等)
+ */
+export type LedgerIncomeColumn = 'sales' | 'purchases' | 'miscIncome';
+
+/**
+ * Expense columns of a LedgerRow (items 8-31)
+ */
+export type LedgerExpenseColumn =
+  | 'taxes'
+  | 'packing'
+  | 'utilities'
+  | 'travel'
+  | 'communication'
+  | 'advertising'
+  | 'entertainment'
+  | 'insurance'
+  | 'repairs'
+  | 'consumables'
+  | 'depreciation'
+  | 'welfare'
+  | 'salaries'
+  | 'outsourcing'
+  | 'interest'
+  | 'rent'
+  | 'badDebts'
+  | 'misc';
+
 /**
  * Subtotal row for daily or monthly summaries
  */
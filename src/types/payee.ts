@@ -0,0 +1,59 @@
+/**
+ * Payee master (支払先) for the 309 支払調書
+ *
+ * Payments are reported per payee rather than per raw issuer name, so
+ * "株式会社ABC" and "(株)ABC" count as one person. The 区分 decides how
+ * much is withheld from each payment and whether the payee is reported.
+ */
+
+export type WithholdingCategory =
+  | 'manuscript' // 原稿料・デザイン料・講演料等 (所得税法204条1項1号)
+  | 'professional' // 弁護士・税理士・社会保険労務士等の報酬 (同2号)
+  | 'judicialScrivener' // 司法書士・土地家屋調査士・海事代理士の報酬 (1万円控除)
+  | 'notSubject'; // 源泉徴収・支払調書の対象外 (外注工賃など)
+
+export type PayeeType =
+  | 'individual' // 個人
+  | 'corporation'; // 法人 (nothing is withheld, not reported)
+
+export interface Payee {
+  id: string; // UUID v4
+  name: string; // 氏名又は名称 as reported
+  names: string[]; // Normalized issuer names matched to this payee (multi-entry index)
+  tNumber?: string; // 登録番号 - the most reliable match
+  address?: string; // 住所又は所在地 (absent = the latest receipt's issuer address)
+  payeeType: PayeeType;
+  // 法人番号 (13 digits). 個人番号 is never stored: it is left blank and
+  // entered in the e-Tax software
+  corporateNumber?: string;
+  category: WithholdingCategory; // 区分
+  detail?: string; // 細目 (e.g. 顧問料, 着手金)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Why a payee is or isn't on the year's 支払調書
+ */
+export type Form309PreviewStatus =
+  | 'reported' // Paid more than the reporting threshold
+  | 'belowThreshold' // Paid the threshold or less
+  | 'notSubject' // 区分 is outside the 支払調書
+  | 'corporation' // Paid to a corporation - the 支払調書 covers individuals
+  | 'unregistered'; // Paid under an outsourcing category but not in the payee master
+
+/**
+ * One payee's payments for the year, as shown before the 支払調書 is exported
+ */
+export interface Form309PreviewEntry {
+  key: string; // Payee ID, or the normalized issuer name when unregistered
+  payee?: Payee;
+  name: string;
+  address?: string;
+  tNumber?: string;
+  receiptCount: number;
+  paymentAmount: number; // 支払金額
+  withholdingTax: number; // 源泉徴収税額 (sum of the per-payment amounts)
+  latestPaymentDate: Date;
+  status: Form309PreviewStatus;
+}
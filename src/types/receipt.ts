@@ -1,5 +1,11 @@
 // Receipt-related TypeScript types
 
+import type { ArchiveRecord } from './archive';
+import type { AppliedExchangeRate } from './currency';
+import type { FixedAssetInfo } from './fixed-asset';
+import type { VoucherInfo } from './voucher';
+import type { WithholdingInfo } from './withholding';
+
 export interface Receipt {
   id: string; // UUID v4
   createdAt: Date;
@@ -12,6 +18,10 @@ export interface Receipt {
   fileSize: number;
   mimeType: string;
 
+  // Multi-page PDF documents
+  pageImageIds?: string[]; // Rendered page images, in page order (whole-document mode)
+  sourcePage?: number; // 1-based page number when each PDF page became its own receipt
+
   // Extracted data
   extractedData: ExtractedData;
 
@@ -24,6 +34,13 @@ export interface Receipt {
   needsReview: boolean;
   notes?: string;
 
+  // Duplicate detection
+  imageHash?: string; // Perceptual hash (dHash, 16 hex chars) of the stored image
+  duplicate?: DuplicateInfo; // Set when this receipt looks like an earlier one
+
+  // 電子帳簿保存法 archive seal (set on ingest while archive mode is on; archived receipts can't be deleted)
+  archive?: ArchiveRecord;
+
   // Dev metadata (only populated in development)
   _dev?: {
     strategy?: string;       // OCR strategy used (e.g., 'claude-sonnet', 'gemini-2.0-flash')
@@ -32,6 +49,20 @@ export interface Receipt {
   };
 }
 
+export type DuplicateReason =
+  | 'image' // Perceptual hashes are nearly identical
+  | 'issuer' // Same normalized issuer name
+  | 'tNumber' // Same registration number
+  | 'date' // Same transaction date
+  | 'amount'; // Same total amount
+
+export interface DuplicateInfo {
+  receiptId: string; // The earlier receipt this one appears to duplicate
+  reasons: DuplicateReason[];
+  score: number; // 0-1, share of signals that matched
+  status: 'unresolved' | 'kept'; // 'kept' = user confirmed it is not a duplicate
+}
+
 export interface ExtractedData {
   // 1. Issuer information
   issuerName: string; // 発行事業者名
@@ -45,6 +76,7 @@ export interface ExtractedData {
   // 3. Transaction details
   description: string; // 取引内容
   items?: ReceiptItem[]; // Line items if available
+  allocations?: ReceiptAllocation[]; // Split across categories (absent = whole receipt in suggestedCategory)
 
   // 4. Amount by tax rate
   subtotalExcludingTax: number; // 税抜金額
@@ -53,15 +85,39 @@ export interface ExtractedData {
   // 5. Total amount
   totalAmount: number; // 合計金額（税込）
 
+  // Foreign-currency documents (absent = yen); the amounts above are converted to yen
+  currency?: string; // ISO 4217 as printed (USD, EUR...)
+  originalAmount?: number; // 合計金額 in that currency
+  exchangeRate?: AppliedExchangeRate; // Rate used (absent = not converted yet)
+
   // 6. Recipient (optional for simplified receipts)
   recipientName?: string;
 
   // Auto-categorization
   suggestedCategory: ExpenseCategory;
   categoryConfidence: number; // 0-1
+  keywordCategory?: ExpenseCategory; // What the local keyword categorizer found (absent = no match)
 
   // Payment method (if available)
   paymentMethod?: PaymentMethod;
+
+  // Document direction (absent on older records = 'expense')
+  direction?: DocumentDirection;
+
+  // 家事按分: business share of the expense in % (absent = 100)
+  businessRatio?: number;
+
+  // Where businessRatio was set (absent on older records)
+  businessRatioSource?: BusinessRatioSource;
+
+  // Registered as a fixed asset (absent = expensed as usual)
+  fixedAsset?: FixedAssetInfo;
+
+  // 源泉徴収 withheld from a fee paid (absent = paid in full)
+  withholding?: WithholdingInfo;
+
+  // 出金伝票: entered by hand without a receipt from the payee (absent = from a document)
+  voucher?: VoucherInfo;
 }
 
 export interface ReceiptItem {
@@ -70,6 +126,18 @@ export interface ReceiptItem {
   unitPrice: number;
   taxRate: number; // 8 or 10
   amount: number;
+  category?: ExpenseCategory; // Per-item category (defaults to the receipt's category)
+}
+
+/**
+ * One share of a receipt split across expense categories
+ * Exports emit one row per allocation, all pointing at the same receipt image.
+ */
+export interface ReceiptAllocation {
+  category: ExpenseCategory;
+  taxRate: number; // 8 or 10 (%)
+  amount: number; // 税込金額
+  description?: string; // Overrides the receipt description on this row
 }
 
 export interface TaxBreakdown {
@@ -84,7 +152,7 @@ export type ProcessingStatus =
   | 'processing' // Currently being processed
   | 'completed' // Successfully processed
   | 'failed' // Processing failed
-  | 'manual'; // Requires manual entry
+  | 'manual'; // Entered by hand (出金伝票), nothing to process
 
 export interface ConfidenceScore {
   overall: number; // 0-1 (overall confidence)
@@ -122,6 +190,16 @@ export type ExpenseCategory =
   | '交際費' // Entertainment (飲食、ギフトなど) - maps to 接待交際費
   | '未分類'; // Uncategorized
 
+export type DocumentDirection =
+  | 'expense' // 経費（受け取った領収書・請求書）
+  | 'income' // 売上（発行した請求書・領収書）
+  | 'purchase'; // 仕入（商品・原材料の仕入）
+
+export type BusinessRatioSource =
+  | 'rule' // 家事按分ルール
+  | 'vendor' // Remembered for the vendor
+  | 'manual'; // Set by hand on the receipt
+
 export type PaymentMethod =
   | 'cash' // 現金
   | 'credit_card' // クレジットカード
@@ -152,7 +230,8 @@ export interface UploadBatch {
 // Filter options for dashboard
 export interface ReceiptFilters {
   category?: ExpenseCategory | 'すべて';
-  status?: 'すべて' | '要確認' | '完了';
+  status?: 'すべて' | '要確認' | '完了' | '明細未照合'; // 明細未照合 = no matching bank/card statement line
+  fiscalYear?: number; // Calendar year of the transaction date
   dateRange?: {
     from: Date;
     to: Date;
@@ -171,6 +250,8 @@ export interface UploadQueueItem {
   fileSize: number;
   mimeType: string;
   imageId: string; // Reference to stored image blob
+  pageImageIds?: string[]; // Rendered PDF pages (whole-document mode)
+  sourcePage?: number; // PDF page number (one-receipt-per-page mode)
 
   // Processing state
   status: 'pending' | 'uploading' | 'processing' | 'completed' | 'failed';
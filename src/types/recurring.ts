@@ -0,0 +1,60 @@
+import type { ExpenseCategory, Receipt } from './receipt';
+
+/**
+ * Recurring expenses (rent, phone, SaaS subscriptions)
+ *
+ * A template describes a payment expected every month. Each month gets an
+ * expected entry, which is matched to the receipt when it arrives; entries
+ * still open after their date show up as missing, so lost receipts are
+ * noticed before the year is closed.
+ */
+
+/**
+ * A payment expected every month
+ * Receipts are matched by T-number first, then by normalized vendor name.
+ */
+export interface RecurringTemplate {
+  id: string; // UUID v4
+  name: string; // Vendor name to show
+  names: string[]; // Normalized issuer names (multi-entry index)
+  tNumber?: string;
+  category: ExpenseCategory;
+  amount: number; // Usual 税込 amount
+  dayOfMonth: number; // Usual billing day (1-31; clamped to the end of short months)
+  startMonth: string; // First expected month (YYYY-MM)
+  endMonth?: string; // Last expected month (YYYY-MM, absent = ongoing)
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RecurringEntryStatus =
+  | 'expected' // No receipt yet
+  | 'matched' // Receipt found
+  | 'skipped'; // No receipt expected this month (marked by the user)
+
+/**
+ * One month of a template
+ */
+export interface RecurringEntry {
+  id: string; // `${templateId}:${period}`
+  templateId: string;
+  period: string; // YYYY-MM
+  expectedDate: string; // YYYY-MM-DD
+  status: RecurringEntryStatus;
+  receiptId?: string; // Set when matched
+}
+
+/**
+ * Receipts that look like a monthly series but have no template yet
+ */
+export interface RecurringSuggestion {
+  key: string; // T-number or normalized name
+  name: string;
+  names: string[];
+  tNumber?: string;
+  category: ExpenseCategory;
+  amount: number; // Median amount
+  dayOfMonth: number; // Median billing day
+  months: string[]; // Months with a receipt (YYYY-MM), oldest first
+  receipts: Receipt[];
+}
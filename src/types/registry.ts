@@ -0,0 +1,80 @@
+/**
+ * 適格請求書発行事業者 (Qualified Invoice Issuer) registry
+ *
+ * Records come from the NTA 公表情報 bulk download (全件データ / 差分データ),
+ * imported into IndexedDB so T-numbers can be checked offline.
+ *
+ * Reference: https://www.invoice-kohyo.nta.go.jp/download/
+ */
+
+/**
+ * A registered business, as published by the NTA
+ * Dates are kept as YYYY-MM-DD strings exactly as published
+ */
+export interface InvoiceRegistrant {
+  /** 登録番号 (T + 13 digits) - primary key */
+  tNumber: string;
+
+  /** 人格区分 */
+  kind: 'individual' | 'corporation';
+
+  /** 氏名又は名称 */
+  name: string;
+
+  /** フリガナ (corporations only) */
+  kana?: string;
+
+  /** 屋号 (individuals, if published) */
+  tradeName?: string;
+
+  /** 通称・旧氏 (individuals, if published) */
+  popularName?: string;
+
+  /** 本店又は主たる事務所の所在地 */
+  address?: string;
+
+  /** 登録年月日 */
+  registrationDate: string;
+
+  /** 更新年月日 */
+  updateDate?: string;
+
+  /** 登録取消年月日 */
+  cancellationDate?: string;
+
+  /** 登録失効年月日 */
+  expirationDate?: string;
+}
+
+/**
+ * Record of one bulk-download file imported into the registry
+ */
+export interface RegistryImport {
+  id: string; // UUID v4
+  importedAt: Date;
+  fileName: string;
+  format: 'csv' | 'xml';
+  recordCount: number; // Registrants added or updated
+  deletedCount: number; // Registrants removed (事業者処理区分 99)
+}
+
+/**
+ * Outcome of checking a receipt's T-number
+ */
+export type TNumberVerificationStatus =
+  | 'missing' // No T-number on the receipt
+  | 'invalid_format' // Not T + 13 digits
+  | 'invalid_check_digit' // Check digit does not match the other 12 digits
+  | 'unverified' // Registry is empty - cannot check
+  | 'not_found' // Not in the imported registry
+  | 'registered' // Registered on the transaction date
+  | 'not_yet_registered' // Transaction predates the registration date
+  | 'cancelled' // Registration was cancelled (取消) on or before the transaction date
+  | 'expired'; // Registration lapsed (失効) on or before the transaction date
+
+export interface TNumberVerification {
+  status: TNumberVerificationStatus;
+  registrant?: InvoiceRegistrant;
+  /** Whether the receipt's issuer name matches the registered name (only when found) */
+  nameMatches?: boolean;
+}
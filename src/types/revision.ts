@@ -0,0 +1,75 @@
+import type { Receipt } from './receipt';
+
+/**
+ * Revision history, bulk undo and trash
+ *
+ * Every write to a receipt is recorded as a numbered revision listing the
+ * fields it changed with their old and new values. Bulk operations share a
+ * batch ID so the last one can be undone as a whole, and deleted receipts
+ * are moved to a trash bin (with their images) for a number of days before
+ * they are purged.
+ */
+
+export type RevisionAction =
+  | 'create'
+  | 'update'
+  | 'delete' // Moved to the trash
+  | 'restore'; // Brought back from the trash
+
+export type RevisionActor =
+  | 'user' // Edited in the app
+  | 'system' // Changed automatically (duplicate scan, etc.)
+  | 'sync'; // Applied from another device
+
+/**
+ * One changed field
+ * Top-level receipt fields use their name ("notes"), extracted data fields
+ * are prefixed ("extractedData.totalAmount").
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown; // undefined = field was not set
+  after: unknown;
+}
+
+/**
+ * One revision of a receipt
+ */
+export interface ReceiptRevision {
+  id?: number; // Auto-increment
+  receiptId: string;
+  version: number; // 1 for the create, +1 per change
+  action: RevisionAction;
+  changedAt: Date;
+  changedBy: RevisionActor;
+  batchId?: string; // Shared by all revisions of one bulk operation
+  changes: FieldChange[];
+}
+
+/**
+ * The most recent bulk operation, kept so it can be undone
+ */
+export interface BulkOperation {
+  id: string; // Batch ID on its revisions / trash entries
+  kind: 'update' | 'delete';
+  count: number;
+  createdAt: Date;
+}
+
+/**
+ * A deleted receipt waiting in the trash
+ */
+export interface TrashedReceipt {
+  receiptId: string;
+  receipt: Receipt;
+  images: { id: string; blob: Blob }[]; // Receipt image and rendered PDF pages
+  deletedAt: Date;
+  batchId?: string; // Set when deleted by a bulk delete
+}
+
+/**
+ * Trash bin settings (stored in the settings table)
+ */
+export interface TrashSettings {
+  retentionDays: number;
+}
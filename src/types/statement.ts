@@ -0,0 +1,71 @@
+/**
+ * Bank and credit-card statements
+ *
+ * Statement CSVs are imported line by line so receipts can be reconciled
+ * against what was actually paid. Amounts are signed from the business's
+ * point of view: positive = money out (payment, card purchase), negative =
+ * money in (deposit, refund).
+ */
+
+export type StatementKind = 'bank' | 'card';
+
+export type StatementEncoding = 'shift_jis' | 'utf-8';
+
+/**
+ * How to read a statement CSV - a preset or a user-defined mapping
+ * Column numbers are 0-based. Either `amount` (one signed column) or
+ * `withdrawal`/`deposit` (two unsigned columns) is set.
+ */
+export interface StatementFormat {
+  id: string;
+  name: string;
+  kind: StatementKind;
+  encoding: StatementEncoding;
+  /** Rows before the first transaction (headers, account info) */
+  skipRows: number;
+  columns: {
+    date: number;
+    description: number;
+    amount?: number;
+    withdrawal?: number;
+    deposit?: number;
+  };
+  /** The signed amount column shows payments as negative numbers */
+  paymentsNegative?: boolean;
+}
+
+export type StatementMatchStatus =
+  | 'unmatched' // No receipt yet
+  | 'auto' // Matched by date, amount and vendor name
+  | 'manual' // Linked by the user
+  | 'ignored'; // No receipt expected (transfers, card settlements, fees)
+
+/**
+ * One line of an imported statement
+ */
+export interface StatementTransaction {
+  id: string; // UUID v4
+  importId: string;
+  account: string; // User label for the account or card, e.g. "楽天カード"
+  kind: StatementKind;
+  date: Date;
+  description: string;
+  amount: number; // Signed, see above
+  status: StatementMatchStatus;
+  receiptId?: string; // Set when status is 'auto' or 'manual'
+  /** Account, date, amount, description and occurrence - re-imports skip known lines */
+  fingerprint: string;
+}
+
+/**
+ * Record of one imported statement file
+ */
+export interface StatementImport {
+  id: string; // UUID v4
+  importedAt: Date;
+  fileName: string;
+  account: string;
+  formatId: string;
+  transactionCount: number; // New lines added
+  skippedCount: number; // Lines already imported earlier
+}
@@ -0,0 +1,68 @@
+/**
+ * Multi-device sync
+ *
+ * Devices push their receipt changes to a self-hosted sync server (the
+ * /api/sync route of this app) and pull everyone else's. The server keeps an
+ * append-only change log, numbered by sequence, plus the receipt images.
+ * Changes are read from the revision history, so a change lists exactly the
+ * fields it touched and concurrent edits of different fields merge.
+ */
+
+/**
+ * One receipt change in the log
+ */
+export interface SyncChange {
+  receiptId: string;
+  action: 'upsert' | 'delete';
+  changedAt: string; // ISO 8601 - receipt updatedAt, or when it was deleted
+  fields: string[]; // Changed field paths as in revisions; '*' = whole receipt
+  receipt?: unknown; // Encoded receipt (upserts)
+}
+
+/**
+ * A change as stored on the server
+ */
+export interface SyncLogEntry {
+  seq: number; // 1-based, increasing
+  deviceId: string;
+  receivedAt: string; // ISO 8601
+  change: SyncChange;
+}
+
+export interface SyncPushRequest {
+  deviceId: string;
+  changes: SyncChange[];
+}
+
+export interface SyncPushResponse {
+  seq: number; // Sequence of the last stored change
+}
+
+export interface SyncPullResponse {
+  entries: SyncLogEntry[];
+  latestSeq: number;
+  hasMore: boolean;
+}
+
+/**
+ * Sync configuration and progress on this device (stored in the settings table)
+ */
+export interface SyncSettings {
+  enabled: boolean;
+  serverUrl: string; // '' = the server this app is served from
+  token: string; // Must match SYNC_TOKEN on the server
+  deviceId: string;
+  lastPulledSeq: number;
+  lastPushedRevisionId: number; // Revisions up to this ID have been pushed
+  lastSyncedAt?: Date;
+}
+
+/**
+ * Outcome of one sync
+ */
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+  conflicts: number; // Fields changed on both sides (newer edit kept)
+  skipped: number; // Remote changes not applied (closed year, archived receipt)
+}
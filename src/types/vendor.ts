@@ -0,0 +1,20 @@
+import type { ExpenseCategory, PaymentMethod } from './receipt';
+
+/**
+ * Remembered preferences for a vendor
+ *
+ * Learned from the user's corrections in the dashboard and applied to new
+ * receipts right after extraction, so a shop the model keeps misfiling only
+ * has to be fixed once. Matched by T-number first, then by normalized name.
+ */
+export interface VendorProfile {
+  id: string; // UUID v4
+  tNumber?: string; // 登録番号 - the most reliable match
+  names: string[]; // Normalized issuer names seen for this vendor (multi-entry index)
+  canonicalName: string; // Name to show and export
+  category?: ExpenseCategory;
+  paymentMethod?: PaymentMethod;
+  businessRatio?: number; // 家事按分 (%), overrides category/vendor rules
+  createdAt: Date;
+  updatedAt: Date;
+}
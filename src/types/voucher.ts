@@ -0,0 +1,24 @@
+import type { ExpenseCategory, PaymentMethod } from './receipt';
+
+/**
+ * 出金伝票 - a payment recorded without a receipt from the payee
+ * (train fares, 香典, small payments where none was issued)
+ */
+export interface VoucherInfo {
+  reason: string; // Why there is no receipt (required)
+  preparedOn: string; // Date the voucher was written (YYYY-MM-DD)
+}
+
+/**
+ * Values entered on the 出金伝票 form
+ */
+export interface VoucherInput {
+  date: string; // Payment date (YYYY-MM-DD)
+  payee: string; // 支払先
+  description: string; // 摘要
+  amount: number; // 税込金額
+  taxRate: number; // 10, 8, or 0 for payments without consumption tax
+  category: ExpenseCategory;
+  paymentMethod: PaymentMethod;
+  reason: string;
+}
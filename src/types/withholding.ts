@@ -0,0 +1,59 @@
+import type { WithholdingCategory } from './payee';
+import type { Receipt } from './receipt';
+
+/**
+ * Withholding (源泉徴収) on payments for fees
+ *
+ * A receipt for a fee paid to an individual records how much was withheld
+ * (`extractedData.withholding`). The withheld tax is paid to the tax office
+ * with a 納付書 by the 10th of the next month, or twice a year under the
+ * 納期の特例 for the fees it covers.
+ */
+
+export interface WithholdingInfo {
+  amount: number; // 源泉徴収税額 withheld from this payment
+  category: Exclude<WithholdingCategory, 'notSubject'>; // 区分 (decides the 納付書 and 納期の特例)
+  paymentDate: string; // 支払年月日 (YYYY-MM-DD) - decides the period it is paid for
+}
+
+export type WithholdingSchedule =
+  | 'monthly' // 毎月納付 (by the 10th of the next month)
+  | 'semiAnnual'; // 納期の特例 (Jan-Jun by 7/10, Jul-Dec by 1/20)
+
+/**
+ * 納付書 a withheld amount is paid with
+ */
+export type RemittanceForm =
+  | 'general' // 給与所得・退職所得等の所得税徴収高計算書（一般用） - 税理士等の報酬
+  | 'special' // 同（納期特例分）
+  | 'fees'; // 報酬・料金等の所得税徴収高計算書 - 原稿料・デザイン料等
+
+/**
+ * Settings for paying withheld tax (stored in the settings table)
+ */
+export interface WithholdingSettings {
+  schedule: WithholdingSchedule;
+  paid: Record<string, string>; // RemittanceSlip key -> date paid (YYYY-MM-DD)
+}
+
+/**
+ * One 納付書: the tax withheld in a month or half-year on one form
+ */
+export interface RemittanceSlip {
+  key: string; // e.g. "2025-03:fees", "2025-H1:special"
+  form: RemittanceForm;
+  year: number; // 年分 of the payments
+  startMonth: number; // 1-12
+  endMonth: number; // Same as startMonth when paid monthly
+  dueDate: string; // 納期限 (YYYY-MM-DD)
+  payeeCount: number; // 人員
+  grossAmount: number; // 支給額
+  taxAmount: number; // 税額
+  receipts: Receipt[];
+  paidOn?: string; // Date it was paid (YYYY-MM-DD)
+}
+
+export type RemittanceReminderStatus =
+  | 'overdue' // Past the 納期限
+  | 'dueSoon' // Within the reminder window
+  | 'upcoming';
@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import { buildAllocationsFromItems, expandAllocations } from '@/lib/export/allocations';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+test.describe('Allocation splitting', () => {
+  test('shares the printed tax out across the split rows', () => {
+    const rows = expandAllocations([
+      createReceipt('split', {
+        totalAmount: 3300,
+        taxBreakdown: [createTaxBreakdown(10, 3300, 300)],
+        allocations: [
+          { category: '消耗品費', taxRate: 10, amount: 1000 },
+          { category: '通信費', taxRate: 10, amount: 2300, description: 'SIM' },
+        ],
+      }),
+    ]);
+
+    expect(rows.map((r) => r.id)).toEqual(['split', 'split']);
+    expect(rows.map((r) => r.extractedData.suggestedCategory)).toEqual(['消耗品費', '通信費']);
+    expect(rows.map((r) => r.extractedData.taxBreakdown[0])).toEqual([
+      createTaxBreakdown(10, 1000, 90),
+      createTaxBreakdown(10, 2300, 210),
+    ]);
+    expect(rows[1].extractedData.description).toBe('SIM');
+  });
+
+  test('computes the tax of a rate the receipt does not print', () => {
+    const [row] = expandAllocations([
+      createReceipt('reduced', {
+        totalAmount: 1080,
+        allocations: [{ category: '福利厚生費', taxRate: 8, amount: 1080 }],
+      }),
+    ]);
+
+    expect(row.extractedData.taxBreakdown).toEqual([createTaxBreakdown(8, 1080, 80)]);
+  });
+
+  test('groups line items by category and tax rate', () => {
+    const allocations = buildAllocationsFromItems(
+      createReceipt('items', {
+        totalAmount: 492,
+        taxBreakdown: [createTaxBreakdown(10, 330, 30), createTaxBreakdown(8, 162, 12)],
+        items: [
+          { name: 'ペン', quantity: 1, unitPrice: 100, taxRate: 10, amount: 100 },
+          { name: 'SIM', quantity: 1, unitPrice: 200, taxRate: 10, amount: 200, category: '通信費' },
+          { name: 'お茶', quantity: 1, unitPrice: 150, taxRate: 8, amount: 150, category: '福利厚生費' },
+        ],
+      }).extractedData
+    );
+
+    expect(allocations).toEqual([
+      { category: '消耗品費', taxRate: 10, amount: 110, description: 'ペン' },
+      { category: '通信費', taxRate: 10, amount: 220, description: 'SIM' },
+      { category: '福利厚生費', taxRate: 8, amount: 162, description: 'お茶' },
+    ]);
+  });
+});
@@ -0,0 +1,39 @@
+import { test, expect } from '@playwright/test';
+import { findApportionmentRule, getBusinessRatio } from '@/lib/apportionment/business-ratio';
+import { getExportRows } from '@/lib/export/allocations';
+import type { ApportionmentRule } from '@/types/apportionment';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+const createdAt = new Date(2025, 0, 1);
+const rules: ApportionmentRule[] = [
+  { id: 'utilities', kind: 'category', category: '水道光熱費', businessRatio: 30, createdAt },
+  { id: 'docomo', kind: 'vendor', vendorName: 'ドコモ', businessRatio: 60, createdAt },
+];
+
+test.describe('Apportionment rules', () => {
+  test('vendor rules win over category rules', () => {
+    expect(findApportionmentRule(rules, { issuerName: 'NTTドコモ', suggestedCategory: '水道光熱費' })?.id).toBe(
+      'docomo'
+    );
+    expect(findApportionmentRule(rules, { issuerName: '東京電力', suggestedCategory: '水道光熱費' })?.id).toBe(
+      'utilities'
+    );
+    expect(findApportionmentRule(rules, { issuerName: '東京電力', suggestedCategory: '通信費' })).toBeUndefined();
+  });
+
+  test('only expenses are apportioned', () => {
+    expect(getBusinessRatio(createReceipt('bill', { businessRatio: 60 }).extractedData)).toBe(60);
+    expect(getBusinessRatio(createReceipt('sale', { direction: 'income', businessRatio: 60 }).extractedData)).toBe(
+      100
+    );
+  });
+
+  test('export rows are reduced to the business share', () => {
+    const [row] = getExportRows([createReceipt('phone', { description: '携帯電話', businessRatio: 60 })]);
+
+    expect(row.extractedData.totalAmount).toBe(660);
+    expect(row.extractedData.taxBreakdown).toEqual([createTaxBreakdown(10, 660, 60)]);
+    expect(row.extractedData.subtotalExcludingTax).toBe(600);
+    expect(row.extractedData.description).toBe('携帯電話 家事按分 事業割合60%（支払総額1,100円）');
+  });
+});
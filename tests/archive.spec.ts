@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test';
+import {
+  createHistoryEntry,
+  getChangedFields,
+  sha256Hex,
+  verifyHistoryChain,
+} from '@/lib/archive/integrity';
+import { createReceipt } from './helpers';
+
+test.describe('Archive integrity', () => {
+  test('hashes strings and blobs the same way', async () => {
+    const hash = await sha256Hex('abc');
+    expect(hash).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await sha256Hex(new Blob(['abc']))).toBe(hash);
+  });
+
+  test('lists only the fields a correction changed', () => {
+    const before = createReceipt('r1').extractedData;
+    const after = { ...before, totalAmount: 2200, issuerName: 'Other Store' };
+
+    expect(getChangedFields(before, after).sort()).toEqual(['issuerName', 'totalAmount']);
+  });
+
+  test('a correction history chains to the entry before it', async () => {
+    const received = createReceipt('r1').extractedData;
+    const corrected = { ...received, totalAmount: 2200 };
+
+    const first = await createHistoryEntry('r1', 'create', undefined, received, undefined);
+    const second = await createHistoryEntry('r1', 'update', received, corrected, first);
+
+    expect(first.prevHash).toBe('');
+    expect(second.prevHash).toBe(first.hash);
+    expect(second.changedFields).toEqual(['totalAmount']);
+    expect(await verifyHistoryChain([first, second])).toBe(true);
+  });
+
+  test('detects edited, removed and reordered entries', async () => {
+    const received = createReceipt('r1').extractedData;
+    const corrected = { ...received, totalAmount: 2200 };
+    const first = await createHistoryEntry('r1', 'create', undefined, received, undefined);
+    const second = await createHistoryEntry('r1', 'update', received, corrected, first);
+
+    const edited = { ...second, after: { ...corrected, totalAmount: 1100 } };
+    expect(await verifyHistoryChain([first, edited])).toBe(false);
+    expect(await verifyHistoryChain([second])).toBe(false);
+    expect(await verifyHistoryChain([second, first])).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+import { getInputTaxCreditRate, getNationalInputTax } from '@/lib/consumption-tax/input-tax';
+import { buildConsumptionTaxWorksheet } from '@/lib/consumption-tax/worksheet';
+import type { TNumberVerification } from '@/types/registry';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+const registered: TNumberVerification = { status: 'registered' };
+const missing: TNumberVerification = { status: 'missing' };
+
+test.describe('Input tax credit', () => {
+  test('qualified invoices are fully creditable', () => {
+    expect(getInputTaxCreditRate(new Date(2027, 0, 10), true)).toBe(100);
+  });
+
+  test('other purchases get the transitional 80% / 50% credit', () => {
+    expect(getInputTaxCreditRate(new Date(2023, 8, 30), false)).toBe(100);
+    expect(getInputTaxCreditRate(new Date(2023, 9, 1), false)).toBe(80);
+    expect(getInputTaxCreditRate(new Date(2026, 8, 30), false)).toBe(80);
+    expect(getInputTaxCreditRate(new Date(2026, 9, 1), false)).toBe(50);
+    expect(getInputTaxCreditRate(new Date(2029, 8, 30), false)).toBe(50);
+    expect(getInputTaxCreditRate(new Date(2029, 9, 1), false)).toBe(0);
+  });
+
+  test('national input tax is taken from the tax-included total and rounded down', () => {
+    expect(getNationalInputTax(110000, 10, 100)).toBe(7800);
+    expect(getNationalInputTax(108000, 8, 100)).toBe(6240);
+    expect(getNationalInputTax(110000, 10, 80)).toBe(6240);
+    expect(getNationalInputTax(111111, 10, 100)).toBe(7878);
+  });
+});
+
+test.describe('Consumption tax worksheet', () => {
+  const receipts = [
+    createReceipt('sale-10', {
+      direction: 'income',
+      transactionDate: new Date(2025, 1, 1),
+      totalAmount: 1100000,
+      taxBreakdown: [createTaxBreakdown(10, 1100000, 100000)],
+    }),
+    createReceipt('sale-8', {
+      direction: 'income',
+      transactionDate: new Date(2025, 1, 2),
+      totalAmount: 540999,
+      taxBreakdown: [createTaxBreakdown(8, 540999, 40074)],
+    }),
+    createReceipt('qualified', {
+      transactionDate: new Date(2025, 2, 10),
+      totalAmount: 330000,
+      taxBreakdown: [createTaxBreakdown(10, 330000, 30000)],
+    }),
+    createReceipt('unqualified', {
+      transactionDate: new Date(2025, 4, 10),
+      totalAmount: 110000,
+      taxBreakdown: [createTaxBreakdown(10, 110000, 10000)],
+    }),
+    createReceipt('stamp', {
+      transactionDate: new Date(2025, 5, 1),
+      suggestedCategory: '租税公課',
+    }),
+  ];
+  const verifications = new Map<string, TNumberVerification>([
+    ['qualified', registered],
+    ['unqualified', missing],
+  ]);
+
+  test('taxable base is rounded down to 1,000 yen per rate', () => {
+    const worksheet = buildConsumptionTaxWorksheet(2025, receipts, verifications, 5);
+
+    expect(worksheet.taxableBase).toEqual([
+      { taxRate: 10, base: 1000000 },
+      { taxRate: 8, base: 500000 },
+    ]);
+    expect(worksheet.salesTax).toBe(78000 + 31200);
+    expect(worksheet.excludedCount).toBe(1);
+  });
+
+  test('general method credits purchases by invoice status', () => {
+    const worksheet = buildConsumptionTaxWorksheet(2025, receipts, verifications, 5);
+
+    expect(worksheet.purchases.map((g) => [g.qualified, g.creditRate, g.deductibleTax])).toEqual([
+      [true, 100, 23400],
+      [false, 80, 6240],
+    ]);
+    expect(worksheet.results[0]).toMatchObject({
+      method: 'general',
+      deductibleTax: 29640,
+      nationalTax: 79500,
+      localTax: 22400,
+      totalTax: 101900,
+    });
+  });
+
+  test('2割特例 pays 20% of the tax on sales while it is available', () => {
+    const worksheet = buildConsumptionTaxWorksheet(2025, receipts, verifications, 5);
+
+    expect(worksheet.results[1]).toMatchObject({
+      method: 'twoTenths',
+      eligible: true,
+      deductibleTax: 87360,
+      nationalTax: 21800,
+      localTax: 6100,
+      totalTax: 27900,
+    });
+    expect(buildConsumptionTaxWorksheet(2027, receipts, verifications, 5).results[1].eligible).toBe(false);
+  });
+
+  test('簡易課税 uses the deemed purchase rate of the business type', () => {
+    const service = buildConsumptionTaxWorksheet(2025, receipts, verifications, 5);
+    expect(service.results[2]).toMatchObject({
+      method: 'simplified',
+      deductibleTax: 54600,
+      nationalTax: 54600,
+      localTax: 15400,
+      totalTax: 70000,
+    });
+
+    const retail = buildConsumptionTaxWorksheet(2025, receipts, verifications, 2);
+    expect(retail.results[2]).toMatchObject({ deductibleTax: 87360, nationalTax: 21800 });
+  });
+
+  test('refunds are not rounded', () => {
+    const worksheet = buildConsumptionTaxWorksheet(
+      2025,
+      [
+        createReceipt('purchase', {
+          transactionDate: new Date(2025, 2, 10),
+          totalAmount: 111111,
+          taxBreakdown: [createTaxBreakdown(10, 111111, 10101)],
+        }),
+      ],
+      new Map([['purchase', registered]]),
+      5
+    );
+
+    expect(worksheet.results[0]).toMatchObject({ nationalTax: -7878, localTax: -2222 });
+  });
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { convertToYen } from '@/lib/currency/exchange';
+import { getDepreciationSchedule } from '@/lib/depreciation/schedule';
+import { getExportRows } from '@/lib/export/allocations';
+import { summarizeByCategory } from '@/lib/export/summary';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+test.describe('Currency conversion', () => {
+  const usd = createReceipt('usd', {
+    currency: 'USD',
+    subtotalExcludingTax: 2.73,
+    taxBreakdown: [{ taxRate: 10, subtotal: 2.73, taxAmount: 0.27, total: 3 }],
+    totalAmount: 3,
+    allocations: [
+      { category: '消耗品費', taxRate: 10, amount: 1 },
+      { category: '通信費', taxRate: 10, amount: 1 },
+      { category: '広告宣伝費', taxRate: 10, amount: 1 },
+    ],
+  }).extractedData;
+
+  test('rounds to the yen and gives the remainder to the last share', () => {
+    const yen = convertToYen(usd, { rate: 100.5, date: '2025-03-10', source: 'ttm' });
+
+    expect(yen.totalAmount).toBe(302);
+    expect(yen.originalAmount).toBe(3);
+    expect(yen.taxBreakdown).toEqual([createTaxBreakdown(10, 302, 27)]);
+    expect(yen.subtotalExcludingTax).toBe(275);
+    expect(yen.allocations?.map((a) => a.amount)).toEqual([101, 101, 100]);
+  });
+
+  test('converting again starts from the original amount', () => {
+    const first = convertToYen(usd, { rate: 100.5, date: '2025-03-10', source: 'ttm' });
+    const second = convertToYen(first, { rate: 150, date: '2025-03-10', source: 'manual' });
+
+    expect(second.totalAmount).toBe(450);
+    expect(second.taxBreakdown[0].total).toBe(450);
+    expect(second.allocations?.map((a) => a.amount)).toEqual([150, 150, 150]);
+  });
+});
+
+test.describe('Unconverted receipts', () => {
+  test('are left out of the export rows', () => {
+    const rows = getExportRows([createReceipt('yen'), createReceipt('usd', { currency: 'USD' })]);
+
+    expect(rows.map((r) => r.id)).toEqual(['yen']);
+  });
+
+  test('are left out of the depreciation schedule', () => {
+    const receipt = createReceipt('imported', {
+      currency: 'USD',
+      totalAmount: 2000,
+      fixedAsset: { name: 'パソコン', serviceDate: '2025-07-01', usefulLife: 4, method: 'straightLine' },
+    });
+
+    expect(getDepreciationSchedule([receipt], 2025)).toEqual([]);
+  });
+
+  test('leave the category summary without an income total when they are the only income', () => {
+    const summary = summarizeByCategory([
+      createReceipt('expense'),
+      createReceipt('usd-sale', { direction: 'income', currency: 'USD', totalAmount: 50 }),
+    ]);
+
+    expect(Object.keys(summary.categories)).toEqual(['消耗品費']);
+    expect(summary.payments).toMatchObject({ count: 1, tax10Total: 1100, total: 1100 });
+    expect(summary.income).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+import {
+  getAssetSchedule,
+  getAvailableMethods,
+  getDepreciationSchedule,
+  getStraightLineRate,
+} from '@/lib/depreciation/schedule';
+import { summarizeByCategory } from '@/lib/export/summary';
+import type { FixedAssetInfo } from '@/types/fixed-asset';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+function createAsset(id: string, cost: number, asset: Partial<FixedAssetInfo>) {
+  return createReceipt(id, {
+    totalAmount: cost,
+    taxBreakdown: [createTaxBreakdown(10, cost, Math.floor(cost / 11))],
+    fixedAsset: {
+      name: 'パソコン',
+      serviceDate: '2025-07-01',
+      usefulLife: 4,
+      method: 'straightLine',
+      ...asset,
+    },
+  });
+}
+
+test.describe('Depreciation methods', () => {
+  test('定額法 rate is 1/useful life rounded up', () => {
+    expect(getStraightLineRate(4)).toBe(250);
+    expect(getStraightLineRate(3)).toBe(334);
+  });
+
+  test('一括償却 is offered under ¥200,000', () => {
+    expect(getAvailableMethods(199999, '2025-06-01', 4)).toContain('lumpSum');
+    expect(getAvailableMethods(200000, '2025-06-01', 4)).not.toContain('lumpSum');
+  });
+
+  test('少額特例 cap rises to ¥400,000 from April 2026', () => {
+    expect(getAvailableMethods(299999, '2026-03-31', 4)).toContain('smallAmount');
+    expect(getAvailableMethods(350000, '2026-03-31', 4)).not.toContain('smallAmount');
+    expect(getAvailableMethods(350000, '2026-04-01', 4)).toContain('smallAmount');
+    expect(getAvailableMethods(400000, '2026-04-01', 4)).not.toContain('smallAmount');
+  });
+});
+
+test.describe('Depreciation schedule', () => {
+  test('定額法 prorates the first year and stops at the memo value', () => {
+    const schedule = getAssetSchedule(createAsset('pc', 300000, {}).extractedData);
+
+    expect(schedule.map((s) => [s.year, s.months, s.depreciation, s.closingBookValue])).toEqual([
+      [2025, 6, 37500, 262500],
+      [2026, 12, 75000, 187500],
+      [2027, 12, 75000, 112500],
+      [2028, 12, 75000, 37500],
+      [2029, 12, 37499, 1],
+    ]);
+  });
+
+  test('200%定率法 switches to the revised rate below the guaranteed amount', () => {
+    const schedule = getAssetSchedule(
+      createAsset('server', 1000000, { serviceDate: '2025-01-15', usefulLife: 5, method: 'decliningBalance' })
+        .extractedData
+    );
+
+    expect(schedule.map((s) => [s.year, s.depreciation, s.closingBookValue])).toEqual([
+      [2025, 400000, 600000],
+      [2026, 240000, 360000],
+      [2027, 144000, 216000],
+      [2028, 108000, 108000],
+      [2029, 107999, 1],
+    ]);
+  });
+
+  test('一括償却 writes off thirds with the remainder in the last year', () => {
+    const schedule = getAssetSchedule(createAsset('desk', 100000, { method: 'lumpSum' }).extractedData);
+
+    expect(schedule.map((s) => [s.months, s.depreciation])).toEqual([
+      [12, 33333],
+      [12, 33333],
+      [12, 33334],
+    ]);
+  });
+
+  test('少額特例 expenses the full cost in the first year', () => {
+    const schedule = getAssetSchedule(createAsset('camera', 250000, { method: 'smallAmount' }).extractedData);
+
+    expect(schedule).toHaveLength(1);
+    expect(schedule[0]).toMatchObject({ year: 2025, depreciation: 250000, closingBookValue: 0 });
+  });
+
+  test('only the business share is deductible', () => {
+    const receipt = createAsset('pc', 300000, {});
+    receipt.extractedData.businessRatio = 60;
+
+    const [row] = getDepreciationSchedule([receipt], 2026);
+    expect(row).toMatchObject({ depreciation: 75000, deductible: 45000, businessRatio: 60 });
+  });
+
+  test('fully depreciated assets stay listed at the memo value', () => {
+    const [row] = getDepreciationSchedule([createAsset('pc', 300000, {})], 2031);
+
+    expect(row).toMatchObject({ months: 0, depreciation: 0, openingBookValue: 1, closingBookValue: 1 });
+  });
+});
+
+test.describe('Category summary', () => {
+  test('books fixed assets as the year\'s depreciation instead of their cost', () => {
+    const receipts = [createReceipt('paper'), createAsset('pc', 300000, {})];
+    const summary = summarizeByCategory(receipts, getDepreciationSchedule(receipts, 2025));
+
+    expect(Object.keys(summary.categories)).toEqual(['消耗品費', '減価償却費']);
+    expect(summary.categories['減価償却費']).toMatchObject({ count: 1, tax10Total: 0, total: 37500 });
+    expect(summary.payments.total).toBe(1100 + 37500);
+  });
+
+  test('counts only the business share of the depreciation', () => {
+    const receipt = createAsset('pc', 300000, {});
+    receipt.extractedData.businessRatio = 60;
+    const summary = summarizeByCategory([receipt], getDepreciationSchedule([receipt], 2025));
+
+    expect(summary.categories).toEqual({ 減価償却費: expect.objectContaining({ total: 22500 }) });
+  });
+});
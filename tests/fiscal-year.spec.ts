@@ -0,0 +1,64 @@
+import { test, expect } from '@playwright/test';
+import { getDepreciationCarryOver, getLumpSumInstallment } from '@/lib/depreciation/carry-over';
+import { getFiscalYear } from '@/lib/utils/fiscal-year';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+function createEquipment(id: string, cost: number, date: Date) {
+  return createReceipt(id, {
+    totalAmount: cost,
+    transactionDate: date,
+    taxBreakdown: [createTaxBreakdown(10, cost, Math.floor(cost / 11))],
+  });
+}
+
+test.describe('Fiscal years', () => {
+  test('a receipt belongs to the year of its transaction date', () => {
+    const receipt = createReceipt('r1', { transactionDate: new Date(2024, 11, 31) });
+    expect(getFiscalYear(receipt)).toBe(2024);
+  });
+
+  test('falls back to the upload date without a valid transaction date', () => {
+    const receipt = createReceipt('r1', { transactionDate: new Date('not a date') });
+    expect(getFiscalYear(receipt)).toBe(2025);
+  });
+});
+
+test.describe('Depreciation carry-over', () => {
+  test('一括償却 thirds put the remainder in the last year', () => {
+    expect(getLumpSumInstallment(100000, 1)).toBe(33333);
+    expect(getLumpSumInstallment(100000, 2)).toBe(33333);
+    expect(getLumpSumInstallment(100000, 3)).toBe(33334);
+  });
+
+  test('assets from earlier years carry into the year being closed', () => {
+    const receipts = [
+      createEquipment('old', 500000, new Date(2023, 5, 1)),
+      createEquipment('new', 450000, new Date(2025, 2, 1)),
+      createEquipment('later', 600000, new Date(2026, 0, 10)),
+    ];
+
+    const assets = getDepreciationCarryOver(receipts, 2025);
+    expect(assets.map((a) => [a.receipt.id, a.method, a.yearIndex])).toEqual([
+      ['old', 'standard', 3],
+      ['new', 'standard', 1],
+    ]);
+  });
+
+  test('leaves out 少額特例 items, registered fixed assets and income', () => {
+    const receipts = [
+      createEquipment('small', 250000, new Date(2025, 2, 1)),
+      createReceipt('registered', {
+        totalAmount: 500000,
+        transactionDate: new Date(2025, 2, 1),
+        fixedAsset: { name: 'パソコン', serviceDate: '2025-03-01', usefulLife: 4, method: 'straightLine' },
+      }),
+      createReceipt('sale', {
+        totalAmount: 500000,
+        transactionDate: new Date(2025, 2, 1),
+        direction: 'income',
+      }),
+    ];
+
+    expect(getDepreciationCarryOver(receipts, 2025)).toEqual([]);
+  });
+});
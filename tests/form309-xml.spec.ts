@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { generateForm309XML, validateForm309XML } from '@/lib/export/form309-xml';
+import type { Form309Export, Form309PaymentRecord, Form309Submitter } from '@/types/form309';
+
+function createExport(
+  submitter: Partial<Form309Submitter> = {},
+  records: Partial<Form309PaymentRecord>[] = [{}]
+): Form309Export {
+  const paymentRecords = records.map((record) => ({
+    recipientName: '山田太郎',
+    paymentAmount: 100000,
+    withholdingTax: 10210,
+    paymentDate: new Date(2025, 5, 30),
+    paymentDescription: 'デザイン料',
+    ...record,
+  }));
+
+  return {
+    submitter: {
+      documentType: '309',
+      referenceNumber1: '1234567890',
+      submitterAddress: '東京都千代田区1-1',
+      submitterName: '佐藤デザイン事務所',
+      submitterPhone: '０３－１２３４－５６７８',
+      taxYear: '07',
+      ...submitter,
+    },
+    paymentRecords,
+    totalPayments: paymentRecords.reduce((sum, r) => sum + r.paymentAmount, 0),
+    totalWithholdingTax: paymentRecords.reduce((sum, r) => sum + r.withholdingTax, 0),
+    metadata: { exportDate: new Date(2026, 0, 15), recordCount: paymentRecords.length, taxYear: '07' },
+  };
+}
+
+test.describe('Form 309 XML', () => {
+  test('writes items in the width e-Tax expects and leaves out empty ones', () => {
+    const xml = generateForm309XML(createExport());
+
+    expect(xml).toContain('<法定調書 様式="309" 年分="07" 件数="1">');
+    expect(xml).toContain('<住所又は所在地>東京都千代田区１－１</住所又は所在地>');
+    expect(xml).toContain('<電話番号>03-1234-5678</電話番号>');
+    expect(xml).toContain('<支払金額>100000</支払金額>');
+    expect(xml).not.toContain('<本支店等区分番号>');
+    expect(xml).not.toContain('<支払を受ける者の住所>');
+    expect(xml.endsWith('</法定調書>\r\n')).toBe(true);
+  });
+
+  test('reports missing, too long and wrong-width items', () => {
+    const result = validateForm309XML(
+      createExport({ submitterName: '', submitterPhone: '電話03-1234' }, [
+        { recipientName: 'あ'.repeat(31) },
+      ])
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toEqual([
+      'Submitter: 氏名又は名称 is required',
+      'Submitter: 電話番号 must be half-width characters',
+      'Record 1: 支払を受ける者の氏名 must be 30 characters or less',
+    ]);
+  });
+
+  test('requires a 2-digit year and whole-yen amounts', () => {
+    const result = validateForm309XML(createExport({ taxYear: '2025' }, [{ withholdingTax: 10210.5 }]));
+
+    expect(result.errors).toEqual([
+      'Tax year must be 2 half-width digits',
+      'Record 1: Amounts must be whole yen',
+    ]);
+  });
+
+  test('refuses to write an invalid file and warns when there is nothing to report', () => {
+    expect(() => generateForm309XML(createExport({ submitterAddress: '' }))).toThrow(
+      'Submitter: 住所又は所在地 is required'
+    );
+
+    const empty = validateForm309XML(createExport({}, []));
+    expect(empty.isValid).toBe(true);
+    expect(empty.warnings).toEqual(['No payment records to report']);
+  });
+});
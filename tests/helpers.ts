@@ -1,6 +1,7 @@
 import { Page, expect } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
+import type { ExtractedData, Receipt, TaxBreakdown } from '@/types/receipt';
 
 /**
  * Helper to create a mock receipt image file
@@ -158,3 +159,47 @@ export async function selectReceiptsWithKeyboard(
     await page.waitForTimeout(100);
   }
 }
+
+/**
+ * Helper to create a processed receipt for calculation tests
+ * Defaults to a ¥1,100 expense at 10%; pass the fields the test cares about.
+ */
+export function createReceipt(id: string, data: Partial<ExtractedData> = {}): Receipt {
+  const now = new Date(2025, 0, 1);
+  return {
+    id,
+    createdAt: now,
+    updatedAt: now,
+    imageId: `image-${id}`,
+    imageUrl: '',
+    fileName: `${id}.jpg`,
+    fileSize: 0,
+    mimeType: 'image/jpeg',
+    extractedData: {
+      issuerName: 'Test Store',
+      tNumber: null,
+      transactionDate: now,
+      description: '',
+      subtotalExcludingTax: 1000,
+      taxBreakdown: [{ taxRate: 10, subtotal: 1000, taxAmount: 100, total: 1100 }],
+      totalAmount: 1100,
+      suggestedCategory: '消耗品費',
+      categoryConfidence: 1,
+      ...data,
+    },
+    processingStatus: 'completed',
+    confidence: {
+      overall: 1,
+      fields: { issuerName: 1, tNumber: 1, transactionDate: 1, totalAmount: 1, taxBreakdown: 1, category: 1 },
+    },
+    isManuallyReviewed: true,
+    needsReview: false,
+  };
+}
+
+/**
+ * Helper to build a tax breakdown line from a tax-included total
+ */
+export function createTaxBreakdown(taxRate: number, total: number, taxAmount: number): TaxBreakdown {
+  return { taxRate, subtotal: total - taxAmount, taxAmount, total };
+}
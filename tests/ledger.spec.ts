@@ -0,0 +1,54 @@
+import { test, expect } from '@playwright/test';
+import { getAccountLabel } from '@/lib/export/ledger-mapping';
+import { transformReceiptsToLedger } from '@/lib/export/ledger-transform';
+import { summarizeByCategory } from '@/lib/export/summary';
+import { createReceipt, createTaxBreakdown } from './helpers';
+
+const receipts = [
+  createReceipt('sale', {
+    direction: 'income',
+    issuerName: '自分の屋号',
+    recipientName: '株式会社クライアント',
+    transactionDate: new Date(2025, 3, 30),
+    totalAmount: 330000,
+    taxBreakdown: [createTaxBreakdown(10, 330000, 30000)],
+  }),
+  createReceipt('stock', {
+    direction: 'purchase',
+    issuerName: '問屋',
+    transactionDate: new Date(2025, 3, 10),
+    totalAmount: 55000,
+    taxBreakdown: [createTaxBreakdown(10, 55000, 5000)],
+  }),
+  createReceipt('paper', { transactionDate: new Date(2025, 3, 20) }),
+];
+
+test.describe('Income and purchase documents', () => {
+  test('are labelled 売上 and 仕入 instead of their category', () => {
+    expect(receipts.map((r) => getAccountLabel(r.extractedData))).toEqual(['売上', '仕入', '消耗品費']);
+  });
+
+  test('go to the 売上 and 仕入 ledger columns', () => {
+    const { rows, grandTotal } = transformReceiptsToLedger(receipts).ledger;
+
+    expect(rows.map((r) => [r.receiptId, r.sales, r.purchases, r.consumables])).toEqual([
+      ['stock', undefined, 55000, undefined],
+      ['paper', undefined, undefined, 1100],
+      ['sale', 330000, undefined, undefined],
+    ]);
+    expect(grandTotal).toMatchObject({ totalIncome: 330000, totalExpenses: 1100, netAmount: 330000 - 55000 - 1100 });
+  });
+
+  test('book income under the customer\'s name', () => {
+    const { rows } = transformReceiptsToLedger(receipts).ledger;
+
+    expect(rows.find((r) => r.receiptId === 'sale')?.description).toContain('株式会社クライアント');
+  });
+
+  test('keep income out of the payment totals', () => {
+    const summary = summarizeByCategory(receipts);
+
+    expect(summary.payments).toMatchObject({ count: 2, total: 55000 + 1100 });
+    expect(summary.income).toMatchObject({ count: 1, total: 330000 });
+  });
+});
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import {
+  detectRecurringSeries,
+  getTemplatePeriods,
+  isMissingEntry,
+  matchRecurringEntries,
+} from '@/lib/recurring/series';
+import { normalizeName } from '@/lib/utils/format';
+import type { RecurringTemplate } from '@/types/recurring';
+import { createReceipt } from './helpers';
+
+function createBill(id: string, issuerName: string, amount: number, date: Date) {
+  return createReceipt(id, { issuerName, totalAmount: amount, transactionDate: date });
+}
+
+function createTemplate(template: Partial<RecurringTemplate> = {}): RecurringTemplate {
+  return {
+    id: 'rent',
+    name: '大家',
+    names: [normalizeName('大家')],
+    category: '地代家賃',
+    amount: 80000,
+    dayOfMonth: 31,
+    startMonth: '2025-12',
+    createdAt: new Date(2025, 11, 1),
+    updatedAt: new Date(2025, 11, 1),
+    ...template,
+  };
+}
+
+test.describe('Recurring series detection', () => {
+  test('suggests a vendor paid about the same amount every month', () => {
+    const receipts = [
+      createBill('r1', 'クラウドサーバー', 1980, new Date(2025, 0, 5)),
+      createBill('r2', 'クラウドサーバー', 1980, new Date(2025, 1, 5)),
+      createBill('r3', 'クラウドサーバー', 2100, new Date(2025, 2, 6)),
+      createBill('r4', 'クラウドサーバー', 1980, new Date(2025, 3, 5)),
+    ];
+
+    const [suggestion, ...rest] = detectRecurringSeries(receipts, []);
+    expect(rest).toEqual([]);
+    expect(suggestion).toMatchObject({
+      name: 'クラウドサーバー',
+      amount: 1980,
+      dayOfMonth: 5,
+      months: ['2025-01', '2025-02', '2025-03', '2025-04'],
+    });
+  });
+
+  test('ignores shops visited several times a month and vendors with a template', () => {
+    const cafe = [0, 1, 2].flatMap((month) =>
+      [3, 10, 17].map((day) => createBill(`c${month}-${day}`, 'カフェ', 500, new Date(2025, month, day)))
+    );
+    const rent = [0, 1, 2].map((month) => createBill(`r${month}`, '大家', 80000, new Date(2025, month, 31)));
+
+    expect(detectRecurringSeries([...cafe, ...rent], [createTemplate()])).toEqual([]);
+  });
+
+  test('uses the latest run of months after a long gap', () => {
+    const receipts = [
+      createBill('old1', '回線', 5000, new Date(2024, 0, 20)),
+      createBill('old2', '回線', 5000, new Date(2024, 1, 20)),
+      createBill('new1', '回線', 5000, new Date(2024, 8, 20)),
+      createBill('new2', '回線', 5000, new Date(2024, 9, 20)),
+      createBill('new3', '回線', 5000, new Date(2024, 11, 20)),
+    ];
+
+    const [suggestion] = detectRecurringSeries(receipts, []);
+    expect(suggestion.months).toEqual(['2024-09', '2024-10', '2024-12']);
+    expect(suggestion.receipts.map((r) => r.id)).toEqual(['new1', 'new2', 'new3']);
+  });
+});
+
+test.describe('Recurring entries', () => {
+  test('a template expects every month up to today or its end month', () => {
+    expect(getTemplatePeriods(createTemplate(), '2026-02-10')).toEqual([
+      '2025-12',
+      '2026-01',
+      '2026-02',
+    ]);
+    expect(getTemplatePeriods(createTemplate({ endMonth: '2026-01' }), '2026-03-01')).toEqual([
+      '2025-12',
+      '2026-01',
+    ]);
+  });
+
+  test('each month gets the closest receipt, and skipped months stay skipped', () => {
+    const template = createTemplate();
+    const receipts = [
+      createBill('dec', '大家', 80000, new Date(2025, 11, 30)),
+      createBill('feb', '大家', 80000, new Date(2026, 1, 27)),
+      createBill('other', '大家', 120000, new Date(2026, 0, 31)),
+    ];
+    const stored = [
+      { id: 'rent:2026-01', templateId: 'rent', period: '2026-01', expectedDate: '2026-01-31', status: 'skipped' as const },
+    ];
+
+    const entries = matchRecurringEntries(template, stored, receipts, '2026-03-05');
+    expect(entries.map((e) => [e.period, e.expectedDate, e.status, e.receiptId])).toEqual([
+      ['2025-12', '2025-12-31', 'matched', 'dec'],
+      ['2026-01', '2026-01-31', 'skipped', undefined],
+      ['2026-02', '2026-02-28', 'matched', 'feb'],
+      ['2026-03', '2026-03-31', 'expected', undefined],
+    ]);
+  });
+
+  test('an expected month is missing a week after its date', () => {
+    const entry = {
+      id: 'rent:2026-01',
+      templateId: 'rent',
+      period: '2026-01',
+      expectedDate: '2026-01-31',
+      status: 'expected' as const,
+    };
+
+    expect(isMissingEntry(entry, '2026-02-07')).toBe(false);
+    expect(isMissingEntry(entry, '2026-02-08')).toBe(true);
+    expect(isMissingEntry({ ...entry, status: 'skipped' }, '2026-03-01')).toBe(false);
+  });
+});
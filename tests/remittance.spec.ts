@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import {
+  getRemittancePeriod,
+  getRemittanceSlips,
+  getReminderStatus,
+} from '@/lib/withholding/remittance';
+import type { WithholdingInfo } from '@/types/withholding';
+import { createReceipt } from './helpers';
+
+function createFee(id: string, issuerName: string, amount: number, withholding: WithholdingInfo) {
+  return createReceipt(id, {
+    issuerName,
+    totalAmount: amount,
+    transactionDate: new Date(withholding.paymentDate),
+    suggestedCategory: '外注工賃',
+    withholding,
+  });
+}
+
+test.describe('Withholding remittance', () => {
+  test('monthly tax is due on the 10th of the next month, moved off weekends', () => {
+    const april = getRemittancePeriod(
+      { amount: 10210, category: 'manuscript', paymentDate: '2025-03-25' },
+      'monthly'
+    );
+    expect(april).toMatchObject({ key: '2025-03:fees', form: 'fees', dueDate: '2025-04-10' });
+
+    // 2025-05-10 is a Saturday
+    const may = getRemittancePeriod(
+      { amount: 10210, category: 'professional', paymentDate: '2025-04-30' },
+      'monthly'
+    );
+    expect(may).toMatchObject({ key: '2025-04:general', form: 'general', dueDate: '2025-05-12' });
+
+    // December's tax is due in January (2026-01-10 is a Saturday)
+    const december = getRemittancePeriod(
+      { amount: 10210, category: 'manuscript', paymentDate: '2025-12-15' },
+      'monthly'
+    );
+    expect(december.dueDate).toBe('2026-01-12');
+  });
+
+  test('納期の特例 covers professionals but not 原稿料', () => {
+    const firstHalf = getRemittancePeriod(
+      { amount: 10210, category: 'professional', paymentDate: '2025-06-30' },
+      'semiAnnual'
+    );
+    expect(firstHalf).toMatchObject({
+      key: '2025-H1:special',
+      startMonth: 1,
+      endMonth: 6,
+      dueDate: '2025-07-10',
+    });
+
+    const secondHalf = getRemittancePeriod(
+      { amount: 9189, category: 'judicialScrivener', paymentDate: '2025-07-01' },
+      'semiAnnual'
+    );
+    expect(secondHalf.dueDate).toBe('2026-01-20');
+
+    const manuscript = getRemittancePeriod(
+      { amount: 10210, category: 'manuscript', paymentDate: '2025-07-01' },
+      'semiAnnual'
+    );
+    expect(manuscript).toMatchObject({ key: '2025-07:fees', dueDate: '2025-08-11' });
+  });
+
+  test('slips total each period and count every payee once', () => {
+    const receipts = [
+      createFee('r1', '山田太郎', 100000, { amount: 10210, category: 'manuscript', paymentDate: '2025-03-05' }),
+      createFee('r2', '山田 太郎', 50000, { amount: 5105, category: 'manuscript', paymentDate: '2025-03-20' }),
+      createFee('r3', '鈴木花子', 30000, { amount: 3063, category: 'professional', paymentDate: '2025-03-20' }),
+      createReceipt('r4', { totalAmount: 50000 }),
+    ];
+
+    const slips = getRemittanceSlips(receipts, {
+      schedule: 'monthly',
+      paid: { '2025-03:fees': '2025-04-08' },
+    });
+    expect(
+      slips.map((s) => [s.key, s.payeeCount, s.grossAmount, s.taxAmount, s.paidOn])
+    ).toEqual([
+      ['2025-03:fees', 1, 150000, 15315, '2025-04-08'],
+      ['2025-03:general', 1, 30000, 3063, undefined],
+    ]);
+  });
+
+  test('unpaid slips are due soon within 14 days of the due date', () => {
+    const slip = getRemittanceSlips(
+      [createFee('r1', '山田太郎', 100000, { amount: 10210, category: 'manuscript', paymentDate: '2025-03-05' })],
+      { schedule: 'monthly', paid: {} }
+    )[0];
+
+    expect(getReminderStatus(slip, '2025-03-20')).toBe('upcoming');
+    expect(getReminderStatus(slip, '2025-03-27')).toBe('dueSoon');
+    expect(getReminderStatus(slip, '2025-04-10')).toBe('dueSoon');
+    expect(getReminderStatus(slip, '2025-04-11')).toBe('overdue');
+  });
+});
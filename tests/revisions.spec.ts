@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test';
+import { diffReceipts, revertChanges } from '@/lib/revisions/diff';
+import { createReceipt } from './helpers';
+
+test.describe('Receipt revisions', () => {
+  test('records each changed extracted field and skips updatedAt', () => {
+    const before = createReceipt('r1');
+    const after = {
+      ...before,
+      updatedAt: new Date(2025, 0, 2),
+      needsReview: true,
+      extractedData: { ...before.extractedData, totalAmount: 2200, memo: '打合せ' },
+    };
+
+    expect(diffReceipts(before, after)).toEqual([
+      { field: 'needsReview', before: false, after: true },
+      { field: 'extractedData.totalAmount', before: 1100, after: 2200 },
+      { field: 'extractedData.memo', before: undefined, after: '打合せ' },
+    ]);
+  });
+
+  test('undo puts changed fields back and removes added ones', () => {
+    const before = createReceipt('r1');
+    const after = {
+      ...before,
+      needsReview: true,
+      extractedData: { ...before.extractedData, totalAmount: 2200, memo: '打合せ' },
+    };
+
+    const update = revertChanges(after, diffReceipts(before, after));
+    expect(update.needsReview).toBe(false);
+    expect(update.extractedData).toEqual(before.extractedData);
+  });
+
+  test('undo keeps later edits to other fields', () => {
+    const before = createReceipt('r1');
+    const edited = {
+      ...before,
+      extractedData: { ...before.extractedData, totalAmount: 2200 },
+    };
+    const changes = diffReceipts(before, edited);
+    const later = {
+      ...edited,
+      extractedData: { ...edited.extractedData, issuerName: 'Other Store' },
+    };
+
+    const update = revertChanges(later, changes);
+    expect(update.extractedData?.totalAmount).toBe(1100);
+    expect(update.extractedData?.issuerName).toBe('Other Store');
+    expect(update).not.toHaveProperty('needsReview');
+  });
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { ALL_FIELDS, mergeReceipt } from '@/lib/sync/merge';
+import { decodeValue, encodeValue } from '@/lib/utils/serialize';
+import type { SyncChange } from '@/types/sync';
+import { createReceipt } from './helpers';
+
+// The server reads SYNC_DATA_DIR when it is loaded, so point it at a temporary directory first
+process.env.SYNC_DATA_DIR = mkdtempSync(path.join(tmpdir(), 'sync-spec-'));
+const server = require('@/lib/sync/server') as typeof import('@/lib/sync/server');
+
+function updatedAt(receipt: ReturnType<typeof createReceipt>, day: number) {
+  return { ...receipt, updatedAt: new Date(2025, 0, day) };
+}
+
+function deleteChange(receiptId: string): SyncChange {
+  return { receiptId, action: 'delete', changedAt: '2025-01-01T00:00:00.000Z', fields: [] };
+}
+
+test.describe('Sync merge', () => {
+  test('takes fields only the other device changed and keeps local edits', () => {
+    const base = createReceipt('r1');
+    const local = updatedAt(
+      { ...base, extractedData: { ...base.extractedData, issuerName: 'Local Store' } },
+      2
+    );
+    const remote = updatedAt(
+      { ...base, extractedData: { ...base.extractedData, totalAmount: 2200 } },
+      3
+    );
+
+    const { merged, conflicts } = mergeReceipt(
+      local,
+      remote,
+      new Set(['extractedData.issuerName']),
+      ['extractedData.totalAmount']
+    );
+    expect(merged.extractedData.issuerName).toBe('Local Store');
+    expect(merged.extractedData.totalAmount).toBe(2200);
+    expect(conflicts).toEqual([]);
+  });
+
+  test('a field changed on both devices goes to the newer receipt', () => {
+    const base = createReceipt('r1');
+    const edit = (amount: number, day: number) =>
+      updatedAt({ ...base, extractedData: { ...base.extractedData, totalAmount: amount } }, day);
+    const fields = ['extractedData.totalAmount'];
+
+    const remoteNewer = mergeReceipt(edit(1500, 2), edit(2200, 3), new Set(fields), fields);
+    expect(remoteNewer.merged.extractedData.totalAmount).toBe(2200);
+    expect(remoteNewer.conflicts).toEqual(fields);
+
+    const localNewer = mergeReceipt(edit(1500, 4), edit(2200, 3), new Set(fields), fields);
+    expect(localNewer.merged.extractedData.totalAmount).toBe(1500);
+    expect(localNewer.merged.updatedAt).toEqual(new Date(2025, 0, 4));
+  });
+
+  test('a whole-receipt change is merged field by field', () => {
+    const base = createReceipt('r1');
+    const remote = updatedAt(
+      { ...base, needsReview: true, extractedData: { ...base.extractedData, totalAmount: 2200 } },
+      3
+    );
+
+    const { merged, conflicts } = mergeReceipt(updatedAt(base, 2), remote, new Set(), [ALL_FIELDS]);
+    expect(merged.needsReview).toBe(true);
+    expect(merged.extractedData.totalAmount).toBe(2200);
+    expect(conflicts).toEqual([]);
+  });
+
+  test('dates and images survive encoding for the wire', async () => {
+    const receipt = { ...createReceipt('r1'), image: new Blob(['abc'], { type: 'image/png' }) };
+
+    const decoded = decodeValue(JSON.parse(JSON.stringify(await encodeValue(receipt)))) as typeof receipt;
+    expect(decoded.createdAt).toEqual(receipt.createdAt);
+    expect(decoded.extractedData.transactionDate).toEqual(receipt.extractedData.transactionDate);
+    expect(decoded.image.type).toBe('image/png');
+    expect(await decoded.image.text()).toBe('abc');
+  });
+});
+
+test.describe('Sync server', () => {
+  test('pull returns other devices\' changes after the cursor', async () => {
+    expect(await server.appendChanges('phone', [deleteChange('r1'), deleteChange('r2')])).toBe(2);
+    expect(await server.appendChanges('laptop', [deleteChange('r3')])).toBe(3);
+
+    const fromStart = await server.readChanges(0, 'laptop');
+    expect(fromStart.entries.map((entry) => entry.change.receiptId)).toEqual(['r1', 'r2']);
+    expect(fromStart.latestSeq).toBe(3);
+    expect(fromStart.hasMore).toBe(false);
+
+    const afterFirst = await server.readChanges(1, 'phone');
+    expect(afterFirst.entries.map((entry) => entry.seq)).toEqual([3]);
+
+    const upToDate = await server.readChanges(3, 'phone');
+    expect(upToDate.entries).toEqual([]);
+    expect(upToDate.latestSeq).toBe(3);
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect } from '@playwright/test';
+import { findPayee } from '@/lib/export/form309';
+import { matchesTemplate } from '@/lib/recurring/series';
+import { getNameSimilarity } from '@/lib/statements/matching';
+import { normalizeName } from '@/lib/utils/format';
+import { getDuplicateReasons } from '@/lib/validation/duplicates';
+import { registrantNameMatches } from '@/lib/validation/registry';
+import { getVendorNames } from '@/lib/vendors/profile';
+import type { Payee } from '@/types/payee';
+import type { RecurringTemplate } from '@/types/recurring';
+import type { InvoiceRegistrant } from '@/types/registry';
+import { createReceipt } from './helpers';
+
+const createdAt = new Date(2025, 0, 1);
+
+test.describe('Name normalization', () => {
+  test('folds width, case, spacing and legal-entity markers', () => {
+    expect(normalizeName('株式会社 ＡＢＣ・ｼｮｯﾌﾟ')).toBe('abcショップ');
+    expect(normalizeName('(株)abc ショップ')).toBe('abcショップ');
+  });
+
+  test('keeps the long-vowel mark', () => {
+    expect(normalizeName('ｺｰﾋｰ館')).toBe('コーヒー館');
+    expect(normalizeName('コーヒー館')).not.toBe(normalizeName('コヒ館'));
+  });
+
+  test('vendor names are stored normalized and deduplicated', () => {
+    expect(getVendorNames('ｺｰﾋｰ館', 'コーヒー館', null)).toEqual(['コーヒー館']);
+  });
+});
+
+test.describe('Name matching callers', () => {
+  test('payees match half-width issuer names', () => {
+    const payee: Payee = {
+      id: 'designer',
+      name: 'デザイナー太郎',
+      names: [normalizeName('デザイナー太郎')],
+      payeeType: 'individual',
+      category: 'manuscript',
+      createdAt,
+      updatedAt: createdAt,
+    };
+
+    expect(findPayee({ tNumber: null, issuerName: 'ﾃﾞｻﾞｲﾅｰ 太郎' }, [payee])?.id).toBe('designer');
+    expect(findPayee({ tNumber: null, issuerName: 'デザイナ太郎' }, [payee])).toBeUndefined();
+  });
+
+  test('recurring templates match by normalized issuer name', () => {
+    const template: RecurringTemplate = {
+      id: 'server',
+      name: 'サーバー代',
+      names: [normalizeName('サーバー代')],
+      category: '通信費',
+      amount: 1100,
+      dayOfMonth: 1,
+      startMonth: '2025-01',
+      createdAt,
+      updatedAt: createdAt,
+    };
+
+    expect(matchesTemplate(createReceipt('march', { issuerName: 'ｻｰﾊﾞｰ代' }), template)).toBe(true);
+    expect(matchesTemplate(createReceipt('other', { issuerName: 'サバ代' }), template)).toBe(false);
+  });
+
+  test('statement descriptions match abbreviated katakana', () => {
+    expect(getNameSimilarity('ｱﾏｿﾞﾝ', 'アマゾンジャパン合同会社')).toBe(1);
+    expect(getNameSimilarity('ｺｰﾋｰｶﾝ', 'コーヒーカン')).toBe(1);
+  });
+
+  test('duplicates and registry names compare normalized names', () => {
+    const reasons = getDuplicateReasons(
+      createReceipt('a', { issuerName: 'ｺｰﾋｰ館' }),
+      createReceipt('b', { issuerName: 'コーヒー館' })
+    );
+    expect(reasons).toContain('issuer');
+
+    const registrant: InvoiceRegistrant = {
+      tNumber: 'T1234567890123',
+      kind: 'corporation',
+      name: '株式会社コーヒー館',
+      registrationDate: '2023-10-01',
+    };
+    expect(registrantNameMatches('ｺｰﾋｰ館 渋谷店', registrant)).toBe(true);
+  });
+});
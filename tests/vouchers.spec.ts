@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test';
+import { transformReceiptsToLedger } from '@/lib/export/ledger-transform';
+import { validateReceiptData } from '@/lib/validation/receipt';
+import { buildVoucherData, describeVoucher, isVoucher } from '@/lib/vouchers/voucher';
+import type { VoucherInput } from '@/types/voucher';
+import { createReceipt } from './helpers';
+
+function createInput(input: Partial<VoucherInput> = {}): VoucherInput {
+  return {
+    date: '2025-05-12',
+    payee: ' JR東日本 ',
+    description: '打合せ往復',
+    amount: 1100,
+    taxRate: 10,
+    category: '旅費交通費',
+    paymentMethod: 'cash',
+    reason: '券売機のため領収書なし',
+    ...input,
+  };
+}
+
+test.describe('Payment vouchers', () => {
+  test('the amount is tax-included at the chosen rate', () => {
+    const data = buildVoucherData(createInput(), new Date(2025, 4, 13));
+
+    expect(data.issuerName).toBe('JR東日本');
+    expect(data.taxBreakdown).toEqual([{ taxRate: 10, subtotal: 1000, taxAmount: 100, total: 1100 }]);
+    expect(data.subtotalExcludingTax).toBe(1000);
+    expect(data.voucher).toEqual({ reason: '券売機のため領収書なし', preparedOn: '2025-05-13' });
+    expect(isVoucher(data)).toBe(true);
+  });
+
+  test('payments without consumption tax have no breakdown and no total warning', () => {
+    const data = buildVoucherData(
+      createInput({ payee: '山田家', amount: 10000, taxRate: 0, category: '接待交際費', reason: '香典' })
+    );
+
+    expect(data.taxBreakdown).toEqual([]);
+    expect(data.subtotalExcludingTax).toBe(10000);
+    const { warnings } = validateReceiptData(data);
+    expect(warnings.map((w) => w.type)).not.toContain('total_amount_mismatch');
+  });
+
+  test('a voucher without a reason is flagged', () => {
+    const { warnings } = validateReceiptData(buildVoucherData(createInput({ reason: '  ' })));
+    expect(warnings.map((w) => w.type)).toContain('voucher_reason_missing');
+  });
+
+  test('the ledger marks vouchers with their reason', () => {
+    const voucher = { ...createReceipt('v1'), extractedData: buildVoucherData(createInput()) };
+    const { rows } = transformReceiptsToLedger([voucher, createReceipt('r1')]).ledger;
+
+    expect(describeVoucher(voucher.extractedData)).toBe('【出金伝票】券売機のため領収書なし');
+    expect(rows.find((r) => r.receiptId === 'v1')?.description).toContain('【出金伝票】券売機のため領収書なし');
+    expect(rows.find((r) => r.receiptId === 'r1')?.description).not.toContain('出金伝票');
+  });
+});
@@ -0,0 +1,27 @@
+import { test, expect } from '@playwright/test';
+import { calculateWithholdingByCategory, calculateWithholdingTax } from '@/lib/export/form309';
+
+test.describe('Withholding tax', () => {
+  test('10.21% up to ¥1,000,000', () => {
+    expect(calculateWithholdingTax(100000)).toBe(10210);
+    expect(calculateWithholdingTax(55555)).toBe(5672);
+    expect(calculateWithholdingTax(1000000)).toBe(102100);
+  });
+
+  test('20.42% on the part over ¥1,000,000', () => {
+    expect(calculateWithholdingTax(1000001)).toBe(102100);
+    expect(calculateWithholdingTax(1500000)).toBe(102100 + 102100);
+  });
+
+  test('司法書士 fees are withheld at 10.21% on the part over ¥10,000', () => {
+    expect(calculateWithholdingByCategory(50000, 'judicialScrivener')).toBe(4084);
+    expect(calculateWithholdingByCategory(8000, 'judicialScrivener')).toBe(0);
+    expect(calculateWithholdingByCategory(2000000, 'judicialScrivener')).toBe(203179);
+  });
+
+  test('other categories follow the two-rate rule or withhold nothing', () => {
+    expect(calculateWithholdingByCategory(1500000, 'professional')).toBe(204200);
+    expect(calculateWithholdingByCategory(1500000, 'manuscript')).toBe(204200);
+    expect(calculateWithholdingByCategory(1500000, 'notSubject')).toBe(0);
+  });
+});